@@ -0,0 +1,5 @@
+// API key a map request was made with, attached to the request by the guard
+export type ApiKeyClient = {
+  id: string;
+  name: string;
+};
@@ -0,0 +1,80 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ApiKeysService } from './api-keys.service';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import {
+  ApiKeyResponseDto,
+  CreatedApiKeyResponseDto,
+} from './dto/api-key-response.dto';
+import { AdminGuard } from '../auth/guards/admin.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/auth-user.type';
+import {
+  ApiCommonProblemResponses,
+  ApiProblemResponse,
+} from '../errors/api-problem-response.decorator';
+
+@ApiTags('Admin')
+@ApiBearerAuth()
+@ApiCommonProblemResponses()
+@ApiProblemResponse(401, 'Missing or invalid bearer token')
+@ApiProblemResponse(403, 'The token lacks the admin role')
+@UseGuards(AuthGuard('jwt'), AdminGuard)
+@Controller({
+  path: 'admin/api-keys',
+  version: '1',
+})
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @ApiOperation({ summary: 'Create an API key' })
+  @ApiResponse({
+    status: 201,
+    description: 'Returns the key; it is shown only this once',
+    type: CreatedApiKeyResponseDto,
+  })
+  @Post()
+  async create(
+    @Body() body: CreateApiKeyDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<CreatedApiKeyResponseDto> {
+    return await this.apiKeysService.create(body, user);
+  }
+
+  @ApiOperation({ summary: 'List API keys with this month’s usage' })
+  @ApiResponse({ status: 200, type: [ApiKeyResponseDto] })
+  @Get()
+  async list(): Promise<ApiKeyResponseDto[]> {
+    return await this.apiKeysService.list();
+  }
+
+  @ApiOperation({ summary: 'An API key with its monthly usage counters' })
+  @ApiResponse({ status: 200, type: ApiKeyResponseDto })
+  @ApiProblemResponse(404, 'Unknown API key')
+  @Get(':id')
+  async get(@Param('id') id: string): Promise<ApiKeyResponseDto> {
+    return await this.apiKeysService.get(id);
+  }
+
+  @ApiOperation({ summary: 'Revoke an API key' })
+  @ApiResponse({ status: 200, type: ApiKeyResponseDto })
+  @ApiProblemResponse(404, 'Unknown API key')
+  @Delete(':id')
+  async revoke(@Param('id') id: string): Promise<ApiKeyResponseDto> {
+    return await this.apiKeysService.revoke(id);
+  }
+}
@@ -0,0 +1,120 @@
+import { Types } from 'mongoose';
+import { ApiKeysService } from './api-keys.service';
+import {
+  InvalidApiKeyError,
+  QuotaExceededError,
+  RateLimitExceededError,
+} from '../errors/domain-errors';
+
+const KEY = 'mk_test';
+
+const query = <T>(value: T) => ({
+  select: () => query(value),
+  lean: () => query(value),
+  exec: () => Promise.resolve(value),
+});
+
+// One key and its usage counters for the current month, in memory
+function setup(limits: { ratePerMinute: number; monthlyQuota: number }) {
+  const keyId = new Types.ObjectId();
+  const usage = { requests: 0, rejected: 0 };
+  const apiKeyModel = {
+    findOne: () => query({ _id: keyId, name: 'Test', ...limits }),
+    updateOne: () => query(undefined),
+  };
+  const usageModel = {
+    findOneAndUpdate: (
+      _filter: object,
+      { $inc }: { $inc: { requests: number } },
+    ) => {
+      usage.requests += $inc.requests;
+      return query({ ...usage });
+    },
+    updateOne: (_filter: object, { $inc }: { $inc: Partial<typeof usage> }) => {
+      usage.requests += $inc.requests ?? 0;
+      usage.rejected += $inc.rejected ?? 0;
+      return query(undefined);
+    },
+  };
+
+  const service = new ApiKeysService(
+    apiKeyModel as any,
+    usageModel as any,
+    {} as any,
+  );
+  return { service, usage, client: { id: String(keyId), name: 'Test' } };
+}
+
+describe('ApiKeysService', () => {
+  it('should count one unit per request by default', async () => {
+    const { service, usage } = setup({ ratePerMinute: 10, monthlyQuota: 100 });
+
+    const { rate, quota } = await service.consume(KEY);
+
+    expect(rate).toMatchObject({ allowed: true, remaining: 9 });
+    expect(quota).toMatchObject({ allowed: true, remaining: 99 });
+    expect(usage.requests).toBe(1);
+  });
+
+  it('should count the units a caller passes', async () => {
+    const { service, usage } = setup({ ratePerMinute: 10, monthlyQuota: 100 });
+
+    const { rate, quota } = await service.consume(KEY, 4);
+
+    expect(rate.remaining).toBe(6);
+    expect(quota?.remaining).toBe(96);
+    expect(usage.requests).toBe(4);
+  });
+
+  it('should charge more units to an admitted request', async () => {
+    const { service, usage, client } = setup({
+      ratePerMinute: 10,
+      monthlyQuota: 100,
+    });
+    await service.consume(KEY);
+
+    await service.charge(client, 5);
+
+    expect(usage.requests).toBe(6);
+    await expect(service.consume(KEY, 4)).resolves.toMatchObject({
+      rate: { allowed: true, remaining: 0 },
+    });
+  });
+
+  it('should reject a charge over the rate limit', async () => {
+    const { service, usage, client } = setup({
+      ratePerMinute: 10,
+      monthlyQuota: 100,
+    });
+    await service.consume(KEY, 8);
+
+    await expect(service.charge(client, 5)).rejects.toBeInstanceOf(
+      RateLimitExceededError,
+    );
+    expect(usage).toEqual({ requests: 8, rejected: 1 });
+  });
+
+  it('should reject a charge over the quota and give its units back', async () => {
+    const { service, usage, client } = setup({
+      ratePerMinute: 100,
+      monthlyQuota: 10,
+    });
+    await service.consume(KEY, 8);
+
+    await expect(service.charge(client, 5)).rejects.toBeInstanceOf(
+      QuotaExceededError,
+    );
+    expect(usage).toEqual({ requests: 8, rejected: 1 });
+    await expect(service.consume(KEY, 2)).resolves.toMatchObject({
+      quota: { allowed: true, remaining: 0 },
+    });
+  });
+
+  it('should not charge a key it has not admitted', async () => {
+    const { service, client } = setup({ ratePerMinute: 10, monthlyQuota: 100 });
+
+    await expect(service.charge(client, 5)).rejects.toBeInstanceOf(
+      InvalidApiKeyError,
+    );
+  });
+});
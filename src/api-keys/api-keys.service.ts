@@ -0,0 +1,361 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { createHash, randomBytes } from 'crypto';
+import { ApiKey, ApiKeyDocument } from './schemas/api-key.schema';
+import {
+  ApiKeyUsage,
+  ApiKeyUsageDocument,
+} from './schemas/api-key-usage.schema';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import {
+  ApiKeyResponseDto,
+  ApiKeyUsageDto,
+  CreatedApiKeyResponseDto,
+} from './dto/api-key-response.dto';
+import {
+  takeToken,
+  TokenBucketResult,
+  TokenBucketState,
+} from './rate-limit/token-bucket';
+import { ApiKeyClient } from './api-key-client.type';
+import { AuthUser } from '../auth/auth-user.type';
+import { AllConfigType } from '../config/config.type';
+import {
+  InvalidApiKeyError,
+  QuotaExceededError,
+  RateLimitExceededError,
+  ResourceNotFoundError,
+} from '../errors/domain-errors';
+import { toServiceError } from '../errors/service-errors';
+
+const KEY_PREFIX = 'mk_';
+
+// Keys are looked up once per this interval; revoking on another instance
+// takes effect after it
+const KEY_CACHE_TTL_MS = 30 * 1000;
+
+// lastUsedAt is written at most this often per key
+const LAST_USED_INTERVAL_MS = 60 * 1000;
+
+// Months of usage returned when inspecting a key
+const USAGE_HISTORY_MONTHS = 12;
+
+export type ApiKeyQuotaResult = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the quota resets, at the start of the next month
+  resetSeconds: number;
+};
+
+export type ApiKeyCheck = {
+  client: ApiKeyClient;
+  rate: TokenBucketResult & { limit: number };
+  // Absent when the rate limit already turned the request away
+  quota?: ApiKeyQuotaResult;
+};
+
+type CachedKey = {
+  id: Types.ObjectId;
+  name: string;
+  ratePerMinute: number;
+  monthlyQuota: number;
+  revoked: boolean;
+  expiresAt: number;
+};
+
+const hashKey = (key: string) => createHash('sha256').update(key).digest('hex');
+
+const monthOf = (date: Date) => date.toISOString().slice(0, 7);
+
+@Injectable()
+export class ApiKeysService {
+  private readonly keys = new Map<string, CachedKey>();
+  // Hash of each key looked up, by key id, for charging admitted requests
+  private readonly hashes = new Map<string, string>();
+  // Token buckets live in this process; every instance enforces the rate
+  // on its own share of the traffic
+  private readonly buckets = new Map<string, TokenBucketState>();
+  private readonly lastUsedWrites = new Map<string, number>();
+
+  constructor(
+    @InjectModel(ApiKey.name)
+    private apiKeyModel: Model<ApiKeyDocument>,
+    @InjectModel(ApiKeyUsage.name)
+    private usageModel: Model<ApiKeyUsageDocument>,
+    private configService: ConfigService<AllConfigType>,
+  ) {}
+
+  get enabled(): boolean {
+    return this.configService.getOrThrow('apiKeys.enabled', { infer: true });
+  }
+
+  async create(
+    body: CreateApiKeyDto,
+    admin: AuthUser,
+  ): Promise<CreatedApiKeyResponseDto> {
+    try {
+      const defaults = this.configService.getOrThrow('apiKeys', {
+        infer: true,
+      });
+      const key = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+
+      const doc = await this.apiKeyModel.create({
+        name: body.name.trim(),
+        keyHash: hashKey(key),
+        prefix: key.slice(0, KEY_PREFIX.length + 6),
+        ratePerMinute: body.ratePerMinute ?? defaults.defaultRatePerMinute,
+        monthlyQuota: body.monthlyQuota ?? defaults.defaultMonthlyQuota,
+        createdBy: admin.id,
+      });
+
+      return { ...this.toResponse(doc, []), key };
+    } catch (error) {
+      throw toServiceError(error, 'Failed to create API key');
+    }
+  }
+
+  // Every key with its counters for the current month
+  async list(): Promise<ApiKeyResponseDto[]> {
+    try {
+      const docs = await this.apiKeyModel.find().sort({ createdAt: -1 }).exec();
+      const usage = await this.usageModel
+        .find({
+          key: { $in: docs.map((doc) => doc._id) },
+          month: monthOf(new Date()),
+        })
+        .lean()
+        .exec();
+      const byKey = new Map(usage.map((item) => [String(item.key), item]));
+
+      return docs.map((doc) => {
+        const current = byKey.get(String(doc._id));
+        return this.toResponse(doc, current ? [this.toUsage(current)] : []);
+      });
+    } catch (error) {
+      throw toServiceError(error, 'Failed to list API keys');
+    }
+  }
+
+  async get(id: string): Promise<ApiKeyResponseDto> {
+    try {
+      const doc = await this.findKey(id);
+      const usage = await this.usageModel
+        .find({ key: doc._id })
+        .sort({ month: -1 })
+        .limit(USAGE_HISTORY_MONTHS)
+        .lean()
+        .exec();
+      return this.toResponse(
+        doc,
+        usage.map((item) => this.toUsage(item)),
+      );
+    } catch (error) {
+      throw toServiceError(error, 'Failed to fetch API key');
+    }
+  }
+
+  // Revoking is permanent; revoking a revoked key changes nothing
+  async revoke(id: string): Promise<ApiKeyResponseDto> {
+    try {
+      const doc = await this.findKey(id);
+      if (!doc.revokedAt) {
+        doc.revokedAt = new Date();
+        await doc.save();
+      }
+      this.keys.delete(doc.keyHash);
+      this.buckets.delete(String(doc._id));
+      return await this.get(id);
+    } catch (error) {
+      throw toServiceError(error, 'Failed to revoke API key');
+    }
+  }
+
+  /**
+   * Counts a request of `units` against the key: first the per-minute
+   * token bucket, then the monthly quota. Rejected requests are counted
+   * too but do not use up quota.
+   */
+  async consume(key: string | undefined, units = 1): Promise<ApiKeyCheck> {
+    if (!key) {
+      throw new InvalidApiKeyError('Send an API key in the X-API-Key header');
+    }
+
+    const record = await this.lookup(hashKey(key));
+    if (!record || record.revoked) {
+      throw new InvalidApiKeyError('The API key is unknown or revoked');
+    }
+
+    return await this.take(record, units);
+  }
+
+  /**
+   * Counts `units` more against the key of a request ApiKeyGuard already
+   * admitted, for work whose size is known only once the input has been
+   * read. Throws when that takes the key over its rate or quota.
+   */
+  async charge(client: ApiKeyClient, units: number): Promise<void> {
+    if (units <= 0) {
+      return;
+    }
+
+    const keyHash = this.hashes.get(client.id);
+    const record = keyHash ? await this.lookup(keyHash) : undefined;
+    if (!record || record.revoked) {
+      throw new InvalidApiKeyError('The API key is unknown or revoked');
+    }
+
+    const { rate, quota } = await this.take(record, units);
+    if (!rate.allowed) {
+      throw new RateLimitExceededError(rate.retryAfterSeconds);
+    }
+    if (quota && !quota.allowed) {
+      throw new QuotaExceededError(quota.resetSeconds);
+    }
+  }
+
+  private async take(record: CachedKey, units: number): Promise<ApiKeyCheck> {
+    const id = String(record.id);
+    const client = { id, name: record.name };
+    const now = new Date();
+    const month = monthOf(now);
+
+    let bucket = this.buckets.get(id);
+    if (!bucket) {
+      bucket = { tokens: record.ratePerMinute, updatedAt: now.getTime() };
+      this.buckets.set(id, bucket);
+    }
+    const rate = {
+      ...takeToken(bucket, record.ratePerMinute, now.getTime(), units),
+      limit: record.ratePerMinute,
+    };
+    if (!rate.allowed) {
+      await this.countRejected(record.id, month);
+      return { client, rate };
+    }
+
+    const usage = await this.usageModel
+      .findOneAndUpdate(
+        { key: record.id, month },
+        { $inc: { requests: units } },
+        { upsert: true, new: true },
+      )
+      .lean()
+      .exec();
+    const allowed = usage.requests <= record.monthlyQuota;
+    if (!allowed) {
+      // Give the units back; the request is counted as rejected instead
+      await this.usageModel
+        .updateOne(
+          { key: record.id, month },
+          { $inc: { requests: -units, rejected: 1 } },
+        )
+        .exec();
+    }
+
+    await this.touch(record.id, now);
+
+    return {
+      client,
+      rate,
+      quota: {
+        allowed,
+        limit: record.monthlyQuota,
+        remaining: Math.max(
+          0,
+          record.monthlyQuota - usage.requests + (allowed ? 0 : units),
+        ),
+        resetSeconds: Math.ceil(
+          (Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1) -
+            now.getTime()) /
+            1000,
+        ),
+      },
+    };
+  }
+
+  private async lookup(keyHash: string): Promise<CachedKey | undefined> {
+    const cached = this.keys.get(keyHash);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached;
+    }
+
+    const doc = await this.apiKeyModel
+      .findOne({ keyHash })
+      .select('_id name ratePerMinute monthlyQuota revokedAt')
+      .lean()
+      .exec();
+    if (!doc) {
+      this.keys.delete(keyHash);
+      return undefined;
+    }
+
+    const record: CachedKey = {
+      id: doc._id as Types.ObjectId,
+      name: doc.name,
+      ratePerMinute: doc.ratePerMinute,
+      monthlyQuota: doc.monthlyQuota,
+      revoked: !!doc.revokedAt,
+      expiresAt: Date.now() + KEY_CACHE_TTL_MS,
+    };
+    this.keys.set(keyHash, record);
+    this.hashes.set(String(record.id), keyHash);
+    return record;
+  }
+
+  private async countRejected(key: Types.ObjectId, month: string) {
+    await this.usageModel
+      .updateOne({ key, month }, { $inc: { rejected: 1 } }, { upsert: true })
+      .exec();
+  }
+
+  private async touch(key: Types.ObjectId, now: Date) {
+    const id = String(key);
+    if (
+      (this.lastUsedWrites.get(id) ?? 0) + LAST_USED_INTERVAL_MS >
+      now.getTime()
+    ) {
+      return;
+    }
+    this.lastUsedWrites.set(id, now.getTime());
+    await this.apiKeyModel.updateOne({ _id: key }, { lastUsedAt: now }).exec();
+  }
+
+  private async findKey(id: string): Promise<ApiKeyDocument> {
+    const doc = Types.ObjectId.isValid(id)
+      ? await this.apiKeyModel.findById(id).exec()
+      : null;
+    if (!doc) {
+      throw new ResourceNotFoundError(`API key ${id} not found`);
+    }
+    return doc;
+  }
+
+  private toUsage(usage: ApiKeyUsage): ApiKeyUsageDto {
+    return {
+      month: usage.month,
+      requests: usage.requests,
+      rejected: usage.rejected,
+    };
+  }
+
+  private toResponse(
+    doc: ApiKeyDocument,
+    usage: ApiKeyUsageDto[],
+  ): ApiKeyResponseDto {
+    return {
+      id: String(doc._id),
+      name: doc.name,
+      prefix: doc.prefix,
+      ratePerMinute: doc.ratePerMinute,
+      monthlyQuota: doc.monthlyQuota,
+      createdBy: doc.createdBy,
+      createdAt: doc.createdAt as Date,
+      revokedAt: doc.revokedAt ?? null,
+      ...(doc.lastUsedAt ? { lastUsedAt: doc.lastUsedAt } : {}),
+      usage,
+    };
+  }
+}
@@ -0,0 +1,5 @@
+export type ApiKeysConfig = {
+  enabled: boolean;
+  defaultRatePerMinute: number;
+  defaultMonthlyQuota: number;
+};
@@ -0,0 +1,36 @@
+import { registerAs } from '@nestjs/config';
+import { IsBoolean, IsInt, IsOptional, Min } from 'class-validator';
+import validateConfig from '../../utils/validate-config';
+import { ApiKeysConfig } from './api-keys-config.type';
+
+class EnvironmentVariablesValidator {
+  @IsBoolean()
+  @IsOptional()
+  API_KEYS_ENABLED: boolean;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  API_KEY_DEFAULT_RATE_PER_MINUTE: number;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  API_KEY_DEFAULT_MONTHLY_QUOTA: number;
+}
+
+export default registerAs<ApiKeysConfig>('apiKeys', () => {
+  validateConfig(process.env, EnvironmentVariablesValidator);
+
+  return {
+    // Only switch off for local development; the map routes are then open
+    enabled: process.env.API_KEYS_ENABLED !== 'false',
+    // Limits for keys created without their own
+    defaultRatePerMinute: process.env.API_KEY_DEFAULT_RATE_PER_MINUTE
+      ? parseInt(process.env.API_KEY_DEFAULT_RATE_PER_MINUTE, 10)
+      : 600,
+    defaultMonthlyQuota: process.env.API_KEY_DEFAULT_MONTHLY_QUOTA
+      ? parseInt(process.env.API_KEY_DEFAULT_MONTHLY_QUOTA, 10)
+      : 1000000,
+  };
+});
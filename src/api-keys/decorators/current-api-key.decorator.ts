@@ -0,0 +1,8 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { ApiKeyClient } from '../api-key-client.type';
+
+// Undefined when API keys are disabled in the configuration
+export const CurrentApiKey = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): ApiKeyClient | undefined =>
+    ctx.switchToHttp().getRequest().apiKey,
+);
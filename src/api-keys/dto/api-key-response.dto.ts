@@ -0,0 +1,61 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ApiKeyUsageDto {
+  @ApiProperty({ description: 'Calendar month, UTC', example: '2026-10' })
+  month: string;
+
+  @ApiProperty({ description: 'Requests counted against the quota' })
+  requests: number;
+
+  @ApiProperty({
+    description: 'Requests turned away by the rate limit or the quota',
+  })
+  rejected: number;
+}
+
+export class ApiKeyResponseDto {
+  @ApiProperty({ example: '6671b0c2f1a4e3d9c8b7a601' })
+  id: string;
+
+  @ApiProperty({ example: 'Municipality viewer' })
+  name: string;
+
+  @ApiProperty({
+    description: 'First characters of the key',
+    example: 'mk_Q2x9fA',
+  })
+  prefix: string;
+
+  @ApiProperty({ example: 600 })
+  ratePerMinute: number;
+
+  @ApiProperty({ example: 1000000 })
+  monthlyQuota: number;
+
+  @ApiProperty({ description: 'Subject of the admin token that created it' })
+  createdBy: string;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiPropertyOptional({ nullable: true })
+  revokedAt: Date | null;
+
+  @ApiPropertyOptional()
+  lastUsedAt?: Date;
+
+  @ApiProperty({
+    description: 'Counters per month, newest first',
+    type: [ApiKeyUsageDto],
+  })
+  usage: ApiKeyUsageDto[];
+}
+
+export class CreatedApiKeyResponseDto extends ApiKeyResponseDto {
+  @ApiProperty({
+    description:
+      'The key to send in X-API-Key. It is not stored and cannot be shown again.',
+    example: 'mk_Q2x9fAaV3nq0r8Yd1Lw5eKp7sTbZc4Hm',
+  })
+  key: string;
+}
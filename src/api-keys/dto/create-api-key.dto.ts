@@ -0,0 +1,40 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class CreateApiKeyDto {
+  @ApiProperty({
+    description: 'Who or what the key is for',
+    example: 'Municipality viewer',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Requests per minute, also the largest burst; defaults to API_KEY_DEFAULT_RATE_PER_MINUTE',
+    example: 600,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  ratePerMinute?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Requests per calendar month (UTC); defaults to API_KEY_DEFAULT_MONTHLY_QUOTA',
+    example: 1000000,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  monthlyQuota?: number;
+}
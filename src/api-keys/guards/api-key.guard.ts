@@ -0,0 +1,55 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { ApiKeysService } from '../api-keys.service';
+import {
+  QuotaExceededError,
+  RateLimitExceededError,
+} from '../../errors/domain-errors';
+
+export const API_KEY_HEADER = 'x-api-key';
+
+/**
+ * Admits requests with a valid X-API-Key and reports the key's limits in
+ * X-RateLimit-* headers, on rejected requests as well. Open when API keys
+ * are disabled in the configuration.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    if (!this.apiKeysService.enabled) {
+      return true;
+    }
+
+    const http = context.switchToHttp();
+    const request = http.getRequest<Request & { apiKey?: unknown }>();
+    const response = http.getResponse<Response>();
+
+    const { client, rate, quota } = await this.apiKeysService.consume(
+      request.header(API_KEY_HEADER),
+    );
+
+    response.setHeader('X-RateLimit-Limit', String(rate.limit));
+    response.setHeader('X-RateLimit-Remaining', String(rate.remaining));
+    response.setHeader('X-RateLimit-Reset', String(rate.resetSeconds));
+    if (!rate.allowed) {
+      throw new RateLimitExceededError(rate.retryAfterSeconds);
+    }
+
+    if (quota) {
+      response.setHeader('X-RateLimit-Quota-Limit', String(quota.limit));
+      response.setHeader(
+        'X-RateLimit-Quota-Remaining',
+        String(quota.remaining),
+      );
+      response.setHeader('X-RateLimit-Quota-Reset', String(quota.resetSeconds));
+      if (!quota.allowed) {
+        throw new QuotaExceededError(quota.resetSeconds);
+      }
+    }
+
+    request.apiKey = client;
+    return true;
+  }
+}
@@ -0,0 +1,110 @@
+import { takeToken, TokenBucketState } from './token-bucket';
+
+const START = 1_700_000_000_000;
+
+const fullBucket = (capacity: number): TokenBucketState => ({
+  tokens: capacity,
+  updatedAt: START,
+});
+
+describe('takeToken', () => {
+  it('should allow a burst up to the capacity, then refuse', () => {
+    const state = fullBucket(60);
+    const results = Array.from({ length: 61 }, () =>
+      takeToken(state, 60, START),
+    );
+
+    expect(results.slice(0, 60).every((result) => result.allowed)).toBe(true);
+    expect(results[59].remaining).toBe(0);
+    expect(results[60]).toMatchObject({ allowed: false, remaining: 0 });
+  });
+
+  it('should count down the remaining tokens', () => {
+    const state = fullBucket(10);
+
+    expect(takeToken(state, 10, START).remaining).toBe(9);
+    expect(takeToken(state, 10, START).remaining).toBe(8);
+  });
+
+  it('should refill evenly over a minute', () => {
+    const state: TokenBucketState = { tokens: 0, updatedAt: START };
+
+    // 60 per minute is one token a second
+    expect(takeToken(state, 60, START + 500).allowed).toBe(false);
+    expect(takeToken(state, 60, START + 1000).allowed).toBe(true);
+    expect(takeToken(state, 60, START + 1000).allowed).toBe(false);
+  });
+
+  it('should not refill beyond the capacity', () => {
+    const state = fullBucket(5);
+    const result = takeToken(state, 5, START + 3_600_000);
+
+    expect(result.remaining).toBe(4);
+    expect(state.tokens).toBe(4);
+  });
+
+  it('should tell how long to wait for the next token', () => {
+    const state: TokenBucketState = { tokens: 0, updatedAt: START };
+
+    // 6 per minute is one token every 10 seconds
+    expect(takeToken(state, 6, START).retryAfterSeconds).toBe(10);
+    expect(takeToken(state, 6, START + 7500).retryAfterSeconds).toBe(3);
+  });
+
+  it('should ask to wait at least a second', () => {
+    const state: TokenBucketState = { tokens: 0.9999, updatedAt: START };
+
+    expect(takeToken(state, 60, START).retryAfterSeconds).toBe(1);
+  });
+
+  it('should not ask to wait when the token was granted', () => {
+    expect(takeToken(fullBucket(1), 1, START).retryAfterSeconds).toBe(0);
+  });
+
+  it('should tell how long until the bucket is full again', () => {
+    const state = fullBucket(60);
+    takeToken(state, 60, START);
+
+    expect(takeToken(state, 60, START).resetSeconds).toBe(2);
+    expect(takeToken(fullBucket(60), 60, START).resetSeconds).toBe(1);
+  });
+
+  it('should take the cost of a request at once', () => {
+    const state = fullBucket(10);
+
+    expect(takeToken(state, 10, START, 4)).toMatchObject({
+      allowed: true,
+      remaining: 6,
+    });
+    expect(takeToken(state, 10, START, 7)).toMatchObject({
+      allowed: false,
+      remaining: 6,
+    });
+    expect(state.tokens).toBe(6);
+  });
+
+  it('should tell how long to wait for the whole cost', () => {
+    const state: TokenBucketState = { tokens: 1, updatedAt: START };
+
+    // 6 per minute is one token every 10 seconds; 2 more are needed
+    expect(takeToken(state, 6, START, 3).retryAfterSeconds).toBe(20);
+  });
+
+  it('should admit a cost above the capacity on a full bucket and empty it', () => {
+    const state = fullBucket(60);
+
+    expect(takeToken(state, 60, START, 500).allowed).toBe(true);
+    expect(state.tokens).toBe(0);
+    expect(takeToken(state, 60, START + 30000, 500)).toMatchObject({
+      allowed: false,
+      retryAfterSeconds: 30,
+    });
+  });
+
+  it('should ignore a clock that went backwards', () => {
+    const state: TokenBucketState = { tokens: 2, updatedAt: START };
+    takeToken(state, 60, START - 60000);
+
+    expect(state.tokens).toBe(1);
+  });
+});
@@ -0,0 +1,49 @@
+export type TokenBucketState = {
+  tokens: number;
+  updatedAt: number;
+};
+
+export type TokenBucketResult = {
+  allowed: boolean;
+  // Whole tokens left after this request
+  remaining: number;
+  // Seconds until the bucket holds the cost, when it does not
+  retryAfterSeconds: number;
+  // Seconds until the bucket is full again
+  resetSeconds: number;
+};
+
+/**
+ * Takes `cost` tokens from a bucket of `capacity` tokens that refills evenly
+ * over a minute, so a key can burst up to its per-minute rate and then
+ * continues at that rate. A cost above the capacity needs a full bucket and
+ * empties it. Mutates `state`.
+ */
+export function takeToken(
+  state: TokenBucketState,
+  capacity: number,
+  now = Date.now(),
+  cost = 1,
+): TokenBucketResult {
+  const perMs = capacity / 60000;
+  const needed = Math.min(cost, capacity);
+  state.tokens = Math.min(
+    capacity,
+    state.tokens + Math.max(0, now - state.updatedAt) * perMs,
+  );
+  state.updatedAt = now;
+
+  const allowed = state.tokens >= needed;
+  if (allowed) {
+    state.tokens -= needed;
+  }
+
+  return {
+    allowed,
+    remaining: Math.floor(state.tokens),
+    retryAfterSeconds: allowed
+      ? 0
+      : Math.max(1, Math.ceil((needed - state.tokens) / perMs / 1000)),
+    resetSeconds: Math.ceil((capacity - state.tokens) / perMs / 1000),
+  };
+}
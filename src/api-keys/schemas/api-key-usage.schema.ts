@@ -0,0 +1,27 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type ApiKeyUsageDocument = ApiKeyUsage & Document;
+
+// Request counters of one key for one calendar month
+@Schema({ collection: 'api_key_usage', versionKey: false })
+export class ApiKeyUsage {
+  @Prop({ type: Types.ObjectId, required: true })
+  key: Types.ObjectId;
+
+  // "YYYY-MM", UTC
+  @Prop({ type: String, required: true })
+  month: string;
+
+  // Requests counted against the quota
+  @Prop({ type: Number, default: 0 })
+  requests: number;
+
+  // Requests turned away by the rate limit or the quota
+  @Prop({ type: Number, default: 0 })
+  rejected: number;
+}
+
+export const ApiKeyUsageSchema = SchemaFactory.createForClass(ApiKeyUsage);
+
+ApiKeyUsageSchema.index({ key: 1, month: -1 }, { unique: true });
@@ -0,0 +1,41 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type ApiKeyDocument = ApiKey & Document;
+
+// A client of the map API. Only the SHA-256 of the key is stored; the key
+// itself is shown once, when it is created.
+@Schema({ timestamps: true, collection: 'api_keys', versionKey: false })
+export class ApiKey {
+  @Prop({ type: String, required: true })
+  name: string;
+
+  @Prop({ type: String, required: true, unique: true })
+  keyHash: string;
+
+  // First characters of the key, enough to recognise it in listings
+  @Prop({ type: String, required: true })
+  prefix: string;
+
+  // Token bucket size; refills evenly over a minute
+  @Prop({ type: Number, required: true })
+  ratePerMinute: number;
+
+  // Requests per calendar month (UTC)
+  @Prop({ type: Number, required: true })
+  monthlyQuota: number;
+
+  // Subject of the admin token that created the key
+  @Prop({ type: String, required: true })
+  createdBy: string;
+
+  @Prop({ type: Date, default: null })
+  revokedAt: Date | null;
+
+  @Prop({ type: Date, default: undefined })
+  lastUsedAt?: Date;
+
+  createdAt?: Date;
+}
+
+export const ApiKeySchema = SchemaFactory.createForClass(ApiKey);
@@ -1,6 +1,8 @@
 import { Module } from '@nestjs/common';
 import databaseConfig from './database/config/database.config';
 import appConfig from './config/app.config';
+import authConfig from './auth/config/auth.config';
+import apiKeysConfig from './api-keys/config/api-keys.config';
 import { ConfigModule } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { TypeOrmConfigService } from './database/typeorm-config.service';
@@ -9,6 +11,18 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { MongooseConfigService } from './database/mongoose-config.service';
 import { DatabaseConfig } from './database/config/database-config.type';
 import { MapModule } from './map/map.module';
+import { ApiKeysModule } from './api-keys/api-keys.module';
+import { HealthModule } from './health/health.module';
+import { MetricsModule } from './metrics/metrics.module';
+import searchConfig from './map/config/search.config';
+import viewportConfig from './map/config/viewport.config';
+import tilesConfig from './map/config/tiles.config';
+import exportConfig from './map/config/export.config';
+import geocodingConfig from './map/config/geocoding.config';
+import paginationConfig from './map/config/pagination.config';
+import resultCacheConfig from './map/config/result-cache.config';
+import datasetsConfig from './map/config/datasets.config';
+import dedupConfig from './map/config/dedup.config';
 
 // <database-block>
 const infrastructureDatabaseModule = (databaseConfig() as DatabaseConfig)
@@ -31,11 +45,25 @@ const infrastructureDatabaseModule = (databaseConfig() as DatabaseConfig)
       load: [
         databaseConfig,
         appConfig,
+        authConfig,
+        apiKeysConfig,
+        searchConfig,
+        viewportConfig,
+        tilesConfig,
+        exportConfig,
+        geocodingConfig,
+        paginationConfig,
+        resultCacheConfig,
+        datasetsConfig,
+        dedupConfig,
         // mailConfig,
       ],
       envFilePath: ['.env'],
     }),
     infrastructureDatabaseModule,
+    MetricsModule,
+    HealthModule,
+    ApiKeysModule,
     MapModule,
   ],
 })
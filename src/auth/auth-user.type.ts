@@ -0,0 +1,7 @@
+// Identity attached to the request by the JWT strategy
+export type AuthUser = {
+  id: string;
+  name?: string;
+  // From the `roles` claim; "admin" opens the API key administration
+  roles: string[];
+};
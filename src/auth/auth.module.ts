@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { PassportModule } from '@nestjs/passport';
+import { JwtStrategy } from './strategies/jwt.strategy';
+
+@Module({
+  imports: [PassportModule],
+  providers: [JwtStrategy],
+  exports: [PassportModule],
+})
+export class AuthModule {}
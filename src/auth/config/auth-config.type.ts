@@ -0,0 +1,5 @@
+export type AuthConfig = {
+  jwtSecret?: string;
+  jwtIssuer?: string;
+  jwtAudience?: string;
+};
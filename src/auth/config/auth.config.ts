@@ -0,0 +1,30 @@
+import { registerAs } from '@nestjs/config';
+import { IsOptional, IsString } from 'class-validator';
+import validateConfig from '../../utils/validate-config';
+import { AuthConfig } from './auth-config.type';
+
+class EnvironmentVariablesValidator {
+  @IsString()
+  @IsOptional()
+  AUTH_JWT_SECRET: string;
+
+  @IsString()
+  @IsOptional()
+  AUTH_JWT_ISSUER: string;
+
+  @IsString()
+  @IsOptional()
+  AUTH_JWT_AUDIENCE: string;
+}
+
+export default registerAs<AuthConfig>('auth', () => {
+  validateConfig(process.env, EnvironmentVariablesValidator);
+
+  return {
+    // HS256 secret shared with whoever issues editor tokens; without it
+    // every authenticated route rejects requests
+    jwtSecret: process.env.AUTH_JWT_SECRET,
+    jwtIssuer: process.env.AUTH_JWT_ISSUER,
+    jwtAudience: process.env.AUTH_JWT_AUDIENCE,
+  };
+});
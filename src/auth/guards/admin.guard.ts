@@ -0,0 +1,15 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { AuthUser } from '../auth-user.type';
+import { ForbiddenError } from '../../errors/domain-errors';
+
+// Runs after AuthGuard('jwt'); lets through tokens with the admin role
+@Injectable()
+export class AdminGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const user: AuthUser | undefined = context.switchToHttp().getRequest().user;
+    if (!user?.roles.includes('admin')) {
+      throw new ForbiddenError('This route needs a token with the admin role');
+    }
+    return true;
+  }
+}
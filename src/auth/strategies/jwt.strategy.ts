@@ -0,0 +1,42 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PassportStrategy } from '@nestjs/passport';
+import { ExtractJwt, Strategy } from 'passport-jwt';
+import { randomBytes } from 'crypto';
+import { AllConfigType } from '../../config/config.type';
+import { AuthUser } from '../auth-user.type';
+
+type JwtPayload = {
+  sub?: string;
+  name?: string;
+  email?: string;
+  roles?: unknown;
+};
+
+@Injectable()
+export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
+  constructor(configService: ConfigService<AllConfigType>) {
+    const auth = configService.get('auth', { infer: true });
+    super({
+      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+      // An unguessable secret keeps routes closed until one is configured
+      secretOrKey: auth?.jwtSecret || randomBytes(32).toString('hex'),
+      algorithms: ['HS256'],
+      issuer: auth?.jwtIssuer || undefined,
+      audience: auth?.jwtAudience || undefined,
+    });
+  }
+
+  validate(payload: JwtPayload): AuthUser {
+    if (!payload.sub) {
+      throw new UnauthorizedException('Token has no subject');
+    }
+    return {
+      id: payload.sub,
+      name: payload.name ?? payload.email,
+      roles: Array.isArray(payload.roles)
+        ? payload.roles.filter((role) => typeof role === 'string')
+        : [],
+    };
+  }
+}
@@ -1,7 +1,29 @@
 import { AppConfig } from './app-config.type';
+import { AuthConfig } from '../auth/config/auth-config.type';
+import { ApiKeysConfig } from '../api-keys/config/api-keys-config.type';
 import { DatabaseConfig } from '../database/config/database-config.type';
+import { SearchConfig } from '../map/config/search-config.type';
+import { ViewportConfig } from '../map/config/viewport-config.type';
+import { TilesConfig } from '../map/config/tiles-config.type';
+import { ExportConfig } from '../map/config/export-config.type';
+import { GeocodingConfig } from '../map/config/geocoding-config.type';
+import { PaginationConfig } from '../map/config/pagination-config.type';
+import { ResultCacheConfig } from '../map/config/result-cache-config.type';
+import { DatasetsConfig } from '../map/config/datasets-config.type';
+import { DedupConfig } from '../map/config/dedup-config.type';
 
 export type AllConfigType = {
   app: AppConfig;
+  auth: AuthConfig;
+  apiKeys: ApiKeysConfig;
   database: DatabaseConfig;
+  search: SearchConfig;
+  viewport: ViewportConfig;
+  tiles: TilesConfig;
+  export: ExportConfig;
+  geocoding: GeocodingConfig;
+  pagination: PaginationConfig;
+  resultCache: ResultCacheConfig;
+  datasets: DatasetsConfig;
+  dedup: DedupConfig;
 };
@@ -0,0 +1,152 @@
+import { promises as fs } from 'fs';
+import { createInterface } from 'readline';
+import { parser } from 'stream-json';
+import { pick } from 'stream-json/filters/Pick';
+import { streamArray } from 'stream-json/streamers/StreamArray';
+import { MapAddress } from '../../../../map/addresses/schemas/map-address.schema';
+
+// Reading and validating OpenAddresses features, shared by the importer
+// and the release diff
+
+export type FeatureFormat = 'geojson' | 'ndjson';
+
+export type RawFeature = {
+  index: number;
+  value?: any;
+  error?: string;
+};
+
+export type AddressRecord = {
+  properties: MapAddress['properties'];
+  coordinates: [number, number];
+};
+
+export const PROPERTY_FIELDS = [
+  'hash',
+  'number',
+  'street',
+  'unit',
+  'city',
+  'district',
+  'region',
+  'postcode',
+  'id',
+] as const;
+
+// id and hash back the per-dataset unique indexes; street and number make
+// it an address
+const REQUIRED_PROPERTIES = ['id', 'hash', 'street', 'number'] as const;
+
+export function readFeatures(
+  input: NodeJS.ReadableStream,
+  format: FeatureFormat,
+): AsyncGenerator<RawFeature> {
+  return format === 'ndjson'
+    ? readLineDelimited(input)
+    : readFeatureCollection(input);
+}
+
+async function* readFeatureCollection(
+  input: NodeJS.ReadableStream,
+): AsyncGenerator<RawFeature> {
+  const stream = input
+    .pipe(parser())
+    .pipe(pick({ filter: 'features' }))
+    .pipe(streamArray());
+
+  for await (const { key, value } of stream) {
+    yield { index: key, value };
+  }
+}
+
+async function* readLineDelimited(
+  input: NodeJS.ReadableStream,
+): AsyncGenerator<RawFeature> {
+  const lines = createInterface({ input, crlfDelay: Infinity });
+  let index = 0;
+
+  for await (const line of lines) {
+    // GeoJSON text sequences (RFC 8142) prefix each record with RS
+    const text = line.replace(/^\x1e/, '').trim();
+    if (!text) {
+      continue;
+    }
+
+    let feature: RawFeature;
+    try {
+      feature = { index, value: JSON.parse(text) };
+    } catch {
+      feature = { index, value: text, error: 'Invalid JSON' };
+    }
+    index++;
+    yield feature;
+  }
+}
+
+// Trimmed string properties and a valid Point, or why the feature is
+// rejected
+export function toAddressRecord(
+  feature: any,
+): AddressRecord | { reason: string } {
+  if (!feature || typeof feature !== 'object' || feature.type !== 'Feature') {
+    return { reason: 'Not a GeoJSON Feature' };
+  }
+
+  const geometry = feature.geometry;
+  if (!geometry || geometry.type !== 'Point') {
+    return { reason: 'Geometry must be a Point' };
+  }
+
+  const coordinates = Array.isArray(geometry.coordinates)
+    ? geometry.coordinates.map(Number)
+    : [];
+  const [lon, lat] = coordinates;
+  if (
+    coordinates.length < 2 ||
+    !Number.isFinite(lon) ||
+    !Number.isFinite(lat) ||
+    Math.abs(lon) > 180 ||
+    Math.abs(lat) > 90
+  ) {
+    return { reason: 'Invalid Point coordinates' };
+  }
+
+  const source = feature.properties ?? {};
+  const properties = {} as MapAddress['properties'];
+  for (const field of PROPERTY_FIELDS) {
+    const value = source[field];
+    properties[field] =
+      value === undefined || value === null ? '' : String(value).trim();
+  }
+
+  const missing = REQUIRED_PROPERTIES.filter((field) => !properties[field]);
+  if (missing.length) {
+    return { reason: `Missing required properties: ${missing.join(', ')}` };
+  }
+
+  return { properties, coordinates: [lon, lat] };
+}
+
+// OpenAddresses ships line-delimited features under a .geojson extension,
+// so sniff the first line rather than trusting the extension alone
+export async function detectFormat(file: string): Promise<FeatureFormat> {
+  if (/\.(ndjson|jsonl|geojsonl|geojsonseq)$/i.test(file)) {
+    return 'ndjson';
+  }
+
+  const handle = await fs.open(file, 'r');
+  try {
+    const buffer = Buffer.alloc(64 * 1024);
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+    const firstLine = buffer
+      .toString('utf8', 0, bytesRead)
+      .split('\n')[0]
+      .replace(/^\x1e/, '')
+      .trim();
+    return JSON.parse(firstLine)?.type === 'Feature' ? 'ndjson' : 'geojson';
+  } catch {
+    return 'geojson';
+  } finally {
+    await handle.close();
+  }
+}
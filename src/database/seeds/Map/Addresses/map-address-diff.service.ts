@@ -0,0 +1,794 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { AnyBulkWriteOperation, Model, Types } from 'mongoose';
+import { createReadStream, createWriteStream, WriteStream } from 'fs';
+import {
+  ACTIVE_ADDRESS,
+  MapAddress,
+  MapAddressDocument,
+} from '../../../../map/addresses/schemas/map-address.schema';
+import {
+  DatasetDiff,
+  DatasetDiffDocument,
+  DatasetDiffSummary,
+} from '../../../../map/datasets/schemas/dataset-diff.schema';
+import {
+  DatasetDiffChange,
+  DatasetDiffChangeDocument,
+  DatasetDiffChangeKind,
+  DatasetDiffRecord,
+} from '../../../../map/datasets/schemas/dataset-diff-change.schema';
+import {
+  DatasetDiffSeen,
+  DatasetDiffSeenDocument,
+} from '../../../../map/datasets/schemas/dataset-diff-seen.schema';
+import {
+  MapAddressAudit,
+  MapAddressAuditAction,
+  MapAddressAuditDocument,
+  MapAddressSnapshot,
+} from '../../../../map/addresses/schemas/map-address-audit.schema';
+import { buildDerivedFields } from '../../../../map/addresses/search/derived-fields';
+import { NormalizationProfile } from '../../../../map/addresses/search/normalization';
+import { distanceMeters } from '../../../../map/addresses/geometry/geodesy';
+import { AllConfigType } from '../../../../config/config.type';
+import {
+  AddressRecord,
+  detectFormat,
+  FeatureFormat,
+  PROPERTY_FIELDS,
+  readFeatures,
+  toAddressRecord,
+} from './address-features';
+import { MapAddressSeedService } from './map-address-seed.service';
+
+export type MapAddressDiffOptions = {
+  file: string;
+  // Dataset the release is compared with (default: MAP_DEFAULT_DATASET)
+  dataset?: string;
+  format?: FeatureFormat;
+  // Meters a point must shift to count as moved (default: 5)
+  moveThreshold?: number;
+  batchSize?: number;
+  changesPath?: string;
+  rejectsPath?: string;
+};
+
+export type DiffConflict = {
+  addressId: string;
+  kind: DatasetDiffChangeKind;
+  reason: string;
+};
+
+export type DiffStepResult = {
+  diff: DatasetDiffDocument;
+  // Changes written, or that would be written on a dry run
+  changes: Record<DatasetDiffChangeKind, number>;
+  conflicts: number;
+  // The first conflicts found, for the report
+  conflictSamples: DiffConflict[];
+};
+
+type StoredAddress = {
+  _id: Types.ObjectId;
+  geometry: { coordinates: [number, number] };
+  properties: Record<string, string>;
+  retiredAt?: Date;
+  retiredBy?: string;
+};
+
+// Additions are inserted under the _id the diff allocated
+type StoredMapAddress = MapAddress & { _id: Types.ObjectId };
+
+type PendingChange = Omit<DatasetDiffChange, 'diff' | 'appliedAt'>;
+
+type StoredChange = DatasetDiffChange & { _id: Types.ObjectId };
+
+type DiffStep = 'apply' | 'rollback';
+
+// A record of the release file waiting to be compared
+type BatchItem = { index: number; feature: unknown; record: AddressRecord };
+
+const DEFAULT_MOVE_THRESHOLD = 5;
+const CONFLICT_SAMPLE_SIZE = 20;
+
+// How an applied change shows in the address history
+const AUDIT_ACTIONS: Record<DatasetDiffChangeKind, MapAddressAuditAction> = {
+  added: 'create',
+  removed: 'retire',
+  moved: 'update',
+  changed: 'update',
+};
+
+const emptySummary = (): DatasetDiffSummary => ({
+  added: 0,
+  removed: 0,
+  moved: 0,
+  changed: 0,
+  unchanged: 0,
+  retired: 0,
+  rejected: 0,
+});
+
+const toRecord = (address: StoredAddress): DatasetDiffRecord => ({
+  coordinates: address.geometry.coordinates,
+  properties: address.properties,
+});
+
+const toSnapshot = (
+  record: DatasetDiffRecord,
+  retiredAt?: Date,
+): MapAddressSnapshot => ({
+  type: 'Feature',
+  geometry: { type: 'Point', coordinates: record.coordinates },
+  properties: record.properties,
+  ...(retiredAt ? { retiredAt } : {}),
+});
+
+const sameRecord = (address: StoredAddress, record: DatasetDiffRecord) =>
+  address.geometry.coordinates[0] === record.coordinates[0] &&
+  address.geometry.coordinates[1] === record.coordinates[1] &&
+  PROPERTY_FIELDS.every(
+    (field) =>
+      (address.properties[field] ?? '') === (record.properties[field] ?? ''),
+  );
+
+/**
+ * Compares a new release of a dataset with what is stored, then applies
+ * the difference in one step or takes it back. Every change keeps the
+ * record before and after, so apply and rollback can check that nobody
+ * touched the address in between and refuse to overwrite if they did.
+ */
+@Injectable()
+export class MapAddressDiffService {
+  private readonly logger = new Logger(MapAddressDiffService.name);
+
+  constructor(
+    @InjectModel(MapAddress.name)
+    private mapAddressModel: Model<MapAddressDocument>,
+    @InjectModel(DatasetDiff.name)
+    private diffModel: Model<DatasetDiffDocument>,
+    @InjectModel(DatasetDiffChange.name)
+    private changeModel: Model<DatasetDiffChangeDocument>,
+    @InjectModel(DatasetDiffSeen.name)
+    private seenModel: Model<DatasetDiffSeenDocument>,
+    @InjectModel(MapAddressAudit.name)
+    private auditModel: Model<MapAddressAuditDocument>,
+    private seedService: MapAddressSeedService,
+    private configService: ConfigService<AllConfigType>,
+  ) {}
+
+  // Classifies every record of the file against the stored dataset by
+  // properties.id; nothing in the dataset is written
+  async diff(options: MapAddressDiffOptions): Promise<DatasetDiffDocument> {
+    const batchSize = options.batchSize ?? 1000;
+    const dataset =
+      options.dataset ??
+      this.configService.getOrThrow('datasets.defaultDataset', {
+        infer: true,
+      });
+    const moveThreshold = options.moveThreshold ?? DEFAULT_MOVE_THRESHOLD;
+    const format = options.format ?? (await detectFormat(options.file));
+    const changesPath = options.changesPath ?? `${options.file}.changes.ndjson`;
+    const rejectsPath =
+      options.rejectsPath ?? `${options.file}.rejected.ndjson`;
+
+    const diff = await this.diffModel.create({
+      dataset,
+      file: options.file,
+      moveThreshold,
+      summary: emptySummary(),
+    });
+    const summary = emptySummary();
+
+    const input = createReadStream(options.file);
+    const changesOut = createWriteStream(changesPath);
+    const rejectsOut = createWriteStream(rejectsPath);
+    const reject = (index: number, reason: string, feature: unknown) => {
+      summary.rejected++;
+      rejectsOut.write(`${JSON.stringify({ index, reason, feature })}\n`);
+    };
+    let pending: BatchItem[] = [];
+    // Ids of the pending records, to catch repeats within the batch
+    let pendingIds = new Set<string>();
+
+    const compareBatch = async () => {
+      // Ids staged by earlier batches are repeats as well
+      const earlier = await this.findSeen(
+        diff,
+        pending.map((item) => item.record.properties.id),
+      );
+      const batch: AddressRecord[] = [];
+      for (const { index, feature, record } of pending) {
+        if (earlier.has(record.properties.id)) {
+          reject(index, 'Duplicate id in file', feature);
+        } else {
+          batch.push(record);
+        }
+      }
+      pending = [];
+      pendingIds = new Set();
+      await this.seenModel.insertMany(
+        batch.map((record) => ({
+          diff: diff._id,
+          addressId: record.properties.id,
+        })),
+        { ordered: false },
+      );
+
+      const stored = await this.mapAddressModel
+        .find({
+          dataset,
+          'properties.id': { $in: batch.map((item) => item.properties.id) },
+        })
+        .select('_id geometry properties retiredAt')
+        .lean<StoredAddress[]>()
+        .exec();
+      const byId = new Map(stored.map((item) => [item.properties.id, item]));
+
+      const changes: PendingChange[] = [];
+      for (const record of batch) {
+        const current = byId.get(record.properties.id);
+        if (!current) {
+          changes.push({
+            address: new Types.ObjectId(),
+            addressId: record.properties.id,
+            kind: 'added',
+            fields: [],
+            distance: 0,
+            before: null,
+            after: record,
+          });
+        } else if (current.retiredAt) {
+          summary.retired++;
+        } else {
+          const change = this.compareRecord(current, record, moveThreshold);
+          if (change) {
+            changes.push(change);
+          } else {
+            summary.unchanged++;
+          }
+        }
+      }
+
+      await this.recordChanges(diff, changes, summary, changesOut);
+    };
+
+    try {
+      for await (const raw of readFeatures(input, format)) {
+        const record = raw.error
+          ? { reason: raw.error }
+          : toAddressRecord(raw.value);
+        if ('reason' in record) {
+          reject(raw.index, record.reason, raw.value);
+          continue;
+        }
+        if (pendingIds.has(record.properties.id)) {
+          reject(raw.index, 'Duplicate id in file', raw.value);
+          continue;
+        }
+
+        pendingIds.add(record.properties.id);
+        pending.push({ index: raw.index, feature: raw.value, record });
+        if (pending.length >= batchSize) {
+          await compareBatch();
+        }
+      }
+      if (pending.length) {
+        await compareBatch();
+      }
+
+      // Stored addresses the release no longer has
+      const cursor = this.mapAddressModel
+        .find({ dataset, ...ACTIVE_ADDRESS })
+        .select('_id geometry properties')
+        .lean<StoredAddress[]>()
+        .cursor({ batchSize });
+      let active: StoredAddress[] = [];
+      const compareRemoved = async () => {
+        const seen = await this.findSeen(
+          diff,
+          active.map((address) => address.properties.id),
+        );
+        const removed: PendingChange[] = active
+          .filter((address) => !seen.has(address.properties.id))
+          .map((address) => ({
+            address: address._id,
+            addressId: address.properties.id,
+            kind: 'removed',
+            fields: [],
+            distance: 0,
+            before: toRecord(address),
+            after: null,
+          }));
+        await this.recordChanges(diff, removed, summary, changesOut);
+        active = [];
+      };
+      for await (const address of cursor) {
+        active.push(address);
+        if (active.length >= batchSize) {
+          await compareRemoved();
+        }
+      }
+      await compareRemoved();
+    } finally {
+      input.destroy();
+      await this.seenModel.deleteMany({ diff: diff._id }).exec();
+      await Promise.all(
+        [changesOut, rejectsOut].map(
+          (out) => new Promise((resolve) => out.end(resolve)),
+        ),
+      );
+    }
+
+    diff.summary = summary;
+    await diff.save();
+    this.logger.log(
+      `Diff ${String(diff._id)} of ${options.file} against ${dataset}: ${summary.added} added, ${summary.removed} removed, ${summary.moved} moved, ${summary.changed} changed, ${summary.unchanged} unchanged, ${summary.retired} retired locally, ${summary.rejected} rejected (see ${changesPath} and ${rejectsPath})`,
+    );
+    return diff;
+  }
+
+  /**
+   * Writes every change of a pending diff. Refuses while any address no
+   * longer looks the way the diff found it; a dry run only reports what
+   * would be written and the conflicts. An interrupted apply continues
+   * where it stopped when run again.
+   */
+  async apply(id: string, dryRun = false): Promise<DiffStepResult> {
+    return this.runStep(id, 'apply', dryRun);
+  }
+
+  // Puts back what an applied (or partly applied) diff wrote
+  async rollback(id: string, dryRun = false): Promise<DiffStepResult> {
+    return this.runStep(id, 'rollback', dryRun);
+  }
+
+  private async runStep(
+    id: string,
+    step: DiffStep,
+    dryRun: boolean,
+  ): Promise<DiffStepResult> {
+    const diff = await this.findDiff(id);
+    const from =
+      step === 'apply'
+        ? ['pending', 'applying']
+        : ['applying', 'applied', 'rolling_back'];
+    if (!from.includes(diff.status)) {
+      throw new Error(
+        `Diff ${id} is ${diff.status} and cannot be ${step === 'apply' ? 'applied' : 'rolled back'}`,
+      );
+    }
+
+    // Apply writes what is not written yet, rollback what is
+    const filter = {
+      diff: diff._id,
+      appliedAt: step === 'apply' ? null : { $ne: null },
+    };
+    const changes = await this.countChanges(filter);
+    const { conflicts, conflictSamples } = await this.findConflicts(
+      diff,
+      filter,
+      step,
+    );
+    if (dryRun) {
+      return { diff, changes, conflicts, conflictSamples };
+    }
+    if (conflicts) {
+      throw new Error(
+        `${conflicts} addresses changed since diff ${id} was ${step === 'apply' ? 'computed; compute a new diff' : 'applied; resolve them by hand'} (--dry-run lists them)`,
+      );
+    }
+
+    const claimed = await this.diffModel
+      .findOneAndUpdate(
+        { _id: diff._id, status: { $in: from } },
+        { status: step === 'apply' ? 'applying' : 'rolling_back' },
+        { new: true },
+      )
+      .exec();
+    if (!claimed) {
+      throw new Error(`Diff ${id} changed status while starting to ${step}`);
+    }
+
+    // Search fields are indexed the way the dataset's other addresses are
+    const profile = await this.seedService.datasetProfile(claimed.dataset);
+    for (;;) {
+      const batch = await this.changeModel
+        .find(filter)
+        .sort({ _id: 1 })
+        .limit(1000)
+        .lean<StoredChange[]>()
+        .exec();
+      if (!batch.length) {
+        break;
+      }
+      await this.writeChanges(batch, step, claimed, profile);
+      this.logger.log(`${step}: wrote ${batch.length} changes`);
+    }
+
+    claimed.set(
+      step === 'apply'
+        ? { status: 'applied', appliedAt: new Date() }
+        : { status: 'rolled_back', rolledBackAt: new Date() },
+    );
+    await claimed.save();
+    await this.seedService.refreshDataset(
+      claimed.dataset,
+      {},
+      step === 'apply' ? new Date() : undefined,
+    );
+
+    return { diff: claimed, changes, conflicts, conflictSamples };
+  }
+
+  // Ordered, so after a failure exactly the changes before it are marked
+  private async writeChanges(
+    batch: StoredChange[],
+    step: DiffStep,
+    diff: DatasetDiffDocument,
+    profile: NormalizationProfile,
+  ): Promise<void> {
+    const ops = batch.map((change) =>
+      step === 'apply'
+        ? this.toApplyOperation(change, diff, profile)
+        : this.toRollbackOperation(change, profile),
+    );
+    let written = batch.length;
+    let failure: Error | undefined;
+    try {
+      await this.mapAddressModel.bulkWrite(ops, { ordered: true });
+    } catch (error) {
+      if (error?.name !== 'MongoBulkWriteError' || !error.writeErrors) {
+        throw error;
+      }
+      const [first] = Array.isArray(error.writeErrors)
+        ? error.writeErrors
+        : [error.writeErrors];
+      written = first.index;
+      failure = new Error(
+        `${batch[written].kind} ${batch[written].addressId}: ${first.errmsg}`,
+      );
+    }
+
+    await this.recordAudit(batch.slice(0, written), step, diff);
+    await this.changeModel
+      .updateMany(
+        { _id: { $in: batch.slice(0, written).map((change) => change._id) } },
+        { appliedAt: step === 'apply' ? new Date() : null },
+      )
+      .exec();
+    if (failure) {
+      throw failure;
+    }
+  }
+
+  // History entries of written changes, authored by the diff so the
+  // address history shows which release made or took back each change
+  private async recordAudit(
+    changes: StoredChange[],
+    step: DiffStep,
+    diff: DatasetDiffDocument,
+  ): Promise<void> {
+    if (!changes.length) {
+      return;
+    }
+    const at = new Date();
+    const author = {
+      id: this.retiredBy(diff),
+      name: `Release ${step === 'apply' ? '' : 'rollback '}of ${diff.file}`,
+    };
+    await this.auditModel.insertMany(
+      changes.map((change) => {
+        // A removal is the stored record, retired; an addition rolled back
+        // is deleted
+        const stored = change.before && toSnapshot(change.before);
+        const retired =
+          change.before &&
+          toSnapshot(
+            change.before,
+            step === 'apply' ? at : (diff.appliedAt ?? at),
+          );
+        const released =
+          change.kind === 'removed'
+            ? retired
+            : change.after && toSnapshot(change.after);
+        return {
+          address: change.address,
+          addressId: change.addressId,
+          action: step === 'apply' ? AUDIT_ACTIONS[change.kind] : 'revert',
+          before: step === 'apply' ? stored : released,
+          after: step === 'apply' ? released : stored,
+          author,
+          reason: `${change.kind} in release diff`,
+          diff: diff._id,
+          at,
+        };
+      }),
+    );
+  }
+
+  private toApplyOperation(
+    change: DatasetDiffChange,
+    diff: DatasetDiffDocument,
+    profile: NormalizationProfile,
+  ): AnyBulkWriteOperation<StoredMapAddress> {
+    if (change.kind === 'removed') {
+      return {
+        updateOne: {
+          filter: { _id: change.address },
+          update: {
+            $set: { retiredAt: new Date(), retiredBy: this.retiredBy(diff) },
+          },
+        },
+      };
+    }
+
+    const { coordinates, properties } = change.after as DatasetDiffRecord;
+    const fields = {
+      geometry: { type: 'Point' as const, coordinates },
+      properties: properties as MapAddress['properties'],
+      ...buildDerivedFields(properties as MapAddress['properties'], profile),
+    };
+    if (change.kind === 'added') {
+      return {
+        insertOne: {
+          document: {
+            _id: change.address,
+            dataset: diff.dataset,
+            type: 'Feature',
+            ...fields,
+          },
+        },
+      };
+    }
+    return {
+      updateOne: { filter: { _id: change.address }, update: { $set: fields } },
+    };
+  }
+
+  private toRollbackOperation(
+    change: DatasetDiffChange,
+    profile: NormalizationProfile,
+  ): AnyBulkWriteOperation<StoredMapAddress> {
+    if (change.kind === 'added') {
+      return { deleteOne: { filter: { _id: change.address } } };
+    }
+    if (change.kind === 'removed') {
+      return {
+        updateOne: {
+          filter: { _id: change.address },
+          update: { $unset: { retiredAt: '', retiredBy: '' } },
+        },
+      };
+    }
+
+    const { coordinates, properties } = change.before as DatasetDiffRecord;
+    return {
+      updateOne: {
+        filter: { _id: change.address },
+        update: {
+          $set: {
+            geometry: { type: 'Point', coordinates },
+            properties: properties as MapAddress['properties'],
+            ...buildDerivedFields(
+              properties as MapAddress['properties'],
+              profile,
+            ),
+          },
+        },
+      },
+    };
+  }
+
+  /**
+   * Addresses that no longer look the way the step expects: before an
+   * apply they must be as the diff found them (additions must still be
+   * free ids), before a rollback as the apply left them.
+   */
+  private async findConflicts(
+    diff: DatasetDiffDocument,
+    filter: object,
+    step: DiffStep,
+  ): Promise<{ conflicts: number; conflictSamples: DiffConflict[] }> {
+    let conflicts = 0;
+    const conflictSamples: DiffConflict[] = [];
+    const report = (change: DatasetDiffChange, reason: string) => {
+      conflicts++;
+      if (conflictSamples.length < CONFLICT_SAMPLE_SIZE) {
+        conflictSamples.push({
+          addressId: change.addressId,
+          kind: change.kind,
+          reason,
+        });
+      }
+    };
+
+    const cursor = this.changeModel
+      .find(filter)
+      .sort({ _id: 1 })
+      .lean()
+      .cursor({ batchSize: 1000 });
+    let batch: DatasetDiffChange[] = [];
+
+    const check = async () => {
+      const stored = await this.mapAddressModel
+        .find({
+          $or: [
+            { _id: { $in: batch.map((change) => change.address) } },
+            {
+              dataset: diff.dataset,
+              'properties.id': {
+                $in: batch
+                  .filter((change) => change.kind === 'added')
+                  .map((change) => change.addressId),
+              },
+            },
+          ],
+        })
+        .select('_id geometry properties retiredAt retiredBy')
+        .lean<StoredAddress[]>()
+        .exec();
+      const byAddress = new Map(stored.map((item) => [String(item._id), item]));
+      const takenIds = new Set(stored.map((item) => item.properties.id));
+
+      for (const change of batch) {
+        const current = byAddress.get(String(change.address));
+        const reason =
+          step === 'apply'
+            ? this.applyConflict(change, current, takenIds)
+            : this.rollbackConflict(change, current, diff);
+        if (reason) {
+          report(change, reason);
+        }
+      }
+      batch = [];
+    };
+
+    for await (const change of cursor) {
+      batch.push(change as DatasetDiffChange);
+      if (batch.length >= 1000) {
+        await check();
+      }
+    }
+    if (batch.length) {
+      await check();
+    }
+
+    return { conflicts, conflictSamples };
+  }
+
+  private applyConflict(
+    change: DatasetDiffChange,
+    current: StoredAddress | undefined,
+    takenIds: Set<string>,
+  ): string | null {
+    if (change.kind === 'added') {
+      return current || takenIds.has(change.addressId)
+        ? 'The id has been taken since'
+        : null;
+    }
+    if (!current || current.retiredAt) {
+      return 'The address has been retired since';
+    }
+    return sameRecord(current, change.before as DatasetDiffRecord)
+      ? null
+      : 'The address has been edited since';
+  }
+
+  private rollbackConflict(
+    change: DatasetDiffChange,
+    current: StoredAddress | undefined,
+    diff: DatasetDiffDocument,
+  ): string | null {
+    if (change.kind === 'removed') {
+      return current?.retiredAt && current.retiredBy === this.retiredBy(diff)
+        ? null
+        : 'The address has been restored or removed since';
+    }
+    if (!current || current.retiredAt) {
+      return 'The address has been retired since';
+    }
+    return sameRecord(current, change.after as DatasetDiffRecord)
+      ? null
+      : 'The address has been edited since';
+  }
+
+  // What changed between the stored address and the release, if anything;
+  // shifts within the threshold and hash-only differences are ignored
+  private compareRecord(
+    current: StoredAddress,
+    record: AddressRecord,
+    moveThreshold: number,
+  ): PendingChange | null {
+    const fields = PROPERTY_FIELDS.filter(
+      (field) =>
+        field !== 'hash' &&
+        (current.properties[field] ?? '') !== record.properties[field],
+    );
+    const distance =
+      Math.round(
+        distanceMeters(current.geometry.coordinates, record.coordinates) * 100,
+      ) / 100;
+    const kind =
+      distance > moveThreshold ? 'moved' : fields.length ? 'changed' : null;
+    if (!kind) {
+      return null;
+    }
+
+    return {
+      address: current._id,
+      addressId: record.properties.id,
+      kind,
+      fields,
+      distance,
+      before: toRecord(current),
+      after: record,
+    };
+  }
+
+  private async recordChanges(
+    diff: DatasetDiffDocument,
+    changes: PendingChange[],
+    summary: DatasetDiffSummary,
+    out: WriteStream,
+  ): Promise<void> {
+    if (!changes.length) {
+      return;
+    }
+    await this.changeModel.insertMany(
+      changes.map((change) => ({ ...change, diff: diff._id })),
+      { ordered: false },
+    );
+    for (const change of changes) {
+      summary[change.kind]++;
+      const { kind, addressId, fields, distance, before, after } = change;
+      out.write(
+        `${JSON.stringify({ kind, id: addressId, fields, distance, before, after })}\n`,
+      );
+    }
+  }
+
+  // Which of the ids the release file already had
+  private async findSeen(
+    diff: DatasetDiffDocument,
+    ids: string[],
+  ): Promise<Set<string>> {
+    const seen = await this.seenModel
+      .find({ diff: diff._id, addressId: { $in: ids } })
+      .select('addressId')
+      .lean()
+      .exec();
+    return new Set(seen.map((item) => item.addressId));
+  }
+
+  private async countChanges(
+    filter: object,
+  ): Promise<Record<DatasetDiffChangeKind, number>> {
+    const counts = await this.changeModel
+      .aggregate<{
+        _id: DatasetDiffChangeKind;
+        count: number;
+      }>([{ $match: filter }, { $group: { _id: '$kind', count: { $sum: 1 } } }])
+      .exec();
+    const changes = { added: 0, removed: 0, moved: 0, changed: 0 };
+    counts.forEach((item) => (changes[item._id] = item.count));
+    return changes;
+  }
+
+  // Marks addresses retired by a diff, so a rollback only restores those
+  private retiredBy(diff: DatasetDiffDocument): string {
+    return `diff:${String(diff._id)}`;
+  }
+
+  private async findDiff(id: string): Promise<DatasetDiffDocument> {
+    const diff = Types.ObjectId.isValid(id)
+      ? await this.diffModel.findById(id).exec()
+      : null;
+    if (!diff) {
+      throw new Error(`Diff ${id} not found`);
+    }
+    return diff;
+  }
+}
@@ -0,0 +1,44 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  MapAddress,
+  MapAddressSchema,
+} from '../../../../map/addresses/schemas/map-address.schema';
+import {
+  MapDataset,
+  MapDatasetSchema,
+} from '../../../../map/datasets/schemas/map-dataset.schema';
+import {
+  DatasetDiff,
+  DatasetDiffSchema,
+} from '../../../../map/datasets/schemas/dataset-diff.schema';
+import {
+  DatasetDiffChange,
+  DatasetDiffChangeSchema,
+} from '../../../../map/datasets/schemas/dataset-diff-change.schema';
+import {
+  DatasetDiffSeen,
+  DatasetDiffSeenSchema,
+} from '../../../../map/datasets/schemas/dataset-diff-seen.schema';
+import {
+  MapAddressAudit,
+  MapAddressAuditSchema,
+} from '../../../../map/addresses/schemas/map-address-audit.schema';
+import { MapAddressSeedService } from './map-address-seed.service';
+import { MapAddressDiffService } from './map-address-diff.service';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: MapAddress.name, schema: MapAddressSchema },
+      { name: MapDataset.name, schema: MapDatasetSchema },
+      { name: DatasetDiff.name, schema: DatasetDiffSchema },
+      { name: DatasetDiffChange.name, schema: DatasetDiffChangeSchema },
+      { name: DatasetDiffSeen.name, schema: DatasetDiffSeenSchema },
+      { name: MapAddressAudit.name, schema: MapAddressAuditSchema },
+    ]),
+  ],
+  providers: [MapAddressSeedService, MapAddressDiffService],
+  exports: [MapAddressSeedService, MapAddressDiffService],
+})
+export class MapAddressSeedModule {}
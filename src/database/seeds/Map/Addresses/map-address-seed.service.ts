@@ -0,0 +1,436 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { AnyBulkWriteOperation, Model } from 'mongoose';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import {
+  ACTIVE_ADDRESS,
+  MapAddress,
+  MapAddressDocument,
+} from '../../../../map/addresses/schemas/map-address.schema';
+import {
+  MapDataset,
+  MapDatasetDocument,
+} from '../../../../map/datasets/schemas/map-dataset.schema';
+import { buildDerivedFields } from '../../../../map/addresses/search/derived-fields';
+import { getNormalizationProfile } from '../../../../map/addresses/search/default-profile';
+import { NormalizationProfile } from '../../../../map/addresses/search/normalization';
+import { AllConfigType } from '../../../../config/config.type';
+import {
+  detectFormat,
+  FeatureFormat,
+  readFeatures,
+  toAddressRecord,
+} from './address-features';
+
+export type MapAddressBackfillOptions = {
+  all?: boolean;
+  batchSize?: number;
+};
+
+// Descriptive fields of the dataset record; omitted ones keep their value
+export type MapDatasetMetadata = {
+  name?: string;
+  source?: string;
+  license?: string;
+  description?: string;
+  // Locales search normalizes the addresses with (default: SEARCH_LOCALES)
+  locales?: string[];
+};
+
+export type MapAddressImportOptions = {
+  file: string;
+  // Dataset the features are imported into (default: MAP_DEFAULT_DATASET)
+  dataset?: string;
+  metadata?: MapDatasetMetadata;
+  format?: FeatureFormat;
+  batchSize?: number;
+  fresh?: boolean;
+  rejectsPath?: string;
+};
+
+// Persisted after every committed batch so an interrupted import can resume
+type ImportCheckpoint = {
+  file: string;
+  dataset: string;
+  size: number;
+  mtimeMs: number;
+  processed: number;
+  upserted: number;
+  modified: number;
+  rejected: number;
+};
+
+type RejectedRow = {
+  index: number;
+  reason: string;
+  feature: unknown;
+};
+
+@Injectable()
+export class MapAddressSeedService {
+  private readonly logger = new Logger(MapAddressSeedService.name);
+
+  constructor(
+    @InjectModel(MapAddress.name)
+    private mapAddressModel: Model<MapAddressDocument>,
+    @InjectModel(MapDataset.name)
+    private datasetModel: Model<MapDatasetDocument>,
+    private configService: ConfigService<AllConfigType>,
+  ) {}
+
+  async run(options: MapAddressImportOptions): Promise<ImportCheckpoint> {
+    const batchSize = options.batchSize ?? 1000;
+    const dataset = options.dataset ?? this.defaultDataset;
+    const format = options.format ?? (await detectFormat(options.file));
+    const checkpointPath = `${options.file}.import-state.json`;
+    const rejectsPath =
+      options.rejectsPath ?? `${options.file}.rejected.ndjson`;
+
+    const stat = await fs.stat(options.file);
+    const saved = options.fresh
+      ? null
+      : await this.loadCheckpoint(checkpointPath);
+    const resumable =
+      !!saved &&
+      saved.size === stat.size &&
+      saved.mtimeMs === stat.mtimeMs &&
+      saved.dataset === dataset;
+
+    if (saved && !resumable) {
+      this.logger.warn(
+        'Input file or dataset changed since the last checkpoint, starting over',
+      );
+    }
+
+    const checkpoint: ImportCheckpoint = resumable
+      ? (saved as ImportCheckpoint)
+      : {
+          file: options.file,
+          dataset,
+          size: stat.size,
+          mtimeMs: stat.mtimeMs,
+          processed: 0,
+          upserted: 0,
+          modified: 0,
+          rejected: 0,
+        };
+
+    if (checkpoint.processed > 0) {
+      this.logger.log(
+        `Resuming ${options.file} after ${checkpoint.processed} features`,
+      );
+    }
+
+    // Given locales apply to this import already, before they are stored
+    const profile = options.metadata?.locales?.length
+      ? getNormalizationProfile(options.metadata.locales)
+      : await this.datasetProfile(dataset);
+
+    const rejects = createWriteStream(rejectsPath, {
+      flags: checkpoint.processed > 0 ? 'a' : 'w',
+    });
+    const input = createReadStream(options.file);
+    const startedAt = Date.now();
+    const skipped = checkpoint.processed;
+
+    let batch: {
+      index: number;
+      feature: unknown;
+      op: AnyBulkWriteOperation<MapAddressDocument>;
+    }[] = [];
+    let pendingRejects: RejectedRow[] = [];
+    let lastIndex = checkpoint.processed - 1;
+
+    const flush = async () => {
+      if (batch.length) {
+        const failed = await this.writeBatch(batch, checkpoint);
+        pendingRejects.push(...failed);
+      }
+
+      for (const row of pendingRejects) {
+        rejects.write(`${JSON.stringify(row)}\n`);
+      }
+      checkpoint.rejected += pendingRejects.length;
+      checkpoint.processed = lastIndex + 1;
+      await this.saveCheckpoint(checkpointPath, checkpoint);
+
+      batch = [];
+      pendingRejects = [];
+
+      const elapsed = (Date.now() - startedAt) / 1000;
+      const rate = Math.round((checkpoint.processed - skipped) / elapsed);
+      const percent = stat.size
+        ? ((input.bytesRead / stat.size) * 100).toFixed(1)
+        : '100.0';
+      this.logger.log(
+        `${percent}% | processed ${checkpoint.processed} | upserted ${checkpoint.upserted} | modified ${checkpoint.modified} | rejected ${checkpoint.rejected} | ${rate}/s`,
+      );
+    };
+
+    try {
+      for await (const raw of readFeatures(input, format)) {
+        // Re-read rows already committed before the last interruption
+        if (raw.index < skipped) {
+          continue;
+        }
+        lastIndex = raw.index;
+
+        const result = raw.error
+          ? { reason: raw.error }
+          : this.toUpsertOperation(raw.value, dataset, profile);
+
+        if ('op' in result) {
+          batch.push({ index: raw.index, feature: raw.value, op: result.op });
+        } else {
+          pendingRejects.push({
+            index: raw.index,
+            reason: result.reason,
+            feature: raw.value,
+          });
+        }
+
+        if (batch.length + pendingRejects.length >= batchSize) {
+          await flush();
+        }
+      }
+
+      await flush();
+    } finally {
+      input.destroy();
+      await new Promise((resolve) => rejects.end(resolve));
+    }
+
+    await fs.rm(checkpointPath, { force: true });
+    const recordCount = await this.refreshDataset(
+      dataset,
+      options.metadata,
+      new Date(),
+    );
+    this.logger.log(
+      `Import into ${dataset} finished: ${checkpoint.processed} features, ${checkpoint.upserted} inserted, ${checkpoint.modified} updated, ${checkpoint.rejected} rejected (see ${rejectsPath}); ${recordCount} active addresses`,
+    );
+
+    return checkpoint;
+  }
+
+  // Recompute derived search fields for rows written before they existed,
+  // and move rows stored before datasets into the default dataset.
+  // Timestamps are left alone: the address itself did not change.
+  async backfill(options: MapAddressBackfillOptions = {}): Promise<number> {
+    const batchSize = options.batchSize ?? 1000;
+    const filter = options.all
+      ? {}
+      : {
+          $or: [
+            { dataset: { $exists: false } },
+            { autocomplete: { $exists: false } },
+            { search: { $exists: false } },
+            { 'search.street': { $exists: false } },
+          ],
+        };
+    const total = await this.mapAddressModel.countDocuments(filter);
+    this.logger.log(`Backfilling derived fields for ${total} addresses`);
+
+    const cursor = this.mapAddressModel
+      .find(filter)
+      .select('_id dataset properties')
+      .lean()
+      .cursor({ batchSize });
+
+    let ops: AnyBulkWriteOperation<MapAddressDocument>[] = [];
+    let updated = 0;
+    const profiles = new Map<string, NormalizationProfile>();
+
+    const flush = async () => {
+      if (!ops.length) {
+        return;
+      }
+      await this.mapAddressModel.bulkWrite(ops, {
+        ordered: false,
+        timestamps: false,
+      });
+      updated += ops.length;
+      ops = [];
+      this.logger.log(`Backfilled ${updated}/${total}`);
+    };
+
+    for await (const doc of cursor) {
+      const dataset = doc.dataset ?? this.defaultDataset;
+      let profile = profiles.get(dataset);
+      if (!profile) {
+        profile = await this.datasetProfile(dataset);
+        profiles.set(dataset, profile);
+      }
+      ops.push({
+        updateOne: {
+          filter: { _id: doc._id },
+          update: {
+            $set: {
+              ...buildDerivedFields(doc.properties, profile),
+              ...(doc.dataset ? {} : { dataset: this.defaultDataset }),
+            },
+          },
+        },
+      });
+      if (ops.length >= batchSize) {
+        await flush();
+      }
+    }
+    await flush();
+
+    // Swap the former global unique indexes on properties.id and
+    // properties.hash for the per-dataset ones
+    const dropped = await this.mapAddressModel.syncIndexes();
+    if (dropped.length) {
+      this.logger.log(`Dropped indexes: ${dropped.join(', ')}`);
+    }
+
+    const datasets: string[] = await this.mapAddressModel
+      .distinct('dataset')
+      .exec();
+    for (const dataset of datasets) {
+      const count = await this.refreshDataset(dataset);
+      this.logger.log(`Dataset ${dataset}: ${count} active addresses`);
+    }
+
+    return updated;
+  }
+
+  private get defaultDataset(): string {
+    return this.configService.getOrThrow('datasets.defaultDataset', {
+      infer: true,
+    });
+  }
+
+  // Profile the addresses of a dataset are indexed with
+  async datasetProfile(key: string): Promise<NormalizationProfile> {
+    const dataset = await this.datasetModel
+      .findOne({ key })
+      .select('locales')
+      .lean()
+      .exec();
+    return getNormalizationProfile(dataset?.locales);
+  }
+
+  // Creates the dataset record on first use and recounts its addresses
+  async refreshDataset(
+    key: string,
+    metadata: MapDatasetMetadata = {},
+    importedAt?: Date,
+  ): Promise<number> {
+    const recordCount = await this.mapAddressModel.countDocuments({
+      dataset: key,
+      ...ACTIVE_ADDRESS,
+    });
+    const given = Object.fromEntries(
+      Object.entries(metadata).filter(([, value]) => value !== undefined),
+    );
+
+    await this.datasetModel
+      .updateOne(
+        { key },
+        {
+          $set: {
+            ...given,
+            recordCount,
+            ...(importedAt ? { importedAt } : {}),
+          },
+          ...(given.name ? {} : { $setOnInsert: { name: key } }),
+        },
+        { upsert: true },
+      )
+      .exec();
+    return recordCount;
+  }
+
+  private toUpsertOperation(
+    feature: any,
+    dataset: string,
+    profile: NormalizationProfile,
+  ): { op: AnyBulkWriteOperation<MapAddressDocument> } | { reason: string } {
+    const record = toAddressRecord(feature);
+    if ('reason' in record) {
+      return record;
+    }
+
+    const { properties, coordinates } = record;
+    return {
+      op: {
+        updateOne: {
+          filter: { dataset, 'properties.id': properties.id },
+          update: {
+            $set: {
+              dataset,
+              type: 'Feature',
+              geometry: { type: 'Point', coordinates },
+              properties,
+              ...buildDerivedFields(properties, profile),
+            },
+          },
+          upsert: true,
+        },
+      },
+    };
+  }
+
+  // Unordered so one duplicate does not abort the rest of the batch
+  private async writeBatch(
+    batch: {
+      index: number;
+      feature: unknown;
+      op: AnyBulkWriteOperation<MapAddressDocument>;
+    }[],
+    checkpoint: ImportCheckpoint,
+  ): Promise<RejectedRow[]> {
+    try {
+      const result = await this.mapAddressModel.bulkWrite(
+        batch.map((item) => item.op),
+        { ordered: false },
+      );
+      checkpoint.upserted += result.upsertedCount;
+      checkpoint.modified += result.modifiedCount;
+      return [];
+    } catch (error) {
+      if (error?.name !== 'MongoBulkWriteError' || !error.writeErrors) {
+        throw error;
+      }
+
+      checkpoint.upserted += error.result?.upsertedCount ?? 0;
+      checkpoint.modified += error.result?.modifiedCount ?? 0;
+
+      const writeErrors = Array.isArray(error.writeErrors)
+        ? error.writeErrors
+        : [error.writeErrors];
+
+      return writeErrors.map((writeError) => {
+        const item = batch[writeError.index];
+        return {
+          index: item.index,
+          reason:
+            writeError.code === 11000
+              ? `Duplicate key: ${writeError.errmsg}`
+              : `Write error ${writeError.code}: ${writeError.errmsg}`,
+          feature: item.feature,
+        };
+      });
+    }
+  }
+
+  private async loadCheckpoint(path: string): Promise<ImportCheckpoint | null> {
+    try {
+      return JSON.parse(await fs.readFile(path, 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private async saveCheckpoint(
+    path: string,
+    checkpoint: ImportCheckpoint,
+  ): Promise<void> {
+    // Write then rename so a crash never leaves a half-written checkpoint
+    await fs.writeFile(`${path}.tmp`, JSON.stringify(checkpoint));
+    await fs.rename(`${path}.tmp`, path);
+  }
+}
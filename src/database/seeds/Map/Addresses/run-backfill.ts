@@ -0,0 +1,35 @@
+import { NestFactory } from '@nestjs/core';
+import { SeedModule } from './seed.module';
+import { MapAddressSeedService } from './map-address-seed.service';
+
+// Usage: npm run seed:map-addresses:backfill -- [--all] [--batch-size <n>]
+const runBackfill = async () => {
+  const args = process.argv.slice(2);
+  const batchSizeIndex = args.indexOf('--batch-size');
+  const batchSize =
+    batchSizeIndex >= 0 ? parseInt(args[batchSizeIndex + 1], 10) : undefined;
+
+  if (
+    batchSize !== undefined &&
+    (!Number.isInteger(batchSize) || batchSize <= 0)
+  ) {
+    console.error('--batch-size must be a positive integer');
+    process.exit(1);
+  }
+
+  const app = await NestFactory.createApplicationContext(SeedModule);
+
+  try {
+    await app.get(MapAddressSeedService).backfill({
+      all: args.includes('--all'),
+      batchSize,
+    });
+  } catch (error) {
+    console.error(`Backfill failed: ${error.message}`);
+    process.exitCode = 1;
+  } finally {
+    await app.close();
+  }
+};
+
+void runBackfill();
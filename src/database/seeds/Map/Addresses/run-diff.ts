@@ -0,0 +1,166 @@
+import { NestFactory } from '@nestjs/core';
+import { SeedModule } from './seed.module';
+import {
+  DiffStepResult,
+  MapAddressDiffOptions,
+  MapAddressDiffService,
+} from './map-address-diff.service';
+import { DATASET_KEY_PATTERN } from '../../../../map/datasets/dataset-key';
+
+const USAGE = `Usage:
+  npm run seed:map-addresses:diff -- diff <file> [options]
+  npm run seed:map-addresses:diff -- apply <diff-id> [--dry-run]
+  npm run seed:map-addresses:diff -- rollback <diff-id> [--dry-run]
+
+diff compares a new OpenAddresses release with the stored dataset by
+properties.id and classifies each record as added, removed, moved or
+changed. Nothing is written to the dataset until the diff is applied;
+rollback restores what an apply wrote.
+
+Options of diff:
+  --dataset <key>            Dataset to compare with (default: MAP_DEFAULT_DATASET)
+  --move-threshold <meters>  Coordinate shift that counts as a move (default: 5)
+  --format <geojson|ndjson>  Input format (default: detected from extension)
+  --batch-size <n>           Records compared per query (default: 1000)
+  --changes <path>           Change log (default: <file>.changes.ndjson)
+  --rejects <path>           Rejected-rows report (default: <file>.rejected.ndjson)
+
+Options of apply and rollback:
+  --dry-run                  Report what would be written and any conflicts
+`;
+
+type Command =
+  | { name: 'diff'; options: MapAddressDiffOptions }
+  | { name: 'apply' | 'rollback'; id: string; dryRun: boolean };
+
+function parseArgs(argv: string[]): Command {
+  const [name, target, ...args] = argv;
+  if (name === '--help' || name === '-h') {
+    console.log(USAGE);
+    process.exit(0);
+  }
+  if (!target || target.startsWith('--')) {
+    throw new Error(
+      name === 'diff' ? 'An input file is required' : 'A diff id is required',
+    );
+  }
+
+  if (name === 'apply' || name === 'rollback') {
+    const unknown = args.find((arg) => arg !== '--dry-run');
+    if (unknown) {
+      throw new Error(`Unknown argument: ${unknown}`);
+    }
+    return { name, id: target, dryRun: args.includes('--dry-run') };
+  }
+  if (name !== 'diff') {
+    throw new Error(`Unknown command: ${name ?? ''}`);
+  }
+
+  const options: MapAddressDiffOptions = { file: target };
+  while (args.length) {
+    const arg = args.shift() as string;
+    switch (arg) {
+      case '--dataset': {
+        const dataset = args.shift() ?? '';
+        if (!DATASET_KEY_PATTERN.test(dataset)) {
+          throw new Error(
+            '--dataset must be a lowercase key of letters, digits, - and _',
+          );
+        }
+        options.dataset = dataset;
+        break;
+      }
+      case '--move-threshold': {
+        const threshold = Number(args.shift());
+        if (!Number.isFinite(threshold) || threshold < 0) {
+          throw new Error('--move-threshold must be a number of meters');
+        }
+        options.moveThreshold = threshold;
+        break;
+      }
+      case '--format': {
+        const format = args.shift();
+        if (format !== 'geojson' && format !== 'ndjson') {
+          throw new Error('--format must be "geojson" or "ndjson"');
+        }
+        options.format = format;
+        break;
+      }
+      case '--batch-size': {
+        const batchSize = parseInt(args.shift() ?? '', 10);
+        if (!Number.isInteger(batchSize) || batchSize <= 0) {
+          throw new Error('--batch-size must be a positive integer');
+        }
+        options.batchSize = batchSize;
+        break;
+      }
+      case '--changes':
+        options.changesPath = args.shift();
+        break;
+      case '--rejects':
+        options.rejectsPath = args.shift();
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  return { name, options };
+}
+
+function printStep(step: string, result: DiffStepResult, dryRun: boolean) {
+  const { added, removed, moved, changed } = result.changes;
+  console.log(
+    `${dryRun ? `Dry run: ${step} would write` : `${step}: wrote`} ${added} added, ${removed} removed, ${moved} moved, ${changed} changed (diff ${String(result.diff._id)} of ${result.diff.dataset}, now ${result.diff.status})`,
+  );
+  if (result.conflicts) {
+    console.log(
+      `${result.conflicts} conflicts, ${step} refused until they are resolved:`,
+    );
+    for (const conflict of result.conflictSamples) {
+      console.log(
+        `  ${conflict.kind} ${conflict.addressId}: ${conflict.reason}`,
+      );
+    }
+  }
+}
+
+const runDiff = async () => {
+  let command: Command;
+  try {
+    command = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${error.message}\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  const app = await NestFactory.createApplicationContext(SeedModule);
+  const diffService = app.get(MapAddressDiffService);
+
+  try {
+    if (command.name === 'diff') {
+      const diff = await diffService.diff(command.options);
+      console.log(`Diff ${String(diff._id)}: ${JSON.stringify(diff.summary)}`);
+      console.log(
+        `Apply with: npm run seed:map-addresses:diff -- apply ${String(diff._id)} [--dry-run]`,
+      );
+    } else {
+      const result = await diffService[command.name](
+        command.id,
+        command.dryRun,
+      );
+      printStep(command.name, result, command.dryRun);
+    }
+  } catch (error) {
+    console.error(`${command.name} failed: ${error.message}`);
+    if (command.name !== 'diff') {
+      console.error(
+        'Written changes are tracked per address; re-running the command continues an interrupted step.',
+      );
+    }
+    process.exitCode = 1;
+  } finally {
+    await app.close();
+  }
+};
+
+void runDiff();
@@ -0,0 +1,134 @@
+import { NestFactory } from '@nestjs/core';
+import { SeedModule } from './seed.module';
+import {
+  MapAddressImportOptions,
+  MapAddressSeedService,
+} from './map-address-seed.service';
+import { DATASET_KEY_PATTERN } from '../../../../map/datasets/dataset-key';
+
+const USAGE = `Usage: npm run seed:map-addresses -- <file> [options]
+
+Streams an OpenAddresses GeoJSON FeatureCollection or line-delimited GeoJSON
+file into the addresses collection, as one dataset.
+
+Options:
+  --dataset <key>            Dataset to import into (default: MAP_DEFAULT_DATASET)
+  --name <text>              Dataset name (default: the key)
+  --source <text>            Publisher, URL or file the data comes from
+  --license <text>           License of the data, e.g. CC0-1.0
+  --description <text>       Free-form notes on the dataset
+  --locales <list>           Locales search normalizes the dataset with, e.g.
+                             nl or it,de (default: SEARCH_LOCALES); kept on
+                             the dataset for later imports and edits
+  --format <geojson|ndjson>  Input format (default: detected from extension)
+  --batch-size <n>           Features per bulkWrite (default: 1000)
+  --fresh                    Ignore any saved checkpoint and start over
+  --rejects <path>           Rejected-rows report (default: <file>.rejected.ndjson)
+`;
+
+function parseArgs(argv: string[]): MapAddressImportOptions {
+  const args = [...argv];
+  const options: Partial<MapAddressImportOptions> = {};
+
+  while (args.length) {
+    const arg = args.shift() as string;
+    switch (arg) {
+      case '--format': {
+        const format = args.shift();
+        if (format !== 'geojson' && format !== 'ndjson') {
+          throw new Error('--format must be "geojson" or "ndjson"');
+        }
+        options.format = format;
+        break;
+      }
+      case '--batch-size': {
+        const batchSize = parseInt(args.shift() ?? '', 10);
+        if (!Number.isInteger(batchSize) || batchSize <= 0) {
+          throw new Error('--batch-size must be a positive integer');
+        }
+        options.batchSize = batchSize;
+        break;
+      }
+      case '--dataset': {
+        const dataset = args.shift() ?? '';
+        if (!DATASET_KEY_PATTERN.test(dataset)) {
+          throw new Error(
+            '--dataset must be a lowercase key of letters, digits, - and _',
+          );
+        }
+        options.dataset = dataset;
+        break;
+      }
+      case '--name':
+      case '--source':
+      case '--license':
+      case '--description': {
+        const value = args.shift();
+        if (value === undefined) {
+          throw new Error(`${arg} needs a value`);
+        }
+        options.metadata = { ...options.metadata, [arg.slice(2)]: value };
+        break;
+      }
+      case '--locales': {
+        const locales = (args.shift() ?? '')
+          .split(',')
+          .map((locale) => locale.trim().toLowerCase())
+          .filter(Boolean);
+        if (!locales.length) {
+          throw new Error('--locales needs a comma-separated list');
+        }
+        options.metadata = { ...options.metadata, locales };
+        break;
+      }
+      case '--fresh':
+        options.fresh = true;
+        break;
+      case '--rejects':
+        options.rejectsPath = args.shift();
+        break;
+      case '--help':
+      case '-h':
+        console.log(USAGE);
+        process.exit(0);
+        break;
+      default:
+        if (arg.startsWith('--') || options.file) {
+          throw new Error(`Unknown argument: ${arg}`);
+        }
+        options.file = arg;
+    }
+  }
+
+  if (!options.file) {
+    throw new Error('An input file is required');
+  }
+
+  return options as MapAddressImportOptions;
+}
+
+const runSeed = async () => {
+  let options: MapAddressImportOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${error.message}\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  const app = await NestFactory.createApplicationContext(SeedModule);
+
+  try {
+    await app.get(MapAddressSeedService).run(options);
+  } catch (error) {
+    console.error(`Import failed: ${error.message}`);
+    console.error(
+      'Re-run the same command to resume from the last checkpoint.',
+    );
+    process.exitCode = 1;
+  } finally {
+    await app.close();
+  }
+};
+
+void runSeed();
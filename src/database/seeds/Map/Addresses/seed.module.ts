@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { MongooseModule } from '@nestjs/mongoose';
+import databaseConfig from '../../../config/database.config';
+import appConfig from '../../../../config/app.config';
+import { MongooseConfigService } from '../../../mongoose-config.service';
+import searchConfig from '../../../../map/config/search.config';
+import datasetsConfig from '../../../../map/config/datasets.config';
+import { MapAddressSeedModule } from './map-address-seed.module';
+
+@Module({
+  imports: [
+    ConfigModule.forRoot({
+      isGlobal: true,
+      load: [databaseConfig, appConfig, searchConfig, datasetsConfig],
+      envFilePath: ['.env'],
+    }),
+    MongooseModule.forRootAsync({
+      useClass: MongooseConfigService,
+    }),
+    MapAddressSeedModule,
+  ],
+})
+export class SeedModule {}
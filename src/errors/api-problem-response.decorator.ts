@@ -0,0 +1,28 @@
+import { applyDecorators } from '@nestjs/common';
+import { ApiExtraModels, ApiResponse, getSchemaPath } from '@nestjs/swagger';
+import { ProblemDetailsDto } from './problem-details.dto';
+
+// Documents an error response with its application/problem+json body
+export function ApiProblemResponse(status: number, description: string) {
+  return applyDecorators(
+    ApiExtraModels(ProblemDetailsDto),
+    ApiResponse({
+      status,
+      description,
+      content: {
+        'application/problem+json': {
+          schema: { $ref: getSchemaPath(ProblemDetailsDto) },
+        },
+      },
+    }),
+  );
+}
+
+// Errors any route can return
+export function ApiCommonProblemResponses() {
+  return applyDecorators(
+    ApiProblemResponse(400, 'Invalid input'),
+    ApiProblemResponse(500, 'Unexpected server error'),
+    ApiProblemResponse(503, 'Database unavailable; retry after Retry-After'),
+  );
+}
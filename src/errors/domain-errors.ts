@@ -0,0 +1,156 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+// Problem types are URNs; they identify the kind of failure, not a page
+export const PROBLEM_TYPE_PREFIX = 'urn:problem-type:';
+
+/**
+ * Failure the caller can act on. Each subclass carries a stable problem
+ * type that clients can branch on instead of parsing `detail`; extensions
+ * are added as extra members of the problem+json body.
+ */
+export abstract class DomainError extends HttpException {
+  constructor(
+    status: HttpStatus,
+    readonly problemType: string,
+    readonly title: string,
+    detail: string,
+    readonly extensions: Record<string, unknown> = {},
+  ) {
+    super(detail, status);
+  }
+}
+
+// A request field or query parameter failed validation
+export class InvalidInputError extends DomainError {
+  constructor(detail: string, errors?: ValidationProblem[]) {
+    super(
+      HttpStatus.BAD_REQUEST,
+      'invalid-input',
+      'Invalid input',
+      detail,
+      errors ? { errors } : {},
+    );
+  }
+}
+
+export type ValidationProblem = {
+  // Dotted path of the offending field, e.g. "filters.city"
+  field: string;
+  messages: string[];
+};
+
+// A pagination cursor that was not issued by this API or has expired
+export class InvalidCursorError extends DomainError {
+  constructor(detail: string) {
+    super(HttpStatus.BAD_REQUEST, 'invalid-cursor', 'Invalid cursor', detail);
+  }
+}
+
+// WKT or GeoJSON that cannot be parsed or that MongoDB rejects
+export class InvalidRegionError extends DomainError {
+  constructor(detail: string) {
+    super(HttpStatus.BAD_REQUEST, 'invalid-region', 'Invalid region', detail);
+  }
+}
+
+export class ResourceNotFoundError extends DomainError {
+  constructor(detail: string) {
+    super(HttpStatus.NOT_FOUND, 'not-found', 'Resource not found', detail);
+  }
+}
+
+// The caller is known but may not do this, e.g. change another user's data
+export class ForbiddenError extends DomainError {
+  constructor(detail: string) {
+    super(HttpStatus.FORBIDDEN, 'forbidden', 'Forbidden', detail);
+  }
+}
+
+// The request clashes with the current state, e.g. a taken id or a job
+// that is already running
+export class ConflictError extends DomainError {
+  constructor(detail: string) {
+    super(HttpStatus.CONFLICT, 'conflict', 'Conflict', detail);
+  }
+}
+
+// The resource existed but was retired and will not come back
+export class GoneError extends DomainError {
+  constructor(detail: string) {
+    super(HttpStatus.GONE, 'gone', 'Resource gone', detail);
+  }
+}
+
+// The database did not answer in time; retrying later may succeed
+export class DatabaseUnavailableError extends DomainError {
+  constructor(readonly retryAfterSeconds = 5) {
+    super(
+      HttpStatus.SERVICE_UNAVAILABLE,
+      'database-unavailable',
+      'Database unavailable',
+      'The address database did not respond in time, try again shortly',
+    );
+  }
+}
+
+// The substring fallback of search ran out of time; a more specific query
+// avoids it, and a quieter moment may let it finish
+export class SearchTimeoutError extends DomainError {
+  constructor(readonly retryAfterSeconds = 5) {
+    super(
+      HttpStatus.SERVICE_UNAVAILABLE,
+      'search-timeout',
+      'Search timed out',
+      'No word of the query starts a word of an address, and matching it inside words did not finish in time; use whole words, a postcode or a city, or try again shortly',
+    );
+  }
+}
+
+// No API key, or one that is unknown or revoked
+export class InvalidApiKeyError extends DomainError {
+  constructor(detail: string) {
+    super(
+      HttpStatus.UNAUTHORIZED,
+      'invalid-api-key',
+      'Invalid API key',
+      detail,
+    );
+  }
+}
+
+// The key used up its per-minute allowance
+export class RateLimitExceededError extends DomainError {
+  constructor(readonly retryAfterSeconds: number) {
+    super(
+      HttpStatus.TOO_MANY_REQUESTS,
+      'rate-limit-exceeded',
+      'Rate limit exceeded',
+      `Too many requests for this API key, retry in ${retryAfterSeconds} s`,
+    );
+  }
+}
+
+// The key used up its monthly quota; it resets on the first of the month
+export class QuotaExceededError extends DomainError {
+  constructor(readonly retryAfterSeconds: number) {
+    super(
+      HttpStatus.TOO_MANY_REQUESTS,
+      'quota-exceeded',
+      'Quota exceeded',
+      'The monthly request quota of this API key is used up',
+    );
+  }
+}
+
+// A dependency the API needs is missing; the load balancer should wait
+export class NotReadyError extends DomainError {
+  constructor(checks: Record<string, string>) {
+    super(
+      HttpStatus.SERVICE_UNAVAILABLE,
+      'not-ready',
+      'Not ready',
+      'The service cannot answer queries yet',
+      { checks },
+    );
+  }
+}
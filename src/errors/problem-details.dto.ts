@@ -0,0 +1,41 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ValidationProblemDto {
+  @ApiProperty({ example: 'filters.city' })
+  field: string;
+
+  @ApiProperty({ type: [String], example: ['city must be an array'] })
+  messages: string[];
+}
+
+export class ProblemDetailsDto {
+  @ApiProperty({
+    description:
+      'urn:problem-type:<name> for API-specific problems (invalid-input, invalid-cursor, invalid-region, not-found, database-unavailable), otherwise about:blank',
+    example: 'urn:problem-type:invalid-cursor',
+  })
+  type: string;
+
+  @ApiProperty({ example: 'Invalid cursor' })
+  title: string;
+
+  @ApiProperty({ example: 400 })
+  status: number;
+
+  @ApiPropertyOptional({
+    example: 'Invalid cursor value: must be a valid ObjectId string',
+  })
+  detail?: string;
+
+  @ApiPropertyOptional({
+    description: 'Path of the request that failed',
+    example: '/api/v1/map/addresses/within-polygon',
+  })
+  instance?: string;
+
+  @ApiPropertyOptional({
+    description: 'Invalid fields, for invalid-input problems',
+    type: [ValidationProblemDto],
+  })
+  errors?: ValidationProblemDto[];
+}
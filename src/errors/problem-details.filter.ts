@@ -0,0 +1,115 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { STATUS_CODES } from 'http';
+import { Request, Response } from 'express';
+import {
+  DatabaseUnavailableError,
+  DomainError,
+  PROBLEM_TYPE_PREFIX,
+  QuotaExceededError,
+  RateLimitExceededError,
+  SearchTimeoutError,
+} from './domain-errors';
+import { isDatabaseUnavailable } from './service-errors';
+
+export type ProblemDetails = {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  [extension: string]: unknown;
+};
+
+/**
+ * Renders every error as RFC 9457 (formerly 7807) application/problem+json.
+ * Domain errors keep their own type; other HTTP exceptions get
+ * "about:blank" with the status text as title. Anything unexpected is
+ * logged and reported as a bare 500 so internals do not leak.
+ */
+@Catch()
+export class ProblemDetailsFilter implements ExceptionFilter {
+  private readonly logger = new Logger(ProblemDetailsFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost): void {
+    const context = host.switchToHttp();
+    const request = context.getRequest<Request>();
+    const response = context.getResponse<Response>();
+
+    const error = isDatabaseUnavailable(exception)
+      ? new DatabaseUnavailableError()
+      : exception;
+    const problem = this.toProblem(error);
+    problem.instance = request.originalUrl;
+
+    if (problem.status >= HttpStatus.INTERNAL_SERVER_ERROR) {
+      this.logger.error(
+        `${request.method} ${request.originalUrl}: ${
+          exception instanceof Error ? exception.message : String(exception)
+        }`,
+        exception instanceof Error ? exception.stack : undefined,
+      );
+    }
+
+    // A streamed body has already started; all that is left is to cut it
+    if (response.headersSent) {
+      response.destroy();
+      return;
+    }
+
+    if (
+      error instanceof DatabaseUnavailableError ||
+      error instanceof SearchTimeoutError ||
+      error instanceof RateLimitExceededError ||
+      error instanceof QuotaExceededError
+    ) {
+      response.setHeader('Retry-After', String(error.retryAfterSeconds));
+    }
+    response
+      .status(problem.status)
+      .type('application/problem+json')
+      .send(JSON.stringify(problem));
+  }
+
+  private toProblem(error: unknown): ProblemDetails {
+    if (error instanceof DomainError) {
+      return {
+        type: `${PROBLEM_TYPE_PREFIX}${error.problemType}`,
+        title: error.title,
+        status: error.getStatus(),
+        detail: error.message,
+        ...error.extensions,
+      };
+    }
+
+    if (error instanceof HttpException) {
+      const status = error.getStatus();
+      const body = error.getResponse();
+      // Built-in exceptions put the text in `message`, possibly as a list
+      const message =
+        typeof body === 'string'
+          ? body
+          : (body as { message?: string | string[] }).message;
+      return {
+        type: 'about:blank',
+        title: STATUS_CODES[status] ?? 'Error',
+        status,
+        ...(message
+          ? { detail: Array.isArray(message) ? message.join('; ') : message }
+          : {}),
+      };
+    }
+
+    return {
+      type: 'about:blank',
+      title: STATUS_CODES[HttpStatus.INTERNAL_SERVER_ERROR] as string,
+      status: HttpStatus.INTERNAL_SERVER_ERROR,
+    };
+  }
+}
@@ -0,0 +1,68 @@
+import { HttpException } from '@nestjs/common';
+import { Error as MongooseError, mongo } from 'mongoose';
+import { DatabaseUnavailableError, InvalidRegionError } from './domain-errors';
+
+// Server-side time limits: maxTimeMS and cluster-wide operation limits
+const TIMEOUT_CODES = new Set([50, 262]);
+
+/**
+ * Whether an error means MongoDB could not be reached or did not answer in
+ * time, as opposed to rejecting the operation itself.
+ */
+export function isDatabaseUnavailable(error: unknown): boolean {
+  return (
+    error instanceof mongo.MongoNetworkError ||
+    error instanceof mongo.MongoServerSelectionError ||
+    error instanceof mongo.MongoNotConnectedError ||
+    error instanceof mongo.MongoTopologyClosedError ||
+    error instanceof MongooseError.MongooseServerSelectionError ||
+    (error instanceof mongo.MongoServerError &&
+      TIMEOUT_CODES.has(Number(error.code))) ||
+    // Mongoose queues operations while disconnected and gives up after
+    // bufferTimeoutMS
+    (error instanceof MongooseError &&
+      /buffering timed out/.test(error.message))
+  );
+}
+
+/**
+ * Error to rethrow from a service method: HTTP and domain errors pass
+ * through, database outages become a 503 and anything else is wrapped
+ * with what the method was doing.
+ */
+export function toServiceError(error: unknown, failure: string): Error {
+  if (error instanceof HttpException) {
+    return error;
+  }
+  if (isDatabaseUnavailable(error)) {
+    return new DatabaseUnavailableError();
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new Error(`${failure}: ${message}`);
+}
+
+// MongoDB could not index a geometry ("Can't extract geo keys")
+const GEO_KEY_CODE = 16755;
+
+/**
+ * Like toServiceError, for methods that query or store a region: geometry
+ * that MongoDB's own S2 validation rejects becomes an invalid-region
+ * problem instead of a 500. `subject` names the geometry in the detail.
+ */
+export function toGeoServiceError(
+  error: unknown,
+  failure: string,
+  subject = 'Region',
+): Error {
+  const { code, message } = (error ?? {}) as {
+    code?: unknown;
+    message?: string;
+  };
+  if (
+    code === GEO_KEY_CODE ||
+    (code === 2 && /loop|polygon|geo/i.test(message ?? ''))
+  ) {
+    return new InvalidRegionError(`${subject} rejected by MongoDB: ${message}`);
+  }
+  return toServiceError(error, failure);
+}
@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class HealthResponseDto {
+  @ApiProperty({ example: 'ok' })
+  status: string;
+}
+
+export class ReadinessResponseDto extends HealthResponseDto {
+  @ApiProperty({
+    description: 'Outcome of each readiness check',
+    example: { database: 'up', geoIndex: 'present' },
+  })
+  checks: Record<string, string>;
+}
@@ -0,0 +1,50 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiProduces,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { HealthService } from './health.service';
+import {
+  HealthResponseDto,
+  ReadinessResponseDto,
+} from './dto/health-response.dto';
+import { MetricsService } from '../metrics/metrics.service';
+import { ApiProblemResponse } from '../errors/api-problem-response.decorator';
+
+// Served outside the /api prefix and without an API key, for load
+// balancers and scrapers
+@ApiTags('Health')
+@Controller()
+export class HealthController {
+  constructor(
+    private readonly healthService: HealthService,
+    private readonly metricsService: MetricsService,
+  ) {}
+
+  @ApiOperation({ summary: 'Liveness: the process is up' })
+  @ApiResponse({ status: 200, type: HealthResponseDto })
+  @Get('health')
+  health(): HealthResponseDto {
+    return { status: 'ok' };
+  }
+
+  @ApiOperation({
+    summary: 'Readiness: MongoDB is connected and the 2dsphere index exists',
+  })
+  @ApiResponse({ status: 200, type: ReadinessResponseDto })
+  @ApiProblemResponse(503, 'Not ready; checks lists what failed')
+  @Get('ready')
+  async ready(): Promise<ReadinessResponseDto> {
+    return await this.healthService.checkReadiness();
+  }
+
+  @ApiOperation({ summary: 'Metrics in the Prometheus text format' })
+  @ApiProduces('text/plain')
+  @Get('metrics')
+  @Header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+  metrics(): string {
+    return this.metricsService.render();
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { HealthController } from './health.controller';
+import { HealthService } from './health.service';
+import { MetricsModule } from '../metrics/metrics.module';
+
+@Module({
+  imports: [MetricsModule],
+  controllers: [HealthController],
+  providers: [HealthService],
+})
+export class HealthModule {}
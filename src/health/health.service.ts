@@ -0,0 +1,50 @@
+import { Injectable } from '@nestjs/common';
+import { InjectConnection } from '@nestjs/mongoose';
+import { Connection, ConnectionStates } from 'mongoose';
+import { ReadinessResponseDto } from './dto/health-response.dto';
+import { NotReadyError } from '../errors/domain-errors';
+
+// Collection holding the address documents, see MapAddressSchema
+const ADDRESS_COLLECTION = 'addresses';
+
+@Injectable()
+export class HealthService {
+  constructor(@InjectConnection() private connection: Connection) {}
+
+  /**
+   * Ready once MongoDB is connected and the 2dsphere index that every
+   * spatial query depends on exists; without it $geoNear fails outright.
+   */
+  async checkReadiness(): Promise<ReadinessResponseDto> {
+    const checks: Record<string, string> = {
+      database:
+        this.connection.readyState === ConnectionStates.connected
+          ? 'up'
+          : 'down',
+      geoIndex: 'unknown',
+    };
+
+    if (checks.database === 'up') {
+      try {
+        const indexes = await this.connection
+          .collection(ADDRESS_COLLECTION)
+          .listIndexes()
+          .toArray();
+        checks.geoIndex = indexes.some(
+          (index) => index.key?.geometry === '2dsphere',
+        )
+          ? 'present'
+          : 'missing';
+      } catch (error) {
+        // A collection that does not exist yet has no indexes either
+        checks.geoIndex =
+          error?.codeName === 'NamespaceNotFound' ? 'missing' : 'unknown';
+      }
+    }
+
+    if (checks.database !== 'up' || checks.geoIndex !== 'present') {
+      throw new NotReadyError(checks);
+    }
+    return { status: 'ok', checks };
+  }
+}
@@ -1,11 +1,14 @@
 import 'dotenv/config';
-import { VersioningType } from '@nestjs/common';
+import { ValidationPipe, VersioningType } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { NestFactory } from '@nestjs/core';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { useContainer } from 'class-validator';
 import { AppModule } from './app.module';
 import { AllConfigType } from './config/config.type';
+import { ProblemDetailsFilter } from './errors/problem-details.filter';
+import validationOptions from './utils/validation-options';
+import { API_KEY_HEADER } from './api-keys/guards/api-key.guard';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
@@ -18,23 +21,38 @@ async function bootstrap() {
   app.enableCors({
     origin: configService.getOrThrow('app.corsOrigins', { infer: true }),
     credentials: true,
+    exposedHeaders: [
+      'X-RateLimit-Limit',
+      'X-RateLimit-Remaining',
+      'X-RateLimit-Reset',
+      'X-RateLimit-Quota-Limit',
+      'X-RateLimit-Quota-Remaining',
+      'X-RateLimit-Quota-Reset',
+      'Retry-After',
+    ],
   });
 
   app.setGlobalPrefix(
     configService.getOrThrow('app.apiPrefix', { infer: true }),
     {
-      exclude: ['/'],
+      exclude: ['/', 'health', 'ready', 'metrics'],
     },
   );
   app.enableVersioning({
     type: VersioningType.URI,
   });
+  app.useGlobalPipes(new ValidationPipe(validationOptions));
+  app.useGlobalFilters(new ProblemDetailsFilter());
 
   const options = new DocumentBuilder()
     .setTitle('API')
     .setDescription('API docs')
     .setVersion('1.0')
     .addBearerAuth()
+    .addApiKey(
+      { type: 'apiKey', in: 'header', name: API_KEY_HEADER },
+      'api-key',
+    )
     .addGlobalParameters({
       in: 'header',
       required: false,
@@ -0,0 +1,31 @@
+import { createHash } from 'crypto';
+import { MapAddress } from './schemas/map-address.schema';
+
+const HASHED_FIELDS = [
+  'number',
+  'street',
+  'unit',
+  'city',
+  'district',
+  'region',
+  'postcode',
+] as const;
+
+/**
+ * Content hash in the 16 hex digit shape of OpenAddresses hashes. It covers
+ * the location and every property except `id` and `hash`, so two records
+ * describing the same address collide on the unique index.
+ */
+export function computeAddressHash(
+  properties: Partial<MapAddress['properties']>,
+  coordinates: number[],
+): string {
+  const content = [
+    ...HASHED_FIELDS.map((field) => (properties[field] ?? '').trim()),
+    ...coordinates.slice(0, 2).map((value) => Number(value).toFixed(7)),
+  ];
+  return createHash('sha256')
+    .update(JSON.stringify(content))
+    .digest('hex')
+    .slice(0, 16);
+}
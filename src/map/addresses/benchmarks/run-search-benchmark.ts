@@ -0,0 +1,327 @@
+import { NestFactory } from '@nestjs/core';
+import { getConnectionToken } from '@nestjs/mongoose';
+import { Connection, Model } from 'mongoose';
+import stringSimilarity from 'string-similarity';
+import { SeedModule } from '../../../database/seeds/Map/Addresses/seed.module';
+import { MapAddress, MapAddressSchema } from '../schemas/map-address.schema';
+import { buildDerivedFields } from '../search/derived-fields';
+import {
+  buildSearchAttempts,
+  buildSearchRankingStages,
+} from '../search/search-pipeline';
+import { rankCandidates } from '../search/search-ranking';
+import { parseAddressQuery } from '../search/query-parser';
+import { CityVocabulary } from '../search/city-vocabulary';
+
+/*
+ * Compares the legacy regex-scan search with the index-backed search on a
+ * generated dataset in a scratch collection, per kind of query: word
+ * prefixes, words from inside a street name, and postcodes. Each path
+ * retrieves and ranks the way it does in production. Recall and ranking
+ * against the legacy path are asserted in search-pipeline.spec.ts; this
+ * script measures timings on real MongoDB.
+ *
+ * Usage: npm run benchmark:search -- [--size <n>] [--queries <n>] [--keep]
+ */
+
+const COLLECTION = 'addresses_benchmark';
+const LIMIT = 10;
+
+const STREET_STEMS = [
+  'Oranje',
+  'Johanna van Buren',
+  'Hoofd',
+  'Kerk',
+  'Molen',
+  'Dorps',
+  'Stations',
+  'Beuken',
+  'Eiken',
+  'Linden',
+  'Prins Hendrik',
+  'Wilhelmina',
+  'Zuider',
+  'Noorder',
+  'Nieuwe',
+  'Oude',
+];
+const STREET_SUFFIXES = ['weg', 'straat', 'laan', 'plein', 'kade', 'singel'];
+const ITALIAN_STREETS = [
+  'Via Roma',
+  'Via Garibaldi',
+  'Via Mazzini',
+  'Corso Italia',
+  'Via Giuseppe Verdi',
+  'Piazza del Duomo',
+  'Viale della Repubblica',
+];
+const CITIES = [
+  'Appingedam',
+  'Amsterdam',
+  'Groningen',
+  'Delfzijl',
+  'Utrecht',
+  'Zwolle',
+  'Pisa',
+  'Calci',
+  'Vicopisano',
+  'Buti',
+];
+
+// Deterministic PRNG so runs are comparable
+function mulberry32(seed: number) {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function generateAddress(random: () => number, i: number): MapAddress {
+  const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+  const city = pick(CITIES);
+  const italian = ['Pisa', 'Calci', 'Vicopisano', 'Buti'].includes(city);
+  const street = italian
+    ? pick(ITALIAN_STREETS)
+    : `${pick(STREET_STEMS)}${pick(STREET_SUFFIXES)}`;
+  const number = `${1 + Math.floor(random() * 250)}${random() < 0.1 ? pick(['a', 'b', 'c']) : ''}`;
+  const postcode = italian
+    ? `56${String(Math.floor(random() * 1000)).padStart(3, '0')}`
+    : `${1000 + Math.floor(random() * 9000)} ${String.fromCharCode(65 + Math.floor(random() * 26))}${String.fromCharCode(65 + Math.floor(random() * 26))}`;
+
+  const properties = {
+    hash: `bench${i.toString(16)}`,
+    number,
+    street,
+    unit: '',
+    city,
+    district: '',
+    region: '',
+    postcode,
+    id: `bench-${i}`,
+  };
+
+  return {
+    dataset: 'benchmark',
+    type: 'Feature',
+    geometry: {
+      type: 'Point',
+      coordinates: [6 + random(), 52 + random()],
+    },
+    properties,
+    ...buildDerivedFields(properties),
+  };
+}
+
+type QueryKind = 'prefix' | 'infix' | 'postcode';
+
+function queriesFor(address: MapAddress): { kind: QueryKind; query: string }[] {
+  const { street, number, postcode, city } = address.properties;
+  // The last street word without its first letters: "straat" of
+  // "Hoofdstraat", "ribaldi" of "Via Garibaldi"
+  const inner = (street.split(' ').pop() as string).slice(3);
+  return [
+    { kind: 'prefix', query: `${street} ${number} ${city}` },
+    { kind: 'prefix', query: `${street} ${number}` },
+    { kind: 'prefix', query: street.slice(0, 5) },
+    { kind: 'infix', query: inner },
+    { kind: 'infix', query: `${inner} ${number} ${city}` },
+    { kind: 'postcode', query: postcode },
+    { kind: 'postcode', query: `${postcode} ${number}` },
+  ];
+}
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+// getAddresses as it was before the search redesign: a regex scan and
+// similarity on lowercased, otherwise unnormalized fields
+async function legacySearch(model: Model<MapAddress>, query: string) {
+  const normalizedSearch = query.trim().toLowerCase();
+  const fields = [
+    'properties.street',
+    'properties.number',
+    'properties.postcode',
+    'properties.city',
+  ];
+  const tokens = normalizedSearch
+    .split(/[^a-z0-9]+/i)
+    .map((t) => t.trim())
+    .filter((t) => t.length > 0);
+  const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+  const candidates = await model
+    .find({
+      $and: tokens.map((t) => {
+        const rx = new RegExp(escapeRegExp(t), 'i');
+        return { $or: fields.map((f) => ({ [f]: rx })) };
+      }),
+    })
+    .select('_id type geometry properties')
+    .limit(Math.max(LIMIT * 2, 100))
+    .lean();
+
+  const weights = { street: 1.0, city: 0.9, postcode: 0.8, number: 0.5 };
+  const scored = candidates.map((address) => {
+    const values = (['street', 'number', 'postcode', 'city'] as const).map(
+      (field) => String(address.properties[field] || '').toLowerCase(),
+    );
+    const [street, number, postcode, city] = values;
+    const compare = (value: string) =>
+      stringSimilarity.compareTwoStrings(normalizedSearch, value);
+    const best = Math.max(
+      compare(values.filter(Boolean).join(' ')),
+      compare(street) * weights.street,
+      compare(city) * weights.city,
+      compare(postcode) * weights.postcode,
+      compare(number) * weights.number,
+    );
+    const prefixBoost = values.some((value) =>
+      value.startsWith(normalizedSearch),
+    )
+      ? 0.15
+      : 0;
+    return { ...address, score: Math.min(1, best + prefixBoost) };
+  });
+  scored.sort((a, b) => b.score - a.score);
+
+  const bestScore = scored[0]?.score ?? 0;
+  return bestScore >= 0.75
+    ? scored
+        .filter((s) => s.score >= Math.max(0.7, bestScore - 0.08))
+        .slice(0, LIMIT)
+    : scored.slice(0, LIMIT);
+}
+
+// getAddresses today: parsed fields, then word prefixes, then substrings
+async function indexedSearch(
+  model: Model<MapAddress>,
+  query: string,
+  cities: CityVocabulary,
+) {
+  const parsed = parseAddressQuery(query, { cities });
+  for (const attempt of buildSearchAttempts(query, parsed)) {
+    const candidates = await model
+      .aggregate([
+        { $match: attempt.match },
+        ...buildSearchRankingStages(attempt.tokens, Math.max(LIMIT * 2, 100)),
+      ])
+      .exec();
+    if (candidates.length) {
+      return rankCandidates(query, candidates, LIMIT);
+    }
+  }
+  return [];
+}
+
+const runBenchmark = async () => {
+  const args = process.argv.slice(2);
+  const option = (name: string, fallback: number) => {
+    const index = args.indexOf(name);
+    return index >= 0 ? parseInt(args[index + 1], 10) : fallback;
+  };
+  const size = option('--size', 50000);
+  const queryCount = option('--queries', 100);
+
+  const app = await NestFactory.createApplicationContext(SeedModule, {
+    logger: ['error', 'warn'],
+  });
+  const connection = app.get<Connection>(getConnectionToken());
+  const model = connection.model<MapAddress>(
+    `${MapAddress.name}Benchmark`,
+    MapAddressSchema,
+    COLLECTION,
+  );
+
+  try {
+    await model.collection.drop().catch(() => undefined);
+    await model.createIndexes();
+
+    const random = mulberry32(42);
+    const samples: MapAddress[] = [];
+    const sampleEvery = Math.max(1, Math.floor(size / queryCount));
+
+    console.log(`Generating ${size} addresses in ${COLLECTION}...`);
+    for (let offset = 0; offset < size; offset += 5000) {
+      const batch: MapAddress[] = [];
+      for (let i = offset; i < Math.min(size, offset + 5000); i++) {
+        const address = generateAddress(random, i);
+        batch.push(address);
+        if (i % sampleEvery === 0 && samples.length < queryCount) {
+          samples.push(address);
+        }
+      }
+      await model.collection.insertMany(batch, { ordered: false });
+    }
+
+    const cities = new CityVocabulary(CITIES);
+    const results = new Map<
+      string,
+      { times: number[]; hits: number; overlap: number }
+    >();
+    const record = (
+      key: string,
+      time: number,
+      hit: boolean,
+      overlap: number,
+    ) => {
+      const entry = results.get(key) ?? { times: [], hits: 0, overlap: 0 };
+      entry.times.push(time);
+      entry.hits += hit ? 1 : 0;
+      entry.overlap += overlap;
+      results.set(key, entry);
+    };
+
+    for (const sample of samples) {
+      for (const { kind, query } of queriesFor(sample)) {
+        let start = process.hrtime.bigint();
+        const legacy = await legacySearch(model, query);
+        const legacyTime = Number(process.hrtime.bigint() - start) / 1e6;
+
+        start = process.hrtime.bigint();
+        const indexed = await indexedSearch(model, query, cities);
+        const indexedTime = Number(process.hrtime.bigint() - start) / 1e6;
+
+        const legacyIds = legacy.map((a) => a.properties.id);
+        const indexedIds = indexed.map((a) => a.properties.id);
+        const target = sample.properties.id;
+        // Share of the legacy results the indexed path returns too
+        const overlap = legacyIds.length
+          ? legacyIds.filter((id) => indexedIds.includes(id)).length /
+            legacyIds.length
+          : 1;
+
+        record(`legacy ${kind}`, legacyTime, legacyIds.includes(target), 1);
+        record(
+          `indexed ${kind}`,
+          indexedTime,
+          indexedIds.includes(target),
+          overlap,
+        );
+      }
+    }
+
+    console.table(
+      [...results].map(([path, { times, hits, overlap }]) => ({
+        path,
+        queries: times.length,
+        'p50 ms': percentile(times, 0.5).toFixed(1),
+        'p95 ms': percentile(times, 0.95).toFixed(1),
+        'max ms': Math.max(...times).toFixed(1),
+        'target in results': `${((hits / times.length) * 100).toFixed(1)}%`,
+        'legacy results returned': `${((overlap / times.length) * 100).toFixed(1)}%`,
+      })),
+    );
+  } finally {
+    if (!args.includes('--keep')) {
+      await model.collection.drop().catch(() => undefined);
+    }
+    await app.close();
+  }
+};
+
+void runBenchmark();
@@ -0,0 +1,30 @@
+import { etagMatches } from './etag';
+
+const ETAG = '"3f2a9c"';
+
+describe('etagMatches', () => {
+  it('should not match without If-None-Match', () => {
+    expect(etagMatches(undefined, ETAG)).toBe(false);
+    expect(etagMatches('', ETAG)).toBe(false);
+  });
+
+  it('should match the same tag only', () => {
+    expect(etagMatches('"3f2a9c"', ETAG)).toBe(true);
+    expect(etagMatches('"3f2a9d"', ETAG)).toBe(false);
+    expect(etagMatches('3f2a9c', ETAG)).toBe(false);
+  });
+
+  it('should match any tag of a list', () => {
+    expect(etagMatches('"aaa", "3f2a9c" ,"bbb"', ETAG)).toBe(true);
+    expect(etagMatches('"aaa", "bbb"', ETAG)).toBe(false);
+  });
+
+  it('should compare weak tags weakly', () => {
+    expect(etagMatches('W/"3f2a9c"', ETAG)).toBe(true);
+    expect(etagMatches('"aaa", W/"3f2a9c"', ETAG)).toBe(true);
+  });
+
+  it('should match anything for "*"', () => {
+    expect(etagMatches('*', ETAG)).toBe(true);
+  });
+});
@@ -0,0 +1,74 @@
+import { LruResultCache } from './lru-result-cache';
+
+describe('LruResultCache', () => {
+  afterEach(() => jest.useRealTimers());
+
+  it('should return what was stored under a key', async () => {
+    const cache = new LruResultCache(10);
+    await cache.set('a', { total: 3 }, 60);
+
+    await expect(cache.get('a')).resolves.toEqual({ total: 3 });
+    await expect(cache.get('b')).resolves.toBeUndefined();
+  });
+
+  it('should replace the value of a key set again', async () => {
+    const cache = new LruResultCache(10);
+    await cache.set('a', 1, 60);
+    await cache.set('a', 2, 60);
+
+    await expect(cache.get('a')).resolves.toBe(2);
+  });
+
+  it('should drop the least recently used entry when full', async () => {
+    const cache = new LruResultCache(2);
+    await cache.set('a', 1, 60);
+    await cache.set('b', 2, 60);
+    // Reading "a" makes "b" the oldest
+    await cache.get('a');
+    await cache.set('c', 3, 60);
+
+    await expect(cache.get('a')).resolves.toBe(1);
+    await expect(cache.get('b')).resolves.toBeUndefined();
+    await expect(cache.get('c')).resolves.toBe(3);
+  });
+
+  it('should count setting a key again as a use', async () => {
+    const cache = new LruResultCache(2);
+    await cache.set('a', 1, 60);
+    await cache.set('b', 2, 60);
+    await cache.set('a', 3, 60);
+    await cache.set('c', 4, 60);
+
+    await expect(cache.get('a')).resolves.toBe(3);
+    await expect(cache.get('b')).resolves.toBeUndefined();
+  });
+
+  it('should expire entries after their time to live', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const cache = new LruResultCache(10);
+    await cache.set('a', 1, 30);
+
+    jest.advanceTimersByTime(29_999);
+    await expect(cache.get('a')).resolves.toBe(1);
+
+    jest.advanceTimersByTime(1);
+    await expect(cache.get('a')).resolves.toBeUndefined();
+  });
+
+  it('should store nothing without room for entries', async () => {
+    const cache = new LruResultCache(0);
+    await cache.set('a', 1, 60);
+
+    await expect(cache.get('a')).resolves.toBeUndefined();
+  });
+
+  it('should forget everything on clear', async () => {
+    const cache = new LruResultCache(10);
+    await cache.set('a', 1, 60);
+    await cache.set('b', 2, 60);
+    await cache.clear();
+
+    await expect(cache.get('a')).resolves.toBeUndefined();
+    await expect(cache.get('b')).resolves.toBeUndefined();
+  });
+});
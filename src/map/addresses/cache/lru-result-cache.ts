@@ -0,0 +1,44 @@
+import { ResultCache } from './result-cache';
+
+// Least recently used entries are dropped first; a Map keeps insertion
+// order, so re-inserting on every hit makes the first key the oldest
+export class LruResultCache extends ResultCache {
+  private readonly entries = new Map<
+    string,
+    { value: unknown; expiresAt: number }
+  >();
+
+  constructor(private readonly maxEntries: number) {
+    super();
+  }
+
+  get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return Promise.resolve(undefined);
+    }
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return Promise.resolve(undefined);
+    }
+    this.entries.set(key, entry);
+    return Promise.resolve(entry.value as T);
+  }
+
+  set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    if (this.maxEntries < 1) {
+      return Promise.resolve();
+    }
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+    return Promise.resolve();
+  }
+
+  clear(): Promise<void> {
+    this.entries.clear();
+    return Promise.resolve();
+  }
+}
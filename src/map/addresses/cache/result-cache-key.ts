@@ -0,0 +1,36 @@
+import { createHash } from 'crypto';
+import { foldText } from '../search/normalization';
+import { canonicalJson } from '../../../utils/canonical-json';
+
+// Free text the search folds before using it, so "ORANJEWEG 4" and
+// "oranjeweg 4" share an entry; filters are exact matches and keep case
+const FREE_TEXT_PARAMS = new Set(['searchQuery', 'q']);
+
+function normalizeParam(value: unknown, name?: string): unknown {
+  if (typeof value === 'string') {
+    const text = value.trim();
+    return name && FREE_TEXT_PARAMS.has(name) ? foldText(text) : text;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => normalizeParam(item, name));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, item]) => item !== undefined && item !== '')
+        .map(([key, item]) => [key, normalizeParam(item, key)]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Cache key for a route and its query or body: parameter order, blank
+ * parameters, surrounding whitespace and the case of free text do not
+ * change the key.
+ */
+export function resultCacheKey(route: string, params: unknown): string {
+  return createHash('sha1')
+    .update(canonicalJson({ route, params: normalizeParam(params ?? {}) }))
+    .digest('base64url');
+}
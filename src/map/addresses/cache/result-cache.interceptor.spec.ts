@@ -0,0 +1,147 @@
+import { CallHandler, ExecutionContext, Get, Query } from '@nestjs/common';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Max } from 'class-validator';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { InvalidInputError } from '../../../errors/domain-errors';
+import { ResultCacheInterceptor } from './result-cache.interceptor';
+
+class LookupQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Max(100)
+  limit?: number;
+}
+
+class LookupController {
+  @Get()
+  lookup(@Query() query: LookupQueryDto) {
+    return query;
+  }
+}
+
+const ETAG = '"v1"';
+
+function setup(query: Record<string, string>, ifNoneMatch?: string) {
+  const headers: Record<string, string> = {};
+  const response = {
+    statusCode: 200,
+    setHeader: (name: string, value: string) => (headers[name] = value),
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+  };
+  const request = {
+    method: 'GET',
+    path: '/lookup',
+    query,
+    header: (name: string) =>
+      name === 'if-none-match' ? ifNoneMatch : undefined,
+  };
+  const context = {
+    switchToHttp: () => ({
+      getRequest: () => request,
+      getResponse: () => response,
+    }),
+    getClass: () => LookupController,
+    getHandler: () => LookupController.prototype.lookup,
+  } as unknown as ExecutionContext;
+
+  const cacheService = {
+    entryFor: jest.fn().mockResolvedValue({ key: 'k', etag: ETAG }),
+    get: jest.fn().mockResolvedValue(undefined),
+    set: jest.fn().mockResolvedValue(undefined),
+  };
+  const configService = {
+    getOrThrow: () => ({ maxAgeSeconds: 60 }),
+  };
+  const interceptor = new ResultCacheInterceptor(
+    cacheService as any,
+    configService as any,
+  );
+
+  return { context, response, headers, cacheService, interceptor };
+}
+
+const handler = (result: unknown): CallHandler => ({
+  handle: () => of(result),
+});
+
+describe('ResultCacheInterceptor', () => {
+  it('should reject invalid input before answering from the cache', async () => {
+    const { context, headers, cacheService, interceptor } = setup(
+      { limit: '500' },
+      '*',
+    );
+
+    await expect(
+      interceptor.intercept(context, handler({})),
+    ).rejects.toBeInstanceOf(InvalidInputError);
+    expect(cacheService.entryFor).not.toHaveBeenCalled();
+    expect(headers).toEqual({});
+  });
+
+  it('should answer a matching If-None-Match with 304 and the cache headers', async () => {
+    const { context, response, headers, interceptor } = setup(
+      { limit: '5' },
+      ETAG,
+    );
+    const handle = jest.fn();
+
+    await lastValueFrom(await interceptor.intercept(context, { handle }));
+
+    expect(response.statusCode).toBe(304);
+    expect(handle).not.toHaveBeenCalled();
+    expect(headers).toMatchObject({
+      ETag: ETAG,
+      'Cache-Control': 'private, max-age=60',
+    });
+  });
+
+  it('should serve a cached result without running the handler', async () => {
+    const { context, headers, cacheService, interceptor } = setup({});
+    cacheService.get.mockResolvedValue({ total: 3 });
+    const handle = jest.fn();
+
+    const result = await lastValueFrom(
+      await interceptor.intercept(context, { handle }),
+    );
+
+    expect(result).toEqual({ total: 3 });
+    expect(handle).not.toHaveBeenCalled();
+    expect(headers).toMatchObject({ 'X-Cache': 'HIT', ETag: ETAG });
+  });
+
+  it('should cache and mark a successful result', async () => {
+    const { context, headers, cacheService, interceptor } = setup({});
+
+    const result = await lastValueFrom(
+      await interceptor.intercept(context, handler({ total: 1 })),
+    );
+
+    expect(result).toEqual({ total: 1 });
+    expect(cacheService.set).toHaveBeenCalledWith(
+      { key: 'k', etag: ETAG },
+      { total: 1 },
+    );
+    expect(headers).toMatchObject({
+      'X-Cache': 'MISS',
+      ETag: ETAG,
+      'Cache-Control': 'private, max-age=60',
+    });
+  });
+
+  it('should leave cache headers off a failed response', async () => {
+    const { context, headers, cacheService, interceptor } = setup({});
+    const failing: CallHandler = {
+      handle: () => throwError(() => new Error('boom')),
+    };
+
+    await expect(
+      lastValueFrom(await interceptor.intercept(context, failing)),
+    ).rejects.toThrow('boom');
+    expect(headers).toEqual({});
+    expect(cacheService.set).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,85 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request, Response } from 'express';
+import { Observable, of, tap } from 'rxjs';
+import { MapAddressesCacheService } from '../map-addresses-cache.service';
+import { etagMatches } from './etag';
+import { validateHandlerInput } from './handler-input';
+import { AllConfigType } from '../../../config/config.type';
+import validationOptions from '../../../utils/validation-options';
+
+/**
+ * Serves repeated queries from the result cache. Successful GET responses
+ * also carry an ETag and Cache-Control; a matching If-None-Match returns
+ * 304 without running the query. POST queries are cached on the server
+ * only. Input is validated first, so an invalid request gets its 400 and
+ * never a cached answer.
+ */
+@Injectable()
+export class ResultCacheInterceptor implements NestInterceptor {
+  // The global pipe of main.ts, which Nest only runs after interceptors
+  private readonly validationPipe = new ValidationPipe(validationOptions);
+
+  constructor(
+    private readonly cacheService: MapAddressesCacheService,
+    private readonly configService: ConfigService<AllConfigType>,
+  ) {}
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler,
+  ): Promise<Observable<unknown>> {
+    const http = context.switchToHttp();
+    const request = http.getRequest<Request>();
+    const response = http.getResponse<Response>();
+
+    await validateHandlerInput(context, this.validationPipe);
+
+    const isGet = request.method === 'GET';
+    const entry = await this.cacheService.entryFor(
+      `${request.method} ${request.route?.path ?? request.path}`,
+      isGet ? request.query : request.body,
+    );
+
+    // Set on success only; errors must not be cached by the client
+    const setCacheHeaders = (status: 'HIT' | 'MISS') => {
+      response.setHeader('X-Cache', status);
+      if (isGet) {
+        const { maxAgeSeconds } = this.configService.getOrThrow('resultCache', {
+          infer: true,
+        });
+        // Private: API keys are checked here, a shared cache would skip that
+        response.setHeader('ETag', entry.etag);
+        response.setHeader(
+          'Cache-Control',
+          `private, max-age=${maxAgeSeconds}`,
+        );
+      }
+    };
+
+    if (isGet && etagMatches(request.header('if-none-match'), entry.etag)) {
+      setCacheHeaders('HIT');
+      response.status(304);
+      return of(undefined);
+    }
+
+    const cached = await this.cacheService.get(entry);
+    if (cached !== undefined) {
+      setCacheHeaders('HIT');
+      return of(cached);
+    }
+
+    return next.handle().pipe(
+      tap((body) => {
+        setCacheHeaders('MISS');
+        void this.cacheService.set(entry, body);
+      }),
+    );
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * Storage for computed query responses. The in-memory LRU is the default;
+ * provide another subclass in MapModule (Redis, memcached) to share
+ * results between instances. Keys already carry the data version, so a
+ * backend never has to invalidate single entries.
+ */
+export abstract class ResultCache {
+  abstract get<T>(key: string): Promise<T | undefined>;
+  abstract set<T>(key: string, value: T, ttlSeconds: number): Promise<void>;
+  abstract clear(): Promise<void>;
+}
@@ -0,0 +1,46 @@
+import stringSimilarity from 'string-similarity';
+import { SearchFields } from '../search/search-pipeline';
+
+export type DuplicateFields = Pick<
+  SearchFields,
+  'street' | 'number' | 'unit' | 'postcode'
+>;
+
+export type DuplicateKind = 'exact' | 'similar';
+
+/**
+ * Whether two nearby records describe the same address, compared on their
+ * normalized `search` fields. House number and unit must agree; a missing
+ * postcode on either side is tolerated, a different one is not. Streets
+ * match exactly or by string similarity, which catches typos and spelling
+ * variants the normalization leaves apart.
+ */
+export function compareDuplicate(
+  a: DuplicateFields,
+  b: DuplicateFields,
+  minStreetSimilarity: number,
+): DuplicateKind | null {
+  if (!a.number || a.number !== b.number || (a.unit ?? '') !== (b.unit ?? '')) {
+    return null;
+  }
+  if (a.postcode && b.postcode && a.postcode !== b.postcode) {
+    return null;
+  }
+  if (a.street === b.street) {
+    return a.postcode === b.postcode ? 'exact' : 'similar';
+  }
+  if (!a.street || !b.street) {
+    return null;
+  }
+  return stringSimilarity.compareTwoStrings(a.street, b.street) >=
+    minStreetSimilarity
+    ? 'similar'
+    : null;
+}
+
+// Report key of a group: the normalized fields of its first record
+export function duplicateKey(fields: DuplicateFields): string {
+  return [fields.street, fields.number, fields.unit, fields.postcode]
+    .map((value) => value ?? '')
+    .join('|');
+}
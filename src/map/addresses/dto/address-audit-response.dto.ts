@@ -0,0 +1,57 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class AuditAuthorDto {
+  @ApiProperty({ example: 'editor-42' })
+  id: string;
+
+  @ApiPropertyOptional({ example: 'Jan de Vries' })
+  name?: string;
+}
+
+export class AddressAuditEntryDto {
+  @ApiProperty({ example: '0003010000126739' })
+  addressId: string;
+
+  @ApiProperty({
+    description:
+      '`revert` when the rollback of a release diff restored the address',
+    enum: ['create', 'update', 'retire', 'merge', 'revert'],
+  })
+  action: 'create' | 'update' | 'retire' | 'merge' | 'revert';
+
+  @ApiProperty({
+    description: 'Address before the change; null for create',
+    type: 'object',
+    additionalProperties: true,
+    nullable: true,
+  })
+  before: Record<string, unknown> | null;
+
+  @ApiProperty({
+    description: 'Address after the change; null when a rollback deleted it',
+    type: 'object',
+    additionalProperties: true,
+    nullable: true,
+  })
+  after: Record<string, unknown> | null;
+
+  @ApiProperty()
+  author: AuditAuthorDto;
+
+  @ApiPropertyOptional({ example: 'Street name misspelled' })
+  reason?: string;
+
+  @ApiPropertyOptional({
+    description: 'Id of the release diff that made the change',
+    example: '6671b0c2f1a4e3d9c8b7a601',
+  })
+  diff?: string;
+
+  @ApiProperty({ example: '2025-01-31T12:00:00.000Z' })
+  at: Date;
+}
+
+export class AddressAuditResponseDto {
+  @ApiProperty({ type: [AddressAuditEntryDto] })
+  entries: AddressAuditEntryDto[];
+}
@@ -0,0 +1,25 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsNumber, IsOptional, IsString, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { DatasetSelectionDto } from './dataset-selection.dto';
+
+export class AutocompleteQueryDto extends DatasetSelectionDto {
+  @ApiProperty({
+    description: 'Partial input as typed by the user',
+    example: 'oranjew',
+  })
+  @IsString()
+  q: string;
+
+  @ApiPropertyOptional({
+    description: 'Maximum number of suggestions',
+    default: 10,
+    maximum: 25,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(25)
+  limit?: number;
+}
@@ -0,0 +1,46 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class HighlightSpanDto {
+  @ApiProperty({ description: 'Start offset in label (inclusive)', example: 0 })
+  start: number;
+
+  @ApiProperty({ description: 'End offset in label (exclusive)', example: 7 })
+  end: number;
+}
+
+export class AutocompleteSuggestionDto {
+  @ApiProperty({
+    description:
+      '"street" groups every house number on a street, "address" is a single feature',
+    enum: ['street', 'address'],
+    example: 'street',
+  })
+  type: 'street' | 'address';
+
+  @ApiProperty({ example: 'Oranjeweg, Appingedam' })
+  label: string;
+
+  @ApiProperty({
+    description:
+      'properties.id of the address, or of one address on the street',
+    example: '0003010000126739',
+  })
+  id: string;
+
+  @ApiProperty({ description: 'Dataset of that address', example: 'nl-bag' })
+  dataset: string;
+
+  @ApiProperty({
+    description: 'Number of addresses behind this suggestion',
+    example: 42,
+  })
+  count: number;
+
+  @ApiProperty({ type: [HighlightSpanDto] })
+  highlight: HighlightSpanDto[];
+}
+
+export class AutocompleteResponseDto {
+  @ApiProperty({ type: [AutocompleteSuggestionDto] })
+  suggestions: AutocompleteSuggestionDto[];
+}
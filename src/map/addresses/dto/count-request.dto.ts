@@ -0,0 +1,67 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsIn,
+  IsMongoId,
+  IsObject,
+  IsOptional,
+  IsString,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { MapAddressesFilterDto } from './map-addresses-filter.dto';
+import { FACET_FIELDS, FacetField } from '../search/facets';
+
+export class AddressCountRequestDto {
+  @ApiPropertyOptional({
+    description:
+      'WKT region: POLYGON, MULTIPOLYGON, ENVELOPE(minLon, maxLon, maxLat, minLat) or BBOX(minLon, minLat, maxLon, maxLat)',
+    example:
+      'POLYGON((6.85 53.31, 6.88 53.31, 6.88 53.33, 6.85 53.33, 6.85 53.31))',
+  })
+  @IsOptional()
+  @IsString()
+  searchRegion?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'GeoJSON Polygon or MultiPolygon (bare, wrapped in a Feature, or as a JSON string). Takes precedence over searchRegion.',
+    type: 'object',
+    additionalProperties: true,
+  })
+  @ValidateIf((body) => typeof body.geometry !== 'string')
+  @IsOptional()
+  @IsObject({ message: 'geometry must be a GeoJSON object or a JSON string' })
+  geometry?: Record<string, unknown> | string;
+
+  @ApiPropertyOptional({
+    description:
+      'Id of a saved region (see /map/regions) to use instead of an inline searchRegion or geometry',
+    example: '6671b0c2f1a4e3d9c8b7a601',
+  })
+  @IsOptional()
+  @IsMongoId()
+  regionId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Field filters; alone or combined with a region. At least one of region or filters is required.',
+    type: MapAddressesFilterDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => MapAddressesFilterDto)
+  filters?: MapAddressesFilterDto;
+
+  @ApiPropertyOptional({
+    description: 'Fields to return per-value hit counts for as well',
+    type: [String],
+    enum: FACET_FIELDS,
+    example: ['city', 'postcode'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsIn(FACET_FIELDS, { each: true })
+  facets?: FacetField[];
+}
@@ -0,0 +1,119 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { DATASET_KEY_PATTERN } from '../../datasets/dataset-key';
+
+// Writable address properties; `hash` is always computed by the server
+export class CreateAddressPropertiesDto {
+  @ApiPropertyOptional({
+    description: 'Source identifier; generated when omitted',
+    example: '0003010000126739',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(64)
+  id?: string;
+
+  @ApiProperty({ example: '4' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  number: string;
+
+  @ApiProperty({ example: 'Oranjeweg' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  street: string;
+
+  @ApiPropertyOptional({ example: '' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  unit?: string;
+
+  @ApiPropertyOptional({ example: 'Appingedam' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  city?: string;
+
+  @ApiPropertyOptional({ example: '' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  district?: string;
+
+  @ApiPropertyOptional({ example: '' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  region?: string;
+
+  @ApiPropertyOptional({ example: '9901 CK' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  postcode?: string;
+}
+
+export class PointGeometryInputDto {
+  @ApiPropertyOptional({ example: 'Point', default: 'Point' })
+  @IsOptional()
+  @IsIn(['Point'])
+  type?: 'Point';
+
+  @ApiProperty({
+    description: 'Coordinates as [longitude, latitude]',
+    type: 'array',
+    items: { type: 'number' },
+    example: [6.8636568, 53.3246772],
+  })
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(2)
+  @IsNumber({}, { each: true })
+  coordinates: [number, number];
+}
+
+export class CreateMapAddressDto {
+  @ApiPropertyOptional({
+    description:
+      'Dataset to add the address to; defaults to MAP_DEFAULT_DATASET',
+    example: 'nl-bag',
+  })
+  @IsOptional()
+  @Matches(DATASET_KEY_PATTERN)
+  dataset?: string;
+
+  @ApiProperty({ type: PointGeometryInputDto })
+  @ValidateNested()
+  @Type(() => PointGeometryInputDto)
+  geometry: PointGeometryInputDto;
+
+  @ApiProperty({ type: CreateAddressPropertiesDto })
+  @ValidateNested()
+  @Type(() => CreateAddressPropertiesDto)
+  properties: CreateAddressPropertiesDto;
+
+  @ApiPropertyOptional({
+    description: 'Why the address is added, kept in the change history',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
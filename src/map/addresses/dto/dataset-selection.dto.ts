@@ -0,0 +1,23 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsArray, IsOptional, Matches } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { DATASET_KEY_PATTERN } from '../../datasets/dataset-key';
+
+export class DatasetSelectionDto {
+  @ApiPropertyOptional({
+    description:
+      'Dataset key(s) to query, comma-separated; results of several datasets are ranked together. Defaults to MAP_DEFAULT_DATASET.',
+    type: [String],
+    example: 'nl-bag',
+  })
+  @IsOptional()
+  @Transform(({ value }) => {
+    if (typeof value === 'string') {
+      return value.split(',').map((item) => item.trim());
+    }
+    return value;
+  })
+  @IsArray()
+  @Matches(DATASET_KEY_PATTERN, { each: true })
+  dataset?: string[];
+}
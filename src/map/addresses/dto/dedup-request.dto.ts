@@ -0,0 +1,102 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsIn,
+  IsMongoId,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { DATASET_KEY_PATTERN } from '../../datasets/dataset-key';
+
+export class StartDedupRunDto {
+  @ApiPropertyOptional({
+    description: 'Dataset to scan; defaults to MAP_DEFAULT_DATASET',
+    example: 'nl-bag',
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(DATASET_KEY_PATTERN)
+  dataset?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Farthest two records of one address may lie apart, in meters; defaults to DEDUP_MAX_DISTANCE_METERS',
+    example: 25,
+    maximum: 1000,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(1000)
+  maxDistance?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Similarity (0-1) at which two normalized street names count as one; defaults to DEDUP_MIN_STREET_SIMILARITY',
+    example: 0.85,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  minStreetSimilarity?: number;
+}
+
+export class DuplicateGroupsQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only groups with this review status',
+    enum: ['open', 'merged', 'dismissed'],
+  })
+  @IsOptional()
+  @IsIn(['open', 'merged', 'dismissed'])
+  status?: 'open' | 'merged' | 'dismissed';
+
+  @ApiPropertyOptional({
+    description: 'Maximum number of groups',
+    default: 50,
+    maximum: 500,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+
+  @ApiPropertyOptional({
+    description: 'Continue after this group id (the `next` of a page)',
+  })
+  @IsOptional()
+  @IsMongoId()
+  after?: string;
+}
+
+export class MergeDuplicateGroupDto {
+  @ApiProperty({
+    description: 'properties.id of the member to keep',
+    example: '0003010000126739',
+  })
+  @IsString()
+  @IsNotEmpty()
+  canonical: string;
+
+  @ApiPropertyOptional({ example: 'Same entrance, imported twice' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class DismissDuplicateGroupDto {
+  @ApiPropertyOptional({ example: 'Separate flats with the same number' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -0,0 +1,119 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { AuditAuthorDto } from './address-audit-response.dto';
+
+export class DedupRunResponseDto {
+  @ApiProperty({ example: '6671b0c2f1a4e3d9c8b7a601' })
+  id: string;
+
+  @ApiProperty({ enum: ['queued', 'running', 'completed', 'failed'] })
+  status: string;
+
+  @ApiProperty({ example: 'nl-bag' })
+  dataset: string;
+
+  @ApiProperty({ example: 25 })
+  maxDistance: number;
+
+  @ApiProperty({ example: 0.85 })
+  minStreetSimilarity: number;
+
+  @ApiProperty({
+    description: 'Active addresses when the run started',
+    example: 98000,
+  })
+  total: number;
+
+  @ApiProperty({ description: 'Addresses compared so far', example: 41200 })
+  processed: number;
+
+  @ApiProperty({ description: 'Duplicate groups found so far', example: 312 })
+  groups: number;
+
+  @ApiProperty({ description: 'processed / total, 0-1', example: 0.42 })
+  progress: number;
+
+  @ApiPropertyOptional({ description: 'Why the run failed' })
+  error?: string;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiPropertyOptional()
+  startedAt?: Date;
+
+  @ApiPropertyOptional()
+  finishedAt?: Date;
+}
+
+export class DuplicateMemberDto {
+  @ApiProperty({ example: '0003010000126739' })
+  id: string;
+
+  @ApiProperty({
+    description: 'Properties when the run found the record',
+    type: 'object',
+    additionalProperties: true,
+  })
+  properties: Record<string, string>;
+
+  @ApiProperty({ type: [Number], example: [6.8721, 53.3209] })
+  coordinates: [number, number];
+}
+
+export class DuplicateGroupResponseDto {
+  @ApiProperty({ example: '6671b0c2f1a4e3d9c8b7a6f0' })
+  id: string;
+
+  @ApiProperty({ example: '6671b0c2f1a4e3d9c8b7a601' })
+  run: string;
+
+  @ApiProperty({ example: 'nl-bag' })
+  dataset: string;
+
+  @ApiProperty({
+    description: 'Normalized street|number|unit|postcode',
+    example: 'oranjeweg|4||9901ck',
+  })
+  key: string;
+
+  @ApiProperty({
+    description:
+      'exact when the normalized fields agree, similar when spelling or a missing postcode differ',
+    enum: ['exact', 'similar'],
+  })
+  kind: string;
+
+  @ApiProperty({
+    description: 'Largest distance between two members, in meters',
+    example: 3.4,
+  })
+  spread: number;
+
+  @ApiProperty({ enum: ['open', 'merged', 'dismissed'] })
+  status: string;
+
+  @ApiProperty({ type: [DuplicateMemberDto] })
+  members: DuplicateMemberDto[];
+
+  @ApiPropertyOptional({ description: 'Member kept by the merge' })
+  canonical?: string;
+
+  @ApiPropertyOptional()
+  reviewedBy?: AuditAuthorDto;
+
+  @ApiPropertyOptional()
+  reviewedAt?: Date;
+
+  @ApiPropertyOptional()
+  reason?: string;
+}
+
+export class DuplicateGroupListResponseDto {
+  @ApiProperty({ type: [DuplicateGroupResponseDto] })
+  groups: DuplicateGroupResponseDto[];
+
+  @ApiPropertyOptional({
+    description: 'Pass as `after` for the next page; absent on the last one',
+  })
+  next?: string;
+}
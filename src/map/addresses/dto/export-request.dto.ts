@@ -0,0 +1,75 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsIn,
+  IsInt,
+  IsMongoId,
+  IsObject,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { MapAddressesFilterDto } from './map-addresses-filter.dto';
+import { EXPORT_FORMATS } from '../export/export-formats';
+
+export class ExportRequestDto {
+  @ApiPropertyOptional({
+    description:
+      'WKT region: POLYGON, MULTIPOLYGON, ENVELOPE(minLon, maxLon, maxLat, minLat) or BBOX(minLon, minLat, maxLon, maxLat)',
+    example:
+      'POLYGON((6.85 53.31, 6.88 53.31, 6.88 53.33, 6.85 53.33, 6.85 53.31))',
+  })
+  @IsOptional()
+  @IsString()
+  searchRegion?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'GeoJSON Polygon or MultiPolygon (bare, wrapped in a Feature, or as a JSON string). Takes precedence over searchRegion.',
+    type: 'object',
+    additionalProperties: true,
+  })
+  @ValidateIf((body) => typeof body.geometry !== 'string')
+  @IsOptional()
+  @IsObject({ message: 'geometry must be a GeoJSON object or a JSON string' })
+  geometry?: Record<string, unknown> | string;
+
+  @ApiPropertyOptional({
+    description:
+      'Id of a saved region (see /map/regions) to use instead of an inline searchRegion or geometry',
+    example: '6671b0c2f1a4e3d9c8b7a601',
+  })
+  @IsOptional()
+  @IsMongoId()
+  regionId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Field filters; alone or combined with a region. At least one of region or filters is required.',
+    type: MapAddressesFilterDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => MapAddressesFilterDto)
+  filters?: MapAddressesFilterDto;
+
+  @ApiPropertyOptional({
+    description:
+      'Output format; overrides the Accept header (application/geo+json, application/geo+json-seq, application/x-ndjson, text/csv, application/vnd.google-earth.kml+xml)',
+    enum: Object.keys(EXPORT_FORMATS),
+    default: 'geojson',
+  })
+  @IsOptional()
+  @IsIn(Object.keys(EXPORT_FORMATS))
+  format?: string;
+
+  @ApiPropertyOptional({
+    description: 'Maximum rows to export, capped by EXPORT_MAX_ROWS',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  limit?: number;
+}
@@ -0,0 +1,115 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { MapAddressesFilterDto } from './map-addresses-filter.dto';
+import { DatasetSelectionDto } from './dataset-selection.dto';
+
+// Either free text in `query` or any of the structured fields
+export class GeocodeAddressInputDto {
+  @ApiPropertyOptional({
+    description: 'Caller reference echoed in the result',
+    example: 'customer-1042',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  ref?: string;
+
+  @ApiPropertyOptional({
+    description: 'Free-text address; takes precedence over the fields below',
+    example: 'Oranjeweg 4, 9901 CK Appingedam',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  query?: string;
+
+  @ApiPropertyOptional({ example: 'Oranjeweg' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  street?: string;
+
+  @ApiPropertyOptional({ example: '4' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  number?: string;
+
+  @ApiPropertyOptional({ example: '' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  unit?: string;
+
+  @ApiPropertyOptional({ example: '9901 CK' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  postcode?: string;
+
+  @ApiPropertyOptional({ example: 'Appingedam' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  city?: string;
+}
+
+export class GeocodeBatchRequestDto {
+  @ApiProperty({
+    description: 'Addresses to resolve, at most GEOCODE_BATCH_MAX_ROWS',
+    type: [GeocodeAddressInputDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => GeocodeAddressInputDto)
+  addresses: GeocodeAddressInputDto[];
+
+  @ApiPropertyOptional({
+    description: 'Runners-up returned per address',
+    default: 3,
+    minimum: 0,
+    maximum: 10,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(10)
+  alternatives?: number;
+
+  @ApiPropertyOptional({
+    description: 'Field filters applied to every address',
+    type: MapAddressesFilterDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => MapAddressesFilterDto)
+  filters?: MapAddressesFilterDto;
+}
+
+// Multipart form fields sent next to the uploaded CSV
+export class GeocodeJobRequestDto extends DatasetSelectionDto {
+  @ApiPropertyOptional({
+    description: 'Runners-up kept per row',
+    default: 3,
+    minimum: 0,
+    maximum: 10,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(10)
+  alternatives?: number;
+}
@@ -0,0 +1,78 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { AddressFeatureDto } from './map-address-response.dto';
+
+export class GeocodeRowResultDto {
+  @ApiProperty({ description: 'Position in the request', example: 0 })
+  index: number;
+
+  @ApiPropertyOptional({ example: 'customer-1042' })
+  ref?: string;
+
+  @ApiProperty({
+    description: 'Text that was searched',
+    example: 'Oranjeweg 4 9901 CK Appingedam',
+  })
+  query: string;
+
+  @ApiProperty({
+    description:
+      'matched, ambiguous (runner-up scores about the same), low_confidence (no close match) or unmatched',
+    enum: ['matched', 'ambiguous', 'low_confidence', 'unmatched'],
+  })
+  status: string;
+
+  @ApiProperty({
+    description: 'Similarity score of the best match, 0-1',
+    example: 0.92,
+  })
+  confidence: number;
+
+  @ApiPropertyOptional({ type: AddressFeatureDto, nullable: true })
+  match: AddressFeatureDto | null;
+
+  @ApiProperty({
+    description: 'Next best matches, each with its score',
+    type: [AddressFeatureDto],
+  })
+  alternatives: AddressFeatureDto[];
+}
+
+export class GeocodeBatchResponseDto {
+  @ApiProperty({ type: [GeocodeRowResultDto] })
+  results: GeocodeRowResultDto[];
+}
+
+export class GeocodeJobResponseDto {
+  @ApiProperty({ example: '6671b0c2f1a4e3d9c8b7a601' })
+  id: string;
+
+  @ApiProperty({ enum: ['queued', 'running', 'completed', 'failed'] })
+  status: string;
+
+  @ApiProperty({ example: 'customers.csv' })
+  filename: string;
+
+  @ApiProperty({ description: 'Data rows in the upload', example: 25000 })
+  total: number;
+
+  @ApiProperty({ description: 'Rows geocoded so far', example: 12400 })
+  processed: number;
+
+  @ApiProperty({ description: 'Rows with status matched', example: 11873 })
+  matched: number;
+
+  @ApiProperty({ description: 'processed / total, 0-1', example: 0.496 })
+  progress: number;
+
+  @ApiPropertyOptional({ description: 'Why the job failed' })
+  error?: string;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiPropertyOptional()
+  startedAt?: Date;
+
+  @ApiPropertyOptional()
+  finishedAt?: Date;
+}
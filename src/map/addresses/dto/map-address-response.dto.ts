@@ -1,4 +1,5 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { SearchMatchKind } from '../search/search-pipeline';
 
 export class AddressGeometryDto {
   @ApiProperty({ example: 'Point' })
@@ -45,6 +46,12 @@ export class AddressPropertiesDto {
 }
 
 export class AddressFeatureDto {
+  @ApiProperty({
+    description: 'Key of the dataset the address comes from',
+    example: 'nl-bag',
+  })
+  dataset: string;
+
   @ApiProperty({ example: 'Feature' })
   type: string;
 
@@ -53,14 +60,127 @@ export class AddressFeatureDto {
 
   @ApiProperty()
   properties: AddressPropertiesDto;
+
+  @ApiPropertyOptional({
+    description: 'Distance from the query point in meters',
+    example: 42.7,
+  })
+  distance?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Meters along the route to the point on it nearest the address',
+    example: 812.35,
+  })
+  distanceAlong?: number;
+
+  @ApiPropertyOptional({
+    description: 'Distance from the route in meters',
+    example: 14.2,
+  })
+  offset?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Initial bearing from the query point in degrees clockwise from north',
+    example: 87.4,
+  })
+  bearing?: number;
+
+  @ApiPropertyOptional({
+    description: 'Similarity to the search query, 0-1',
+    example: 0.92,
+  })
+  score?: number;
+}
+
+// How a free-text search query was split into address fields
+export class AddressQueryInterpretationDto {
+  @ApiPropertyOptional({ example: 'oranjeweg' })
+  street?: string;
+
+  @ApiPropertyOptional({ example: '4' })
+  number?: string;
+
+  @ApiPropertyOptional({ example: '2' })
+  unit?: string;
+
+  @ApiPropertyOptional({ example: '9901ck' })
+  postcode?: string;
+
+  @ApiPropertyOptional({ example: 'appingedam' })
+  city?: string;
+
+  @ApiPropertyOptional({
+    enum: ['exact', 'prefix'],
+    description: 'Whether the city matched a known name or only its start',
+  })
+  cityMatch?: 'exact' | 'prefix';
+
+  @ApiProperty({
+    type: [String],
+    description: 'Words not assigned to a field, matched against any field',
+    example: [],
+  })
+  unclassified: string[];
+
+  @ApiProperty({
+    enum: ['fields', 'tokens', 'infix'],
+    description:
+      'fields: each word matched only its field; tokens: no field-scoped match was found, so all words were matched as word prefixes of every field; infix: no word-prefix match either, so each word was matched anywhere in the address, also mid-word',
+    example: 'fields',
+  })
+  matchedBy: SearchMatchKind;
 }
 
+export class FacetValueCountDto {
+  @ApiProperty({ example: 'Appingedam' })
+  value: string;
+
+  @ApiProperty({ example: 42 })
+  count: number;
+}
+
+const FACETS_SCHEMA = {
+  type: 'object',
+  additionalProperties: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: { value: { type: 'string' }, count: { type: 'number' } },
+    },
+  },
+  description:
+    'Per-value hit counts for each requested facet field, most frequent first. Each facet ignores the filter on its own field.',
+  example: { city: [{ value: 'Appingedam', count: 42 }] },
+} as const;
+
 export class MapAddressResponseDto {
   @ApiProperty({ example: 'FeatureCollection' })
   type: string;
 
   @ApiProperty({ type: [AddressFeatureDto] })
   features: AddressFeatureDto[];
+
+  @ApiPropertyOptional({
+    type: AddressQueryInterpretationDto,
+    description: 'Parsed search query, for debugging search results',
+  })
+  interpretation?: AddressQueryInterpretationDto;
+
+  @ApiPropertyOptional(FACETS_SCHEMA)
+  facets?: Record<string, FacetValueCountDto[]>;
+}
+
+export class AddressCountResponseDto {
+  @ApiProperty({
+    description: 'Active addresses matching the region and filters',
+    example: 1284,
+  })
+  count: number;
+
+  @ApiPropertyOptional(FACETS_SCHEMA)
+  facets?: Record<string, FacetValueCountDto[]>;
 }
 
 // Batch response variant that includes a continuation cursor
@@ -69,14 +189,19 @@ export class MapAddressBatchResponseDto {
   geojson: MapAddressResponseDto;
 
   @ApiProperty({
-    description: 'Opaque cursor for fetching the next batch',
-    example: '671a9c2f0c4a5e3a4dc0f123',
+    description:
+      'Signed cursor for fetching the next batch; null on the last batch',
+    example:
+      'eyJ2IjoxLCJmIjoiUnBMd0tWZ3NKd0ZnN3F0NmVqS0FIQSIsInMiOiJpZCIsImsiOlsiNjcxYTljMmYwYzRhNWUzYTRkYzBmMTIzIl0sInQiOjE3NjA4NzIwMDB9.1r2PqkT0k1yZq2m8s0Hc1kq9pJb3YxWcZl9vQk4aF8E',
   })
   nextCursor: string | null;
 
   @ApiProperty({
-    description: 'Indicates if more data may be available',
+    description: 'Whether another batch follows this one',
     example: true,
   })
   hasMore: boolean;
+
+  @ApiPropertyOptional(FACETS_SCHEMA)
+  facets?: Record<string, FacetValueCountDto[]>;
 }
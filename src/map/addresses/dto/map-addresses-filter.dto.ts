@@ -1,8 +1,9 @@
 import { ApiPropertyOptional } from '@nestjs/swagger';
 import { IsOptional, IsString, IsArray } from 'class-validator';
 import { Transform } from 'class-transformer';
+import { DatasetSelectionDto } from './dataset-selection.dto';
 
-export class MapAddressesFilterDto {
+export class MapAddressesFilterDto extends DatasetSelectionDto {
   @ApiPropertyOptional({
     description: 'Filter by city name(s)',
     type: [String],
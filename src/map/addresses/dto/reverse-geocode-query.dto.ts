@@ -0,0 +1,42 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsNumber, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { MapAddressesFilterDto } from './map-addresses-filter.dto';
+
+export class ReverseGeocodeQueryDto extends MapAddressesFilterDto {
+  @ApiProperty({ description: 'Longitude of the point', example: 6.8636568 })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  lon: number;
+
+  @ApiProperty({ description: 'Latitude of the point', example: 53.3246772 })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  lat: number;
+
+  @ApiPropertyOptional({
+    description: 'Number of nearest addresses to return',
+    default: 1,
+    maximum: 100,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @ApiPropertyOptional({
+    description: 'Maximum search radius in meters (unbounded when omitted)',
+    example: 250,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  maxDistance?: number;
+}
@@ -1,7 +1,16 @@
 import { ApiPropertyOptional } from '@nestjs/swagger';
-import { IsOptional, IsString } from 'class-validator';
+import {
+  IsArray,
+  IsIn,
+  IsMongoId,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { MapAddressesFilterDto } from './map-addresses-filter.dto';
+import { FACET_FIELDS, FacetField } from '../search/facets';
 
-export class SearchQueryDto {
+export class SearchQueryDto extends MapAddressesFilterDto {
   @ApiPropertyOptional({
     description:
       'Search query string to search across city, street, postcode, district, and region fields',
@@ -10,4 +19,30 @@ export class SearchQueryDto {
   @IsOptional()
   @IsString()
   searchQuery?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Comma-separated fields to return per-value hit counts for, e.g. city,postcode,district',
+    type: [String],
+    enum: FACET_FIELDS,
+  })
+  @IsOptional()
+  @Transform(({ value }) => {
+    if (typeof value === 'string') {
+      return value.split(',').map((item) => item.trim());
+    }
+    return value;
+  })
+  @IsArray()
+  @IsIn(FACET_FIELDS, { each: true })
+  facets?: FacetField[];
+
+  @ApiPropertyOptional({
+    description:
+      'Id of a saved region (see /map/regions); only addresses inside it are searched and counted',
+    example: '6671b0c2f1a4e3d9c8b7a601',
+  })
+  @IsOptional()
+  @IsMongoId()
+  regionId?: string;
 }
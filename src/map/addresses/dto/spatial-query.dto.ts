@@ -1,5 +1,26 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { IsNumber, IsOptional, IsString } from 'class-validator';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsDefined,
+  IsIn,
+  IsInt,
+  IsMongoId,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { MapAddressesFilterDto } from './map-addresses-filter.dto';
+import { FACET_FIELDS, FacetField } from '../search/facets';
+import { ADDRESS_SORTS, AddressSort } from '../pagination/address-sort';
+import { DEFAULT_BATCH_SIZE, MAX_BATCH_SIZE } from '../pagination/page-size';
 
 export class PolygonDto {
   @ApiProperty({ example: 'Polygon' })
@@ -33,33 +54,256 @@ export class PolygonDto {
 export class WithinRegionRequestDto {
   @ApiPropertyOptional({
     description:
-      'WKT string representing a POLYGON. Example: POLYGON((lon lat, ...))',
+      'WKT region: POLYGON, MULTIPOLYGON, ENVELOPE(minLon, maxLon, maxLat, minLat) or BBOX(minLon, minLat, maxLon, maxLat). Rings are closed automatically.',
     example:
-      'POLYGON((-118.25474027440879 34.222418907924144, -118.25748685620879 34.215605510930345, -118.26160672890876 34.206520124511734, -118.2684731834087 34.19516201418956, -118.27533963790867 34.183802373759455, -118.28220609240864 34.17244120346186, -118.2876992560086 34.16335116588097))',
+      'POLYGON((6.85 53.31, 6.88 53.31, 6.88 53.33, 6.85 53.33, 6.85 53.31))',
   })
+  @IsOptional()
   @IsString()
-  searchRegion: string;
+  searchRegion?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'GeoJSON Polygon or MultiPolygon (bare, wrapped in a Feature, or as a JSON string). Takes precedence over searchRegion.',
+    type: 'object',
+    additionalProperties: true,
+    example: {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [6.85, 53.31],
+          [6.88, 53.31],
+          [6.88, 53.33],
+          [6.85, 53.33],
+          [6.85, 53.31],
+        ],
+      ],
+    },
+  })
+  @ValidateIf((body) => typeof body.geometry !== 'string')
+  @IsOptional()
+  @IsObject({ message: 'geometry must be a GeoJSON object or a JSON string' })
+  geometry?: PolygonDto | Record<string, unknown> | string;
+
+  @ApiPropertyOptional({
+    description:
+      'Id of a saved region (see /map/regions) to use instead of an inline searchRegion or geometry',
+    example: '6671b0c2f1a4e3d9c8b7a601',
+  })
+  @IsOptional()
+  @IsMongoId()
+  regionId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Optional field filters applied inside the region',
+    type: MapAddressesFilterDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => MapAddressesFilterDto)
+  filters?: MapAddressesFilterDto;
+
+  @ApiPropertyOptional({
+    description:
+      'Fields to return per-value hit counts for across the whole region',
+    type: [String],
+    enum: FACET_FIELDS,
+    example: ['city', 'postcode'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsIn(FACET_FIELDS, { each: true })
+  facets?: FacetField[];
 
   @ApiPropertyOptional({
     description: 'Maximum number of features to return',
+    default: DEFAULT_BATCH_SIZE,
+    maximum: MAX_BATCH_SIZE,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_BATCH_SIZE)
+  limit?: number;
+
+  @ApiPropertyOptional({
+    description: 'Batch size for pagination',
+    default: DEFAULT_BATCH_SIZE,
+    maximum: MAX_BATCH_SIZE,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_BATCH_SIZE)
+  batchSize?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Row order: by id, by street then house number, or by distance from sortPoint',
+    enum: ADDRESS_SORTS,
+    default: 'id',
+  })
+  @IsOptional()
+  @IsIn(ADDRESS_SORTS)
+  sort?: AddressSort;
+
+  @ApiPropertyOptional({
+    description:
+      'Point as [longitude, latitude] to measure distance from; required when sort is distance',
+    type: 'array',
+    items: { type: 'number' },
+    example: [6.8636568, 53.3246772],
+  })
+  @ValidateIf((body) => body.sort === 'distance')
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(2)
+  @IsNumber({}, { each: true })
+  sortPoint?: [number, number];
+
+  @ApiPropertyOptional({
+    description:
+      'nextCursor from the previous batch; only valid for the same query and sort',
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
+
+// POST-based proximity query, ordered by distance from the point
+export class NearPointRequestDto {
+  @ApiProperty({
+    description: 'Point as [longitude, latitude]',
+    type: 'array',
+    items: { type: 'number' },
+    example: [6.8636568, 53.3246772],
+  })
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(2)
+  @IsNumber({}, { each: true })
+  point: [number, number];
+
+  @ApiPropertyOptional({
+    description: 'Maximum distance from the point in meters',
     default: 1000,
   })
   @IsOptional()
   @IsNumber()
+  @Min(0)
+  maxDistance?: number;
+
+  @ApiPropertyOptional({
+    description: 'Optional field filters applied before distance ordering',
+    type: MapAddressesFilterDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => MapAddressesFilterDto)
+  filters?: MapAddressesFilterDto;
+
+  @ApiPropertyOptional({
+    description: 'Maximum number of features to return',
+    default: DEFAULT_BATCH_SIZE,
+    maximum: MAX_BATCH_SIZE,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_BATCH_SIZE)
   limit?: number;
 
   @ApiPropertyOptional({
     description: 'Batch size for pagination',
-    default: 1000,
+    default: DEFAULT_BATCH_SIZE,
+    maximum: MAX_BATCH_SIZE,
   })
   @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_BATCH_SIZE)
+  batchSize?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Row order: by distance, by street then house number, or by id',
+    enum: ADDRESS_SORTS,
+    default: 'distance',
+  })
+  @IsOptional()
+  @IsIn(ADDRESS_SORTS)
+  sort?: AddressSort;
+
+  @ApiPropertyOptional({
+    description:
+      'nextCursor from the previous batch; only valid for the same query and sort',
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
+
+// POST-based corridor query, ordered by distance along the route
+export class CorridorRequestDto {
+  @ApiProperty({
+    description:
+      'Route as LINESTRING WKT or a GeoJSON LineString (bare, wrapped in a Feature, or as a JSON string); at most 500 positions',
+    oneOf: [{ type: 'string' }, { type: 'object', additionalProperties: true }],
+    example: 'LINESTRING(6.85 53.31, 6.86 53.32, 6.88 53.32)',
+  })
+  @IsDefined()
+  @ValidateIf((body) => typeof body.route !== 'string')
+  @IsObject({ message: 'route must be WKT, a GeoJSON object or a JSON string' })
+  route: string | Record<string, unknown>;
+
+  @ApiProperty({
+    description: 'Width of the corridor on either side of the route in meters',
+    minimum: 1,
+    maximum: 5000,
+    example: 50,
+  })
   @IsNumber()
+  @Min(1)
+  @Max(5000)
+  bufferMeters: number;
+
+  @ApiPropertyOptional({
+    description: 'Optional field filters applied inside the corridor',
+    type: MapAddressesFilterDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => MapAddressesFilterDto)
+  filters?: MapAddressesFilterDto;
+
+  @ApiPropertyOptional({
+    description: 'Maximum number of features to return',
+    default: DEFAULT_BATCH_SIZE,
+    maximum: MAX_BATCH_SIZE,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_BATCH_SIZE)
+  limit?: number;
+
+  @ApiPropertyOptional({
+    description: 'Batch size for pagination',
+    default: DEFAULT_BATCH_SIZE,
+    maximum: MAX_BATCH_SIZE,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_BATCH_SIZE)
   batchSize?: number;
 
   @ApiPropertyOptional({
-    description: 'Opaque cursor string (last _id from previous batch)',
+    description:
+      'nextCursor from the previous batch; only valid for the same query',
   })
   @IsOptional()
+  @IsString()
   cursor?: string;
 }
 
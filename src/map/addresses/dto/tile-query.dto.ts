@@ -0,0 +1,25 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsArray, IsIn, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { TILE_ATTRIBUTE_FIELDS } from '../tiles/address-tiles';
+import { DatasetSelectionDto } from './dataset-selection.dto';
+
+export class TileQueryDto extends DatasetSelectionDto {
+  @ApiPropertyOptional({
+    description:
+      'Comma-separated address properties to encode as feature attributes (default from TILES_DEFAULT_FIELDS)',
+    type: [String],
+    enum: TILE_ATTRIBUTE_FIELDS,
+    example: 'street,number,postcode',
+  })
+  @IsOptional()
+  @Transform(({ value }) => {
+    if (typeof value === 'string') {
+      return value.split(',').map((item) => item.trim());
+    }
+    return value;
+  })
+  @IsArray()
+  @IsIn(TILE_ATTRIBUTE_FIELDS, { each: true })
+  fields?: string[];
+}
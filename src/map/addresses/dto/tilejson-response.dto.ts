@@ -0,0 +1,41 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class VectorLayerDto {
+  @ApiProperty({ example: 'addresses' })
+  id: string;
+
+  @ApiProperty({
+    description: 'Attribute names and types',
+    example: { street: 'String', number: 'String' },
+  })
+  fields: Record<string, string>;
+
+  @ApiProperty({ example: 12 })
+  minzoom: number;
+
+  @ApiProperty({ example: 20 })
+  maxzoom: number;
+}
+
+// TileJSON 3.0.0 document, usable directly as a MapLibre vector source url
+export class TileJsonResponseDto {
+  @ApiProperty({ example: '3.0.0' })
+  tilejson: string;
+
+  @ApiProperty({
+    type: [String],
+    example: [
+      'http://localhost:3000/api/v1/map/addresses/tiles/{z}/{x}/{y}.pbf',
+    ],
+  })
+  tiles: string[];
+
+  @ApiProperty({ example: 12 })
+  minzoom: number;
+
+  @ApiProperty({ example: 20 })
+  maxzoom: number;
+
+  @ApiProperty({ type: [VectorLayerDto] })
+  vector_layers: VectorLayerDto[];
+}
@@ -0,0 +1,41 @@
+import { ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import {
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  CreateAddressPropertiesDto,
+  PointGeometryInputDto,
+} from './create-map-address.dto';
+
+export class UpdateAddressPropertiesDto extends PartialType(
+  CreateAddressPropertiesDto,
+) {}
+
+export class UpdateMapAddressDto {
+  @ApiPropertyOptional({ type: PointGeometryInputDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PointGeometryInputDto)
+  geometry?: PointGeometryInputDto;
+
+  @ApiPropertyOptional({
+    type: UpdateAddressPropertiesDto,
+    description: 'Only the given properties change',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => UpdateAddressPropertiesDto)
+  properties?: UpdateAddressPropertiesDto;
+
+  @ApiPropertyOptional({
+    description: 'Why the address changed, kept in the change history',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
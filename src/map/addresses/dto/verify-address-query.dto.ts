@@ -0,0 +1,35 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString } from 'class-validator';
+import { DatasetSelectionDto } from './dataset-selection.dto';
+
+export class VerifyAddressQueryDto extends DatasetSelectionDto {
+  @ApiProperty({ example: 'Oranjeweg' })
+  @IsString()
+  street: string;
+
+  @ApiPropertyOptional({ example: '4' })
+  @IsOptional()
+  @IsString()
+  number?: string;
+
+  @ApiPropertyOptional({ example: '' })
+  @IsOptional()
+  @IsString()
+  unit?: string;
+
+  @ApiPropertyOptional({
+    description: 'Postcode; at least one of postcode or city is required',
+    example: '9901 CK',
+  })
+  @IsOptional()
+  @IsString()
+  postcode?: string;
+
+  @ApiPropertyOptional({
+    description: 'City; at least one of postcode or city is required',
+    example: 'Appingedam',
+  })
+  @IsOptional()
+  @IsString()
+  city?: string;
+}
@@ -0,0 +1,66 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { AddressFeatureDto } from './map-address-response.dto';
+
+export class FieldCorrectionDto {
+  @ApiProperty({ enum: ['street', 'number', 'unit', 'postcode', 'city'] })
+  field: string;
+
+  @ApiProperty({
+    description: 'Value as typed; null when it was left out',
+    example: 'Oranjewg',
+    nullable: true,
+  })
+  input: string | null;
+
+  @ApiProperty({ description: 'Value in the dataset', example: 'Oranjeweg' })
+  value: string;
+}
+
+export class PostcodeCityCheckDto {
+  @ApiProperty({
+    description:
+      'consistent when some address has both; inconsistent when the postcode belongs to other cities; unknown_postcode when no address has it; not_checked unless both were given',
+    enum: ['consistent', 'inconsistent', 'unknown_postcode', 'not_checked'],
+  })
+  status: string;
+
+  @ApiPropertyOptional({
+    description: 'Cities the postcode occurs in, when inconsistent',
+    type: [String],
+    example: ['Appingedam'],
+  })
+  cities?: string[];
+}
+
+export class VerifyAddressResponseDto {
+  @ApiProperty({ enum: ['exact', 'corrected', 'ambiguous', 'not_found'] })
+  status: string;
+
+  @ApiProperty({
+    description:
+      'Weighted field similarity of the best candidate, 0-1; 1 for exact matches',
+    example: 0.94,
+  })
+  confidence: number;
+
+  @ApiPropertyOptional({
+    description: 'The address, for exact and corrected matches',
+    type: AddressFeatureDto,
+  })
+  match?: AddressFeatureDto;
+
+  @ApiPropertyOptional({
+    description: 'Fields that differ from the dataset, for corrected matches',
+    type: [FieldCorrectionDto],
+  })
+  corrections?: FieldCorrectionDto[];
+
+  @ApiPropertyOptional({
+    description: 'Equally likely addresses, for ambiguous results',
+    type: [AddressFeatureDto],
+  })
+  candidates?: AddressFeatureDto[];
+
+  @ApiProperty({ type: PostcodeCityCheckDto })
+  postcodeCity: PostcodeCityCheckDto;
+}
@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsString, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { MapAddressesFilterDto } from './map-addresses-filter.dto';
+
+export class ViewportQueryDto extends MapAddressesFilterDto {
+  @ApiProperty({
+    description: 'Visible area as minLon,minLat,maxLon,maxLat',
+    example: '6.80,53.30,6.92,53.35',
+  })
+  @IsString()
+  bbox: string;
+
+  @ApiProperty({
+    description: 'Map zoom level (Web Mercator, 256 px tiles)',
+    example: 14,
+    minimum: 0,
+    maximum: 24,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(24)
+  zoom: number;
+}
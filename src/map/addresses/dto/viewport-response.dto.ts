@@ -0,0 +1,65 @@
+import { ApiExtraModels, ApiProperty, getSchemaPath } from '@nestjs/swagger';
+import {
+  AddressFeatureDto,
+  AddressGeometryDto,
+} from './map-address-response.dto';
+
+export class ClusterPropertiesDto {
+  @ApiProperty({ example: true })
+  cluster: true;
+
+  @ApiProperty({ description: 'Addresses in the cluster', example: 128 })
+  pointCount: number;
+
+  @ApiProperty({
+    description:
+      'Extent of the clustered addresses as [minLon, minLat, maxLon, maxLat]; zoom to it to expand the cluster',
+    type: 'array',
+    items: { type: 'number' },
+    example: [6.851, 53.312, 6.874, 53.329],
+  })
+  expansionBbox: [number, number, number, number];
+}
+
+export class ClusterFeatureDto {
+  @ApiProperty({ example: 'Feature' })
+  type: string;
+
+  @ApiProperty({ description: 'Centroid of the clustered addresses' })
+  geometry: AddressGeometryDto;
+
+  @ApiProperty()
+  properties: ClusterPropertiesDto;
+}
+
+@ApiExtraModels(AddressFeatureDto, ClusterFeatureDto)
+export class ViewportResponseDto {
+  @ApiProperty({ example: 'FeatureCollection' })
+  type: string;
+
+  @ApiProperty({
+    description:
+      'Clusters (properties.cluster = true) and single addresses when clustered, otherwise addresses only',
+    type: 'array',
+    items: {
+      oneOf: [
+        { $ref: getSchemaPath(ClusterFeatureDto) },
+        { $ref: getSchemaPath(AddressFeatureDto) },
+      ],
+    },
+  })
+  features: (AddressFeatureDto | ClusterFeatureDto)[];
+
+  @ApiProperty({ description: 'Whether features are clustered', example: true })
+  clustered: boolean;
+
+  @ApiProperty({ example: 14 })
+  zoom: number;
+
+  @ApiProperty({
+    description:
+      'True when the point budget cut the response short; zoom in or narrow the filters',
+    example: false,
+  })
+  truncated: boolean;
+}
@@ -0,0 +1,201 @@
+import { NotAcceptableException } from '@nestjs/common';
+
+export const EXPORT_FORMATS = {
+  geojson: { contentType: 'application/geo+json', extension: 'geojson' },
+  geojsonseq: {
+    contentType: 'application/geo+json-seq',
+    extension: 'geojsons',
+  },
+  ndjson: { contentType: 'application/x-ndjson', extension: 'ndjson' },
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  kml: {
+    contentType: 'application/vnd.google-earth.kml+xml',
+    extension: 'kml',
+  },
+} as const;
+
+export type ExportFormat = keyof typeof EXPORT_FORMATS;
+
+export type ExportFeature = {
+  _id: unknown;
+  dataset?: string;
+  geometry: { coordinates: number[] };
+  properties: Record<string, string>;
+};
+
+const PROPERTY_COLUMNS = [
+  'id',
+  'number',
+  'street',
+  'unit',
+  'postcode',
+  'city',
+  'district',
+  'region',
+  'hash',
+];
+
+// Media types from the Accept header, most specific first
+const ACCEPT_TYPES: Record<string, ExportFormat> = {
+  'application/geo+json-seq': 'geojsonseq',
+  'application/json-seq': 'geojsonseq',
+  'application/x-ndjson': 'ndjson',
+  'application/ndjson': 'ndjson',
+  'application/geo+json': 'geojson',
+  'application/json': 'geojson',
+  'text/csv': 'csv',
+  'application/vnd.google-earth.kml+xml': 'kml',
+};
+
+/**
+ * An explicit `format` wins; otherwise the first Accept media type we can
+ * produce, in the client's q-value order. No usable preference → GeoJSON.
+ */
+export function resolveExportFormat(
+  format?: string,
+  accept?: string,
+): ExportFormat {
+  if (format) {
+    const key = format.trim().toLowerCase();
+    if (key in EXPORT_FORMATS) {
+      return key as ExportFormat;
+    }
+    throw new NotAcceptableException(
+      `Unsupported export format ${format}. Use ${Object.keys(EXPORT_FORMATS).join(', ')}.`,
+    );
+  }
+
+  const ranges = (accept ?? '')
+    .split(',')
+    .map((part, index) => {
+      const [type, ...params] = part.trim().toLowerCase().split(';');
+      const q = params
+        .map((param) => /^\s*q=([\d.]+)\s*$/.exec(param)?.[1])
+        .find(Boolean);
+      return { type: type.trim(), q: q ? Number(q) : 1, index };
+    })
+    .filter((range) => range.type && range.q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index);
+
+  for (const { type } of ranges) {
+    if (ACCEPT_TYPES[type]) {
+      return ACCEPT_TYPES[type];
+    }
+    if (type === '*/*' || type === 'application/*') {
+      return 'geojson';
+    }
+  }
+
+  if (ranges.length) {
+    throw new NotAcceptableException(
+      `None of the accepted media types can be produced. Use ${Object.keys(ACCEPT_TYPES).join(', ')}.`,
+    );
+  }
+  return 'geojson';
+}
+
+const toGeoJson = (feature: ExportFeature) =>
+  JSON.stringify({
+    type: 'Feature',
+    id: String(feature._id),
+    dataset: feature.dataset,
+    geometry: { type: 'Point', coordinates: feature.geometry.coordinates },
+    properties: feature.properties,
+  });
+
+export const csvCell = (value: unknown) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const xmlText = (value: unknown) =>
+  String(value ?? '').replace(
+    /[<>&"']/g,
+    (char) =>
+      ({
+        '<': '&lt;',
+        '>': '&gt;',
+        '&': '&amp;',
+        '"': '&quot;',
+        "'": '&apos;',
+      })[char] as string,
+  );
+
+/**
+ * Serializes features one chunk at a time. Consumed through a Readable,
+ * the next feature is only pulled from the cursor once the previous chunk
+ * has been accepted downstream. `isTruncated` is read after the last
+ * feature so GeoJSON and KML can say the row cap was hit.
+ */
+export async function* encodeExport(
+  format: ExportFormat,
+  features: AsyncIterable<ExportFeature>,
+  isTruncated: () => boolean,
+): AsyncGenerator<string> {
+  switch (format) {
+    case 'geojson': {
+      yield '{"type":"FeatureCollection","features":[\n';
+      let first = true;
+      for await (const feature of features) {
+        yield `${first ? '' : ',\n'}${toGeoJson(feature)}`;
+        first = false;
+      }
+      yield `\n]${isTruncated() ? ',"truncated":true' : ''}}\n`;
+      return;
+    }
+    case 'geojsonseq':
+    case 'ndjson': {
+      // RFC 8142 prefixes each text sequence record with RS
+      const prefix = format === 'geojsonseq' ? '\x1e' : '';
+      for await (const feature of features) {
+        yield `${prefix}${toGeoJson(feature)}\n`;
+      }
+      return;
+    }
+    case 'csv': {
+      yield `${['lon', 'lat', 'dataset', ...PROPERTY_COLUMNS].join(',')}\r\n`;
+      for await (const feature of features) {
+        const [lon, lat] = feature.geometry.coordinates;
+        yield `${[
+          lon,
+          lat,
+          feature.dataset,
+          ...PROPERTY_COLUMNS.map((column) => feature.properties?.[column]),
+        ]
+          .map(csvCell)
+          .join(',')}\r\n`;
+      }
+      return;
+    }
+    case 'kml': {
+      yield '<?xml version="1.0" encoding="UTF-8"?>\n<kml xmlns="http://www.opengis.net/kml/2.2"><Document><name>addresses</name>\n';
+      for await (const feature of features) {
+        const { street, number, postcode, city } = feature.properties ?? {};
+        const name = [
+          [street, number].filter(Boolean).join(' '),
+          postcode,
+          city,
+        ]
+          .filter(Boolean)
+          .join(', ');
+        const data = [
+          ['dataset', feature.dataset],
+          ...PROPERTY_COLUMNS.map((column) => [
+            column,
+            feature.properties?.[column],
+          ]),
+        ]
+          .filter(([, value]) => value)
+          .map(
+            ([column, value]) =>
+              `<Data name="${column}"><value>${xmlText(value)}</value></Data>`,
+          )
+          .join('');
+        const [lon, lat] = feature.geometry.coordinates;
+        yield `<Placemark><name>${xmlText(name)}</name><ExtendedData>${data}</ExtendedData><Point><coordinates>${lon},${lat}</coordinates></Point></Placemark>\n`;
+      }
+      yield `${isTruncated() ? '<!-- truncated: row cap reached -->\n' : ''}</Document></kml>\n`;
+      return;
+    }
+  }
+}
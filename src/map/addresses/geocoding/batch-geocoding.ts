@@ -0,0 +1,177 @@
+import { MapAddress } from '../schemas/map-address.schema';
+import { CLOSE_MATCH_THRESHOLD } from '../search/search-ranking';
+
+export type GeocodeInput = {
+  ref?: string;
+  query?: string;
+  street?: string;
+  number?: string;
+  unit?: string;
+  postcode?: string;
+  city?: string;
+};
+
+export type GeocodeInputField = keyof GeocodeInput;
+
+export type GeocodeStatus =
+  | 'matched'
+  | 'ambiguous'
+  | 'low_confidence'
+  | 'unmatched';
+
+export type GeocodeCandidate = Pick<
+  MapAddress,
+  'dataset' | 'type' | 'geometry' | 'properties'
+> & {
+  _id: string;
+  score: number;
+};
+
+export type GeocodeResult = {
+  query: string;
+  status: GeocodeStatus;
+  confidence: number;
+  match: GeocodeCandidate | null;
+  alternatives: GeocodeCandidate[];
+};
+
+// A runner-up this close to the best score makes the match a coin toss
+export const AMBIGUITY_MARGIN = 0.02;
+
+export const DEFAULT_ALTERNATIVES = 3;
+
+// Spreadsheet headers recognised per input field, compared after
+// lowercasing and turning spaces and dashes into underscores
+export const GEOCODE_INPUT_COLUMNS: Record<GeocodeInputField, string[]> = {
+  ref: ['ref', 'reference', 'customer_id', 'row_id'],
+  query: ['query', 'address', 'full_address', 'search'],
+  street: ['street', 'street_name', 'streetname'],
+  number: ['number', 'house_number', 'housenumber', 'nr'],
+  unit: ['unit', 'apt', 'suite', 'addition'],
+  postcode: ['postcode', 'postal_code', 'zip', 'zipcode', 'zip_code'],
+  city: ['city', 'town', 'place', 'locality'],
+};
+
+export const GEOCODE_RESULT_COLUMNS = [
+  'match_status',
+  'match_confidence',
+  'match_id',
+  'match_dataset',
+  'match_street',
+  'match_number',
+  'match_unit',
+  'match_postcode',
+  'match_city',
+  'match_lon',
+  'match_lat',
+  'alternative_ids',
+];
+
+/**
+ * Position of each input field in a CSV header; the first matching column
+ * wins. Fields without a column are left out.
+ */
+export function mapInputColumns(
+  header: string[],
+): Partial<Record<GeocodeInputField, number>> {
+  const normalized = header.map((name) =>
+    name
+      .trim()
+      .toLowerCase()
+      .replace(/[\s-]+/g, '_'),
+  );
+  const columns: Partial<Record<GeocodeInputField, number>> = {};
+  for (const [field, aliases] of Object.entries(GEOCODE_INPUT_COLUMNS)) {
+    const index = normalized.findIndex((name) => aliases.includes(name));
+    if (index >= 0) {
+      columns[field as GeocodeInputField] = index;
+    }
+  }
+  return columns;
+}
+
+export function rowToInput(
+  columns: Partial<Record<GeocodeInputField, number>>,
+  cells: string[],
+): GeocodeInput {
+  const input: GeocodeInput = {};
+  for (const [field, index] of Object.entries(columns)) {
+    const value = cells[index]?.trim();
+    if (value) {
+      input[field as GeocodeInputField] = value;
+    }
+  }
+  return input;
+}
+
+// Free text wins; structured fields are joined in the order the query
+// parser expects them
+export function toQueryText(input: GeocodeInput): string {
+  if (input.query?.trim()) {
+    return input.query.trim();
+  }
+  return [input.street, input.number, input.unit, input.postcode, input.city]
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Best match and runners-up from ranked search results. Confidence is the
+ * similarity score of the best match; a result below the close-match
+ * threshold, or tied with a different address, is flagged for review.
+ */
+export function summarizeMatches(
+  query: string,
+  ranked: GeocodeCandidate[],
+  alternatives: number,
+): GeocodeResult {
+  const [best, ...rest] = ranked;
+  if (!best) {
+    return {
+      query,
+      status: 'unmatched',
+      confidence: 0,
+      match: null,
+      alternatives: [],
+    };
+  }
+
+  const confidence = Math.round(best.score * 1000) / 1000;
+  let status: GeocodeStatus = 'matched';
+  if (best.score < CLOSE_MATCH_THRESHOLD) {
+    status = 'low_confidence';
+  } else if (rest[0] && best.score - rest[0].score < AMBIGUITY_MARGIN) {
+    status = 'ambiguous';
+  }
+
+  return {
+    query,
+    status,
+    confidence,
+    match: best,
+    alternatives: rest.slice(0, alternatives),
+  };
+}
+
+export function toResultCells(result?: GeocodeResult | null): string[] {
+  if (!result) {
+    return GEOCODE_RESULT_COLUMNS.map(() => '');
+  }
+  const { match } = result;
+  const [lon, lat] = match?.geometry.coordinates ?? [];
+  return [
+    result.status,
+    String(result.confidence),
+    match?.properties.id ?? '',
+    match?.dataset ?? '',
+    match?.properties.street ?? '',
+    match?.properties.number ?? '',
+    match?.properties.unit ?? '',
+    match?.properties.postcode ?? '',
+    match?.properties.city ?? '',
+    lon === undefined ? '' : String(lon),
+    lat === undefined ? '' : String(lat),
+    result.alternatives.map((a) => a.properties.id).join('|'),
+  ];
+}
@@ -0,0 +1,71 @@
+import { parseCsv } from './csv-parser';
+
+describe('parseCsv', () => {
+  it('should split rows and fields', () => {
+    expect(parseCsv('street,number\nHoofdstraat,12\nKerkweg,4')).toEqual([
+      ['street', 'number'],
+      ['Hoofdstraat', '12'],
+      ['Kerkweg', '4'],
+    ]);
+  });
+
+  it('should detect semicolons and tabs from the header line', () => {
+    expect(parseCsv('street;number;note\nHoofdstraat;12;a,b')).toEqual([
+      ['street', 'number', 'note'],
+      ['Hoofdstraat', '12', 'a,b'],
+    ]);
+    expect(parseCsv('street\tnumber\nHoofdstraat\t12')).toEqual([
+      ['street', 'number'],
+      ['Hoofdstraat', '12'],
+    ]);
+  });
+
+  it('should not count delimiters inside quoted header fields', () => {
+    expect(parseCsv('"a;b;c",d\n1,2')).toEqual([
+      ['a;b;c', 'd'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('should keep delimiters, doubled quotes and line breaks in quoted fields', () => {
+    expect(parseCsv('street,note\n"Via Roma, 3","say ""hi""\nbye"')).toEqual([
+      ['street', 'note'],
+      ['Via Roma, 3', 'say "hi"\nbye'],
+    ]);
+  });
+
+  it('should accept CRLF and CR line endings', () => {
+    expect(parseCsv('a,b\r\n1,2\r3,4\r\n')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+      ['3', '4'],
+    ]);
+  });
+
+  it('should drop a byte order mark', () => {
+    expect(parseCsv('\uFEFFstreet,number\nKerkweg,4')[0]).toEqual([
+      'street',
+      'number',
+    ]);
+  });
+
+  it('should skip blank lines but keep rows of empty fields', () => {
+    expect(parseCsv('a,b\n\n   \n,\n1,2\n')).toEqual([
+      ['a', 'b'],
+      ['', ''],
+      ['1', '2'],
+    ]);
+  });
+
+  it('should keep a trailing empty field', () => {
+    expect(parseCsv('a,b\n1,')).toEqual([
+      ['a', 'b'],
+      ['1', ''],
+    ]);
+  });
+
+  it('should return no rows for empty input', () => {
+    expect(parseCsv('')).toEqual([]);
+    expect(parseCsv('\uFEFF\n')).toEqual([]);
+  });
+});
@@ -0,0 +1,32 @@
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// Mean Earth radius used by MongoDB's spherical geometry
+const EARTH_RADIUS_METERS = 6378100;
+
+// Great-circle (haversine) distance between two [lon, lat] points in meters
+export function distanceMeters(from: number[], to: number[]): number {
+  const [lon1, lat1] = from.map(toRadians);
+  const [lon2, lat2] = to.map(toRadians);
+  const a =
+    Math.sin((lat2 - lat1) / 2) ** 2 +
+    Math.cos(lat1) * Math.cos(lat2) * Math.sin((lon2 - lon1) / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Initial great-circle bearing from `from` to `to`, both [lon, lat], in
+ * degrees clockwise from true north (0..360).
+ */
+export function initialBearing(from: number[], to: number[]): number {
+  const [lon1, lat1] = from.map(toRadians);
+  const [lon2, lat2] = to.map(toRadians);
+  const dLon = lon2 - lon1;
+
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x =
+    Math.cos(lat1) * Math.sin(lat2) -
+    Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+}
@@ -0,0 +1,137 @@
+import { InvalidRegionError } from '../../../errors/domain-errors';
+import { parseRegion } from './region-geometry';
+
+// Shoelace sum; positive for counter-clockwise rings
+const signedArea = (ring: number[][]): number =>
+  ring
+    .slice(1)
+    .reduce((sum, [x, y], i) => sum + (ring[i][0] * y - x * ring[i][1]), 0) / 2;
+
+const CLOCKWISE_SQUARE = [
+  [0, 0],
+  [0, 4],
+  [4, 4],
+  [4, 0],
+  [0, 0],
+];
+
+describe('parseRegion', () => {
+  it('should read WKT, a GeoJSON string, a bare geometry and a Feature alike', () => {
+    const polygon = { type: 'Polygon', coordinates: [CLOCKWISE_SQUARE] };
+    const expected = parseRegion('POLYGON((0 0, 0 4, 4 4, 4 0, 0 0))');
+
+    expect(parseRegion(JSON.stringify(polygon))).toEqual(expected);
+    expect(parseRegion(polygon)).toEqual(expected);
+    expect(
+      parseRegion({ type: 'Feature', properties: {}, geometry: polygon }),
+    ).toEqual(expected);
+  });
+
+  it('should wind exterior rings counter-clockwise and holes clockwise', () => {
+    const region = parseRegion(
+      'POLYGON((0 0, 0 4, 4 4, 4 0, 0 0), (1 1, 2 1, 2 2, 1 2, 1 1))',
+    );
+    const [shell, hole] = region.coordinates as number[][][];
+
+    expect(signedArea(shell)).toBeGreaterThan(0);
+    expect(signedArea(hole)).toBeLessThan(0);
+  });
+
+  it('should close open rings and drop repeated positions', () => {
+    const region = parseRegion({
+      type: 'Polygon',
+      coordinates: [
+        [
+          [0, 0],
+          [4, 0],
+          [4, 0],
+          [4, 4],
+          [0, 4],
+        ],
+      ],
+    });
+
+    expect(region.coordinates).toEqual([
+      [
+        [0, 0],
+        [4, 0],
+        [4, 4],
+        [0, 4],
+        [0, 0],
+      ],
+    ]);
+  });
+
+  it('should accept a MultiPolygon of separate polygons', () => {
+    const region = parseRegion(
+      'MULTIPOLYGON(((0 0, 1 0, 1 1, 0 1, 0 0)), ((5 5, 6 5, 6 6, 5 6, 5 5)))',
+    );
+
+    expect(region.type).toBe('MultiPolygon');
+    expect(region.coordinates).toHaveLength(2);
+  });
+
+  it('should reject empty input and broken JSON', () => {
+    expect(() => parseRegion('  ')).toThrow('Region must not be empty');
+    expect(() => parseRegion('{"type": "Polygon"')).toThrow(
+      'Region is not valid GeoJSON',
+    );
+    expect(() => parseRegion(42)).toThrow('Region must be a GeoJSON object');
+  });
+
+  it('should reject other GeoJSON types and badly nested coordinates', () => {
+    expect(() =>
+      parseRegion({ type: 'LineString', coordinates: [[0, 0]] }),
+    ).toThrow(
+      'Unsupported GeoJSON type LineString. Use Polygon or MultiPolygon.',
+    );
+    expect(() =>
+      parseRegion({ type: 'Polygon', coordinates: [[0, 0]] }),
+    ).toThrow('GeoJSON Polygon coordinates must be nested 3 arrays deep');
+  });
+
+  it('should reject positions outside the longitude and latitude range', () => {
+    expect(() => parseRegion('POLYGON((0 0, 190 0, 190 4, 0 0))')).toThrow(
+      'Ring 0, position 1: [190, 0] is outside longitude -180..180 / latitude -90..90',
+    );
+  });
+
+  it('should reject rings without three distinct, non-collinear positions', () => {
+    expect(() => parseRegion('POLYGON((0 0, 1 1, 2 2, 0 0))')).toThrow(
+      'Ring 0 needs at least 3 distinct, non-collinear positions',
+    );
+    expect(() => parseRegion('POLYGON((0 0, 1 1, 0 0))')).toThrow(
+      'Ring 0 needs at least 3 distinct, non-collinear positions',
+    );
+  });
+
+  it('should reject a self-intersecting ring and name the crossing edges', () => {
+    expect(() => parseRegion('POLYGON((0 0, 4 4, 4 0, 0 4, 0 0))')).toThrow(
+      'Ring 0 self-intersects: edges 0 and 2 cross',
+    );
+  });
+
+  it('should reject a hole outside its exterior ring', () => {
+    expect(() =>
+      parseRegion(
+        'POLYGON((0 0, 4 0, 4 4, 0 4, 0 0), (5 5, 6 5, 6 6, 5 6, 5 5))',
+      ),
+    ).toThrow('Ring 1 is a hole but lies outside the exterior ring');
+  });
+
+  it('should label rings of a MultiPolygon by polygon', () => {
+    expect(() =>
+      parseRegion(
+        'MULTIPOLYGON(((0 0, 1 0, 1 1, 0 1, 0 0)), ((0 0, 4 4, 4 0, 0 4, 0 0)))',
+      ),
+    ).toThrow('Polygon 1 ring 0 self-intersects');
+  });
+
+  it('should reject overlapping polygons', () => {
+    expect(() =>
+      parseRegion(
+        'MULTIPOLYGON(((0 0, 4 0, 4 4, 0 4, 0 0)), ((2 2, 6 2, 6 6, 2 6, 2 2)))',
+      ),
+    ).toThrow(InvalidRegionError);
+  });
+});
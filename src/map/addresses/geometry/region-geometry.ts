@@ -0,0 +1,232 @@
+import booleanValid from '@turf/boolean-valid';
+import cleanCoords from '@turf/clean-coords';
+import rewind from '@turf/rewind';
+import { RegionGeometry } from './region-geometry.type';
+import { parseWkt } from './wkt.parser';
+import { InvalidRegionError } from '../../../errors/domain-errors';
+
+// Pairwise edge checks are quadratic; larger rings are left to MongoDB
+const SELF_INTERSECTION_CHECK_LIMIT = 5000;
+
+/**
+ * Accepts WKT, a GeoJSON string, or a GeoJSON Polygon/MultiPolygon (bare or
+ * wrapped in a Feature) and returns a closed, de-duplicated, validated and
+ * RFC 7946-wound geometry ready for `$geoWithin`.
+ */
+export function parseRegion(input: unknown): RegionGeometry {
+  if (typeof input === 'string') {
+    const trimmed = input.trim();
+    if (!trimmed) {
+      throw new InvalidRegionError('Region must not be empty');
+    }
+    if (trimmed.startsWith('{')) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(trimmed);
+      } catch {
+        throw new InvalidRegionError('Region is not valid GeoJSON');
+      }
+      return normalizeRegion(parseGeoJsonRegion(parsed));
+    }
+    return normalizeRegion(parseWkt(trimmed));
+  }
+
+  return normalizeRegion(parseGeoJsonRegion(input));
+}
+
+export function parseGeoJsonRegion(value: unknown): RegionGeometry {
+  const geojson = value as any;
+  if (!geojson || typeof geojson !== 'object') {
+    throw new InvalidRegionError('Region must be a GeoJSON object');
+  }
+
+  if (geojson.type === 'Feature') {
+    return parseGeoJsonRegion(geojson.geometry);
+  }
+
+  if (geojson.type === 'Polygon' || geojson.type === 'MultiPolygon') {
+    const depth = geojson.type === 'Polygon' ? 3 : 4;
+    if (!hasArrayDepth(geojson.coordinates, depth)) {
+      throw new InvalidRegionError(
+        `GeoJSON ${geojson.type} coordinates must be nested ${depth} arrays deep`,
+      );
+    }
+    return { type: geojson.type, coordinates: geojson.coordinates };
+  }
+
+  throw new InvalidRegionError(
+    `Unsupported GeoJSON type ${geojson.type}. Use Polygon or MultiPolygon.`,
+  );
+}
+
+export function normalizeRegion(region: RegionGeometry): RegionGeometry {
+  const isMulti = region.type === 'MultiPolygon';
+  const polygons = isMulti ? region.coordinates : [region.coordinates];
+
+  if (!polygons.length) {
+    throw new InvalidRegionError('Region has no polygons');
+  }
+
+  const cleaned = polygons.map((rings, p) => {
+    if (!rings.length) {
+      throw new InvalidRegionError(
+        `${isMulti ? `Polygon ${p}` : 'Polygon'} has no rings`,
+      );
+    }
+    return rings.map((ring, r) =>
+      normalizeRing(ring, isMulti ? `Polygon ${p} ring ${r}` : `Ring ${r}`),
+    );
+  });
+
+  cleaned.forEach((rings, p) =>
+    rings.slice(1).forEach((hole, h) => {
+      if (!hole.some((position) => pointInRing(position, rings[0]))) {
+        const label = isMulti ? `Polygon ${p} ring ${h + 1}` : `Ring ${h + 1}`;
+        throw new InvalidRegionError(
+          `${label} is a hole but lies outside the exterior ring`,
+        );
+      }
+    }),
+  );
+
+  const geometry: RegionGeometry = isMulti
+    ? { type: 'MultiPolygon', coordinates: cleaned }
+    : { type: 'Polygon', coordinates: cleaned[0] };
+
+  if (!booleanValid(geometry)) {
+    throw new InvalidRegionError(
+      'Region is not valid: holes must lie inside their exterior ring and polygons must not overlap',
+    );
+  }
+
+  return rewind(geometry, { mutate: true }) as RegionGeometry;
+}
+
+function normalizeRing(ring: number[][], label: string): number[][] {
+  const positions = ring.map((position, i) => {
+    const [lon, lat] = position;
+    if (
+      position.length < 2 ||
+      typeof lon !== 'number' ||
+      typeof lat !== 'number' ||
+      !Number.isFinite(lon) ||
+      !Number.isFinite(lat)
+    ) {
+      throw new InvalidRegionError(
+        `${label}, position ${i}: expected [longitude, latitude] numbers`,
+      );
+    }
+    if (Math.abs(lon) > 180 || Math.abs(lat) > 90) {
+      throw new InvalidRegionError(
+        `${label}, position ${i}: [${lon}, ${lat}] is outside longitude -180..180 / latitude -90..90`,
+      );
+    }
+    return [lon, lat];
+  });
+
+  const first = positions[0];
+  const last = positions[positions.length - 1];
+  if (first && (first[0] !== last[0] || first[1] !== last[1])) {
+    positions.push([first[0], first[1]]);
+  }
+
+  let closed: number[][];
+  try {
+    closed = cleanCoords({ type: 'Polygon', coordinates: [positions] })
+      .coordinates[0];
+  } catch {
+    closed = [];
+  }
+
+  if (closed.length < 4) {
+    throw new InvalidRegionError(
+      `${label} needs at least 3 distinct, non-collinear positions`,
+    );
+  }
+
+  const crossing = findSelfIntersection(closed);
+  if (crossing) {
+    throw new InvalidRegionError(
+      `${label} self-intersects: edges ${crossing[0]} and ${crossing[1]} cross`,
+    );
+  }
+
+  return closed;
+}
+
+function findSelfIntersection(ring: number[][]): [number, number] | null {
+  const edges = ring.length - 1;
+  if (edges > SELF_INTERSECTION_CHECK_LIMIT) {
+    return null;
+  }
+
+  for (let i = 0; i < edges; i++) {
+    for (let j = i + 2; j < edges; j++) {
+      // First and last edges share the closing vertex
+      if (i === 0 && j === edges - 1) {
+        continue;
+      }
+      if (segmentsIntersect(ring[i], ring[i + 1], ring[j], ring[j + 1])) {
+        return [i, j];
+      }
+    }
+  }
+  return null;
+}
+
+function segmentsIntersect(
+  a: number[],
+  b: number[],
+  c: number[],
+  d: number[],
+): boolean {
+  const orientation = (p: number[], q: number[], r: number[]) =>
+    Math.sign((q[0] - p[0]) * (r[1] - p[1]) - (q[1] - p[1]) * (r[0] - p[0]));
+  const onSegment = (p: number[], q: number[], r: number[]) =>
+    Math.min(p[0], q[0]) <= r[0] &&
+    r[0] <= Math.max(p[0], q[0]) &&
+    Math.min(p[1], q[1]) <= r[1] &&
+    r[1] <= Math.max(p[1], q[1]);
+
+  const o1 = orientation(a, b, c);
+  const o2 = orientation(a, b, d);
+  const o3 = orientation(c, d, a);
+  const o4 = orientation(c, d, b);
+
+  if (o1 !== o2 && o3 !== o4) {
+    return true;
+  }
+
+  return (
+    (o1 === 0 && onSegment(a, b, c)) ||
+    (o2 === 0 && onSegment(a, b, d)) ||
+    (o3 === 0 && onSegment(c, d, a)) ||
+    (o4 === 0 && onSegment(c, d, b))
+  );
+}
+
+// Ray casting; vertices on the boundary may land either way, which is
+// fine because booleanValid already rejects holes crossing the shell
+function pointInRing(point: number[], ring: number[][]): boolean {
+  const [x, y] = point;
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function hasArrayDepth(value: unknown, depth: number): boolean {
+  if (depth === 0) {
+    return typeof value === 'number';
+  }
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((item) => hasArrayDepth(item, depth - 1))
+  );
+}
@@ -0,0 +1,17 @@
+export type PolygonGeometry = {
+  type: 'Polygon';
+  coordinates: number[][][];
+};
+
+export type MultiPolygonGeometry = {
+  type: 'MultiPolygon';
+  coordinates: number[][][][];
+};
+
+export type RegionGeometry = PolygonGeometry | MultiPolygonGeometry;
+
+// Route of a corridor query
+export type LineStringGeometry = {
+  type: 'LineString';
+  coordinates: number[][];
+};
@@ -0,0 +1,375 @@
+import { InvalidRegionError } from '../../../errors/domain-errors';
+import {
+  buildCorridor,
+  corridorMatch,
+  corridorStages,
+  parseRoute,
+  ROUTE_MAX_POSITIONS,
+} from './route-corridor';
+
+// MongoDB's sphere, as the corridor uses it
+const METERS_PER_DEGREE = (6378100 * Math.PI) / 180;
+
+type Row = { geometry: { coordinates: number[] }; [field: string]: unknown };
+
+const valueAt = (value: unknown, path: string[]): unknown =>
+  path.reduce((item, key) => item?.[key], value);
+
+// Just enough of MongoDB's aggregation expressions for the corridor stages
+function evaluate(
+  expression: unknown,
+  row: Row,
+  vars: Record<string, unknown> = {},
+): any {
+  const run = (item: unknown, scope = vars) => evaluate(item, row, scope);
+  if (typeof expression === 'string' && expression.startsWith('$$')) {
+    const [name, ...path] = expression.slice(2).split('.');
+    return valueAt(vars[name], path);
+  }
+  if (typeof expression === 'string' && expression.startsWith('$')) {
+    return valueAt(row, expression.slice(1).split('.'));
+  }
+  if (Array.isArray(expression)) {
+    return expression.map((item) => run(item));
+  }
+  if (!expression || typeof expression !== 'object') {
+    return expression;
+  }
+
+  const [[operator, args]] = Object.entries(expression);
+  switch (operator) {
+    case '$arrayElemAt': {
+      const [array, index] = run(args);
+      return array[index];
+    }
+    case '$add':
+      return run(args).reduce((a: number, b: number) => a + b);
+    case '$subtract': {
+      const [a, b] = run(args);
+      return a - b;
+    }
+    case '$multiply':
+      return run(args).reduce((a: number, b: number) => a * b);
+    case '$divide': {
+      const [a, b] = run(args);
+      return a / b;
+    }
+    case '$min':
+      return Math.min(...run(args));
+    case '$max':
+      return Math.max(...run(args));
+    case '$sqrt':
+      return Math.sqrt(run(args));
+    case '$round': {
+      const [value, places] = run(args);
+      return Math.round(value * 10 ** places) / 10 ** places;
+    }
+    case '$lt': {
+      const [a, b] = run(args);
+      return a < b;
+    }
+    case '$cond': {
+      const [condition, then, otherwise] = args;
+      return run(condition) ? run(then) : run(otherwise);
+    }
+    case '$let': {
+      const scope = { ...vars };
+      for (const [name, value] of Object.entries(args.vars)) {
+        scope[name] = run(value);
+      }
+      return run(args.in, scope);
+    }
+    case '$reduce':
+      return run(args.input).reduce(
+        (value: unknown, item: unknown) =>
+          run(args.in, { ...vars, value, this: item }),
+        run(args.initialValue),
+      );
+  }
+  if (operator.startsWith('$')) {
+    throw new Error(`Operator ${operator} is not supported by the spec`);
+  }
+  return Object.fromEntries(
+    Object.entries(expression).map(([key, value]) => [key, run(value)]),
+  );
+}
+
+// Runs the corridor stages over rows the way the aggregation would
+function runStages(stages: any[], rows: Row[]): Row[] {
+  return stages.reduce((current: Row[], stage) => {
+    if (stage.$addFields) {
+      return current.map((row) => ({
+        ...row,
+        ...evaluate(stage.$addFields, row),
+      }));
+    }
+    const [[field, condition]] = Object.entries<{ $lte: number }>(stage.$match);
+    return current.filter((row) => (row[field] as number) <= condition.$lte);
+  }, rows);
+}
+
+const at = (lon: number, lat: number): Row => ({
+  geometry: { coordinates: [lon, lat] },
+});
+
+// Ray casting over the exterior ring
+function inPolygon([x, y]: number[], ring: number[][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Great-circle distance on MongoDB's sphere, independent of the flat frame
+function haversine([lon1, lat1]: number[], [lon2, lat2]: number[]): number {
+  const rad = Math.PI / 180;
+  const a =
+    Math.sin(((lat2 - lat1) * rad) / 2) ** 2 +
+    Math.cos(lat1 * rad) *
+      Math.cos(lat2 * rad) *
+      Math.sin(((lon2 - lon1) * rad) / 2) ** 2;
+  return 2 * 6378100 * Math.asin(Math.sqrt(a));
+}
+
+// Point halfway along the great circle between two positions
+function greatCircleMiddle(...positions: number[][]): number[] {
+  const rad = Math.PI / 180;
+  const [x, y, z] = positions
+    .map(([lon, lat]) => [
+      Math.cos(lat * rad) * Math.cos(lon * rad),
+      Math.cos(lat * rad) * Math.sin(lon * rad),
+      Math.sin(lat * rad),
+    ])
+    .reduce((sum, vector) => sum.map((value, i) => value + vector[i]));
+  return [Math.atan2(y, x) / rad, Math.atan2(z, Math.hypot(x, y)) / rad];
+}
+
+// East along 53.3°N, then north; both legs shorter than one piece
+const ROUTE = parseRoute('LINESTRING(6.80 53.30, 6.84 53.30, 6.84 53.33)');
+const NORTH = 1 / METERS_PER_DEGREE;
+
+describe('parseRoute', () => {
+  it('should read WKT, a GeoJSON string, a bare geometry and a Feature alike', () => {
+    const line = { type: 'LineString', coordinates: ROUTE.coordinates };
+
+    expect(parseRoute(JSON.stringify(line))).toEqual(ROUTE);
+    expect(parseRoute(line)).toEqual(ROUTE);
+    expect(
+      parseRoute({ type: 'Feature', properties: {}, geometry: line }),
+    ).toEqual(ROUTE);
+  });
+
+  it('should drop repeated positions', () => {
+    expect(
+      parseRoute('LINESTRING(6.8 53.3, 6.8 53.3, 6.9 53.3, 6.9 53.3)')
+        .coordinates,
+    ).toEqual([
+      [6.8, 53.3],
+      [6.9, 53.3],
+    ]);
+  });
+
+  it('should reject routes without two distinct positions', () => {
+    expect(() => parseRoute('LINESTRING(6.8 53.3, 6.8 53.3)')).toThrow(
+      'Route needs at least 2 distinct positions',
+    );
+  });
+
+  it('should reject routes with too many positions', () => {
+    const coordinates = Array.from(
+      { length: ROUTE_MAX_POSITIONS + 1 },
+      (_, i) => [6 + i / 1000, 53],
+    );
+
+    expect(() => parseRoute({ type: 'LineString', coordinates })).toThrow(
+      `Route has ${ROUTE_MAX_POSITIONS + 1} positions; simplify it to at most ${ROUTE_MAX_POSITIONS}`,
+    );
+  });
+
+  it('should reject positions outside the longitude and latitude range', () => {
+    expect(() => parseRoute('LINESTRING(6.8 53.3, 6.9 95)')).toThrow(
+      'Route position 1: [6.9, 95] is outside longitude -180..180 / latitude -90..90',
+    );
+    expect(() =>
+      parseRoute({ type: 'LineString', coordinates: [[6.8, 53.3], ['6.9']] }),
+    ).toThrow('Route position 1: expected [longitude, latitude] numbers');
+  });
+
+  it('should reject empty input, broken JSON and other geometry types', () => {
+    expect(() => parseRoute(' ')).toThrow('Route must not be empty');
+    expect(() => parseRoute('{"type"')).toThrow('Route is not valid GeoJSON');
+    expect(() => parseRoute(null)).toThrow('Route must be a GeoJSON object');
+    expect(() =>
+      parseRoute({ type: 'Polygon', coordinates: [[[0, 0]]] }),
+    ).toThrow('Unsupported GeoJSON type Polygon. Use LineString.');
+    expect(() =>
+      parseRoute({ type: 'LineString', coordinates: [1, 2] }),
+    ).toThrow('GeoJSON LineString coordinates must be an array of positions');
+  });
+});
+
+describe('buildCorridor', () => {
+  const corridor = buildCorridor(ROUTE, 100);
+
+  it('should measure each leg and where it starts along the route', () => {
+    const [first, second] = corridor.segments;
+    const legs = [
+      haversine(ROUTE.coordinates[0], ROUTE.coordinates[1]),
+      haversine(ROUTE.coordinates[1], ROUTE.coordinates[2]),
+    ];
+
+    expect(first.length).toBeCloseTo(legs[0], -1);
+    expect(second.length).toBeCloseTo(legs[1], -1);
+    expect(first.start).toBe(0);
+    expect(second.start).toBe(first.length);
+  });
+
+  it('should build one closed capsule per leg', () => {
+    expect(corridor.polygons).toHaveLength(2);
+    corridor.polygons.forEach(({ coordinates: [ring] }) =>
+      expect(ring[ring.length - 1]).toEqual(ring[0]),
+    );
+  });
+
+  it('should cover every point within the buffer, caps included', () => {
+    const [along, across] = corridor.polygons;
+    const inside = [
+      // Beside the middle of the first leg, both sides
+      [6.82, 53.3 + 99 * NORTH],
+      [6.82, 53.3 - 99 * NORTH],
+      // Before the start, on the start cap
+      [6.8 - 99 / corridor.segments[0].kx, 53.3],
+      // Diagonally off the end of the route
+      [6.84 + 70 / corridor.segments[1].kx, 53.33 + 70 * NORTH],
+    ];
+
+    inside.forEach((point) =>
+      expect(
+        inPolygon(point, along.coordinates[0]) ||
+          inPolygon(point, across.coordinates[0]),
+      ).toBe(true),
+    );
+  });
+
+  it('should not reach far beyond the buffer', () => {
+    const [along] = corridor.polygons;
+
+    expect(inPolygon([6.82, 53.3 + 120 * NORTH], along.coordinates[0])).toBe(
+      false,
+    );
+  });
+
+  it('should keep a long leg inside the corridor along its great circle', () => {
+    // About 100 km due east; the great circle bows some 260 m north of
+    // the parallel halfway
+    const route = parseRoute('LINESTRING(6 53, 7.5 53)');
+    const long = buildCorridor(route, 100);
+    const middle = greatCircleMiddle(
+      route.coordinates[0],
+      route.coordinates[1],
+    );
+    const [row] = runStages(corridorStages(long, 100), [
+      at(middle[0], middle[1]),
+    ]);
+
+    expect(long.segments.length).toBeGreaterThan(1);
+    long.segments.forEach((segment) =>
+      expect(segment.length).toBeLessThanOrEqual(5000),
+    );
+    expect(
+      long.polygons.some(({ coordinates: [ring] }) => inPolygon(middle, ring)),
+    ).toBe(true);
+    expect(row.offset).toBeLessThan(1);
+    expect(row.distanceAlong).toBeCloseTo(
+      haversine(route.coordinates[0], middle),
+      -1,
+    );
+  });
+
+  it('should reject a route needing too many pieces', () => {
+    expect(() =>
+      buildCorridor(parseRoute('LINESTRING(0 0, 60 0)'), 100),
+    ).toThrow(InvalidRegionError);
+  });
+
+  it('should reject legs crossing the antimeridian', () => {
+    expect(() =>
+      buildCorridor(parseRoute('LINESTRING(179.9 10, -179.9 10)'), 100),
+    ).toThrow(
+      'Route leg 0-1 crosses the antimeridian; split the route into parts on either side of it',
+    );
+  });
+
+  it('should reject a buffer reaching across the antimeridian or a pole', () => {
+    expect(() =>
+      buildCorridor(parseRoute('LINESTRING(179.999 10, 179.9 10)'), 1000),
+    ).toThrow(InvalidRegionError);
+    expect(() =>
+      buildCorridor(parseRoute('LINESTRING(0 89.999, 1 89.999)'), 1000),
+    ).toThrow(
+      'The corridor reaches across the antimeridian or a pole; narrow bufferMeters or split the route there',
+    );
+  });
+});
+
+describe('corridorStages', () => {
+  const corridor = buildCorridor(ROUTE, 100);
+  const stages = corridorStages(corridor, 100);
+  const [first] = corridor.segments;
+
+  it('should add the offset from the route and the distance along it', () => {
+    const [row] = runStages(stages, [at(6.82, 53.3 + 60 * NORTH)]);
+
+    expect(row.offset).toBeCloseTo(60, 1);
+    expect(row.distanceAlong).toBeCloseTo(first.length / 2, 0);
+  });
+
+  it('should measure from the nearest leg', () => {
+    const [second] = corridor.segments.slice(1);
+    const [row] = runStages(stages, [at(6.84 + 40 / second.kx, 53.315)]);
+
+    expect(row.offset).toBeCloseTo(40, 1);
+    expect(row.distanceAlong).toBeCloseTo(first.length + second.length / 2, 0);
+  });
+
+  it('should measure past the ends of the route to its end points', () => {
+    const [row] = runStages(stages, [at(6.8 - 30 / first.kx, 53.3)]);
+
+    expect(row.offset).toBeCloseTo(30, 1);
+    expect(row.distanceAlong).toBe(0);
+  });
+
+  it('should drop rows farther than the buffer', () => {
+    const rows = runStages(stages, [
+      at(6.82, 53.3 + 99 * NORTH),
+      at(6.82, 53.3 + 101 * NORTH),
+    ]);
+
+    expect(rows.map((row) => Math.round(row.offset as number))).toEqual([99]);
+  });
+
+  it('should round to centimeters', () => {
+    const [row] = runStages(stages, [at(6.8212345, 53.3 + 12.3456 * NORTH)]);
+
+    expect(row.offset).toBe(12.35);
+    const along = row.distanceAlong as number;
+    expect(along).toBe(Math.round(along * 100) / 100);
+  });
+});
+
+describe('corridorMatch', () => {
+  it('should match rows within any of the capsules', () => {
+    const corridor = buildCorridor(ROUTE, 100);
+
+    expect(corridorMatch(corridor)).toEqual({
+      $or: corridor.polygons.map((polygon) => ({
+        geometry: { $geoWithin: { $geometry: polygon } },
+      })),
+    });
+  });
+});
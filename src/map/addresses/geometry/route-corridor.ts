@@ -0,0 +1,365 @@
+import { PipelineStage } from 'mongoose';
+import { LineStringGeometry, PolygonGeometry } from './region-geometry.type';
+import { parseLineStringWkt } from './wkt.parser';
+import { InvalidRegionError } from '../../../errors/domain-errors';
+
+export const ROUTE_MAX_POSITIONS = 500;
+
+// Legs are cut into pieces of at most this length
+const MAX_PIECE_METERS = 5000;
+
+// Every piece becomes one $geoWithin clause
+const ROUTE_MAX_PIECES = 1000;
+
+// Chords per half circle of a segment's end caps
+const CAP_STEPS = 8;
+
+// Meters per degree of latitude on MongoDB's sphere (radius 6378100 m)
+const METERS_PER_DEGREE = (6378100 * Math.PI) / 180;
+
+/**
+ * One piece of a route leg in a flat frame around its start: x east and y
+ * north in meters, with the longitude scale of the piece's middle
+ * latitude. The great circle of the leg, which $geoWithin follows, strays
+ * from the frame's straight line by up to about length² · tan(latitude) / 8R:
+ * 260 m over 100 km at 53°, under a meter over a piece of 5 km below 60°.
+ */
+export type RouteSegment = {
+  lon: number;
+  lat: number;
+  // Meters per degree of longitude
+  kx: number;
+  dx: number;
+  dy: number;
+  length: number;
+  // Distance along the route where the piece starts
+  start: number;
+};
+
+export type RouteCorridor = {
+  segments: RouteSegment[];
+  // The buffer as one capsule per segment: a rectangle along the piece
+  // with round caps. Together they cover the corridor, joins included.
+  polygons: PolygonGeometry[];
+};
+
+/**
+ * Accepts LINESTRING WKT, a GeoJSON string, or a GeoJSON LineString (bare
+ * or wrapped in a Feature). Repeated positions are dropped.
+ */
+export function parseRoute(input: unknown): LineStringGeometry {
+  let line: LineStringGeometry;
+  if (typeof input === 'string') {
+    const trimmed = input.trim();
+    if (!trimmed) {
+      throw new InvalidRegionError('Route must not be empty');
+    }
+    if (trimmed.startsWith('{')) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(trimmed);
+      } catch {
+        throw new InvalidRegionError('Route is not valid GeoJSON');
+      }
+      line = parseGeoJsonRoute(parsed);
+    } else {
+      line = parseLineStringWkt(trimmed);
+    }
+  } else {
+    line = parseGeoJsonRoute(input);
+  }
+
+  const positions: number[][] = [];
+  line.coordinates.forEach((position, i) => {
+    const [lon, lat] = position;
+    if (
+      position.length < 2 ||
+      typeof lon !== 'number' ||
+      typeof lat !== 'number' ||
+      !Number.isFinite(lon) ||
+      !Number.isFinite(lat)
+    ) {
+      throw new InvalidRegionError(
+        `Route position ${i}: expected [longitude, latitude] numbers`,
+      );
+    }
+    if (Math.abs(lon) > 180 || Math.abs(lat) > 90) {
+      throw new InvalidRegionError(
+        `Route position ${i}: [${lon}, ${lat}] is outside longitude -180..180 / latitude -90..90`,
+      );
+    }
+    const previous = positions[positions.length - 1];
+    if (!previous || previous[0] !== lon || previous[1] !== lat) {
+      positions.push([lon, lat]);
+    }
+  });
+
+  if (positions.length < 2) {
+    throw new InvalidRegionError('Route needs at least 2 distinct positions');
+  }
+  if (positions.length > ROUTE_MAX_POSITIONS) {
+    throw new InvalidRegionError(
+      `Route has ${positions.length} positions; simplify it to at most ${ROUTE_MAX_POSITIONS}`,
+    );
+  }
+  return { type: 'LineString', coordinates: positions };
+}
+
+function parseGeoJsonRoute(value: unknown): LineStringGeometry {
+  const geojson = value as any;
+  if (!geojson || typeof geojson !== 'object') {
+    throw new InvalidRegionError('Route must be a GeoJSON object');
+  }
+  if (geojson.type === 'Feature') {
+    return parseGeoJsonRoute(geojson.geometry);
+  }
+  if (geojson.type !== 'LineString') {
+    throw new InvalidRegionError(
+      `Unsupported GeoJSON type ${geojson.type}. Use LineString.`,
+    );
+  }
+  if (
+    !Array.isArray(geojson.coordinates) ||
+    !geojson.coordinates.every(Array.isArray)
+  ) {
+    throw new InvalidRegionError(
+      'GeoJSON LineString coordinates must be an array of positions',
+    );
+  }
+  return { type: 'LineString', coordinates: geojson.coordinates };
+}
+
+export function buildCorridor(
+  route: LineStringGeometry,
+  bufferMeters: number,
+): RouteCorridor {
+  const positions: number[][] = [route.coordinates[0]];
+  for (let i = 1; i < route.coordinates.length; i++) {
+    const from = route.coordinates[i - 1];
+    const to = route.coordinates[i];
+    // The flat frame of a leg cannot wrap around ±180°; the shorter way
+    // between the positions would be taken the long way round the globe
+    if (Math.abs(to[0] - from[0]) > 180) {
+      throw new InvalidRegionError(
+        `Route leg ${i - 1}-${i} crosses the antimeridian; split the route into parts on either side of it`,
+      );
+    }
+    positions.push(...splitLeg(from, to));
+  }
+  if (positions.length - 1 > ROUTE_MAX_PIECES) {
+    throw new InvalidRegionError(
+      `Route is too long for a corridor: it spans ${positions.length - 1} pieces of up to ${MAX_PIECE_METERS / 1000} km, at most ${ROUTE_MAX_PIECES} are allowed; split it into parts`,
+    );
+  }
+
+  const segments: RouteSegment[] = [];
+  let start = 0;
+  for (let i = 1; i < positions.length; i++) {
+    const [lon, lat] = positions[i - 1];
+    const [toLon, toLat] = positions[i];
+    const kx =
+      METERS_PER_DEGREE * Math.cos((((lat + toLat) / 2) * Math.PI) / 180);
+    const dx = (toLon - lon) * kx;
+    const dy = (toLat - lat) * METERS_PER_DEGREE;
+    const length = Math.hypot(dx, dy);
+    segments.push({ lon, lat, kx, dx, dy, length, start });
+    start += length;
+  }
+
+  // Chords cut inside the caps' circles; widen them so the polygons
+  // never fall short of the buffer. The exact offset is checked per row.
+  const radius = bufferMeters / Math.cos(Math.PI / (2 * CAP_STEPS));
+  const polygons = segments.map((segment) => capsule(segment, radius));
+  for (const polygon of polygons) {
+    for (const [lon, lat] of polygon.coordinates[0]) {
+      if (Math.abs(lon) > 180 || Math.abs(lat) > 90) {
+        throw new InvalidRegionError(
+          'The corridor reaches across the antimeridian or a pole; narrow bufferMeters or split the route there',
+        );
+      }
+    }
+  }
+  return { segments, polygons };
+}
+
+// Positions after `from` up to `to`, evenly spaced along the great circle
+// between them, no more than MAX_PIECE_METERS apart
+function splitLeg(from: number[], to: number[]): number[][] {
+  const rad = Math.PI / 180;
+  const toVector = ([lon, lat]: number[]) => [
+    Math.cos(lat * rad) * Math.cos(lon * rad),
+    Math.cos(lat * rad) * Math.sin(lon * rad),
+    Math.sin(lat * rad),
+  ];
+  const a = toVector(from);
+  const b = toVector(to);
+  const angle = Math.acos(Math.min(1, a[0] * b[0] + a[1] * b[1] + a[2] * b[2]));
+  const pieces = Math.ceil(
+    (angle * METERS_PER_DEGREE) / rad / MAX_PIECE_METERS,
+  );
+
+  const positions: number[][] = [];
+  for (let k = 1; k < pieces; k++) {
+    const f = k / pieces;
+    const wa = Math.sin((1 - f) * angle) / Math.sin(angle);
+    const wb = Math.sin(f * angle) / Math.sin(angle);
+    const [x, y, z] = a.map((value, axis) => wa * value + wb * b[axis]);
+    positions.push([
+      Math.atan2(y, x) / rad,
+      Math.atan2(z, Math.hypot(x, y)) / rad,
+    ]);
+  }
+  positions.push(to);
+  return positions;
+}
+
+function capsule(segment: RouteSegment, radius: number): PolygonGeometry {
+  const toLonLat = ([x, y]: number[]) => [
+    segment.lon + x / segment.kx,
+    segment.lat + y / METERS_PER_DEGREE,
+  ];
+  // Counterclockwise from the right-hand side of the end point, around the
+  // end cap, back along the left side and around the start cap
+  const heading = Math.atan2(segment.dy, segment.dx);
+  const ring: number[][] = [];
+  for (const [cx, cy, from] of [
+    [segment.dx, segment.dy, heading - Math.PI / 2],
+    [0, 0, heading + Math.PI / 2],
+  ]) {
+    for (let k = 0; k <= CAP_STEPS; k++) {
+      const angle = from + (k * Math.PI) / CAP_STEPS;
+      ring.push(
+        toLonLat([
+          cx + radius * Math.cos(angle),
+          cy + radius * Math.sin(angle),
+        ]),
+      );
+    }
+  }
+  ring.push(ring[0]);
+  return { type: 'Polygon', coordinates: [ring] };
+}
+
+/**
+ * Stages adding `distanceAlong` (meters from the start of the route to
+ * the nearest point on it) and `offset` (meters from the route) to each
+ * row, both rounded to centimeters, and dropping rows farther than the
+ * buffer. Each piece projects the row's point onto itself; the nearest
+ * piece wins.
+ */
+export function corridorStages(
+  corridor: RouteCorridor,
+  bufferMeters: number,
+): PipelineStage[] {
+  const lon = { $arrayElemAt: ['$geometry.coordinates', 0] };
+  const lat = { $arrayElemAt: ['$geometry.coordinates', 1] };
+
+  const nearest = {
+    $reduce: {
+      input: corridor.segments,
+      initialValue: { offset2: Number.MAX_VALUE, along: 0 },
+      in: {
+        $let: {
+          vars: {
+            px: {
+              $multiply: [{ $subtract: [lon, '$$this.lon'] }, '$$this.kx'],
+            },
+            py: {
+              $multiply: [
+                { $subtract: [lat, '$$this.lat'] },
+                METERS_PER_DEGREE,
+              ],
+            },
+          },
+          in: {
+            $let: {
+              vars: {
+                // Position of the projection along the piece, 0..1
+                t: {
+                  $max: [
+                    0,
+                    {
+                      $min: [
+                        1,
+                        {
+                          $divide: [
+                            {
+                              $add: [
+                                { $multiply: ['$$px', '$$this.dx'] },
+                                { $multiply: ['$$py', '$$this.dy'] },
+                              ],
+                            },
+                            { $multiply: ['$$this.length', '$$this.length'] },
+                          ],
+                        },
+                      ],
+                    },
+                  ],
+                },
+              },
+              in: {
+                $let: {
+                  vars: {
+                    ex: {
+                      $subtract: ['$$px', { $multiply: ['$$t', '$$this.dx'] }],
+                    },
+                    ey: {
+                      $subtract: ['$$py', { $multiply: ['$$t', '$$this.dy'] }],
+                    },
+                  },
+                  in: {
+                    $let: {
+                      vars: {
+                        offset2: {
+                          $add: [
+                            { $multiply: ['$$ex', '$$ex'] },
+                            { $multiply: ['$$ey', '$$ey'] },
+                          ],
+                        },
+                      },
+                      in: {
+                        $cond: [
+                          { $lt: ['$$offset2', '$$value.offset2'] },
+                          {
+                            offset2: '$$offset2',
+                            along: {
+                              $add: [
+                                '$$this.start',
+                                { $multiply: ['$$t', '$$this.length'] },
+                              ],
+                            },
+                          },
+                          '$$value',
+                        ],
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  };
+
+  return [
+    { $addFields: { routeNearest: nearest } },
+    {
+      $addFields: {
+        distanceAlong: { $round: ['$routeNearest.along', 2] },
+        offset: { $round: [{ $sqrt: '$routeNearest.offset2' }, 2] },
+      },
+    },
+    { $match: { offset: { $lte: bufferMeters } } },
+  ];
+}
+
+// Rows inside any of the corridor's capsules, through the 2dsphere index
+export function corridorMatch(corridor: RouteCorridor) {
+  return {
+    $or: corridor.polygons.map((polygon) => ({
+      geometry: { $geoWithin: { $geometry: polygon } },
+    })),
+  };
+}
@@ -0,0 +1,184 @@
+import { InvalidRegionError } from '../../../errors/domain-errors';
+import { parseLineStringWkt, parseWkt } from './wkt.parser';
+
+const SQUARE = [
+  [
+    [6.85, 53.31],
+    [6.88, 53.31],
+    [6.88, 53.33],
+    [6.85, 53.33],
+    [6.85, 53.31],
+  ],
+];
+
+describe('parseWkt', () => {
+  it('should read a POLYGON into GeoJSON', () => {
+    expect(
+      parseWkt(
+        'POLYGON((6.85 53.31, 6.88 53.31, 6.88 53.33, 6.85 53.33, 6.85 53.31))',
+      ),
+    ).toEqual({ type: 'Polygon', coordinates: SQUARE });
+  });
+
+  it('should accept any case, extra whitespace and a SRID prefix', () => {
+    expect(
+      parseWkt(
+        ' SRID=4326; polygon ( ( 6.85 53.31 ,6.88 53.31,6.88 53.33,6.85 53.33,6.85 53.31 ) ) ',
+      ),
+    ).toEqual({ type: 'Polygon', coordinates: SQUARE });
+  });
+
+  it('should drop Z and M ordinates', () => {
+    expect(
+      parseWkt(
+        'POLYGON Z((6.85 53.31 1, 6.88 53.31 2, 6.88 53.33 3, 6.85 53.33 4, 6.85 53.31 1))',
+      ),
+    ).toEqual({ type: 'Polygon', coordinates: SQUARE });
+  });
+
+  it('should read numbers in exponent and leading-dot notation', () => {
+    const polygon = parseWkt('POLYGON((0 0, 1e1 0, 10 .5e1, 0 0))');
+    expect(polygon.coordinates).toEqual([
+      [
+        [0, 0],
+        [10, 0],
+        [10, 5],
+        [0, 0],
+      ],
+    ]);
+  });
+
+  it('should read a MULTIPOLYGON with a hole', () => {
+    expect(
+      parseWkt(
+        'MULTIPOLYGON(((0 0, 4 0, 4 4, 0 4, 0 0), (1 1, 2 1, 2 2, 1 1)), ((5 5, 6 5, 6 6, 5 5)))',
+      ),
+    ).toEqual({
+      type: 'MultiPolygon',
+      coordinates: [
+        [
+          [
+            [0, 0],
+            [4, 0],
+            [4, 4],
+            [0, 4],
+            [0, 0],
+          ],
+          [
+            [1, 1],
+            [2, 1],
+            [2, 2],
+            [1, 1],
+          ],
+        ],
+        [
+          [
+            [5, 5],
+            [6, 5],
+            [6, 6],
+            [5, 5],
+          ],
+        ],
+      ],
+    });
+  });
+
+  it('should read ENVELOPE as minX, maxX, maxY, minY', () => {
+    expect(parseWkt('ENVELOPE(6.85, 6.88, 53.33, 53.31)')).toEqual({
+      type: 'Polygon',
+      coordinates: SQUARE,
+    });
+  });
+
+  it('should read BBOX as minX, minY, maxX, maxY', () => {
+    expect(parseWkt('BBOX(6.85, 53.31, 6.88, 53.33)')).toEqual({
+      type: 'Polygon',
+      coordinates: SQUARE,
+    });
+  });
+
+  it('should reject an envelope whose minimum is not below its maximum', () => {
+    expect(() => parseWkt('BBOX(6.88, 53.31, 6.85, 53.33)')).toThrow(
+      'Invalid envelope: min values must be lower than max values',
+    );
+  });
+
+  it('should reject a BBOX without exactly 4 numbers', () => {
+    expect(() => parseWkt('BBOX(1, 2, 3)')).toThrow(
+      'Invalid WKT: BBOX takes exactly 4 numbers',
+    );
+  });
+
+  it('should reject unsupported and missing geometry types', () => {
+    expect(() => parseWkt('POINT(1 2)')).toThrow(
+      'Unsupported WKT type POINT. Use POLYGON, MULTIPOLYGON, ENVELOPE or BBOX.',
+    );
+    expect(() => parseWkt('((0 0, 1 0, 1 1, 0 0))')).toThrow(
+      'Invalid WKT: missing geometry type',
+    );
+  });
+
+  it('should reject EMPTY geometries', () => {
+    expect(() => parseWkt('POLYGON EMPTY')).toThrow(
+      'Invalid WKT: POLYGON is empty',
+    );
+  });
+
+  it('should report the position of a syntax error in the full string', () => {
+    expect(() => parseWkt('POLYGON((0 0, 1 0, 1 1, 0 0)')).toThrow(
+      'Invalid WKT at position 28: expected ")"',
+    );
+    expect(() => parseWkt('POLYGON((0 0, 1 x, 1 1, 0 0))')).toThrow(
+      'Invalid WKT at position 16: expected a number',
+    );
+  });
+
+  it('should reject a position with a single number', () => {
+    expect(() => parseWkt('POLYGON((0 0, 1, 1 1, 0 0))')).toThrow(
+      'a position needs at least longitude and latitude',
+    );
+  });
+
+  it('should reject trailing content', () => {
+    expect(() => parseWkt('POLYGON((0 0, 1 0, 1 1, 0 0)) x')).toThrow(
+      'unexpected trailing content',
+    );
+  });
+
+  it('should reject nesting that does not fit the type', () => {
+    expect(() => parseWkt('POLYGON(0 0, 1 0, 1 1, 0 0)')).toThrow(
+      'Invalid WKT: unexpected nesting of parentheses for POLYGON',
+    );
+    expect(() => parseWkt('MULTIPOLYGON((0 0, 1 0, 1 1, 0 0))')).toThrow(
+      'Invalid WKT: unexpected nesting of parentheses for MULTIPOLYGON',
+    );
+  });
+
+  it('should throw InvalidRegionError for every rejection', () => {
+    expect(() => parseWkt('POLYGON((')).toThrow(InvalidRegionError);
+  });
+});
+
+describe('parseLineStringWkt', () => {
+  it('should read a LINESTRING', () => {
+    expect(parseLineStringWkt('LINESTRING(6.85 53.31, 6.88 53.33)')).toEqual({
+      type: 'LineString',
+      coordinates: [
+        [6.85, 53.31],
+        [6.88, 53.33],
+      ],
+    });
+  });
+
+  it('should reject other geometry types', () => {
+    expect(() => parseLineStringWkt('POLYGON((0 0, 1 0, 1 1, 0 0))')).toThrow(
+      'Unsupported WKT type POLYGON. Use LINESTRING.',
+    );
+  });
+
+  it('should reject nested lists', () => {
+    expect(() => parseLineStringWkt('LINESTRING((0 0, 1 1))')).toThrow(
+      'unexpected nesting of parentheses for LINESTRING',
+    );
+  });
+});
@@ -0,0 +1,216 @@
+import { LineStringGeometry, RegionGeometry } from './region-geometry.type';
+import { InvalidRegionError } from '../../../errors/domain-errors';
+
+type Nested = number[] | Nested[];
+
+// Recursive-descent reader for the coordinate lists of WKT geometries
+class WktReader {
+  private pos = 0;
+
+  // offset maps positions back onto the full WKT string for error messages
+  constructor(
+    private readonly text: string,
+    private readonly offset = 0,
+  ) {}
+
+  skipWhitespace(): void {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) {
+      this.pos++;
+    }
+  }
+
+  peek(): string {
+    this.skipWhitespace();
+    return this.text[this.pos] ?? '';
+  }
+
+  consume(char: string): boolean {
+    if (this.peek() === char) {
+      this.pos++;
+      return true;
+    }
+    return false;
+  }
+
+  expect(char: string): void {
+    if (!this.consume(char)) {
+      throw this.error(`expected "${char}"`);
+    }
+  }
+
+  expectEnd(): void {
+    if (this.peek() !== '') {
+      throw this.error('unexpected trailing content');
+    }
+  }
+
+  readNumber(): number {
+    this.skipWhitespace();
+    const match = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/.exec(
+      this.text.slice(this.pos),
+    );
+    if (!match) {
+      throw this.error('expected a number');
+    }
+    this.pos += match[0].length;
+    return Number(match[0]);
+  }
+
+  // Position: whitespace-separated numbers; Z/M ordinates are dropped
+  readPosition(): number[] {
+    const values: number[] = [];
+    while (!['', ',', ')'].includes(this.peek())) {
+      values.push(this.readNumber());
+    }
+    if (values.length < 2) {
+      throw this.error('a position needs at least longitude and latitude');
+    }
+    return values.slice(0, 2);
+  }
+
+  readList(): Nested[] {
+    this.expect('(');
+    const items: Nested[] = [];
+    do {
+      items.push(this.peek() === '(' ? this.readList() : this.readPosition());
+    } while (this.consume(','));
+    this.expect(')');
+    return items;
+  }
+
+  error(message: string): InvalidRegionError {
+    return new InvalidRegionError(
+      `Invalid WKT at position ${this.offset + this.pos}: ${message}`,
+    );
+  }
+}
+
+function depthOf(value: Nested): number {
+  return typeof value[0] === 'number' ? 0 : 1 + depthOf(value[0] as Nested);
+}
+
+function assertDepth(items: Nested[], depth: number, type: string): void {
+  // Every leaf must sit at the same depth, e.g. rings of positions for POLYGON
+  const check = (value: Nested, expected: number) => {
+    if (depthOf(value) !== expected) {
+      throw new InvalidRegionError(
+        `Invalid WKT: unexpected nesting of parentheses for ${type}`,
+      );
+    }
+    if (expected > 0) {
+      (value as Nested[]).forEach((child) => check(child, expected - 1));
+    }
+  };
+  items.forEach((item) => check(item, depth - 1));
+}
+
+function envelope(
+  minLon: number,
+  minLat: number,
+  maxLon: number,
+  maxLat: number,
+): RegionGeometry {
+  if (minLon >= maxLon || minLat >= maxLat) {
+    throw new InvalidRegionError(
+      'Invalid envelope: min values must be lower than max values',
+    );
+  }
+  return {
+    type: 'Polygon',
+    coordinates: [
+      [
+        [minLon, minLat],
+        [maxLon, minLat],
+        [maxLon, maxLat],
+        [minLon, maxLat],
+        [minLon, minLat],
+      ],
+    ],
+  };
+}
+
+// Geometry type and a reader positioned after it. An optional EWKT
+// `SRID=4326;` prefix and Z/M ordinates are accepted and ignored.
+function readHeader(wkt: string): { type: string; reader: WktReader } {
+  const text = wkt.trim().replace(/^SRID=\d+\s*;\s*/i, '');
+  const header = /^([A-Za-z]+)(\s+(?:ZM|Z|M))?\s*/.exec(text);
+  if (!header) {
+    throw new InvalidRegionError('Invalid WKT: missing geometry type');
+  }
+
+  const type = header[1].toUpperCase();
+  const body = text.slice(header[0].length);
+  const offset = wkt.indexOf(text) + header[0].length;
+
+  if (/^EMPTY$/i.test(body.trim())) {
+    throw new InvalidRegionError(`Invalid WKT: ${type} is empty`);
+  }
+
+  return { type, reader: new WktReader(body, offset) };
+}
+
+/**
+ * Parses POLYGON, MULTIPOLYGON, ENVELOPE(minX, maxX, maxY, minY) and
+ * BBOX(minX, minY, maxX, maxY) WKT into GeoJSON.
+ */
+export function parseWkt(wkt: string): RegionGeometry {
+  const { type, reader } = readHeader(wkt);
+
+  switch (type) {
+    case 'POLYGON': {
+      const rings = reader.readList();
+      reader.expectEnd();
+      assertDepth(rings, 2, type);
+      return { type: 'Polygon', coordinates: rings as number[][][] };
+    }
+    case 'MULTIPOLYGON': {
+      const polygons = reader.readList();
+      reader.expectEnd();
+      assertDepth(polygons, 3, type);
+      return {
+        type: 'MultiPolygon',
+        coordinates: polygons as number[][][][],
+      };
+    }
+    case 'ENVELOPE':
+    case 'BBOX': {
+      reader.expect('(');
+      const values = [reader.readNumber()];
+      while (reader.consume(',')) {
+        values.push(reader.readNumber());
+      }
+      reader.expect(')');
+      reader.expectEnd();
+      if (values.length !== 4) {
+        throw new InvalidRegionError(
+          `Invalid WKT: ${type} takes exactly 4 numbers`,
+        );
+      }
+      if (type === 'ENVELOPE') {
+        const [minLon, maxLon, maxLat, minLat] = values;
+        return envelope(minLon, minLat, maxLon, maxLat);
+      }
+      const [minLon, minLat, maxLon, maxLat] = values;
+      return envelope(minLon, minLat, maxLon, maxLat);
+    }
+    default:
+      throw new InvalidRegionError(
+        `Unsupported WKT type ${type}. Use POLYGON, MULTIPOLYGON, ENVELOPE or BBOX.`,
+      );
+  }
+}
+
+// LINESTRING WKT, the route of a corridor query
+export function parseLineStringWkt(wkt: string): LineStringGeometry {
+  const { type, reader } = readHeader(wkt);
+  if (type !== 'LINESTRING') {
+    throw new InvalidRegionError(
+      `Unsupported WKT type ${type}. Use LINESTRING.`,
+    );
+  }
+
+  const positions = reader.readList();
+  reader.expectEnd();
+  assertDepth(positions, 1, type);
+  return { type: 'LineString', coordinates: positions as number[][] };
+}
@@ -0,0 +1,101 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import { createHash } from 'crypto';
+import { MapAddress, MapAddressDocument } from './schemas/map-address.schema';
+import {
+  SavedRegion,
+  SavedRegionDocument,
+} from '../regions/schemas/saved-region.schema';
+import { ResultCache } from './cache/result-cache';
+import { resultCacheKey } from './cache/result-cache-key';
+import { AllConfigType } from '../../config/config.type';
+
+// How long the data version is trusted before it is read again; imports
+// run in another process and become visible after at most this long
+const DATA_VERSION_CHECK_MS = 5 * 1000;
+
+export type ResultCacheEntry = {
+  key: string;
+  etag: string;
+};
+
+/**
+ * Result cache in front of MapAddressesService. Entries are keyed by the
+ * data version, the address and saved-region counts plus their latest
+ * `updatedAt`, so any write or import moves every query to a fresh key
+ * and stale results simply age out.
+ */
+@Injectable()
+export class MapAddressesCacheService {
+  private dataVersion?: { value: Promise<string>; expiresAt: number };
+
+  constructor(
+    @InjectModel(MapAddress.name)
+    private mapAddressModel: Model<MapAddressDocument>,
+    @InjectModel(SavedRegion.name)
+    private regionModel: Model<SavedRegionDocument>,
+    private cache: ResultCache,
+    private configService: ConfigService<AllConfigType>,
+  ) {}
+
+  async entryFor(route: string, params: unknown): Promise<ResultCacheEntry> {
+    const version = await this.getDataVersion();
+    const key = `${version}:${resultCacheKey(route, params)}`;
+    const digest = createHash('sha1').update(key).digest('base64url');
+    return { key, etag: `"${digest}"` };
+  }
+
+  async get<T>(entry: ResultCacheEntry): Promise<T | undefined> {
+    return await this.cache.get<T>(entry.key);
+  }
+
+  async set<T>(entry: ResultCacheEntry, value: T): Promise<void> {
+    const { ttlSeconds } = this.configService.getOrThrow('resultCache', {
+      infer: true,
+    });
+    await this.cache.set(entry.key, value, ttlSeconds);
+  }
+
+  // Called after writes through the API so they show up immediately
+  async invalidate(): Promise<void> {
+    this.dataVersion = undefined;
+    await this.cache.clear();
+  }
+
+  private getDataVersion(): Promise<string> {
+    if (!this.dataVersion || this.dataVersion.expiresAt <= Date.now()) {
+      const value = this.readDataVersion();
+      this.dataVersion = {
+        value,
+        expiresAt: Date.now() + DATA_VERSION_CHECK_MS,
+      };
+      // A failed read is not remembered
+      value.catch(() => (this.dataVersion = undefined));
+    }
+    return this.dataVersion.value;
+  }
+
+  private async readDataVersion(): Promise<string> {
+    // Queries by regionId change with the region they refer to
+    const versions = await Promise.all([
+      this.readCollectionVersion(this.mapAddressModel),
+      this.readCollectionVersion(this.regionModel),
+    ]);
+    return versions.join('-');
+  }
+
+  private async readCollectionVersion(model: Model<any>): Promise<string> {
+    const [count, latest] = await Promise.all([
+      model.estimatedDocumentCount().exec(),
+      model
+        .findOne()
+        .sort({ updatedAt: -1 })
+        .select('updatedAt')
+        .lean<{ updatedAt?: Date }>()
+        .exec(),
+    ]);
+    return `${count}-${latest?.updatedAt?.getTime() ?? 0}`;
+  }
+}
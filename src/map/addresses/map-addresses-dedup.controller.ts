@@ -0,0 +1,143 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { MapAddressesDedupService } from './map-addresses-dedup.service';
+import {
+  DismissDuplicateGroupDto,
+  DuplicateGroupsQueryDto,
+  MergeDuplicateGroupDto,
+  StartDedupRunDto,
+} from './dto/dedup-request.dto';
+import {
+  DedupRunResponseDto,
+  DuplicateGroupListResponseDto,
+  DuplicateGroupResponseDto,
+} from './dto/dedup-response.dto';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { AuthUser } from '../../auth/auth-user.type';
+import { AdminGuard } from '../../auth/guards/admin.guard';
+import {
+  ApiCommonProblemResponses,
+  ApiProblemResponse,
+} from '../../errors/api-problem-response.decorator';
+
+// A merge retires records across the dataset, so runs and reviews are
+// reserved to admins
+@ApiTags('Map')
+@ApiBearerAuth()
+@ApiCommonProblemResponses()
+@ApiProblemResponse(401, 'Missing or invalid bearer token')
+@ApiProblemResponse(403, 'The token lacks the admin role')
+@UseGuards(AuthGuard('jwt'), AdminGuard)
+@Controller({
+  path: 'map/addresses/dedup',
+  version: '1',
+})
+export class MapAddressesDedupController {
+  constructor(private readonly dedupService: MapAddressesDedupService) {}
+
+  @ApiOperation({
+    summary: 'Start a background run looking for duplicate addresses',
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Returns the queued run; poll it for progress',
+    type: DedupRunResponseDto,
+  })
+  @ApiProblemResponse(409, 'A run for the dataset is already in progress')
+  @Post('runs')
+  @HttpCode(202)
+  async startRun(
+    @Body() body: StartDedupRunDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<DedupRunResponseDto> {
+    return await this.dedupService.startRun(body, user);
+  }
+
+  @ApiOperation({ summary: 'Status and progress of a dedup run' })
+  @ApiResponse({ status: 200, type: DedupRunResponseDto })
+  @ApiProblemResponse(404, 'No run with this id')
+  @Get('runs/:id')
+  async getRun(@Param('id') id: string): Promise<DedupRunResponseDto> {
+    return await this.dedupService.getRun(id);
+  }
+
+  @ApiOperation({ summary: 'Duplicate groups found by a run' })
+  @ApiResponse({
+    status: 200,
+    description: 'Groups in the order they were found, one page at a time',
+    type: DuplicateGroupListResponseDto,
+  })
+  @ApiProblemResponse(404, 'No run with this id')
+  @Get('runs/:id/groups')
+  async listGroups(
+    @Param('id') id: string,
+    @Query() query: DuplicateGroupsQueryDto,
+  ): Promise<DuplicateGroupListResponseDto> {
+    return await this.dedupService.listGroups(id, query);
+  }
+
+  @ApiOperation({ summary: 'One duplicate group with its members' })
+  @ApiResponse({ status: 200, type: DuplicateGroupResponseDto })
+  @ApiProblemResponse(404, 'No group with this id')
+  @Get('groups/:id')
+  async getGroup(@Param('id') id: string): Promise<DuplicateGroupResponseDto> {
+    return await this.dedupService.getGroup(id);
+  }
+
+  @ApiOperation({
+    summary:
+      'Keep one member and retire the others; their ids redirect to the one kept',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the merged group',
+    type: DuplicateGroupResponseDto,
+  })
+  @ApiProblemResponse(404, 'No group with this id')
+  @ApiProblemResponse(
+    409,
+    'The group was already reviewed or the member to keep is retired',
+  )
+  @Post('groups/:id/merge')
+  @HttpCode(200)
+  async mergeGroup(
+    @Param('id') id: string,
+    @Body() body: MergeDuplicateGroupDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<DuplicateGroupResponseDto> {
+    return await this.dedupService.mergeGroup(id, body, user);
+  }
+
+  @ApiOperation({ summary: 'Mark a group as not duplicates' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the dismissed group',
+    type: DuplicateGroupResponseDto,
+  })
+  @ApiProblemResponse(404, 'No group with this id')
+  @ApiProblemResponse(409, 'The group was already reviewed')
+  @Post('groups/:id/dismiss')
+  @HttpCode(200)
+  async dismissGroup(
+    @Param('id') id: string,
+    @Body() body: DismissDuplicateGroupDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<DuplicateGroupResponseDto> {
+    return await this.dedupService.dismissGroup(id, body, user);
+  }
+}
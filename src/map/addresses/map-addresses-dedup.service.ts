@@ -0,0 +1,567 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import {
+  ACTIVE_ADDRESS,
+  MapAddress,
+  MapAddressDocument,
+} from './schemas/map-address.schema';
+import { DedupRun, DedupRunDocument } from './schemas/dedup-run.schema';
+import {
+  DuplicateGroup,
+  DuplicateGroupDocument,
+  DuplicateMember,
+} from './schemas/duplicate-group.schema';
+import { MapAddressesWriteService } from './map-addresses-write.service';
+import { MapDatasetsService } from '../datasets/map-datasets.service';
+import {
+  DismissDuplicateGroupDto,
+  DuplicateGroupsQueryDto,
+  MergeDuplicateGroupDto,
+  StartDedupRunDto,
+} from './dto/dedup-request.dto';
+import {
+  DedupRunResponseDto,
+  DuplicateGroupListResponseDto,
+  DuplicateGroupResponseDto,
+} from './dto/dedup-response.dto';
+import {
+  compareDuplicate,
+  DuplicateFields,
+  DuplicateKind,
+  duplicateKey,
+} from './dedup/near-duplicates';
+import { distanceMeters } from './geometry/geodesy';
+import { AuthUser } from '../../auth/auth-user.type';
+import { AllConfigType } from '../../config/config.type';
+import {
+  ConflictError,
+  InvalidInputError,
+  ResourceNotFoundError,
+} from '../../errors/domain-errors';
+import { toServiceError } from '../../errors/service-errors';
+
+// Addresses compared between two progress updates
+const RUN_CHUNK_SIZE = 200;
+
+// Nearest same-number records compared with each address
+const NEIGHBOUR_LIMIT = 20;
+
+// A running run without a heartbeat for this long is considered abandoned
+const RUN_STALE_MS = 5 * 60 * 1000;
+
+const DEFAULT_GROUP_LIMIT = 50;
+
+type CandidateAddress = {
+  _id: Types.ObjectId;
+  geometry: { coordinates: [number, number] };
+  properties: Record<string, string>;
+  search?: DuplicateFields;
+};
+
+type CandidateMatch = { address: CandidateAddress; kind: DuplicateKind };
+
+@Injectable()
+export class MapAddressesDedupService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(MapAddressesDedupService.name);
+
+  // Runs go one after another, like geocoding jobs
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    @InjectModel(DedupRun.name)
+    private runModel: Model<DedupRunDocument>,
+    @InjectModel(DuplicateGroup.name)
+    private groupModel: Model<DuplicateGroupDocument>,
+    @InjectModel(MapAddress.name)
+    private mapAddressModel: Model<MapAddressDocument>,
+    private writeService: MapAddressesWriteService,
+    private datasetsService: MapDatasetsService,
+    private configService: ConfigService<AllConfigType>,
+  ) {}
+
+  // Pick up runs left queued or abandoned by a previous process
+  async onApplicationBootstrap(): Promise<void> {
+    const pending = await this.runModel
+      .find(this.claimableFilter())
+      .sort({ createdAt: 1 })
+      .select('_id')
+      .lean<{ _id: Types.ObjectId }[]>()
+      .exec();
+    pending.forEach((run) => this.enqueue(run._id));
+  }
+
+  async startRun(
+    body: StartDedupRunDto,
+    author: AuthUser,
+  ): Promise<DedupRunResponseDto> {
+    try {
+      const dataset = await this.datasetsService.resolveOne(body.dataset);
+      const active = await this.runModel
+        .findOne({ dataset, status: { $in: ['queued', 'running'] } })
+        .select('_id')
+        .lean()
+        .exec();
+      if (active) {
+        throw new ConflictError(
+          `Dedup run ${String(active._id)} is already in progress for dataset ${dataset}`,
+        );
+      }
+
+      const defaults = this.configService.getOrThrow('dedup', { infer: true });
+      const run = await this.runModel.create({
+        status: 'queued',
+        dataset,
+        maxDistance: body.maxDistance ?? defaults.maxDistanceMeters,
+        minStreetSimilarity:
+          body.minStreetSimilarity ?? defaults.minStreetSimilarity,
+        total: await this.mapAddressModel.countDocuments({
+          dataset,
+          ...ACTIVE_ADDRESS,
+        }),
+        createdBy: author.id,
+      });
+
+      this.enqueue(run._id as Types.ObjectId);
+      return this.toRunResponse(run);
+    } catch (error) {
+      throw toServiceError(error, 'Failed to start dedup run');
+    }
+  }
+
+  async getRun(id: string): Promise<DedupRunResponseDto> {
+    try {
+      return this.toRunResponse(await this.findRun(id));
+    } catch (error) {
+      throw toServiceError(error, 'Failed to fetch dedup run');
+    }
+  }
+
+  // Groups of a run in the order they were found
+  async listGroups(
+    runId: string,
+    query: DuplicateGroupsQueryDto,
+  ): Promise<DuplicateGroupListResponseDto> {
+    try {
+      const run = await this.findRun(runId);
+      const limit = query.limit ?? DEFAULT_GROUP_LIMIT;
+      const groups = await this.groupModel
+        .find({
+          run: run._id,
+          ...(query.status ? { status: query.status } : {}),
+          ...(query.after
+            ? { _id: { $gt: new Types.ObjectId(query.after) } }
+            : {}),
+        })
+        .sort({ _id: 1 })
+        .limit(limit + 1)
+        .exec();
+
+      const page = groups.slice(0, limit);
+      return {
+        groups: page.map((group) => this.toGroupResponse(group)),
+        ...(groups.length > limit
+          ? { next: String(page[page.length - 1]._id) }
+          : {}),
+      };
+    } catch (error) {
+      throw toServiceError(error, 'Failed to list duplicate groups');
+    }
+  }
+
+  async getGroup(id: string): Promise<DuplicateGroupResponseDto> {
+    try {
+      return this.toGroupResponse(await this.findGroup(id));
+    } catch (error) {
+      throw toServiceError(error, 'Failed to fetch duplicate group');
+    }
+  }
+
+  /**
+   * Keeps the chosen member and retires the others as merged into it.
+   * Members retired since the run found them are left alone.
+   */
+  async mergeGroup(
+    id: string,
+    body: MergeDuplicateGroupDto,
+    author: AuthUser,
+  ): Promise<DuplicateGroupResponseDto> {
+    try {
+      const group = await this.findOpenGroup(id);
+      const kept = group.members.find((member) => member.id === body.canonical);
+      if (!kept) {
+        throw new InvalidInputError(
+          `Address ${body.canonical} is not a member of duplicate group ${id}`,
+        );
+      }
+
+      // By _id: properties.id may have been edited since the run
+      const docs = await this.mapAddressModel
+        .find({
+          _id: { $in: group.members.map((member) => member.address) },
+          ...ACTIVE_ADDRESS,
+        })
+        .exec();
+      const canonical = docs.find((doc) =>
+        (doc._id as Types.ObjectId).equals(kept.address),
+      );
+      if (!canonical) {
+        throw new ConflictError(
+          `Address ${body.canonical} is no longer active and cannot be kept`,
+        );
+      }
+
+      await this.writeService.merge(
+        canonical,
+        docs.filter((doc) => doc !== canonical),
+        author,
+        body.reason,
+      );
+
+      group.set({
+        status: 'merged',
+        canonical: canonical.properties.id,
+        ...this.review(author, body.reason),
+      });
+      await group.save();
+      return this.toGroupResponse(group);
+    } catch (error) {
+      throw toServiceError(error, 'Failed to merge duplicate group');
+    }
+  }
+
+  // Not duplicates after all; later runs do not report these records
+  // together again
+  async dismissGroup(
+    id: string,
+    body: DismissDuplicateGroupDto,
+    author: AuthUser,
+  ): Promise<DuplicateGroupResponseDto> {
+    try {
+      const group = await this.findOpenGroup(id);
+      group.set({ status: 'dismissed', ...this.review(author, body.reason) });
+      await group.save();
+      return this.toGroupResponse(group);
+    } catch (error) {
+      throw toServiceError(error, 'Failed to dismiss duplicate group');
+    }
+  }
+
+  private enqueue(id: Types.ObjectId): void {
+    this.queue = this.queue
+      .then(() => this.runDedup(id))
+      .catch((error) =>
+        this.logger.error(`Dedup run ${String(id)}: ${error.message}`),
+      );
+  }
+
+  private claimableFilter() {
+    return {
+      $or: [
+        { status: 'queued' },
+        {
+          status: 'running',
+          heartbeatAt: { $lt: new Date(Date.now() - RUN_STALE_MS) },
+        },
+      ],
+    };
+  }
+
+  /**
+   * Visits the active addresses of the dataset in _id order and looks up
+   * each one's nearest records with the same house number through the
+   * 2dsphere index. Only later _ids are compared, so every pair is seen
+   * once; matching pairs are linked into groups. Resumable from
+   * `lastAddress`.
+   */
+  private async runDedup(id: Types.ObjectId): Promise<void> {
+    const run = await this.runModel
+      .findOneAndUpdate(
+        { _id: id, ...this.claimableFilter() },
+        [
+          {
+            $set: {
+              status: 'running',
+              heartbeatAt: '$$NOW',
+              startedAt: { $ifNull: ['$startedAt', '$$NOW'] },
+            },
+          },
+        ],
+        { new: true },
+      )
+      .exec();
+    if (!run) {
+      return;
+    }
+
+    try {
+      let lastAddress = run.lastAddress;
+      for (;;) {
+        const addresses = await this.mapAddressModel
+          .find({
+            dataset: run.dataset,
+            ...ACTIVE_ADDRESS,
+            ...(lastAddress ? { _id: { $gt: lastAddress } } : {}),
+          })
+          .sort({ _id: 1 })
+          .limit(RUN_CHUNK_SIZE)
+          .select('_id geometry properties search')
+          .lean<CandidateAddress[]>()
+          .exec();
+        if (!addresses.length) {
+          break;
+        }
+
+        for (const address of addresses) {
+          const matches = await this.findMatches(run, address);
+          if (matches.length) {
+            await this.linkGroup(run, address, matches);
+          }
+        }
+
+        lastAddress = addresses[addresses.length - 1]._id;
+        await this.runModel
+          .updateOne(
+            { _id: id },
+            {
+              $inc: { processed: addresses.length },
+              $set: {
+                lastAddress,
+                groups: await this.groupModel.countDocuments({ run: id }),
+                heartbeatAt: new Date(),
+              },
+            },
+          )
+          .exec();
+      }
+
+      await this.runModel
+        .updateOne({ _id: id }, { status: 'completed', finishedAt: new Date() })
+        .exec();
+    } catch (error) {
+      await this.runModel
+        .updateOne(
+          { _id: id },
+          { status: 'failed', error: error.message, finishedAt: new Date() },
+        )
+        .exec();
+      throw error;
+    }
+  }
+
+  private async findMatches(
+    run: DedupRunDocument,
+    address: CandidateAddress,
+  ): Promise<CandidateMatch[]> {
+    if (!address.search?.number) {
+      return [];
+    }
+
+    const neighbours = await this.mapAddressModel
+      .find({
+        dataset: run.dataset,
+        ...ACTIVE_ADDRESS,
+        _id: { $gt: address._id },
+        'search.number': address.search.number,
+        geometry: {
+          $nearSphere: {
+            $geometry: {
+              type: 'Point',
+              coordinates: address.geometry.coordinates,
+            },
+            $maxDistance: run.maxDistance,
+          },
+        },
+      })
+      .limit(NEIGHBOUR_LIMIT)
+      .select('_id geometry properties search')
+      .lean<CandidateAddress[]>()
+      .exec();
+
+    const matches: CandidateMatch[] = [];
+    for (const neighbour of neighbours) {
+      const kind = compareDuplicate(
+        address.search,
+        neighbour.search ?? ({} as DuplicateFields),
+        run.minStreetSimilarity,
+      );
+      if (kind) {
+        matches.push({ address: neighbour, kind });
+      }
+    }
+    if (!matches.length) {
+      return matches;
+    }
+
+    // Pairs a reviewer already dismissed stay apart
+    const dismissed = await this.groupModel
+      .find({ 'members.address': address._id, status: 'dismissed' })
+      .select('members.address')
+      .lean()
+      .exec();
+    const apart = new Set(
+      dismissed.flatMap((group) =>
+        group.members.map((member) => String(member.address)),
+      ),
+    );
+    return matches.filter((match) => !apart.has(String(match.address._id)));
+  }
+
+  // Adds the address and its matches to the open group of this run that
+  // holds any of them, folding groups together when the pair bridges two
+  private async linkGroup(
+    run: DedupRunDocument,
+    address: CandidateAddress,
+    matches: CandidateMatch[],
+  ): Promise<void> {
+    const candidates = [address, ...matches.map((match) => match.address)];
+    const existing = await this.groupModel
+      .find({
+        run: run._id,
+        status: 'open',
+        'members.address': { $in: candidates.map((item) => item._id) },
+      })
+      .sort({ _id: 1 })
+      .exec();
+
+    const [group, ...absorbed] = existing;
+    const members = new Map<string, DuplicateMember>();
+    for (const member of existing.flatMap((item) => item.members)) {
+      members.set(String(member.address), member);
+    }
+    for (const item of candidates) {
+      if (!members.has(String(item._id))) {
+        members.set(String(item._id), this.toMember(item));
+      }
+    }
+
+    const exact =
+      existing.every((item) => item.kind === 'exact') &&
+      matches.every((match) => match.kind === 'exact');
+    const update = {
+      members: [...members.values()],
+      kind: exact ? 'exact' : 'similar',
+      spread: this.spread([...members.values()]),
+    };
+
+    if (!group) {
+      await this.groupModel.create({
+        run: run._id,
+        dataset: run.dataset,
+        key: duplicateKey(address.search as DuplicateFields),
+        ...update,
+      });
+      return;
+    }
+
+    group.set(update);
+    await group.save();
+    if (absorbed.length) {
+      await this.groupModel
+        .deleteMany({ _id: { $in: absorbed.map((item) => item._id) } })
+        .exec();
+    }
+  }
+
+  private toMember(address: CandidateAddress): DuplicateMember {
+    return {
+      address: address._id,
+      id: address.properties.id,
+      properties: address.properties,
+      coordinates: address.geometry.coordinates,
+    };
+  }
+
+  // Largest pairwise distance, rounded to centimeters
+  private spread(members: DuplicateMember[]): number {
+    let widest = 0;
+    members.forEach((a, i) =>
+      members.slice(i + 1).forEach((b) => {
+        widest = Math.max(widest, distanceMeters(a.coordinates, b.coordinates));
+      }),
+    );
+    return Math.round(widest * 100) / 100;
+  }
+
+  private review(author: AuthUser, reason?: string) {
+    return {
+      reviewedBy: { id: author.id, name: author.name },
+      reviewedAt: new Date(),
+      reason,
+    };
+  }
+
+  private async findRun(id: string): Promise<DedupRunDocument> {
+    const run = Types.ObjectId.isValid(id)
+      ? await this.runModel.findById(id).exec()
+      : null;
+    if (!run) {
+      throw new ResourceNotFoundError(`Dedup run ${id} not found`);
+    }
+    return run;
+  }
+
+  private async findGroup(id: string): Promise<DuplicateGroupDocument> {
+    const group = Types.ObjectId.isValid(id)
+      ? await this.groupModel.findById(id).exec()
+      : null;
+    if (!group) {
+      throw new ResourceNotFoundError(`Duplicate group ${id} not found`);
+    }
+    return group;
+  }
+
+  private async findOpenGroup(id: string): Promise<DuplicateGroupDocument> {
+    const group = await this.findGroup(id);
+    if (group.status !== 'open') {
+      throw new ConflictError(
+        `Duplicate group ${id} was already ${group.status}`,
+      );
+    }
+    return group;
+  }
+
+  private toRunResponse(run: DedupRunDocument): DedupRunResponseDto {
+    return {
+      id: String(run._id),
+      status: run.status,
+      dataset: run.dataset,
+      maxDistance: run.maxDistance,
+      minStreetSimilarity: run.minStreetSimilarity,
+      total: run.total,
+      processed: run.processed,
+      groups: run.groups,
+      progress: run.total
+        ? Math.min(1, Math.round((run.processed / run.total) * 1000) / 1000)
+        : 1,
+      ...(run.error ? { error: run.error } : {}),
+      createdAt: run.createdAt as Date,
+      ...(run.startedAt ? { startedAt: run.startedAt } : {}),
+      ...(run.finishedAt ? { finishedAt: run.finishedAt } : {}),
+    };
+  }
+
+  private toGroupResponse(
+    group: DuplicateGroupDocument,
+  ): DuplicateGroupResponseDto {
+    return {
+      id: String(group._id),
+      run: String(group.run),
+      dataset: group.dataset,
+      key: group.key,
+      kind: group.kind,
+      spread: group.spread,
+      status: group.status,
+      members: group.members.map(({ id, properties, coordinates }) => ({
+        id,
+        properties,
+        coordinates,
+      })),
+      ...(group.canonical ? { canonical: group.canonical } : {}),
+      ...(group.reviewedBy ? { reviewedBy: group.reviewedBy } : {}),
+      ...(group.reviewedAt ? { reviewedAt: group.reviewedAt } : {}),
+      ...(group.reason ? { reason: group.reason } : {}),
+    };
+  }
+}
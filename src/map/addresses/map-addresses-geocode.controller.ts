@@ -0,0 +1,158 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  StreamableFile,
+  UploadedFile,
+  UseInterceptors,
+  UseGuards,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiProduces,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from '@nestjs/swagger';
+import { MapAddressesGeocodeService } from './map-addresses-geocode.service';
+import {
+  GeocodeBatchRequestDto,
+  GeocodeJobRequestDto,
+} from './dto/geocode-request.dto';
+import {
+  GeocodeBatchResponseDto,
+  GeocodeJobResponseDto,
+} from './dto/geocode-response.dto';
+import {
+  ApiCommonProblemResponses,
+  ApiProblemResponse,
+} from '../../errors/api-problem-response.decorator';
+import { ApiKeyGuard } from '../../api-keys/guards/api-key.guard';
+import { CurrentApiKey } from '../../api-keys/decorators/current-api-key.decorator';
+import { ApiKeyClient } from '../../api-keys/api-key-client.type';
+
+// Uploads larger than this are rejected with 413 before parsing
+const GEOCODE_UPLOAD_MAX_BYTES = 50 * 1024 * 1024;
+
+@ApiTags('Map')
+@ApiSecurity('api-key')
+@ApiCommonProblemResponses()
+@ApiProblemResponse(401, 'Missing, unknown or revoked API key')
+@ApiProblemResponse(
+  429,
+  'Rate limit or monthly quota exceeded; retry after Retry-After',
+)
+@UseGuards(ApiKeyGuard)
+@Controller({
+  path: 'map/addresses/geocode',
+  version: '1',
+})
+export class MapAddressesGeocodeController {
+  constructor(private readonly geocodeService: MapAddressesGeocodeService) {}
+
+  @ApiOperation({
+    summary: 'Resolve a list of free-text or structured addresses',
+    description:
+      'Counts one request per address against the rate limit and quota of the API key',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Returns the best match, its confidence and the runners-up per address, in request order',
+    type: GeocodeBatchResponseDto,
+  })
+  @Post()
+  @HttpCode(200)
+  async geocodeBatch(
+    @Body() body: GeocodeBatchRequestDto,
+    @CurrentApiKey() client: ApiKeyClient | undefined,
+  ): Promise<GeocodeBatchResponseDto> {
+    return await this.geocodeService.geocodeBatch(body, client);
+  }
+
+  @ApiOperation({
+    summary: 'Start a background job geocoding an uploaded CSV',
+    description:
+      'Counts one request per data row against the rate limit and quota of the API key',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description:
+            'CSV with a header row: a query/address column, or street, number, unit, postcode and city columns; an optional ref column is kept',
+        },
+        alternatives: { type: 'integer', minimum: 0, maximum: 10, default: 3 },
+        dataset: {
+          type: 'string',
+          description:
+            'Dataset key(s) to match against, comma-separated; defaults to MAP_DEFAULT_DATASET',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'The job was queued; poll it for progress',
+    type: GeocodeJobResponseDto,
+  })
+  @ApiProblemResponse(413, 'The upload exceeds 50 MB')
+  @Post('jobs')
+  @HttpCode(202)
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: GEOCODE_UPLOAD_MAX_BYTES } }),
+  )
+  async createJob(
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Body() body: GeocodeJobRequestDto,
+    @CurrentApiKey() client: ApiKeyClient | undefined,
+  ): Promise<GeocodeJobResponseDto> {
+    return await this.geocodeService.createJob(file, body, client);
+  }
+
+  @ApiOperation({ summary: 'Status and progress of a geocoding job' })
+  @ApiResponse({ status: 200, type: GeocodeJobResponseDto })
+  @ApiProblemResponse(404, 'No job with this id for this API key')
+  @Get('jobs/:id')
+  async getJob(
+    @Param('id') id: string,
+    @CurrentApiKey() client: ApiKeyClient | undefined,
+  ): Promise<GeocodeJobResponseDto> {
+    return await this.geocodeService.getJob(id, client);
+  }
+
+  @ApiOperation({ summary: 'Download the result CSV of a completed job' })
+  @ApiProduces('text/csv')
+  @ApiResponse({
+    status: 200,
+    description:
+      'The uploaded rows with match_status, match_confidence, the matched address and alternative_ids appended',
+  })
+  @ApiProblemResponse(404, 'No job with this id for this API key')
+  @ApiProblemResponse(409, 'The job has not completed')
+  @Get('jobs/:id/result')
+  async getJobResult(
+    @Param('id') id: string,
+    @CurrentApiKey() client: ApiKeyClient | undefined,
+  ): Promise<StreamableFile> {
+    const { filename, stream } = await this.geocodeService.getJobResult(
+      id,
+      client,
+    );
+    return new StreamableFile(stream, {
+      type: 'text/csv; charset=utf-8',
+      disposition: `attachment; filename="${filename}"`,
+    });
+  }
+}
@@ -0,0 +1,142 @@
+import { Types } from 'mongoose';
+import { MapAddressesGeocodeService } from './map-addresses-geocode.service';
+import {
+  QuotaExceededError,
+  ResourceNotFoundError,
+} from '../../errors/domain-errors';
+
+const OWNER = { id: '6671b0c2f1a4e3d9c8b7a6a1', name: 'Owner' };
+const OTHER = { id: '6671b0c2f1a4e3d9c8b7a6a2', name: 'Other' };
+
+// Enough of the job and row models for creating and reading jobs
+function setup() {
+  const jobs: Record<string, unknown>[] = [];
+  const matches = (job: Record<string, unknown>, filter: object) =>
+    Object.entries(filter).every(
+      ([field, value]) => String(job[field]) === String(value),
+    );
+  const jobModel = {
+    create: jest.fn((fields: Record<string, unknown>) => {
+      const job = {
+        _id: new Types.ObjectId(),
+        processed: 0,
+        matched: 0,
+        createdAt: new Date(),
+        ...fields,
+      };
+      jobs.push(job);
+      return Promise.resolve(job);
+    }),
+    findOne: jest.fn((filter: object) => ({
+      exec: () =>
+        Promise.resolve(jobs.find((job) => matches(job, filter)) ?? null),
+    })),
+    // The background run finds nothing to claim
+    findOneAndUpdate: jest.fn(() => ({ exec: () => Promise.resolve(null) })),
+  };
+  const rowModel = { insertMany: jest.fn().mockResolvedValue([]) };
+  const datasetsService = { resolve: jest.fn().mockResolvedValue(['nl']) };
+  const apiKeysService = { charge: jest.fn().mockResolvedValue(undefined) };
+  const configService = {
+    getOrThrow: () => ({ batchMaxRows: 10, jobMaxRows: 10 }),
+  };
+
+  const service = new MapAddressesGeocodeService(
+    jobModel as any,
+    rowModel as any,
+    {} as any,
+    datasetsService as any,
+    apiKeysService as any,
+    configService as any,
+  );
+  return { service, jobModel, apiKeysService };
+}
+
+const upload = (csv: string) =>
+  ({
+    buffer: Buffer.from(csv),
+    originalname: 'customers.csv',
+  }) as Express.Multer.File;
+
+describe('MapAddressesGeocodeService', () => {
+  it('should store the API key a job was uploaded with', async () => {
+    const { service, jobModel } = setup();
+
+    await service.createJob(upload('query\nOranjeweg 4'), {}, OWNER);
+
+    expect(jobModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({ apiKey: OWNER.id }),
+    );
+  });
+
+  it('should return a job to the key that uploaded it', async () => {
+    const { service } = setup();
+    const { id } = await service.createJob(
+      upload('query\nOranjeweg 4'),
+      {},
+      OWNER,
+    );
+
+    await expect(service.getJob(id, OWNER)).resolves.toMatchObject({
+      id,
+      status: 'queued',
+      total: 1,
+    });
+  });
+
+  it('should not find a job or its result for another key', async () => {
+    const { service } = setup();
+    const { id } = await service.createJob(
+      upload('query\nOranjeweg 4'),
+      {},
+      OWNER,
+    );
+
+    await expect(service.getJob(id, OTHER)).rejects.toBeInstanceOf(
+      ResourceNotFoundError,
+    );
+    await expect(service.getJobResult(id, OTHER)).rejects.toThrow(
+      `Geocoding job ${id} not found`,
+    );
+  });
+
+  it('should charge the API key one unit per data row', async () => {
+    const { service, jobModel, apiKeysService } = setup();
+
+    await service.createJob(
+      upload('query\nOranjeweg 4\nStationsweg 1\nMarkt 2'),
+      {},
+      OWNER,
+    );
+
+    // The guard took the first unit
+    expect(apiKeysService.charge).toHaveBeenCalledWith(OWNER, 2);
+    expect(jobModel.create).toHaveBeenCalled();
+  });
+
+  it('should charge a batch one unit per address', async () => {
+    const { service, apiKeysService } = setup();
+
+    await service.geocodeBatch({ addresses: [{}, {}, {}, {}] }, OWNER);
+
+    expect(apiKeysService.charge).toHaveBeenCalledWith(OWNER, 3);
+  });
+
+  it('should not queue a job the API key cannot pay for', async () => {
+    const { service, jobModel, apiKeysService } = setup();
+    apiKeysService.charge.mockRejectedValue(new QuotaExceededError(60));
+
+    await expect(
+      service.createJob(upload('query\nOranjeweg 4\nMarkt 2'), {}, OWNER),
+    ).rejects.toBeInstanceOf(QuotaExceededError);
+    expect(jobModel.create).not.toHaveBeenCalled();
+  });
+
+  it('should charge nothing when API keys are disabled', async () => {
+    const { service, apiKeysService } = setup();
+
+    await service.createJob(upload('query\nOranjeweg 4\nMarkt 2'), {});
+
+    expect(apiKeysService.charge).not.toHaveBeenCalled();
+  });
+});
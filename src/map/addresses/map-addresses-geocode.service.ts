@@ -0,0 +1,418 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { AnyBulkWriteOperation, Model, Types } from 'mongoose';
+import { Readable } from 'stream';
+import { MapAddressesService } from './map-addresses.service';
+import { MapDatasetsService } from '../datasets/map-datasets.service';
+import { GeocodeJob, GeocodeJobDocument } from './schemas/geocode-job.schema';
+import {
+  GeocodeJobRow,
+  GeocodeJobRowDocument,
+} from './schemas/geocode-job-row.schema';
+import {
+  GeocodeBatchRequestDto,
+  GeocodeJobRequestDto,
+} from './dto/geocode-request.dto';
+import {
+  GeocodeBatchResponseDto,
+  GeocodeJobResponseDto,
+} from './dto/geocode-response.dto';
+import { MapAddressesFilterDto } from './dto/map-addresses-filter.dto';
+import { SearchQueryDto } from './dto/search-query.dto';
+import {
+  DEFAULT_ALTERNATIVES,
+  GEOCODE_RESULT_COLUMNS,
+  GeocodeCandidate,
+  GeocodeInput,
+  GeocodeResult,
+  mapInputColumns,
+  rowToInput,
+  summarizeMatches,
+  toQueryText,
+  toResultCells,
+} from './geocoding/batch-geocoding';
+import { parseCsv } from './geocoding/csv-parser';
+import { csvCell } from './export/export-formats';
+import { ApiKeysService } from '../../api-keys/api-keys.service';
+import { ApiKeyClient } from '../../api-keys/api-key-client.type';
+import { AllConfigType } from '../../config/config.type';
+import {
+  ConflictError,
+  InvalidInputError,
+  ResourceNotFoundError,
+} from '../../errors/domain-errors';
+import { toServiceError } from '../../errors/service-errors';
+
+// Rows geocoded between two progress updates
+const JOB_CHUNK_SIZE = 100;
+const JOB_INSERT_BATCH = 1000;
+
+// A running job without a heartbeat for this long is considered abandoned
+const JOB_STALE_MS = 5 * 60 * 1000;
+
+@Injectable()
+export class MapAddressesGeocodeService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(MapAddressesGeocodeService.name);
+
+  // Jobs run one after another so a large upload cannot starve searches
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    @InjectModel(GeocodeJob.name)
+    private jobModel: Model<GeocodeJobDocument>,
+    @InjectModel(GeocodeJobRow.name)
+    private rowModel: Model<GeocodeJobRowDocument>,
+    private mapAddressesService: MapAddressesService,
+    private datasetsService: MapDatasetsService,
+    private apiKeysService: ApiKeysService,
+    private configService: ConfigService<AllConfigType>,
+  ) {}
+
+  // Pick up jobs left queued or abandoned by a previous process
+  async onApplicationBootstrap(): Promise<void> {
+    const pending = await this.jobModel
+      .find(this.claimableFilter())
+      .sort({ createdAt: 1 })
+      .select('_id')
+      .lean<{ _id: Types.ObjectId }[]>()
+      .exec();
+    pending.forEach((job) => this.enqueue(job._id));
+  }
+
+  async geocodeBatch(
+    body: GeocodeBatchRequestDto,
+    client?: ApiKeyClient,
+  ): Promise<GeocodeBatchResponseDto> {
+    try {
+      const { batchMaxRows } = this.configService.getOrThrow('geocoding', {
+        infer: true,
+      });
+      if (body.addresses.length > batchMaxRows) {
+        throw new InvalidInputError(
+          `At most ${batchMaxRows} addresses per request; upload a CSV job for more`,
+        );
+      }
+      await this.chargeRows(client, body.addresses.length);
+
+      const alternatives = body.alternatives ?? DEFAULT_ALTERNATIVES;
+      const results: GeocodeBatchResponseDto['results'] = [];
+      for (const [index, input] of body.addresses.entries()) {
+        const result = await this.geocode(input, alternatives, body.filters);
+        results.push({
+          index,
+          ...(input.ref ? { ref: input.ref } : {}),
+          ...result,
+        });
+      }
+
+      return { results };
+    } catch (error) {
+      throw toServiceError(error, 'Failed to geocode addresses');
+    }
+  }
+
+  async createJob(
+    file: Express.Multer.File | undefined,
+    options: GeocodeJobRequestDto,
+    client?: ApiKeyClient,
+  ): Promise<GeocodeJobResponseDto> {
+    try {
+      if (!file?.buffer?.length) {
+        throw new InvalidInputError(
+          'Upload a CSV file in the "file" form field',
+        );
+      }
+
+      const [header = [], ...records] = parseCsv(file.buffer.toString('utf8'));
+      const columns = mapInputColumns(header);
+      if (
+        (['query', 'street', 'postcode', 'city'] as const).every(
+          (field) => columns[field] === undefined,
+        )
+      ) {
+        throw new InvalidInputError(
+          'The CSV header needs a query or address column, or street, number, postcode and city columns',
+        );
+      }
+      if (!records.length) {
+        throw new InvalidInputError('The CSV has no data rows');
+      }
+
+      const { jobMaxRows } = this.configService.getOrThrow('geocoding', {
+        infer: true,
+      });
+      if (records.length > jobMaxRows) {
+        throw new InvalidInputError(
+          `At most ${jobMaxRows} rows per job, the file has ${records.length}`,
+        );
+      }
+
+      const datasets = await this.datasetsService.resolve(options.dataset);
+      await this.chargeRows(client, records.length);
+
+      const job = await this.jobModel.create({
+        status: 'queued',
+        apiKey: client?.id,
+        filename: file.originalname ?? '',
+        columns: header,
+        alternatives: options.alternatives ?? DEFAULT_ALTERNATIVES,
+        datasets,
+        total: records.length,
+      });
+
+      try {
+        for (let from = 0; from < records.length; from += JOB_INSERT_BATCH) {
+          await this.rowModel.insertMany(
+            records
+              .slice(from, from + JOB_INSERT_BATCH)
+              .map((cells, i) => ({ job: job._id, index: from + i, cells })),
+            { ordered: false },
+          );
+        }
+      } catch (error) {
+        await this.rowModel.deleteMany({ job: job._id }).exec();
+        await this.jobModel.deleteOne({ _id: job._id }).exec();
+        throw error;
+      }
+
+      this.enqueue(job._id as Types.ObjectId);
+      return this.toJobResponse(job);
+    } catch (error) {
+      throw toServiceError(error, 'Failed to create geocoding job');
+    }
+  }
+
+  async getJob(
+    id: string,
+    client?: ApiKeyClient,
+  ): Promise<GeocodeJobResponseDto> {
+    try {
+      return this.toJobResponse(await this.findJob(id, client));
+    } catch (error) {
+      throw toServiceError(error, 'Failed to fetch geocoding job');
+    }
+  }
+
+  /**
+   * The uploaded CSV with the match columns appended, rows in their
+   * original order. Only available once the job has completed.
+   */
+  async getJobResult(
+    id: string,
+    client?: ApiKeyClient,
+  ): Promise<{ filename: string; stream: Readable }> {
+    try {
+      const job = await this.findJob(id, client);
+      if (job.status !== 'completed') {
+        throw new ConflictError(
+          `Geocoding job ${id} is ${job.status}; the result is available once it has completed`,
+        );
+      }
+
+      const width = job.columns.length;
+      const rows = this.rowModel
+        .find({ job: job._id })
+        .sort({ index: 1 })
+        .select('cells result')
+        .lean()
+        .cursor();
+
+      async function* encode() {
+        yield `${[...job.columns, ...GEOCODE_RESULT_COLUMNS].map(csvCell).join(',')}\r\n`;
+        for await (const row of rows) {
+          const cells = Array.from({ length: width }, (_, i) => row.cells[i]);
+          yield `${[...cells, ...toResultCells(row.result)].map(csvCell).join(',')}\r\n`;
+        }
+      }
+
+      const stream = Readable.from(encode(), { objectMode: false });
+      stream.on('close', () => void rows.close());
+
+      const base = job.filename.replace(/\.[^.]*$/, '') || 'addresses';
+      return {
+        filename: `${base.replace(/[^\w.-]+/g, '_')}-geocoded.csv`,
+        stream,
+      };
+    } catch (error) {
+      throw toServiceError(error, 'Failed to fetch geocoding result');
+    }
+  }
+
+  // The API key pays one unit per row; ApiKeyGuard took the first when it
+  // admitted the request
+  private async chargeRows(
+    client: ApiKeyClient | undefined,
+    rows: number,
+  ): Promise<void> {
+    if (client) {
+      await this.apiKeysService.charge(client, rows - 1);
+    }
+  }
+
+  // Same parsing, matching and scoring as GET /map/addresses
+  private async geocode(
+    input: GeocodeInput,
+    alternatives: number,
+    filters?: MapAddressesFilterDto,
+  ): Promise<GeocodeResult> {
+    const query = toQueryText(input);
+    const { features } = query
+      ? await this.mapAddressesService.getAddresses(
+          { ...filters, searchQuery: query } as SearchQueryDto,
+          alternatives + 1,
+        )
+      : { features: [] };
+
+    // Keep only the feature itself; search responses carry extra keys
+    const ranked = (features as unknown as GeocodeCandidate[]).map(
+      ({ _id, dataset, type, geometry, properties, score }) => ({
+        _id: String(_id),
+        dataset,
+        type,
+        geometry,
+        properties,
+        score,
+      }),
+    );
+
+    return summarizeMatches(query, ranked, alternatives);
+  }
+
+  private enqueue(id: Types.ObjectId): void {
+    this.queue = this.queue
+      .then(() => this.runJob(id))
+      .catch((error) =>
+        this.logger.error(`Geocoding job ${String(id)}: ${error.message}`),
+      );
+  }
+
+  private claimableFilter() {
+    return {
+      $or: [
+        { status: 'queued' },
+        {
+          status: 'running',
+          heartbeatAt: { $lt: new Date(Date.now() - JOB_STALE_MS) },
+        },
+      ],
+    };
+  }
+
+  // Resumable: only rows without a result are processed, so a job taken
+  // over after a restart continues where it stopped
+  private async runJob(id: Types.ObjectId): Promise<void> {
+    const job = await this.jobModel
+      .findOneAndUpdate(
+        { _id: id, ...this.claimableFilter() },
+        [
+          {
+            $set: {
+              status: 'running',
+              heartbeatAt: '$$NOW',
+              startedAt: { $ifNull: ['$startedAt', '$$NOW'] },
+            },
+          },
+        ],
+        { new: true },
+      )
+      .exec();
+    if (!job) {
+      return;
+    }
+
+    try {
+      const columns = mapInputColumns(job.columns);
+      const [processed, matched] = await Promise.all([
+        this.rowModel.countDocuments({ job: id, result: { $exists: true } }),
+        this.rowModel.countDocuments({ job: id, 'result.status': 'matched' }),
+      ]);
+      await this.jobModel.updateOne({ _id: id }, { processed, matched }).exec();
+
+      for (;;) {
+        const rows = await this.rowModel
+          .find({ job: id, result: { $exists: false } })
+          .sort({ index: 1 })
+          .limit(JOB_CHUNK_SIZE)
+          .select('_id cells')
+          .lean<{ _id: Types.ObjectId; cells: string[] }[]>()
+          .exec();
+        if (!rows.length) {
+          break;
+        }
+
+        const updates: AnyBulkWriteOperation<GeocodeJobRowDocument>[] = [];
+        let chunkMatched = 0;
+        for (const row of rows) {
+          const result = await this.geocode(
+            rowToInput(columns, row.cells),
+            job.alternatives,
+            job.datasets?.length ? { dataset: job.datasets } : undefined,
+          );
+          chunkMatched += result.status === 'matched' ? 1 : 0;
+          updates.push({
+            updateOne: { filter: { _id: row._id }, update: { result } },
+          });
+        }
+
+        await this.rowModel.bulkWrite(updates, { ordered: false });
+        await this.jobModel
+          .updateOne(
+            { _id: id },
+            {
+              $inc: { processed: rows.length, matched: chunkMatched },
+              $set: { heartbeatAt: new Date() },
+            },
+          )
+          .exec();
+      }
+
+      await this.jobModel
+        .updateOne({ _id: id }, { status: 'completed', finishedAt: new Date() })
+        .exec();
+    } catch (error) {
+      await this.jobModel
+        .updateOne(
+          { _id: id },
+          { status: 'failed', error: error.message, finishedAt: new Date() },
+        )
+        .exec();
+      throw error;
+    }
+  }
+
+  // A job of another API key is reported as missing, not as forbidden, so
+  // its id does not reveal that it exists
+  private async findJob(
+    id: string,
+    client?: ApiKeyClient,
+  ): Promise<GeocodeJobDocument> {
+    const job = Types.ObjectId.isValid(id)
+      ? await this.jobModel
+          .findOne({ _id: id, ...(client ? { apiKey: client.id } : {}) })
+          .exec()
+      : null;
+    if (!job) {
+      throw new ResourceNotFoundError(`Geocoding job ${id} not found`);
+    }
+    return job;
+  }
+
+  private toJobResponse(job: GeocodeJobDocument): GeocodeJobResponseDto {
+    return {
+      id: String(job._id),
+      status: job.status,
+      filename: job.filename,
+      total: job.total,
+      processed: job.processed,
+      matched: job.matched,
+      progress: job.total
+        ? Math.round((job.processed / job.total) * 1000) / 1000
+        : 1,
+      ...(job.error ? { error: job.error } : {}),
+      createdAt: job.createdAt as Date,
+      ...(job.startedAt ? { startedAt: job.startedAt } : {}),
+      ...(job.finishedAt ? { finishedAt: job.finishedAt } : {}),
+    };
+  }
+}
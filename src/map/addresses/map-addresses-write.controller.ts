@@ -0,0 +1,123 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { MapAddressesWriteService } from './map-addresses-write.service';
+import { CreateMapAddressDto } from './dto/create-map-address.dto';
+import { UpdateMapAddressDto } from './dto/update-map-address.dto';
+import { AddressFeatureDto } from './dto/map-address-response.dto';
+import { AddressAuditResponseDto } from './dto/address-audit-response.dto';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { AuthUser } from '../../auth/auth-user.type';
+import {
+  ApiCommonProblemResponses,
+  ApiProblemResponse,
+} from '../../errors/api-problem-response.decorator';
+
+// Address ids are unique per dataset
+const DATASET_QUERY = {
+  name: 'dataset',
+  required: false,
+  description: 'Dataset of the address; defaults to MAP_DEFAULT_DATASET',
+};
+
+@ApiTags('Map')
+@ApiBearerAuth()
+@ApiCommonProblemResponses()
+@ApiProblemResponse(401, 'Missing or invalid bearer token')
+@UseGuards(AuthGuard('jwt'))
+@Controller({
+  path: 'map/addresses',
+  version: '1',
+})
+export class MapAddressesWriteController {
+  constructor(private readonly writeService: MapAddressesWriteService) {}
+
+  @ApiOperation({ summary: 'Create an address' })
+  @ApiResponse({
+    status: 201,
+    description: 'Returns the stored address with its computed hash',
+    type: AddressFeatureDto,
+  })
+  @ApiProblemResponse(409, 'The id is taken or an identical address exists')
+  @Post()
+  async create(
+    @Body() body: CreateMapAddressDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<AddressFeatureDto> {
+    return await this.writeService.create(body, user);
+  }
+
+  @ApiOperation({ summary: 'Change properties or the location of an address' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the updated address with its recomputed hash',
+    type: AddressFeatureDto,
+  })
+  @ApiQuery(DATASET_QUERY)
+  @ApiProblemResponse(404, 'No address with this id')
+  @ApiProblemResponse(409, 'The change clashes with another address')
+  @ApiProblemResponse(410, 'The address is retired')
+  @Patch(':id')
+  async update(
+    @Param('id') id: string,
+    @Body() body: UpdateMapAddressDto,
+    @CurrentUser() user: AuthUser,
+    @Query('dataset') dataset?: string,
+  ): Promise<AddressFeatureDto> {
+    return await this.writeService.update(id, body, user, dataset);
+  }
+
+  @ApiOperation({
+    summary: 'Retire an address; it stays in the history but stops matching',
+  })
+  @ApiQuery({ name: 'reason', required: false })
+  @ApiQuery(DATASET_QUERY)
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the retired address',
+    type: AddressFeatureDto,
+  })
+  @ApiProblemResponse(404, 'No address with this id')
+  @ApiProblemResponse(410, 'The address is already retired')
+  @Delete(':id')
+  async retire(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Query('reason') reason?: string,
+    @Query('dataset') dataset?: string,
+  ): Promise<AddressFeatureDto> {
+    return await this.writeService.retire(id, user, reason, dataset);
+  }
+
+  @ApiOperation({ summary: 'Change history of an address, newest first' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns before/after snapshots with author and timestamp',
+    type: AddressAuditResponseDto,
+  })
+  @ApiQuery(DATASET_QUERY)
+  @ApiProblemResponse(404, 'No address with this id')
+  @Get(':id/history')
+  async history(
+    @Param('id') id: string,
+    @Query('dataset') dataset?: string,
+  ): Promise<AddressAuditResponseDto> {
+    return await this.writeService.history(id, dataset);
+  }
+}
@@ -0,0 +1,357 @@
+import { Injectable } from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { ClientSession, Connection, Model, Types } from 'mongoose';
+import { MapAddress, MapAddressDocument } from './schemas/map-address.schema';
+import {
+  MapAddressAudit,
+  MapAddressAuditAction,
+  MapAddressAuditDocument,
+  MapAddressSnapshot,
+} from './schemas/map-address-audit.schema';
+import { CreateMapAddressDto } from './dto/create-map-address.dto';
+import { UpdateMapAddressDto } from './dto/update-map-address.dto';
+import { AddressFeatureDto } from './dto/map-address-response.dto';
+import { AddressAuditResponseDto } from './dto/address-audit-response.dto';
+import { computeAddressHash } from './address-hash';
+import { MapAddressesCacheService } from './map-addresses-cache.service';
+import { MapDatasetsService } from '../datasets/map-datasets.service';
+import { AuthUser } from '../../auth/auth-user.type';
+import {
+  ConflictError,
+  GoneError,
+  InvalidInputError,
+  ResourceNotFoundError,
+} from '../../errors/domain-errors';
+import { toServiceError } from '../../errors/service-errors';
+
+const EDITABLE_PROPERTIES = [
+  'id',
+  'number',
+  'street',
+  'unit',
+  'city',
+  'district',
+  'region',
+  'postcode',
+] as const;
+
+// Most recent history entries returned for one address
+const HISTORY_LIMIT = 500;
+
+@Injectable()
+export class MapAddressesWriteService {
+  constructor(
+    @InjectModel(MapAddress.name)
+    private mapAddressModel: Model<MapAddressDocument>,
+    @InjectModel(MapAddressAudit.name)
+    private auditModel: Model<MapAddressAuditDocument>,
+    private cacheService: MapAddressesCacheService,
+    private datasetsService: MapDatasetsService,
+    @InjectConnection() private connection: Connection,
+  ) {}
+
+  async create(
+    body: CreateMapAddressDto,
+    author: AuthUser,
+  ): Promise<AddressFeatureDto> {
+    try {
+      const dataset = await this.datasetsService.resolveOne(body.dataset);
+      const coordinates = this.toCoordinates(body.geometry?.coordinates);
+      const properties = {} as MapAddress['properties'];
+      for (const field of EDITABLE_PROPERTIES) {
+        properties[field] = body.properties?.[field]?.trim() ?? '';
+      }
+      properties.id ||= new Types.ObjectId().toHexString();
+      properties.hash = computeAddressHash(properties, coordinates);
+
+      const doc = new this.mapAddressModel({
+        dataset,
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates },
+        properties,
+      });
+      await this.transaction(async (session) => {
+        await this.save(doc, session);
+        await this.record('create', doc, null, author, body.reason, session);
+        await this.datasetsService.adjustCount(dataset, 1, session);
+      });
+
+      return this.toFeature(doc);
+    } catch (error) {
+      throw toServiceError(error, 'Failed to create address');
+    }
+  }
+
+  async update(
+    id: string,
+    body: UpdateMapAddressDto,
+    author: AuthUser,
+    dataset?: string,
+  ): Promise<AddressFeatureDto> {
+    try {
+      const doc = await this.findActive(id, dataset);
+      const before = this.snapshot(doc);
+
+      const properties = { ...before.properties } as MapAddress['properties'];
+      for (const field of EDITABLE_PROPERTIES) {
+        const value = body.properties?.[field];
+        if (value !== undefined) {
+          properties[field] = value.trim();
+        }
+      }
+      if (!properties.id || !properties.street || !properties.number) {
+        throw new InvalidInputError('id, street and number cannot be empty');
+      }
+
+      const coordinates = body.geometry
+        ? this.toCoordinates(body.geometry.coordinates)
+        : doc.geometry.coordinates;
+      properties.hash = computeAddressHash(properties, coordinates);
+
+      doc.set('properties', properties);
+      doc.set('geometry', { type: 'Point', coordinates });
+
+      // Nothing to save or record for a no-op patch
+      if (!doc.isModified()) {
+        return this.toFeature(doc);
+      }
+
+      await this.transaction(async (session) => {
+        await this.save(doc, session);
+        await this.record('update', doc, before, author, body.reason, session);
+      });
+
+      return this.toFeature(doc);
+    } catch (error) {
+      throw toServiceError(error, 'Failed to update address');
+    }
+  }
+
+  // Soft delete: the document stays for history but stops matching queries
+  async retire(
+    id: string,
+    author: AuthUser,
+    reason?: string,
+    dataset?: string,
+  ): Promise<AddressFeatureDto> {
+    try {
+      const doc = await this.findActive(id, dataset);
+      const before = this.snapshot(doc);
+
+      doc.retiredAt = new Date();
+      doc.retiredBy = author.id;
+      await this.transaction(async (session) => {
+        await this.save(doc, session);
+        await this.record('retire', doc, before, author, reason, session);
+        await this.datasetsService.adjustCount(doc.dataset, -1, session);
+      });
+
+      return this.toFeature(doc);
+    } catch (error) {
+      throw toServiceError(error, 'Failed to retire address');
+    }
+  }
+
+  /**
+   * Keeps `canonical` and retires the duplicates as merged into it. Each
+   * retired record points at the canonical id, so lookups of its own id
+   * are redirected there.
+   */
+  async merge(
+    canonical: MapAddressDocument,
+    duplicates: MapAddressDocument[],
+    author: AuthUser,
+    reason?: string,
+  ): Promise<void> {
+    try {
+      await this.transaction(async (session) => {
+        for (const doc of duplicates) {
+          const before = this.snapshot(doc);
+          doc.retiredAt = new Date();
+          doc.retiredBy = author.id;
+          doc.mergedInto = canonical.properties.id;
+          await this.save(doc, session);
+          await this.record('merge', doc, before, author, reason, session);
+        }
+        // Records merged into a duplicate earlier now redirect in one hop
+        await this.mapAddressModel
+          .updateMany(
+            {
+              dataset: canonical.dataset,
+              mergedInto: { $in: duplicates.map((doc) => doc.properties.id) },
+            },
+            { $set: { mergedInto: canonical.properties.id } },
+          )
+          .session(session)
+          .exec();
+        await this.datasetsService.adjustCount(
+          canonical.dataset,
+          -duplicates.length,
+          session,
+        );
+      });
+    } catch (error) {
+      throw toServiceError(error, 'Failed to merge addresses');
+    }
+  }
+
+  async history(
+    id: string,
+    dataset?: string,
+  ): Promise<AddressAuditResponseDto> {
+    try {
+      // Follow the document, not the id, so history survives id changes
+      const doc = await this.mapAddressModel
+        .findOne({
+          dataset: await this.datasetsService.resolveOne(dataset),
+          'properties.id': id,
+        })
+        .select('_id')
+        .lean()
+        .exec();
+      if (!doc) {
+        throw new ResourceNotFoundError(`Address ${id} not found`);
+      }
+
+      const entries = await this.auditModel
+        .find({ address: doc._id })
+        .sort({ at: -1, _id: -1 })
+        .limit(HISTORY_LIMIT)
+        .select('-_id -address')
+        .lean()
+        .exec();
+
+      return {
+        entries: entries.map(({ diff, ...entry }) => ({
+          ...entry,
+          ...(diff ? { diff: String(diff) } : {}),
+        })),
+      };
+    } catch (error) {
+      throw toServiceError(error, 'Failed to fetch address history');
+    }
+  }
+
+  private async findActive(
+    id: string,
+    dataset?: string,
+  ): Promise<MapAddressDocument> {
+    const doc = await this.mapAddressModel
+      .findOne({
+        dataset: await this.datasetsService.resolveOne(dataset),
+        'properties.id': id,
+      })
+      .exec();
+    if (!doc) {
+      throw new ResourceNotFoundError(`Address ${id} not found`);
+    }
+    if (doc.retiredAt) {
+      throw new GoneError(
+        doc.mergedInto
+          ? `Address ${id} was merged into ${doc.mergedInto}`
+          : `Address ${id} was retired`,
+      );
+    }
+    return doc;
+  }
+
+  /**
+   * Runs `work` in one transaction, so an address change, its audit entry
+   * and the dataset count are stored together or not at all; a failed
+   * step leaves no half-written change behind. Cached results are dropped
+   * once it committed.
+   */
+  private async transaction(
+    work: (session: ClientSession) => Promise<void>,
+  ): Promise<void> {
+    await this.connection.transaction(work);
+    // Cached query results no longer reflect the data
+    await this.cacheService.invalidate();
+  }
+
+  // Duplicate keys on the per-dataset properties.id / properties.hash
+  // indexes become 409s naming the clashing field
+  private async save(
+    doc: MapAddressDocument,
+    session: ClientSession,
+  ): Promise<void> {
+    try {
+      await doc.save({ session });
+    } catch (error) {
+      if (error?.code === 11000) {
+        throw new ConflictError(
+          'properties.hash' in (error.keyPattern ?? {})
+            ? `An identical address already exists at this location in dataset ${doc.dataset}`
+            : `An address with id ${doc.properties.id} already exists in dataset ${doc.dataset}`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  private async record(
+    action: MapAddressAuditAction,
+    doc: MapAddressDocument,
+    before: MapAddressSnapshot | null,
+    author: AuthUser,
+    reason: string | undefined,
+    session: ClientSession,
+  ): Promise<void> {
+    await this.auditModel.create(
+      [
+        {
+          address: doc._id,
+          addressId: doc.properties.id,
+          action,
+          before,
+          after: this.snapshot(doc),
+          author: { id: author.id, name: author.name },
+          reason,
+          at: new Date(),
+        },
+      ],
+      { session },
+    );
+  }
+
+  private snapshot(doc: MapAddressDocument): MapAddressSnapshot {
+    const { type, geometry, properties, retiredAt, mergedInto } =
+      doc.toObject();
+    return {
+      type,
+      geometry: { type: 'Point', coordinates: [...geometry.coordinates] } as {
+        type: 'Point';
+        coordinates: [number, number];
+      },
+      properties: { ...properties },
+      ...(retiredAt ? { retiredAt } : {}),
+      ...(mergedInto ? { mergedInto } : {}),
+    };
+  }
+
+  private toFeature(doc: MapAddressDocument): AddressFeatureDto {
+    const { _id, dataset, type, geometry, properties } = doc.toObject();
+    return {
+      _id: _id.toString(),
+      dataset,
+      type,
+      geometry,
+      properties,
+    } as AddressFeatureDto;
+  }
+
+  private toCoordinates(value: unknown): [number, number] {
+    const [lon, lat] = Array.isArray(value) ? value.map(Number) : [];
+    if (
+      !Number.isFinite(lon) ||
+      !Number.isFinite(lat) ||
+      Math.abs(lon) > 180 ||
+      Math.abs(lat) > 90
+    ) {
+      throw new InvalidInputError(
+        'geometry.coordinates must be [longitude, latitude] within -180..180 / -90..90',
+      );
+    }
+    return [lon, lat];
+  }
+}
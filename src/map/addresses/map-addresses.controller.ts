@@ -1,12 +1,70 @@
-import { Controller, Get, Post, Query, Body } from '@nestjs/common';
-import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import {
+  Controller,
+  Get,
+  Post,
+  Query,
+  Body,
+  Param,
+  Headers,
+  HttpCode,
+  ParseIntPipe,
+  Req,
+  Res,
+  StreamableFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiProduces,
+  ApiQuery,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Request, Response } from 'express';
 import { MapAddressesService } from './map-addresses.service';
 import { SearchQueryDto } from './dto/search-query.dto';
 import { MapAddressResponseDto } from './dto/map-address-response.dto';
-import { WithinRegionRequestDto } from './dto/spatial-query.dto';
-import { MapAddressBatchResponseDto } from './dto/map-address-response.dto';
+import {
+  CorridorRequestDto,
+  NearPointRequestDto,
+  WithinRegionRequestDto,
+} from './dto/spatial-query.dto';
+import {
+  AddressCountResponseDto,
+  MapAddressBatchResponseDto,
+} from './dto/map-address-response.dto';
+import { ReverseGeocodeQueryDto } from './dto/reverse-geocode-query.dto';
+import { VerifyAddressQueryDto } from './dto/verify-address-query.dto';
+import { VerifyAddressResponseDto } from './dto/verify-address-response.dto';
+import { AutocompleteQueryDto } from './dto/autocomplete-query.dto';
+import { AutocompleteResponseDto } from './dto/autocomplete-response.dto';
+import { ViewportQueryDto } from './dto/viewport-query.dto';
+import { ViewportResponseDto } from './dto/viewport-response.dto';
+import { TileQueryDto } from './dto/tile-query.dto';
+import { DatasetSelectionDto } from './dto/dataset-selection.dto';
+import { TileJsonResponseDto } from './dto/tilejson-response.dto';
+import { AddressFeatureDto } from './dto/map-address-response.dto';
+import { ExportRequestDto } from './dto/export-request.dto';
+import { AddressCountRequestDto } from './dto/count-request.dto';
+import { EXPORT_FORMATS } from './export/export-formats';
+import {
+  ApiCommonProblemResponses,
+  ApiProblemResponse,
+} from '../../errors/api-problem-response.decorator';
+import { ApiKeyGuard } from '../../api-keys/guards/api-key.guard';
+import { ResultCacheInterceptor } from './cache/result-cache.interceptor';
 
 @ApiTags('Map')
+@ApiSecurity('api-key')
+@ApiCommonProblemResponses()
+@ApiProblemResponse(401, 'Missing, unknown or revoked API key')
+@ApiProblemResponse(
+  429,
+  'Rate limit or monthly quota exceeded; retry after Retry-After',
+)
+@UseGuards(ApiKeyGuard)
 @Controller({
   path: 'map/addresses',
   version: '1',
@@ -20,16 +78,155 @@ export class MapAddressesController {
     description: 'Returns filtered map addresses',
     type: MapAddressResponseDto,
   })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Most addresses to return, 1-1000 (default 100)',
+  })
+  @ApiProblemResponse(
+    503,
+    'Database unavailable, or the mid-word fallback search timed out (search-timeout); retry after Retry-After',
+  )
+  @UseInterceptors(ResultCacheInterceptor)
   @Get()
   async getAddresses(
     @Query() searchQuery: SearchQueryDto,
-    @Query('limit') limit?: number,
+    @Query('limit', new ParseIntPipe({ optional: true })) limit?: number,
+  ): Promise<MapAddressResponseDto> {
+    return await this.mapAddressesService.getAddresses(searchQuery, limit);
+  }
+
+  @ApiOperation({
+    summary: 'Typeahead suggestions for partially typed addresses',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Returns compact suggestions; addresses on one street are grouped with a house-number count',
+    type: AutocompleteResponseDto,
+  })
+  @UseInterceptors(ResultCacheInterceptor)
+  @Get('autocomplete')
+  async autocomplete(
+    @Query() query: AutocompleteQueryDto,
+  ): Promise<AutocompleteResponseDto> {
+    return await this.mapAddressesService.autocomplete(query);
+  }
+
+  @ApiOperation({
+    summary: 'Check whether a typed address exists, with corrections',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Returns exact, corrected (with the differing fields), ambiguous (with candidates) or not_found, and whether the postcode occurs in the city',
+    type: VerifyAddressResponseDto,
+  })
+  @UseInterceptors(ResultCacheInterceptor)
+  @Get('verify')
+  async verifyAddress(
+    @Query() query: VerifyAddressQueryDto,
+  ): Promise<VerifyAddressResponseDto> {
+    return await this.mapAddressesService.verifyAddress(query);
+  }
+
+  @ApiOperation({
+    summary: 'Reverse geocode: nearest addresses to a coordinate',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Returns the nearest addresses ordered by distance, each with distance in meters and bearing in degrees',
+    type: MapAddressResponseDto,
+  })
+  @UseInterceptors(ResultCacheInterceptor)
+  @Get('reverse')
+  async reverseGeocode(
+    @Query() query: ReverseGeocodeQueryDto,
   ): Promise<MapAddressResponseDto> {
-    const numericLimit = limit !== undefined ? Number(limit) : undefined;
-    return await this.mapAddressesService.getAddresses(
-      searchQuery,
-      numericLimit,
+    return await this.mapAddressesService.reverseGeocode(query);
+  }
+
+  @ApiOperation({
+    summary: 'Addresses in a map viewport, clustered by zoom level',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Returns grid clusters with point count, centroid and expansion bbox at low zoom, individual addresses at high zoom or when they fit the point budget',
+    type: ViewportResponseDto,
+  })
+  @UseInterceptors(ResultCacheInterceptor)
+  @Get('viewport')
+  async getViewport(
+    @Query() query: ViewportQueryDto,
+  ): Promise<ViewportResponseDto> {
+    return await this.mapAddressesService.getViewport(query);
+  }
+
+  @ApiOperation({
+    summary: 'TileJSON for the addresses vector tile source',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the tile URL template, zoom range and layer fields',
+    type: TileJsonResponseDto,
+  })
+  @Get('tiles.json')
+  getTileJson(
+    @Req() req: Request,
+    @Query() query: DatasetSelectionDto,
+  ): TileJsonResponseDto {
+    const base = `${req.protocol}://${req.get('host')}${req.baseUrl}${req.path}`;
+    // Tiles of the same datasets the TileJSON was asked for
+    const search = query.dataset?.length
+      ? `?dataset=${encodeURIComponent(query.dataset.join(','))}`
+      : '';
+    return this.mapAddressesService.getTileJson(
+      `${base.replace(/tiles\.json$/, 'tiles/{z}/{x}/{y}.pbf')}${search}`,
+    );
+  }
+
+  @ApiOperation({
+    summary: 'Mapbox Vector Tile of the addresses layer',
+  })
+  @ApiProduces('application/vnd.mapbox-vector-tile')
+  @ApiResponse({
+    status: 200,
+    description:
+      'Returns an MVT with one "addresses" point layer; empty body when the tile has no addresses',
+  })
+  @ApiResponse({
+    status: 304,
+    description: 'The tile data has not changed since the given ETag',
+  })
+  @ApiProblemResponse(404, 'The zoom is outside the served range')
+  @Get('tiles/:z/:x/:y.pbf')
+  async getTile(
+    @Param('z') z: string,
+    @Param('x') x: string,
+    @Param('y') y: string,
+    @Query() query: TileQueryDto,
+    @Headers('if-none-match') ifNoneMatch: string | undefined,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StreamableFile | undefined> {
+    const { etag, tile } = await this.mapAddressesService.getTile(
+      { z, x, y },
+      query,
+      ifNoneMatch,
     );
+
+    // Clients revalidate every time; the ETag keeps that cheap
+    res.setHeader('ETag', etag);
+    res.setHeader('Cache-Control', 'no-cache');
+    if (!tile) {
+      res.status(304);
+      return undefined;
+    }
+    return new StreamableFile(tile, {
+      type: 'application/vnd.mapbox-vector-tile',
+    });
   }
 
   @ApiOperation({
@@ -40,10 +237,135 @@ export class MapAddressesController {
     description: 'Returns addresses within the specified polygon',
     type: MapAddressBatchResponseDto,
   })
+  @UseInterceptors(ResultCacheInterceptor)
   @Post('within-polygon')
   async getAddressesWithinPolygon(
     @Body() body: WithinRegionRequestDto,
   ): Promise<MapAddressBatchResponseDto> {
     return await this.mapAddressesService.getAddressesWithinPolygon(body);
   }
+
+  @ApiOperation({
+    summary: 'Count the addresses in a region and/or matching filters',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Returns the number of matching addresses and any requested facet counts',
+    type: AddressCountResponseDto,
+  })
+  @UseInterceptors(ResultCacheInterceptor)
+  @Post('count')
+  @HttpCode(200)
+  async countAddresses(
+    @Body() body: AddressCountRequestDto,
+  ): Promise<AddressCountResponseDto> {
+    return await this.mapAddressesService.countAddresses(body);
+  }
+
+  @ApiOperation({
+    summary: 'Stream every address in a region and/or matching filters',
+  })
+  @ApiProduces(
+    ...Object.values(EXPORT_FORMATS).map((format) => format.contentType),
+  )
+  @ApiResponse({
+    status: 200,
+    description:
+      'Streams GeoJSON, GeoJSON text sequences, NDJSON, CSV or KML, chosen by format or the Accept header. X-Export-Row-Limit states the row cap applied.',
+  })
+  @ApiProblemResponse(406, 'None of the accepted formats can be produced')
+  @Post('export')
+  @HttpCode(200)
+  async exportAddresses(
+    @Body() body: ExportRequestDto,
+    @Headers('accept') accept: string | undefined,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StreamableFile> {
+    const { format, limit, stream } =
+      await this.mapAddressesService.exportAddresses(body, accept);
+    const { contentType, extension } = EXPORT_FORMATS[format];
+
+    // Stop reading from MongoDB as soon as the client goes away
+    res.on('close', () => stream.destroy());
+    res.setHeader('X-Export-Row-Limit', String(limit));
+    return new StreamableFile(stream, {
+      type: contentType,
+      disposition: `attachment; filename="addresses.${extension}"`,
+    });
+  }
+
+  @ApiOperation({
+    summary: 'Get addresses near a point, ordered by distance',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Returns addresses within maxDistance of the point, each with its distance in meters',
+    type: MapAddressBatchResponseDto,
+  })
+  @UseInterceptors(ResultCacheInterceptor)
+  @Post('near-point')
+  async getAddressesNearPoint(
+    @Body() body: NearPointRequestDto,
+  ): Promise<MapAddressBatchResponseDto> {
+    return await this.mapAddressesService.getAddressesNearPoint(body);
+  }
+
+  @ApiOperation({
+    summary: 'Get addresses along a route, ordered by distance along it',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Returns addresses within bufferMeters of the route, each with its distanceAlong the route and its offset from it in meters',
+    type: MapAddressBatchResponseDto,
+  })
+  @UseInterceptors(ResultCacheInterceptor)
+  @Post('corridor')
+  async getAddressesAlongRoute(
+    @Body() body: CorridorRequestDto,
+  ): Promise<MapAddressBatchResponseDto> {
+    return await this.mapAddressesService.getAddressesAlongRoute(body);
+  }
+
+  // Declared last so the named routes above take precedence
+  @ApiOperation({ summary: 'Get one address by its id' })
+  @ApiQuery({
+    name: 'dataset',
+    required: false,
+    description: 'Dataset of the address; defaults to MAP_DEFAULT_DATASET',
+  })
+  @ApiResponse({ status: 200, type: AddressFeatureDto })
+  @ApiResponse({
+    status: 301,
+    description:
+      'The address was merged as a duplicate; Location points at the record kept',
+  })
+  @ApiProblemResponse(404, 'No address with this id')
+  @ApiProblemResponse(410, 'The address is retired')
+  @Get(':id')
+  async getAddress(
+    @Param('id') id: string,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+    @Query('dataset') dataset?: string,
+  ): Promise<AddressFeatureDto | undefined> {
+    const { feature, mergedInto } = await this.mapAddressesService.getAddress(
+      id,
+      dataset,
+    );
+    if (mergedInto) {
+      const query = req.originalUrl.includes('?')
+        ? req.originalUrl.slice(req.originalUrl.indexOf('?'))
+        : '';
+      res.status(301);
+      res.setHeader(
+        'Location',
+        `${req.baseUrl}${req.path.replace(/[^/]+$/, encodeURIComponent(mergedInto))}${query}`,
+      );
+      return undefined;
+    }
+    return feature;
+  }
 }
@@ -1,20 +1,161 @@
 import { Injectable } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model, Types } from 'mongoose';
+import { ConfigService } from '@nestjs/config';
+import { FilterQuery, Model, PipelineStage } from 'mongoose';
 import { SearchQueryDto } from './dto/search-query.dto';
 import {
+  AddressFeatureDto,
+  AddressCountResponseDto,
   MapAddressBatchResponseDto,
   MapAddressResponseDto,
 } from './dto/map-address-response.dto';
-import { MapAddress, MapAddressDocument } from './schemas/map-address.schema';
-import { PolygonDto, WithinRegionRequestDto } from './dto/spatial-query.dto';
-import stringSimilarity from 'string-similarity';
+import {
+  ACTIVE_ADDRESS,
+  inDatasets,
+  MapAddress,
+  MapAddressDocument,
+} from './schemas/map-address.schema';
+import {
+  CorridorRequestDto,
+  NearPointRequestDto,
+  WithinRegionRequestDto,
+} from './dto/spatial-query.dto';
+import { MapAddressesFilterDto } from './dto/map-addresses-filter.dto';
+import { AddressCountRequestDto } from './dto/count-request.dto';
+import { ReverseGeocodeQueryDto } from './dto/reverse-geocode-query.dto';
+import { parseRegion } from './geometry/region-geometry';
+import { RegionGeometry } from './geometry/region-geometry.type';
+import { initialBearing } from './geometry/geodesy';
+import {
+  buildCorridor,
+  corridorMatch,
+  corridorStages,
+  parseRoute,
+} from './geometry/route-corridor';
+import { AutocompleteQueryDto } from './dto/autocomplete-query.dto';
+import {
+  AutocompleteResponseDto,
+  AutocompleteSuggestionDto,
+} from './dto/autocomplete-response.dto';
+import { highlightSpans, toAutocompleteTokens } from './search/autocomplete';
+import {
+  buildSearchAttempts,
+  buildSearchRankingStages,
+  SearchAttempt,
+  SearchMatchKind,
+} from './search/search-pipeline';
+import {
+  buildFacetPipeline,
+  FACET_FIELDS,
+  FacetCounts,
+  FacetField,
+} from './search/facets';
+import { ViewportQueryDto } from './dto/viewport-query.dto';
+import {
+  ClusterFeatureDto,
+  ViewportResponseDto,
+} from './dto/viewport-response.dto';
+import {
+  buildBboxMatch,
+  buildClusterPipeline,
+  gridCellsFor,
+  parseBbox,
+} from './viewport/viewport-grid';
+import { AllConfigType } from '../../config/config.type';
+import { Readable } from 'stream';
+import { ExportRequestDto } from './dto/export-request.dto';
+import {
+  encodeExport,
+  ExportFeature,
+  ExportFormat,
+  resolveExportFormat,
+} from './export/export-formats';
+import { TileQueryDto } from './dto/tile-query.dto';
+import { TileJsonResponseDto } from './dto/tilejson-response.dto';
+import { parseTileCoordinates, tileBbox, toTilePixel } from './tiles/tile-math';
+import { encodePointLayer, MVT_EXTENT } from './tiles/mvt-encoder';
+import {
+  TILE_ATTRIBUTE_FIELDS,
+  TILE_BUFFER,
+  TILE_LAYER_NAME,
+  tileEtag,
+} from './tiles/address-tiles';
+import { etagMatches } from './cache/etag';
+import { rankCandidates } from './search/search-ranking';
+import { CityVocabulary } from './search/city-vocabulary';
+import { NormalizationProfile } from './search/normalization';
+import { parseAddressQuery } from './search/query-parser';
+import { VerifyAddressQueryDto } from './dto/verify-address-query.dto';
+import {
+  PostcodeCityCheckDto,
+  VerifyAddressResponseDto,
+} from './dto/verify-address-response.dto';
+import {
+  buildVerifyCandidateMatch,
+  resolveVerification,
+  toVerifyFields,
+  VERIFY_FIELDS,
+  VerifyInput,
+} from './verification/address-verification';
+import {
+  GoneError,
+  InvalidInputError,
+  ResourceNotFoundError,
+  SearchTimeoutError,
+} from '../../errors/domain-errors';
+import { toGeoServiceError, toServiceError } from '../../errors/service-errors';
+import { MetricsService } from '../../metrics/metrics.service';
+import { MapDatasetsService } from '../datasets/map-datasets.service';
+import { MapRegionsService } from '../regions/map-regions.service';
+import {
+  decodeCursor,
+  encodeCursor,
+  queryFingerprint,
+} from './pagination/page-cursor';
+import {
+  afterKeyMatch,
+  PageSort,
+  sortFieldStages,
+  sortKeyProjection,
+  sortStage,
+  toCursorKey,
+} from './pagination/address-sort';
+import { DEFAULT_BATCH_SIZE } from './pagination/page-size';
+
+// Largest page of ranked search results
+const SEARCH_MAX_LIMIT = 1000;
+
+// Autocomplete groups at most this many index hits per keystroke
+const AUTOCOMPLETE_CANDIDATE_POOL = 500;
+const AUTOCOMPLETE_MAX_TIME_MS = 250;
+
+// Time budget of the substring fallback of search, which cannot use an index
+const SEARCH_INFIX_MAX_TIME_MS = 2000;
+
+// MongoDB's error code for a query stopped by maxTimeMS
+const MAX_TIME_MS_EXPIRED = 50;
+
+// Addresses scored per verify request
+const VERIFY_CANDIDATE_POOL = 100;
+
+// City names only change on import, so the parser vocabulary is cached
+const CITY_VOCABULARY_TTL_MS = 10 * 60 * 1000;
 
 @Injectable()
 export class MapAddressesService {
+  // Per set of queried datasets, keyed by their sorted keys
+  private readonly cityVocabularies = new Map<
+    string,
+    { value: CityVocabulary; expiresAt: number }
+  >();
+
   constructor(
     @InjectModel(MapAddress.name)
     private mapAddressModel: Model<MapAddressDocument>,
+    private configService: ConfigService<AllConfigType>,
+    private metricsService: MetricsService,
+    private datasetsService: MapDatasetsService,
+    private regionsService: MapRegionsService,
   ) {}
 
   async getAddresses(
@@ -23,219 +164,1177 @@ export class MapAddressesService {
   ): Promise<MapAddressResponseDto> {
     try {
       const { searchQuery: searchStr } = searchQuery;
-      const fields = [
-        'properties.street',
-        'properties.number',
-        'properties.postcode',
-        'properties.city',
-      ];
+      if (!Number.isInteger(limit) || limit < 1 || limit > SEARCH_MAX_LIMIT) {
+        throw new InvalidInputError(
+          `limit must be an integer from 1 to ${SEARCH_MAX_LIMIT}`,
+        );
+      }
 
       // No search input → return early
       if (!searchStr || !searchStr.trim()) {
         return { type: 'FeatureCollection', features: [] };
       }
 
-      const normalizedSearch = searchStr.trim().toLowerCase();
+      // Several datasets are searched as one pool and ranked together
+      const datasets = await this.datasetsService.resolve(searchQuery.dataset);
+      const filterQuery: FilterQuery<MapAddressDocument> = {
+        ...this.buildFilterQuery(searchQuery, datasets),
+        ...(searchQuery.regionId
+          ? this.toRegionMatch(
+              await this.regionsService.getGeometry(searchQuery.regionId),
+            )
+          : {}),
+      };
+      const facetFields = this.toFacetFields(searchQuery.facets);
 
-      // Tokenize search to allow multi-word precision filtering
-      const tokens = normalizedSearch
-        .split(/[^a-z0-9]+/i)
-        .map((t) => t.trim())
-        .filter((t) => t.length > 0);
+      // Split the query into street, number, unit, postcode and city so
+      // each word is only matched against its own field
+      const profile = await this.datasetsService.profileFor(datasets);
+      const parsed = parseAddressQuery(searchStr, {
+        profile,
+        cities: await this.getCityVocabulary(datasets, profile),
+      });
+      const attempts = buildSearchAttempts(searchStr, parsed, profile);
+      if (attempts.length === 0) {
+        return { type: 'FeatureCollection', features: [] };
+      }
 
-      const escapeRegExp = (s: string) =>
-        s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      // Pull a larger, database-ranked pool so we can rank it by similarity.
+      // A misread query (a street named after a city, say) falls back to
+      // matching every word against every field, and a word from inside
+      // a street name ("straat") to a substring match
+      const poolSize = Math.max(limit * 2, 100);
+      let matchedBy: SearchMatchKind = 'fields';
+      let result: { candidates: any[]; facets?: FacetCounts } = {
+        candidates: [],
+      };
+      for (const attempt of attempts) {
+        matchedBy = attempt.matchedBy;
+        result = await this.runSearch(
+          attempt,
+          filterQuery,
+          facetFields,
+          poolSize,
+        );
+        if (result.candidates.length) {
+          break;
+        }
+      }
 
-      // Build query: require all tokens to appear somewhere ($and of per-token $or)
-      const query =
-        tokens.length > 0
-          ? {
-              $and: tokens.map((t) => {
-                const rx = new RegExp(escapeRegExp(t), 'i');
-                return { $or: fields.map((f) => ({ [f]: rx })) };
-              }),
-            }
-          : { $or: [] };
+      this.metricsService.observeCandidatePool(
+        'search',
+        result.candidates.length,
+      );
+      const closeMatches = rankCandidates(
+        searchStr,
+        result.candidates,
+        limit,
+        profile,
+      );
+      this.metricsService.observeResultSize('search', closeMatches.length);
 
-      // Pull a larger pool so we can rank them by similarity
-      const candidates = await this.mapAddressModel
-        .find(query)
-        .select('_id type geometry properties')
-        .limit(Math.max(limit * 2, 100))
-        .lean();
+      return {
+        type: 'FeatureCollection',
+        features: closeMatches.map((a) => ({
+          ...a,
+          _id: a._id.toString(),
+        })),
+        interpretation: { ...parsed, matchedBy },
+        ...(result.facets ? { facets: result.facets } : {}),
+      };
+    } catch (error) {
+      throw toGeoServiceError(error, 'Failed to fetch map addresses');
+    }
+  }
 
-      if (candidates.length === 0) {
-        return { type: 'FeatureCollection', features: [] };
+  // How many addresses a region and/or filters match, with facet counts
+  async countAddresses(
+    body: AddressCountRequestDto,
+  ): Promise<AddressCountResponseDto> {
+    try {
+      const region = await this.resolveRegionInput(body);
+      const datasets = await this.datasetsService.resolve(
+        body.filters?.dataset,
+      );
+      const filterQuery = this.buildFilterQuery(body.filters, datasets);
+      const hasFilters = Object.keys(filterQuery).some((key) =>
+        key.startsWith('properties.'),
+      );
+      if (!region && !hasFilters) {
+        throw new InvalidInputError(
+          'Provide searchRegion, geometry, regionId or filters to count.',
+        );
       }
 
-      // Step 2️⃣: Compute similarity scores with field weighting and prefix boost
-      const scored = candidates.map((addr) => {
-        const street = String(addr.properties.street || '').toLowerCase();
-        const number = String(addr.properties.number || '').toLowerCase();
-        const postcode = String(addr.properties.postcode || '').toLowerCase();
-        const city = String(addr.properties.city || '').toLowerCase();
-
-        const combined = [street, number, postcode, city]
-          .filter(Boolean)
-          .join(' ')
-          .toLowerCase();
+      const facetFields = this.toFacetFields(body.facets);
+      const regionMatch = region ? this.toRegionMatch(region) : {};
+      const count = await this.metricsService.timeQuery(
+        'count',
+        this.mapAddressModel
+          .countDocuments({ ...regionMatch, ...filterQuery })
+          .exec(),
+      );
 
-        const combinedScore = stringSimilarity.compareTwoStrings(
-          normalizedSearch,
-          combined,
+      let facets: FacetCounts | undefined;
+      if (facetFields.length) {
+        const [counts] = await this.metricsService.timeQuery(
+          'count_facets',
+          this.mapAddressModel
+            .aggregate(
+              buildFacetPipeline(regionMatch, filterQuery, facetFields),
+            )
+            .exec(),
         );
+        facets = counts;
+      }
 
-        // Field-level scores with weights to emphasize street/city
-        const weights = { street: 1.0, city: 0.9, postcode: 0.8, number: 0.5 };
-        const fieldScores = [
-          stringSimilarity.compareTwoStrings(normalizedSearch, street) *
-            weights.street,
-          stringSimilarity.compareTwoStrings(normalizedSearch, city) *
-            weights.city,
-          stringSimilarity.compareTwoStrings(normalizedSearch, postcode) *
-            weights.postcode,
-          stringSimilarity.compareTwoStrings(normalizedSearch, number) *
-            weights.number,
-        ];
-        const maxFieldScore = Math.max(...fieldScores);
-
-        // Prefix boost when any field starts with the full query
-        const startsWith = [street, number, postcode, city].some((t) =>
-          t.startsWith(normalizedSearch),
+      return { count, ...(facets ? { facets } : {}) };
+    } catch (error) {
+      throw toGeoServiceError(error, 'Failed to count addresses');
+    }
+  }
+
+  // New POST-based region method: accepts WKT or map bounds
+  async getAddressesWithinPolygon(
+    body: WithinRegionRequestDto,
+  ): Promise<MapAddressBatchResponseDto> {
+    try {
+      const batchSize = body.batchSize ?? body.limit ?? DEFAULT_BATCH_SIZE;
+      const sort = body.sort ?? 'id';
+
+      const region = await this.resolveRegionInput(body);
+      if (!region) {
+        throw new InvalidInputError(
+          'searchRegion (WKT), geometry (GeoJSON) or regionId must be provided.',
         );
-        const prefixBoost = startsWith ? 0.15 : 0;
+      }
+      const sortPoint =
+        sort === 'distance'
+          ? this.toPoint(body.sortPoint?.[0], body.sortPoint?.[1])
+          : undefined;
+
+      const facetFields = this.toFacetFields(body.facets);
+      const datasets = await this.datasetsService.resolve(
+        body.filters?.dataset,
+      );
+      const filterQuery = this.buildFilterQuery(body.filters, datasets);
+      const regionMatch = this.toRegionMatch(region);
 
-        const score = Math.min(
-          1,
-          Math.max(combinedScore, maxFieldScore) + prefixBoost,
+      const page = await this.fetchPage({
+        operation: 'within_polygon',
+        fingerprint: queryFingerprint({
+          route: 'within-polygon',
+          region,
+          filterQuery,
+          sortPoint,
+        }),
+        match: { ...regionMatch, ...filterQuery },
+        near: sortPoint,
+        sort,
+        batchSize,
+        cursor: body.cursor,
+      });
+
+      // Facets cover the whole filtered region, not just this batch
+      let facets: FacetCounts | undefined;
+      if (facetFields.length) {
+        const [counts] = await this.metricsService.timeQuery(
+          'within_polygon_facets',
+          this.mapAddressModel
+            .aggregate(
+              buildFacetPipeline(regionMatch, filterQuery, facetFields),
+            )
+            .exec(),
         );
+        facets = counts;
+      }
+
+      return { ...page, ...(facets ? { facets } : {}) };
+    } catch (error) {
+      throw toGeoServiceError(error, 'Failed to fetch addresses within region');
+    }
+  }
+
+  // Proximity query backed by the 2dsphere index, ordered by distance
+  async getAddressesNearPoint(
+    body: NearPointRequestDto,
+  ): Promise<MapAddressBatchResponseDto> {
+    try {
+      const batchSize = body.batchSize ?? body.limit ?? DEFAULT_BATCH_SIZE;
+      const maxDistance = body.maxDistance ?? 1000;
+      const sort = body.sort ?? 'distance';
+
+      const point = this.toPoint(body.point?.[0], body.point?.[1]);
+      const datasets = await this.datasetsService.resolve(
+        body.filters?.dataset,
+      );
+      const filterQuery = this.buildFilterQuery(body.filters, datasets);
+
+      return await this.fetchPage({
+        operation: 'near_point',
+        fingerprint: queryFingerprint({
+          route: 'near-point',
+          point,
+          maxDistance,
+          filterQuery,
+        }),
+        match: filterQuery,
+        near: point,
+        maxDistance,
+        sort,
+        batchSize,
+        cursor: body.cursor,
+      });
+    } catch (error) {
+      throw toServiceError(error, 'Failed to fetch addresses near point');
+    }
+  }
+
+  // Addresses within bufferMeters of a route, in the order the route passes them
+  async getAddressesAlongRoute(
+    body: CorridorRequestDto,
+  ): Promise<MapAddressBatchResponseDto> {
+    try {
+      const batchSize = body.batchSize ?? body.limit ?? DEFAULT_BATCH_SIZE;
 
-        return { ...addr, score };
+      const line = parseRoute(body.route);
+      const corridor = buildCorridor(line, body.bufferMeters);
+      const datasets = await this.datasetsService.resolve(
+        body.filters?.dataset,
+      );
+      const filterQuery = this.buildFilterQuery(body.filters, datasets);
+
+      return await this.fetchPage({
+        operation: 'corridor',
+        fingerprint: queryFingerprint({
+          route: 'corridor',
+          line,
+          bufferMeters: body.bufferMeters,
+          filterQuery,
+        }),
+        match: { ...corridorMatch(corridor), ...filterQuery },
+        stages: corridorStages(corridor, body.bufferMeters),
+        fields: ['distanceAlong', 'offset'],
+        sort: 'route',
+        batchSize,
+        cursor: body.cursor,
       });
+    } catch (error) {
+      throw toGeoServiceError(
+        error,
+        'Failed to fetch addresses along route',
+        'Route',
+      );
+    }
+  }
 
-      // Step 3️⃣: Sort by similarity
-      scored.sort((a, b) => b.score - a.score);
+  // Reverse geocoding: the N nearest addresses to a coordinate
+  async reverseGeocode(
+    query: ReverseGeocodeQueryDto,
+  ): Promise<MapAddressResponseDto> {
+    try {
+      const point = this.toPoint(query.lon, query.lat);
+      const limit = Math.min(Math.max(Number(query.limit ?? 1), 1), 100);
+      const maxDistance =
+        query.maxDistance !== undefined ? Number(query.maxDistance) : undefined;
 
-      // Step 4️⃣: Determine threshold
-      // If any candidate is a "close match" (e.g., score >= 0.75), use only those.
-      const bestScore = scored[0].score;
-      const threshold = 0.75;
+      if (
+        maxDistance !== undefined &&
+        (!Number.isFinite(maxDistance) || maxDistance < 0)
+      ) {
+        throw new InvalidInputError(
+          'maxDistance must be a non-negative number of meters.',
+        );
+      }
 
-      const closeMatches =
-        bestScore >= threshold
-          ? scored
-              .filter((s) => s.score >= Math.max(0.7, bestScore - 0.08))
-              .slice(0, limit)
-          : scored.slice(0, limit); // fallback to broader substring/fuzzy matches
+      const datasets = await this.datasetsService.resolve(query.dataset);
+      const docs = await this.metricsService.timeQuery(
+        'reverse',
+        this.mapAddressModel
+          .aggregate([
+            {
+              $geoNear: {
+                near: { type: 'Point', coordinates: point },
+                distanceField: 'distance',
+                ...(maxDistance !== undefined ? { maxDistance } : {}),
+                query: this.buildFilterQuery(query, datasets),
+                spherical: true,
+              },
+            },
+            { $limit: limit },
+            {
+              $project: {
+                _id: 1,
+                dataset: 1,
+                type: 1,
+                geometry: 1,
+                properties: 1,
+                distance: 1,
+              },
+            },
+          ])
+          .exec(),
+      );
+      this.metricsService.observeResultSize('reverse', docs.length);
 
-      // Step 5️⃣: Transform response
       return {
         type: 'FeatureCollection',
-        features: closeMatches.map((a) => ({
-          ...a,
-          _id: a._id.toString(),
+        features: docs.map((d) => ({
+          ...d,
+          _id: d._id?.toString(),
+          bearing: initialBearing(point, d.geometry.coordinates),
         })),
       };
     } catch (error) {
-      throw new Error(`Failed to fetch map addresses: ${error.message}`);
+      throw toServiceError(error, 'Failed to reverse geocode point');
     }
   }
 
-  // New POST-based region method: accepts WKT or map bounds
-  async getAddressesWithinPolygon(
-    body: WithinRegionRequestDto,
-  ): Promise<MapAddressBatchResponseDto> {
+  // Checks whether a typed address exists and, if not quite, what the
+  // closest address in the dataset is
+  async verifyAddress(
+    query: VerifyAddressQueryDto,
+  ): Promise<VerifyAddressResponseDto> {
     try {
-      const batchSize = body.batchSize ?? body.limit ?? 500;
+      const input: VerifyInput = {};
+      for (const field of VERIFY_FIELDS) {
+        const value = query[field];
+        if (typeof value === 'string' && value.trim()) {
+          input[field] = value.trim();
+        }
+      }
+      if (!input.street || (!input.postcode && !input.city)) {
+        throw new InvalidInputError(
+          'street and at least one of postcode or city are required',
+        );
+      }
 
-      // Decide the geometry source
-      let region: PolygonDto | undefined;
+      const datasets = await this.datasetsService.resolve(query.dataset);
+      const profile = await this.datasetsService.profileFor(datasets);
+      const fields = toVerifyFields(input, profile);
+      const scope = { ...inDatasets(datasets), ...ACTIVE_ADDRESS };
+      const [candidates, postcodeCity] = await Promise.all([
+        this.metricsService.timeQuery(
+          'verify',
+          this.mapAddressModel
+            .find({ ...buildVerifyCandidateMatch(fields), ...scope })
+            .select('_id dataset type geometry properties')
+            .limit(VERIFY_CANDIDATE_POOL)
+            .lean()
+            .exec(),
+        ),
+        this.checkPostcodeCity(fields.postcode, fields.city, scope, profile),
+      ]);
+      this.metricsService.observeCandidatePool('verify', candidates.length);
 
-      if (body.searchRegion) {
-        region = this.parseWktRegion(body.searchRegion);
+      return {
+        ...resolveVerification(
+          input,
+          candidates.map((c) => ({ ...c, _id: c._id.toString() })),
+          profile,
+        ),
+        postcodeCity,
+      };
+    } catch (error) {
+      throw toServiceError(error, 'Failed to verify address');
+    }
+  }
+
+  // Typeahead backed by the autocomplete edge n-gram index. Addresses on
+  // the same street collapse into one suggestion unless a typed number
+  // pins a specific house.
+  async autocomplete(
+    query: AutocompleteQueryDto,
+  ): Promise<AutocompleteResponseDto> {
+    try {
+      const limit = Math.min(Math.max(Number(query.limit ?? 10), 1), 25);
+      const datasets = await this.datasetsService.resolve(query.dataset);
+      const tokens = toAutocompleteTokens(
+        query.q ?? '',
+        await this.datasetsService.profileFor(datasets),
+      );
+
+      if (!tokens.length) {
+        return { suggestions: [] };
       }
 
-      if (!region) {
-        throw new Error('searchRegion (WKT POLYGON) must be provided.');
+      // $all walks the index on its first element, so lead with the longest
+      const ordered = [...tokens].sort((a, b) => b.length - a.length);
+      const scope = { ...inDatasets(datasets), ...ACTIVE_ADDRESS };
+
+      const candidates = await this.metricsService.timeQuery(
+        'autocomplete',
+        this.mapAddressModel
+          .find({ autocomplete: { $all: ordered }, ...scope })
+          .select('dataset properties')
+          .limit(AUTOCOMPLETE_CANDIDATE_POOL)
+          .maxTimeMS(AUTOCOMPLETE_MAX_TIME_MS)
+          .lean()
+          .exec(),
+      );
+      this.metricsService.observeCandidatePool(
+        'autocomplete',
+        candidates.length,
+      );
+
+      const numberTokens = tokens.filter((t) => /^\d/.test(t));
+      const groups = new Map<
+        string,
+        Omit<AutocompleteSuggestionDto, 'highlight'> & {
+          street: string;
+          city: string;
+        }
+      >();
+
+      // Streets of several datasets merge into one suggestion; addresses
+      // stay apart since ids are only unique within a dataset
+      for (const { dataset, properties: p } of candidates) {
+        const number = String(p.number || '').toLowerCase();
+        const isAddress = numberTokens.some((t) => number.startsWith(t));
+        const key = isAddress
+          ? `address:${dataset}:${p.id}`
+          : `street:${p.street}|${p.city}`;
+
+        const group = groups.get(key);
+        if (group) {
+          group.count++;
+          continue;
+        }
+
+        groups.set(key, {
+          type: isAddress ? 'address' : 'street',
+          label: isAddress
+            ? [
+                [p.street, p.number, p.unit].filter(Boolean).join(' '),
+                [p.postcode, p.city].filter(Boolean).join(' '),
+              ]
+                .filter(Boolean)
+                .join(', ')
+            : [p.street, p.city].filter(Boolean).join(', '),
+          id: p.id,
+          dataset,
+          count: 1,
+          street: p.street,
+          city: p.city,
+        });
       }
 
-      const query: any = {
-        geometry: { $geoWithin: { $geometry: region } },
-      };
+      const ranked = [...groups.values()]
+        .sort(
+          (a, b) =>
+            Number(b.type === 'address') - Number(a.type === 'address') ||
+            b.count - a.count ||
+            a.label.localeCompare(b.label),
+        )
+        .slice(0, limit);
+
+      // The candidate pool is capped, so recount house numbers per street
+      const streets = ranked.filter((g) => g.type === 'street');
+      if (streets.length) {
+        const counts = await this.metricsService.timeQuery(
+          'autocomplete_street_counts',
+          this.mapAddressModel
+            .aggregate<{
+              _id: { street: string; city: string };
+              count: number;
+            }>([
+              {
+                $match: {
+                  ...scope,
+                  $or: streets.map((g) => ({
+                    'properties.street': g.street,
+                    'properties.city': g.city,
+                  })),
+                },
+              },
+              {
+                $group: {
+                  _id: {
+                    street: '$properties.street',
+                    city: '$properties.city',
+                  },
+                  count: { $sum: 1 },
+                },
+              },
+            ])
+            .option({ maxTimeMS: AUTOCOMPLETE_MAX_TIME_MS })
+            .exec(),
+        );
 
-      // Cursor gating to avoid skip
-      if (body.cursor) {
-        if (!Types.ObjectId.isValid(body.cursor)) {
-          throw new Error(
-            'Invalid cursor value: must be a valid ObjectId string',
+        for (const { _id, count } of counts) {
+          const group = streets.find(
+            (g) => g.street === _id.street && g.city === _id.city,
           );
+          if (group) {
+            group.count = count;
+          }
         }
-        query._id = { $gt: new Types.ObjectId(body.cursor) };
       }
 
-      const docs = await this.mapAddressModel
+      this.metricsService.observeResultSize('autocomplete', ranked.length);
+      return {
+        suggestions: ranked.map(({ type, label, id, dataset, count }) => ({
+          type,
+          label,
+          id,
+          dataset,
+          count,
+          highlight: highlightSpans(label, tokens),
+        })),
+      };
+    } catch (error) {
+      throw toServiceError(error, 'Failed to autocomplete addresses');
+    }
+  }
+
+  // Map viewport: individual addresses when they fit the point budget or
+  // at high zoom, grid clusters otherwise
+  async getViewport(query: ViewportQueryDto): Promise<ViewportResponseDto> {
+    try {
+      const bbox = parseBbox(query.bbox);
+      const zoom = Number(query.zoom);
+      if (!Number.isInteger(zoom) || zoom < 0 || zoom > 24) {
+        throw new InvalidInputError('zoom must be an integer from 0 to 24');
+      }
+
+      const { pointBudget, clusterMaxZoom, clusterCellPixels } =
+        this.configService.getOrThrow('viewport', { infer: true });
+      const datasets = await this.datasetsService.resolve(query.dataset);
+      const match = {
+        ...buildBboxMatch(bbox),
+        ...this.buildFilterQuery(query, datasets),
+      };
+
+      // Counting stops one past the budget; only "fits or not" matters
+      const total = await this.metricsService.timeQuery(
+        'viewport_count',
+        this.mapAddressModel
+          .countDocuments(match, { limit: pointBudget + 1 })
+          .exec(),
+      );
+
+      if (zoom >= clusterMaxZoom || total <= pointBudget) {
+        const docs = await this.metricsService.timeQuery(
+          'viewport',
+          this.mapAddressModel
+            .find(match)
+            .sort({ _id: 1 })
+            .select('_id dataset type geometry properties')
+            .limit(pointBudget)
+            .lean()
+            .exec(),
+        );
+        this.metricsService.observeResultSize('viewport', docs.length);
+
+        return {
+          type: 'FeatureCollection',
+          features: docs.map((d) => ({ ...d, _id: d._id.toString() })),
+          clustered: false,
+          zoom,
+          truncated: total > pointBudget,
+        };
+      }
+
+      const cells = gridCellsFor(bbox, zoom, clusterCellPixels, pointBudget);
+      const groups = await this.metricsService.timeQuery(
+        'viewport_clusters',
+        this.mapAddressModel
+          .aggregate(buildClusterPipeline(match, cells, pointBudget + 1))
+          .allowDiskUse(true)
+          .exec(),
+      );
+
+      const features = groups.slice(0, pointBudget).map((group) =>
+        group.count === 1
+          ? { ...group.member, _id: group.member._id.toString() }
+          : ({
+              type: 'Feature',
+              geometry: { type: 'Point', coordinates: [group.lon, group.lat] },
+              properties: {
+                cluster: true,
+                pointCount: group.count,
+                expansionBbox: [
+                  group.minLon,
+                  group.minLat,
+                  group.maxLon,
+                  group.maxLat,
+                ],
+              },
+            } as ClusterFeatureDto),
+      );
+
+      this.metricsService.observeResultSize('viewport', features.length);
+      return {
+        type: 'FeatureCollection',
+        features,
+        clustered: true,
+        zoom,
+        truncated: groups.length > pointBudget,
+      };
+    } catch (error) {
+      throw toServiceError(error, 'Failed to fetch viewport addresses');
+    }
+  }
+
+  // Vector tile of the addresses layer. Returns no tile when the client's
+  // ETag still matches, so unchanged tiles are never re-encoded.
+  async getTile(
+    coordinates: { z: unknown; x: unknown; y: unknown },
+    query: TileQueryDto,
+    ifNoneMatch?: string,
+  ): Promise<{ etag: string; tile?: Buffer }> {
+    try {
+      const tile = parseTileCoordinates(
+        coordinates.z,
+        coordinates.x,
+        coordinates.y,
+      );
+      const { minZoom, maxZoom, maxFeatures } = this.configService.getOrThrow(
+        'tiles',
+        { infer: true },
+      );
+      if (tile.z < minZoom || tile.z > maxZoom) {
+        throw new ResourceNotFoundError(
+          `Address tiles are served from zoom ${minZoom} to ${maxZoom}`,
+        );
+      }
+
+      const fields = this.toTileFields(query.fields);
+      const datasets = await this.datasetsService.resolve(query.dataset);
+      const match = {
+        ...buildBboxMatch(tileBbox(tile, TILE_BUFFER, MVT_EXTENT)),
+        ...inDatasets(datasets),
+        ...ACTIVE_ADDRESS,
+      };
+
+      const [summary] = await this.metricsService.timeQuery(
+        'tile_summary',
+        this.mapAddressModel
+          .aggregate([
+            { $match: match },
+            {
+              $group: {
+                _id: null,
+                count: { $sum: 1 },
+                updatedAt: { $max: '$updatedAt' },
+              },
+            },
+          ])
+          .exec(),
+      );
+      const etag = tileEtag(
+        tile,
+        fields,
+        datasets,
+        summary ?? { count: 0 },
+        maxFeatures,
+      );
+      if (etagMatches(ifNoneMatch, etag)) {
+        return { etag };
+      }
+
+      const docs = await this.metricsService.timeQuery(
+        'tile',
+        this.mapAddressModel
+          .find(match)
+          .sort({ _id: 1 })
+          .select(['geometry', ...fields.map((field) => `properties.${field}`)])
+          .limit(maxFeatures)
+          .lean()
+          .exec(),
+      );
+      this.metricsService.observeResultSize('tile', docs.length);
+
+      const points = docs.map((doc) => ({
+        ...toTilePixel(doc.geometry.coordinates, tile, MVT_EXTENT),
+        attributes: Object.fromEntries(
+          fields.map((field) => [field, doc.properties?.[field] ?? '']),
+        ),
+      }));
+
+      return {
+        etag,
+        tile: encodePointLayer(TILE_LAYER_NAME, points, MVT_EXTENT),
+      };
+    } catch (error) {
+      throw toServiceError(error, 'Failed to build address tile');
+    }
+  }
+
+  getTileJson(tileUrl: string): TileJsonResponseDto {
+    const { minZoom, maxZoom, defaultFields } = this.configService.getOrThrow(
+      'tiles',
+      { infer: true },
+    );
+    return {
+      tilejson: '3.0.0',
+      tiles: [tileUrl],
+      minzoom: minZoom,
+      maxzoom: maxZoom,
+      vector_layers: [
+        {
+          id: TILE_LAYER_NAME,
+          fields: Object.fromEntries(
+            defaultFields.map((field) => [field, 'String']),
+          ),
+          minzoom: minZoom,
+          maxzoom: maxZoom,
+        },
+      ],
+    };
+  }
+
+  // Streams every address matching a region and/or filters straight from
+  // a MongoDB cursor; the cursor only advances as fast as the client reads
+  async exportAddresses(
+    body: ExportRequestDto,
+    accept?: string,
+  ): Promise<{ format: ExportFormat; limit: number; stream: Readable }> {
+    try {
+      const format = resolveExportFormat(body.format, accept);
+      const region = await this.resolveRegionInput(body);
+      const datasets = await this.datasetsService.resolve(
+        body.filters?.dataset,
+      );
+      const filterQuery = this.buildFilterQuery(body.filters, datasets);
+      const hasFilters = Object.keys(filterQuery).some((key) =>
+        key.startsWith('properties.'),
+      );
+      if (!region && !hasFilters) {
+        throw new InvalidInputError(
+          'Provide searchRegion, geometry, regionId or filters to export.',
+        );
+      }
+
+      const maxRows = this.configService.getOrThrow('export.maxRows', {
+        infer: true,
+      });
+      const requested = body.limit !== undefined ? Number(body.limit) : maxRows;
+      if (!Number.isInteger(requested) || requested < 1) {
+        throw new InvalidInputError('limit must be a positive integer');
+      }
+      const limit = Math.min(requested, maxRows);
+
+      const query: FilterQuery<MapAddressDocument> = {
+        ...(region ? this.toRegionMatch(region) : {}),
+        ...filterQuery,
+      };
+
+      // Surface query errors (e.g. a region MongoDB rejects) as a status
+      // code before any of the body has been sent
+      await this.mapAddressModel.findOne(query).select('_id').lean().exec();
+
+      // One row past the limit tells a complete export from a capped one
+      const cursor = this.mapAddressModel
         .find(query)
-        .sort({ _id: 1 })
-        .select('_id type geometry properties')
-        .limit(batchSize)
+        .select('_id dataset type geometry properties')
+        .limit(limit + 1)
         .lean()
-        .exec();
+        .cursor({ batchSize: 1000 });
 
-      const features =
-        docs?.map((d) => ({ ...d, _id: d._id?.toString() })) || [];
-      const last = docs.length ? docs[docs.length - 1]._id?.toString() : null;
-      const hasMore = docs.length === batchSize;
+      let truncated = false;
+      async function* rows() {
+        let count = 0;
+        try {
+          for await (const doc of cursor) {
+            if (count === limit) {
+              truncated = true;
+              break;
+            }
+            count++;
+            yield doc as unknown as ExportFeature;
+          }
+        } finally {
+          await cursor.close();
+        }
+      }
 
       return {
-        geojson: {
-          type: 'FeatureCollection',
-          features,
-        },
-        nextCursor: last ?? null,
-        hasMore,
+        format,
+        limit,
+        stream: Readable.from(
+          encodeExport(format, rows(), () => truncated),
+          {
+            objectMode: false,
+          },
+        ),
       };
     } catch (error) {
-      throw new Error(
-        `Failed to fetch addresses within region: ${error.message}`,
+      throw toGeoServiceError(error, 'Failed to export addresses');
+    }
+  }
+
+  /**
+   * One address by its id. A record merged into another answers with the
+   * id it was merged into instead, so the caller can redirect there.
+   */
+  async getAddress(
+    id: string,
+    dataset?: string,
+  ): Promise<{ feature?: AddressFeatureDto; mergedInto?: string }> {
+    try {
+      const doc = await this.mapAddressModel
+        .findOne({
+          dataset: await this.datasetsService.resolveOne(dataset),
+          'properties.id': id,
+        })
+        .select('_id dataset type geometry properties retiredAt mergedInto')
+        .lean()
+        .exec();
+      if (!doc) {
+        throw new ResourceNotFoundError(`Address ${id} not found`);
+      }
+      if (doc.retiredAt) {
+        if (doc.mergedInto) {
+          return { mergedInto: doc.mergedInto };
+        }
+        throw new GoneError(`Address ${id} was retired`);
+      }
+
+      const { _id, type, geometry, properties } = doc;
+      return {
+        feature: {
+          _id: String(_id),
+          dataset: doc.dataset,
+          type,
+          geometry,
+          properties,
+        } as AddressFeatureDto,
+      };
+    } catch (error) {
+      throw toServiceError(error, 'Failed to fetch address');
+    }
+  }
+
+  // Search candidates, plus facet counts over every match when requested
+  private async runSearch(
+    attempt: SearchAttempt,
+    filterQuery: FilterQuery<MapAddressDocument>,
+    facetFields: FacetField[],
+    poolSize: number,
+  ): Promise<{ candidates: any[]; facets?: FacetCounts }> {
+    // The substring match scans; past its time budget the caller is told
+    // so rather than given an empty result
+    const infix = attempt.matchedBy === 'infix';
+    const operation = infix ? 'search_infix' : 'search';
+    const options = infix ? { maxTimeMS: SEARCH_INFIX_MAX_TIME_MS } : {};
+
+    try {
+      if (!facetFields.length) {
+        const candidates = await this.metricsService.timeQuery(
+          operation,
+          this.mapAddressModel
+            .aggregate([
+              { $match: { ...attempt.match, ...filterQuery } },
+              ...buildSearchRankingStages(attempt.tokens, poolSize),
+            ])
+            .option(options)
+            .exec(),
+        );
+        return { candidates };
+      }
+
+      const [{ results, ...facets }] = await this.metricsService.timeQuery(
+        `${operation}_facets`,
+        this.mapAddressModel
+          .aggregate(
+            buildFacetPipeline(
+              attempt.match,
+              filterQuery,
+              facetFields,
+              buildSearchRankingStages(attempt.tokens, poolSize),
+            ),
+          )
+          .option(options)
+          .exec(),
       );
+      return { candidates: results, facets };
+    } catch (error) {
+      if (infix && error?.code === MAX_TIME_MS_EXPIRED) {
+        throw new SearchTimeoutError();
+      }
+      throw error;
+    }
+  }
+
+  private toTileFields(value?: string | string[]): string[] {
+    const requested = this.toFilterValues(value);
+    const fields = requested.length
+      ? requested
+      : this.configService.getOrThrow('tiles.defaultFields', { infer: true });
+    const unknown = fields.filter(
+      (field) => !TILE_ATTRIBUTE_FIELDS.includes(field),
+    );
+    if (unknown.length) {
+      throw new InvalidInputError(
+        `Unsupported tile field(s): ${unknown.join(', ')}. Use ${TILE_ATTRIBUTE_FIELDS.join(', ')}.`,
+      );
+    }
+    return [...new Set(fields)];
+  }
+
+  private toFacetFields(value?: string | string[]): FacetField[] {
+    const fields = this.toFilterValues(value);
+    const unknown = fields.filter(
+      (field) => !(FACET_FIELDS as readonly string[]).includes(field),
+    );
+    if (unknown.length) {
+      throw new InvalidInputError(
+        `Unsupported facet field(s): ${unknown.join(', ')}. Use ${FACET_FIELDS.join(', ')}.`,
+      );
+    }
+    return [...new Set(fields)] as FacetField[];
+  }
+
+  private async getCityVocabulary(
+    datasets: string[],
+    profile: NormalizationProfile,
+  ): Promise<CityVocabulary> {
+    const key = `${datasets.join(',')}|${profile.locales.join(',')}`;
+    let cached = this.cityVocabularies.get(key);
+    if (!cached || cached.expiresAt <= Date.now()) {
+      const cities = await this.metricsService.timeQuery(
+        'city_vocabulary',
+        this.mapAddressModel
+          .distinct('properties.city', {
+            ...inDatasets(datasets),
+            ...ACTIVE_ADDRESS,
+          })
+          .exec(),
+      );
+      cached = {
+        value: new CityVocabulary(cities.map(String), profile),
+        expiresAt: Date.now() + CITY_VOCABULARY_TTL_MS,
+      };
+      this.cityVocabularies.set(key, cached);
     }
+    return cached.value;
   }
 
-  // Minimal WKT parser for POLYGON only
-  private parseWktRegion(wkt: string): PolygonDto {
-    const trimmed = wkt.trim();
-    const upper = trimmed.toUpperCase();
+  // Region of a query: a saved one by `regionId`, or one sent inline as
+  // GeoJSON `geometry` (preferred) or WKT `searchRegion`
+  private async resolveRegionInput(body: {
+    geometry?: unknown;
+    searchRegion?: string;
+    regionId?: string;
+  }): Promise<RegionGeometry | undefined> {
+    if (body.regionId) {
+      if (body.geometry || body.searchRegion) {
+        throw new InvalidInputError(
+          'Send either regionId or an inline searchRegion / geometry, not both.',
+        );
+      }
+      return await this.regionsService.getGeometry(body.regionId);
+    }
+    if (body.geometry) {
+      return parseRegion(body.geometry);
+    }
+    if (body.searchRegion) {
+      return parseRegion(body.searchRegion);
+    }
+    return undefined;
+  }
 
-    if (upper.startsWith('POLYGON')) {
-      // POLYGON((lon lat, lon lat, ...)) possibly with inner rings
-      const ringsStr = trimmed
-        .replace(/^\s*POLYGON\s*\(\(/i, '')
-        .replace(/\)\)\s*$/i, '');
+  private toRegionMatch(
+    region: RegionGeometry,
+  ): FilterQuery<MapAddressDocument> {
+    return { geometry: { $geoWithin: { $geometry: region } } };
+  }
 
-      const ringParts = this.splitRings(ringsStr);
-      const rings = ringParts.map((part) => this.parseCoordinates(part));
+  private toPoint(lon: unknown, lat: unknown): [number, number] {
+    const point = [Number(lon), Number(lat)];
+    if (
+      lon === undefined ||
+      lat === undefined ||
+      !Number.isFinite(point[0]) ||
+      !Number.isFinite(point[1]) ||
+      Math.abs(point[0]) > 180 ||
+      Math.abs(point[1]) > 90
+    ) {
+      throw new InvalidInputError(
+        'Point must be a valid [longitude, latitude] pair.',
+      );
+    }
+    return point as [number, number];
+  }
+
+  /**
+   * One keyset page of a region or proximity query. Rows are ordered by
+   * `sort` and resumed after the position in a signed cursor; one extra
+   * row is fetched so `hasMore` is exact. With a `near` point the rows come
+   * from $geoNear and carry their distance in meters. `stages` run after
+   * the match and may add the `fields` returned with each feature.
+   */
+  private async fetchPage(page: {
+    operation: string;
+    fingerprint: string;
+    match: FilterQuery<MapAddressDocument>;
+    near?: [number, number];
+    maxDistance?: number;
+    stages?: PipelineStage[];
+    fields?: ('distanceAlong' | 'offset')[];
+    sort: PageSort;
+    batchSize: number;
+    cursor?: string;
+  }): Promise<MapAddressBatchResponseDto> {
+    const { cursorSecret, cursorTtlSeconds } = this.configService.getOrThrow(
+      'pagination',
+      { infer: true },
+    );
+    const scope = { fingerprint: page.fingerprint, sort: page.sort };
+    const after = page.cursor
+      ? decodeCursor(page.cursor, scope, cursorSecret, cursorTtlSeconds)
+      : undefined;
+
+    const pipeline: PipelineStage[] = [];
+    if (page.near) {
+      // Rows closer than the last one returned cannot follow it
+      const minDistance =
+        page.sort === 'distance' && typeof after?.[0] === 'number'
+          ? after[0]
+          : undefined;
+      pipeline.push({
+        $geoNear: {
+          near: { type: 'Point', coordinates: page.near },
+          distanceField: 'distance',
+          ...(page.maxDistance !== undefined
+            ? { maxDistance: page.maxDistance }
+            : {}),
+          ...(minDistance !== undefined ? { minDistance } : {}),
+          query: page.match,
+          spherical: true,
+        },
+      });
+    } else {
+      pipeline.push({ $match: page.match });
+    }
+    pipeline.push(...(page.stages ?? []));
 
-      return { type: 'Polygon', coordinates: rings };
+    const fields = page.fields ?? [];
+    pipeline.push(...sortFieldStages(page.sort));
+    if (after) {
+      pipeline.push({ $match: afterKeyMatch(page.sort, after) });
     }
+    pipeline.push(
+      sortStage(page.sort),
+      { $limit: page.batchSize + 1 },
+      {
+        $project: {
+          _id: 1,
+          dataset: 1,
+          type: 1,
+          geometry: 1,
+          properties: 1,
+          ...(page.near ? { distance: 1 } : {}),
+          ...Object.fromEntries(fields.map((field) => [field, 1])),
+          sortKey: sortKeyProjection(page.sort),
+        },
+      },
+    );
+
+    const docs = await this.metricsService.timeQuery(
+      page.operation,
+      this.mapAddressModel.aggregate(pipeline).allowDiskUse(true).exec(),
+    );
 
-    throw new Error('Unsupported WKT type. Use POLYGON.');
+    const hasMore = docs.length > page.batchSize;
+    const rows = docs.slice(0, page.batchSize);
+    this.metricsService.observeResultSize(page.operation, rows.length);
+    const last = rows[rows.length - 1];
+
+    return {
+      geojson: {
+        type: 'FeatureCollection',
+        features: rows.map((row) => ({
+          _id: row._id?.toString(),
+          dataset: row.dataset,
+          type: row.type,
+          geometry: row.geometry,
+          properties: row.properties,
+          ...(row.distance !== undefined ? { distance: row.distance } : {}),
+          ...Object.fromEntries(fields.map((field) => [field, row[field]])),
+        })),
+      },
+      nextCursor: hasMore
+        ? encodeCursor(scope, toCursorKey(last.sortKey), cursorSecret)
+        : null,
+      hasMore,
+    };
   }
 
-  private splitRings(ringsStr: string): string[] {
-    // Split by '),(' between rings; be tolerant to spaces
-    return ringsStr.split(/\)\s*,\s*\(/);
+  // Whether the postcode occurs in the city anywhere in the queried data
+  private async checkPostcodeCity(
+    postcode: string,
+    city: string,
+    scope: FilterQuery<MapAddressDocument>,
+    profile: NormalizationProfile,
+  ): Promise<PostcodeCityCheckDto> {
+    if (!postcode || !city) {
+      return { status: 'not_checked' };
+    }
+
+    const cities: string[] = await this.metricsService.timeQuery(
+      'verify_postcode_city',
+      this.mapAddressModel
+        .distinct('properties.city', {
+          'search.postcode': postcode,
+          ...scope,
+        })
+        .exec(),
+    );
+    if (!cities.length) {
+      return { status: 'unknown_postcode' };
+    }
+
+    return cities.some(
+      (name) => toVerifyFields({ city: name }, profile).city === city,
+    )
+      ? { status: 'consistent' }
+      : { status: 'inconsistent', cities: cities.sort() };
   }
 
-  private parseCoordinates(coordsStr: string): number[][] {
-    // Split by comma into points, each point is "lon lat"
-    return coordsStr.split(/\s*,\s*/).map((pair) => {
-      const [lonStr, latStr] = pair.trim().split(/\s+/);
-      const lon = parseFloat(lonStr);
-      const lat = parseFloat(latStr);
-      if (Number.isNaN(lon) || Number.isNaN(lat)) {
-        throw new Error(`Invalid coordinate in WKT: ${pair}`);
+  // Translate MapAddressesFilterDto into an exact-match properties query,
+  // always limited to active addresses of the resolved datasets. Values
+  // may arrive as arrays or comma-separated strings.
+  private buildFilterQuery(
+    filters: MapAddressesFilterDto | undefined,
+    datasets: string[],
+  ): FilterQuery<MapAddressDocument> {
+    const query: FilterQuery<MapAddressDocument> = {
+      ...inDatasets(datasets),
+      ...ACTIVE_ADDRESS,
+    };
+    if (!filters) {
+      return query;
+    }
+
+    const listFields = [
+      'city',
+      'street',
+      'postcode',
+      'district',
+      'region',
+    ] as const;
+
+    for (const field of listFields) {
+      const values = this.toFilterValues(filters[field]);
+      if (values.length) {
+        query[`properties.${field}`] = { $in: values };
       }
-      return [lon, lat];
-    });
+    }
+
+    if (typeof filters.number === 'string' && filters.number.trim()) {
+      query['properties.number'] = filters.number.trim();
+    }
+
+    return query;
+  }
+
+  private toFilterValues(value?: string | string[]): string[] {
+    if (!value) {
+      return [];
+    }
+    const items = Array.isArray(value) ? value : String(value).split(',');
+    return items.map((item) => String(item).trim()).filter(Boolean);
   }
 }
@@ -0,0 +1,96 @@
+import { FilterQuery, PipelineStage, Types } from 'mongoose';
+import { InvalidCursorError } from '../../../errors/domain-errors';
+
+export const ADDRESS_SORTS = ['id', 'street', 'distance'] as const;
+
+export type AddressSort = (typeof ADDRESS_SORTS)[number];
+
+// Orders a page can have; `route` (distance along a corridor's line) is
+// not offered to the region and proximity routes
+export type PageSort = AddressSort | 'route';
+
+// Fields each order sorts on, ascending. Every order ends in _id so it is
+// total and keyset pages never overlap or skip rows.
+const SORT_FIELDS: Record<PageSort, string[]> = {
+  id: ['_id'],
+  street: ['sortStreet', 'sortNumber', 'sortSuffix', '_id'],
+  distance: ['distance', '_id'],
+  route: ['distanceAlong', '_id'],
+};
+
+// Street order compares computed fields: missing values become '' so range
+// comparisons never hit type bracketing, and house numbers sort by their
+// numeric part ("2" before "10") with the full text as tie-break ("4" < "4a")
+const STREET_SORT_FIELDS: PipelineStage.AddFields = {
+  $addFields: {
+    sortStreet: { $ifNull: ['$properties.street', ''] },
+    sortNumber: {
+      $let: {
+        vars: {
+          digits: {
+            $regexFind: {
+              input: { $ifNull: ['$properties.number', ''] },
+              regex: /^\d{1,15}/,
+            },
+          },
+        },
+        in: { $ifNull: [{ $toLong: '$$digits.match' }, 0] },
+      },
+    },
+    sortSuffix: { $ifNull: ['$properties.number', ''] },
+  },
+};
+
+// Stages that compute the sort fields; run them before afterKeyMatch
+export function sortFieldStages(sort: PageSort): PipelineStage[] {
+  return sort === 'street' ? [STREET_SORT_FIELDS] : [];
+}
+
+export function sortStage(sort: PageSort): PipelineStage.Sort {
+  return {
+    $sort: Object.fromEntries(
+      SORT_FIELDS[sort].map((field) => [field, 1 as const]),
+    ),
+  };
+}
+
+// Projection of a row's position in the sort order
+export function sortKeyProjection(sort: PageSort): string[] {
+  return SORT_FIELDS[sort].map((field) => `$${field}`);
+}
+
+// Sort key as stored in a cursor; ObjectIds become hex strings
+export function toCursorKey(key: unknown[]): unknown[] {
+  return key.map((value) =>
+    value instanceof Types.ObjectId ? value.toHexString() : value,
+  );
+}
+
+/**
+ * Rows strictly after `key` in the sort order: greater on the first field,
+ * or equal on it and greater on the next, and so on.
+ */
+export function afterKeyMatch(
+  sort: PageSort,
+  key: unknown[],
+): FilterQuery<unknown> {
+  const fields = SORT_FIELDS[sort];
+  const values = key.map((value, i) =>
+    fields[i] === '_id' && Types.ObjectId.isValid(String(value))
+      ? new Types.ObjectId(String(value))
+      : value,
+  );
+  if (
+    values.length !== fields.length ||
+    !(values[values.length - 1] instanceof Types.ObjectId)
+  ) {
+    throw new InvalidCursorError('Cursor position does not fit the sort order');
+  }
+
+  return {
+    $or: fields.map((field, i) => ({
+      ...Object.fromEntries(fields.slice(0, i).map((f, j) => [f, values[j]])),
+      [field]: { $gt: values[i] },
+    })),
+  };
+}
@@ -0,0 +1,133 @@
+import { createHmac } from 'crypto';
+import { InvalidCursorError } from '../../../errors/domain-errors';
+import {
+  CursorScope,
+  decodeCursor,
+  encodeCursor,
+  queryFingerprint,
+} from './page-cursor';
+
+const SECRET = 'test-secret';
+const TTL = 3600;
+
+const scope: CursorScope = {
+  fingerprint: queryFingerprint({ city: 'Appingedam', street: 'Kerkweg' }),
+  sort: 'street',
+};
+
+const payloadOf = (cursor: string) =>
+  JSON.parse(Buffer.from(cursor.split('.')[0], 'base64url').toString('utf8'));
+
+// A cursor with its payload changed and signed again, as only the server
+// holding the secret could
+function resign(cursor: string, change: Record<string, unknown>): string {
+  const data = Buffer.from(
+    JSON.stringify({ ...payloadOf(cursor), ...change }),
+  ).toString('base64url');
+  const signature = createHmac('sha256', SECRET)
+    .update(data)
+    .digest('base64url');
+  return `${data}.${signature}`;
+}
+
+describe('queryFingerprint', () => {
+  it('should not depend on key order or undefined members', () => {
+    expect(
+      queryFingerprint({
+        street: 'Kerkweg',
+        city: 'Appingedam',
+        unit: undefined,
+      }),
+    ).toBe(scope.fingerprint);
+  });
+
+  it('should differ between queries', () => {
+    expect(queryFingerprint({ city: 'Delfzijl', street: 'Kerkweg' })).not.toBe(
+      scope.fingerprint,
+    );
+  });
+});
+
+describe('decodeCursor', () => {
+  afterEach(() => jest.useRealTimers());
+
+  it('should return the sort key the cursor was issued with', () => {
+    const key = ['kerkweg', 12, 'a1'];
+    const cursor = encodeCursor(scope, key, SECRET);
+
+    expect(decodeCursor(cursor, scope, SECRET, TTL)).toEqual(key);
+  });
+
+  it('should be opaque to clients', () => {
+    expect(encodeCursor(scope, ['x'], SECRET)).toMatch(
+      /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/,
+    );
+  });
+
+  it('should reject malformed cursors', () => {
+    ['', 'abc', 'a.b.c', '.sig'].forEach((cursor) =>
+      expect(() => decodeCursor(cursor, scope, SECRET, TTL)).toThrow(
+        'Malformed cursor',
+      ),
+    );
+  });
+
+  it('should reject an edited cursor or one signed with another secret', () => {
+    const cursor = encodeCursor(scope, ['kerkweg'], SECRET);
+    const [, signature] = cursor.split('.');
+    const edited = `${Buffer.from(
+      JSON.stringify({ ...payloadOf(cursor), k: ['zzz'] }),
+    ).toString('base64url')}.${signature}`;
+
+    expect(() => decodeCursor(edited, scope, SECRET, TTL)).toThrow(
+      'Cursor signature does not match',
+    );
+    expect(() => decodeCursor(cursor, scope, 'other-secret', TTL)).toThrow(
+      'Cursor signature does not match',
+    );
+  });
+
+  it('should reject a cursor of another query or sort order', () => {
+    const cursor = encodeCursor(scope, ['kerkweg'], SECRET);
+    const message = 'Cursor belongs to a different query or sort order';
+
+    expect(() =>
+      decodeCursor(
+        cursor,
+        { ...scope, fingerprint: queryFingerprint({ city: 'Delfzijl' }) },
+        SECRET,
+        TTL,
+      ),
+    ).toThrow(message);
+    expect(() =>
+      decodeCursor(cursor, { ...scope, sort: '-street' }, SECRET, TTL),
+    ).toThrow(message);
+  });
+
+  it('should reject a cursor of another version', () => {
+    const cursor = resign(encodeCursor(scope, ['kerkweg'], SECRET), { v: 2 });
+
+    expect(() => decodeCursor(cursor, scope, SECRET, TTL)).toThrow(
+      'Cursor was issued by another API version',
+    );
+  });
+
+  it('should reject an expired cursor', () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const cursor = encodeCursor(scope, ['kerkweg'], SECRET);
+
+    jest.setSystemTime(new Date('2026-01-01T00:59:59Z'));
+    expect(decodeCursor(cursor, scope, SECRET, TTL)).toEqual(['kerkweg']);
+
+    jest.setSystemTime(new Date('2026-01-01T01:00:01Z'));
+    expect(() => decodeCursor(cursor, scope, SECRET, TTL)).toThrow(
+      'Cursor has expired; start from page one',
+    );
+  });
+
+  it('should throw InvalidCursorError', () => {
+    expect(() => decodeCursor('abc', scope, SECRET, TTL)).toThrow(
+      InvalidCursorError,
+    );
+  });
+});
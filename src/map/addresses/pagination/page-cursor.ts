@@ -0,0 +1,91 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { InvalidCursorError } from '../../../errors/domain-errors';
+import { canonicalJson } from '../../../utils/canonical-json';
+
+const CURSOR_VERSION = 1;
+
+type CursorPayload = {
+  v: number;
+  // Fingerprint of the query the cursor belongs to
+  f: string;
+  // Sort order and the sort key of the last row returned
+  s: string;
+  k: unknown[];
+  // Issued at, seconds since the epoch
+  t: number;
+};
+
+export type CursorScope = {
+  fingerprint: string;
+  sort: string;
+};
+
+export function queryFingerprint(query: unknown): string {
+  return createHash('sha256')
+    .update(canonicalJson(query))
+    .digest('base64url')
+    .slice(0, 22);
+}
+
+const sign = (data: string, secret: string) =>
+  createHmac('sha256', secret).update(data).digest('base64url');
+
+/**
+ * Opaque page cursor: the query fingerprint, sort order and position,
+ * signed so a client can neither edit it nor replay it against another
+ * query.
+ */
+export function encodeCursor(
+  scope: CursorScope,
+  key: unknown[],
+  secret: string,
+): string {
+  const payload: CursorPayload = {
+    v: CURSOR_VERSION,
+    f: scope.fingerprint,
+    s: scope.sort,
+    k: key,
+    t: Math.floor(Date.now() / 1000),
+  };
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${data}.${sign(data, secret)}`;
+}
+
+// Sort key stored in a cursor issued for the same query and sort order
+export function decodeCursor(
+  cursor: string,
+  scope: CursorScope,
+  secret: string,
+  ttlSeconds: number,
+): unknown[] {
+  const [data, signature, ...rest] = cursor.split('.');
+  if (!data || !signature || rest.length) {
+    throw new InvalidCursorError('Malformed cursor');
+  }
+
+  const expected = Buffer.from(sign(data, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new InvalidCursorError('Cursor signature does not match');
+  }
+
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError('Malformed cursor');
+  }
+
+  if (payload.v !== CURSOR_VERSION || !Array.isArray(payload.k)) {
+    throw new InvalidCursorError('Cursor was issued by another API version');
+  }
+  if (payload.f !== scope.fingerprint || payload.s !== scope.sort) {
+    throw new InvalidCursorError(
+      'Cursor belongs to a different query or sort order',
+    );
+  }
+  if (payload.t + ttlSeconds < Date.now() / 1000) {
+    throw new InvalidCursorError('Cursor has expired; start from page one');
+  }
+  return payload.k;
+}
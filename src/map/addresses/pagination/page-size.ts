@@ -0,0 +1,4 @@
+// Page size of a region, proximity or corridor query without limit or
+// batchSize, and the largest one a client may ask for
+export const DEFAULT_BATCH_SIZE = 500;
+export const MAX_BATCH_SIZE = 1000;
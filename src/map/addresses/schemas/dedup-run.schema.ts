@@ -0,0 +1,64 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type DedupRunDocument = DedupRun & Document;
+
+export type DedupRunStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+// One pass of the duplicate detection over a dataset; the groups it finds
+// live in duplicate_groups
+@Schema({ timestamps: true, collection: 'dedup_runs', versionKey: false })
+export class DedupRun {
+  @Prop({
+    type: String,
+    enum: ['queued', 'running', 'completed', 'failed'],
+    required: true,
+  })
+  status: DedupRunStatus;
+
+  @Prop({ type: String, required: true })
+  dataset: string;
+
+  @Prop({ type: Number, required: true })
+  maxDistance: number;
+
+  @Prop({ type: Number, required: true })
+  minStreetSimilarity: number;
+
+  // Active addresses in the dataset when the run started
+  @Prop({ type: Number, default: 0 })
+  total: number;
+
+  @Prop({ type: Number, default: 0 })
+  processed: number;
+
+  @Prop({ type: Number, default: 0 })
+  groups: number;
+
+  // Addresses are visited in _id order; a resumed run continues after this
+  @Prop({ type: Types.ObjectId, default: undefined })
+  lastAddress?: Types.ObjectId;
+
+  @Prop({ type: String, required: true })
+  createdBy: string;
+
+  @Prop({ type: String, default: undefined })
+  error?: string;
+
+  @Prop({ type: Date, default: undefined })
+  startedAt?: Date;
+
+  @Prop({ type: Date, default: undefined })
+  finishedAt?: Date;
+
+  // Touched after every chunk; a running run that stops being touched is
+  // picked up again on the next start
+  @Prop({ type: Date, default: undefined })
+  heartbeatAt?: Date;
+
+  createdAt?: Date;
+}
+
+export const DedupRunSchema = SchemaFactory.createForClass(DedupRun);
+
+DedupRunSchema.index({ status: 1, createdAt: 1 });
@@ -0,0 +1,89 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema, Types } from 'mongoose';
+import { DuplicateKind } from '../dedup/near-duplicates';
+
+export type DuplicateGroupDocument = DuplicateGroup & Document;
+
+export type DuplicateGroupStatus = 'open' | 'merged' | 'dismissed';
+
+// A record as it was when the run found it
+export type DuplicateMember = {
+  address: Types.ObjectId;
+  id: string;
+  properties: Record<string, string>;
+  coordinates: [number, number];
+};
+
+// Records a dedup run believes are one address, awaiting review
+@Schema({ timestamps: true, collection: 'duplicate_groups', versionKey: false })
+export class DuplicateGroup {
+  @Prop({ type: Types.ObjectId, required: true })
+  run: Types.ObjectId;
+
+  @Prop({ type: String, required: true })
+  dataset: string;
+
+  // Normalized street|number|unit|postcode of the first record
+  @Prop({ type: String, required: true })
+  key: string;
+
+  // "exact" when every pair agrees on the normalized fields, "similar"
+  // when street spelling or a missing postcode differ
+  @Prop({ type: String, enum: ['exact', 'similar'], required: true })
+  kind: DuplicateKind;
+
+  @Prop({
+    type: [
+      new MongooseSchema(
+        {
+          address: { type: MongooseSchema.Types.ObjectId, required: true },
+          id: String,
+          properties: Object,
+          coordinates: [Number],
+        },
+        { _id: false },
+      ),
+    ],
+    required: true,
+  })
+  members: DuplicateMember[];
+
+  // Largest distance between any two members, in meters
+  @Prop({ type: Number, default: 0 })
+  spread: number;
+
+  @Prop({
+    type: String,
+    enum: ['open', 'merged', 'dismissed'],
+    default: 'open',
+  })
+  status: DuplicateGroupStatus;
+
+  // properties.id of the record kept by a merge
+  @Prop({ type: String, default: undefined })
+  canonical?: string;
+
+  @Prop({
+    type: { id: String, name: String },
+    default: undefined,
+    _id: false,
+  })
+  reviewedBy?: { id: string; name?: string };
+
+  @Prop({ type: Date, default: undefined })
+  reviewedAt?: Date;
+
+  @Prop({ type: String, default: undefined })
+  reason?: string;
+
+  createdAt?: Date;
+}
+
+export const DuplicateGroupSchema =
+  SchemaFactory.createForClass(DuplicateGroup);
+
+// Review queue of a run
+DuplicateGroupSchema.index({ run: 1, status: 1, _id: 1 });
+// Groups a record belongs to: open ones of the current run, dismissed
+// ones of earlier runs
+DuplicateGroupSchema.index({ 'members.address': 1, run: 1 });
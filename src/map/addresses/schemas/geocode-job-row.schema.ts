@@ -0,0 +1,26 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { GeocodeResult } from '../geocoding/batch-geocoding';
+
+export type GeocodeJobRowDocument = GeocodeJobRow & Document;
+
+@Schema({ collection: 'geocode_job_rows', versionKey: false })
+export class GeocodeJobRow {
+  @Prop({ type: Types.ObjectId, required: true })
+  job: Types.ObjectId;
+
+  // Position in the uploaded file, data rows only
+  @Prop({ type: Number, required: true })
+  index: number;
+
+  @Prop({ type: [String], required: true })
+  cells: string[];
+
+  // Absent until the row has been geocoded
+  @Prop({ type: Object, default: undefined })
+  result?: GeocodeResult;
+}
+
+export const GeocodeJobRowSchema = SchemaFactory.createForClass(GeocodeJobRow);
+
+GeocodeJobRowSchema.index({ job: 1, index: 1 }, { unique: true });
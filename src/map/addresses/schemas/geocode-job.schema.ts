@@ -0,0 +1,66 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type GeocodeJobDocument = GeocodeJob & Document;
+
+export type GeocodeJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+// One uploaded CSV resolved in the background; its rows live in
+// geocode_job_rows
+@Schema({ timestamps: true, collection: 'geocode_jobs', versionKey: false })
+export class GeocodeJob {
+  @Prop({
+    type: String,
+    enum: ['queued', 'running', 'completed', 'failed'],
+    required: true,
+  })
+  status: GeocodeJobStatus;
+
+  // Id of the API key that uploaded the job; only that key can read it.
+  // Unset when API keys are disabled
+  @Prop({ type: String, default: undefined })
+  apiKey?: string;
+
+  @Prop({ type: String, default: '' })
+  filename: string;
+
+  // Header of the uploaded CSV, repeated in the result
+  @Prop({ type: [String], required: true })
+  columns: string[];
+
+  @Prop({ type: Number, required: true })
+  alternatives: number;
+
+  // Datasets the rows are matched against, fixed when the job is created
+  @Prop({ type: [String], default: undefined })
+  datasets?: string[];
+
+  @Prop({ type: Number, required: true })
+  total: number;
+
+  @Prop({ type: Number, default: 0 })
+  processed: number;
+
+  @Prop({ type: Number, default: 0 })
+  matched: number;
+
+  @Prop({ type: String, default: undefined })
+  error?: string;
+
+  @Prop({ type: Date, default: undefined })
+  startedAt?: Date;
+
+  @Prop({ type: Date, default: undefined })
+  finishedAt?: Date;
+
+  // Touched after every chunk; a running job that stops being touched is
+  // picked up again on the next start
+  @Prop({ type: Date, default: undefined })
+  heartbeatAt?: Date;
+
+  createdAt?: Date;
+}
+
+export const GeocodeJobSchema = SchemaFactory.createForClass(GeocodeJob);
+
+GeocodeJobSchema.index({ status: 1, createdAt: 1 });
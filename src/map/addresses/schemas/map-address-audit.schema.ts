@@ -0,0 +1,71 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type MapAddressAuditDocument = MapAddressAudit & Document;
+
+// revert: a release diff rollback put back what its apply wrote
+export type MapAddressAuditAction =
+  | 'create'
+  | 'update'
+  | 'retire'
+  | 'merge'
+  | 'revert';
+
+// Snapshot of the editable parts of an address
+export type MapAddressSnapshot = {
+  type: string;
+  geometry: { type: 'Point'; coordinates: [number, number] };
+  properties: Record<string, string>;
+  retiredAt?: Date;
+  mergedInto?: string;
+};
+
+// One entry per change made through the address management API or by
+// applying or rolling back a release diff
+@Schema({ collection: 'address_audit', versionKey: false })
+export class MapAddressAudit {
+  @Prop({ type: Types.ObjectId, required: true })
+  address: Types.ObjectId;
+
+  // properties.id at the time of the change
+  @Prop({ required: true })
+  addressId: string;
+
+  @Prop({
+    type: String,
+    enum: ['create', 'update', 'retire', 'merge', 'revert'],
+    required: true,
+  })
+  action: MapAddressAuditAction;
+
+  @Prop({ type: Object, default: null })
+  before: MapAddressSnapshot | null;
+
+  @Prop({ type: Object, default: null })
+  after: MapAddressSnapshot | null;
+
+  @Prop({
+    type: { id: String, name: String },
+    required: true,
+    _id: false,
+  })
+  author: { id: string; name?: string };
+
+  @Prop({ type: String, default: undefined })
+  reason?: string;
+
+  // Release diff that made the change, if any
+  @Prop({ type: Types.ObjectId, default: undefined })
+  diff?: Types.ObjectId;
+
+  @Prop({ type: Date, required: true })
+  at: Date;
+}
+
+export const MapAddressAuditSchema =
+  SchemaFactory.createForClass(MapAddressAudit);
+
+// History of one address, newest first
+MapAddressAuditSchema.index({ addressId: 1, at: -1 });
+MapAddressAuditSchema.index({ address: 1, at: -1 });
+MapAddressAuditSchema.index({ diff: 1 }, { sparse: true });
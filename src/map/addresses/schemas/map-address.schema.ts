@@ -1,10 +1,25 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
+import { buildDerivedFields } from '../search/derived-fields';
+import { getNormalizationProfile } from '../search/default-profile';
+import { MapDataset } from '../../datasets/schemas/map-dataset.schema';
 
 export type MapAddressDocument = MapAddress & Document;
 
+// Retired addresses are kept for history but never returned by queries
+export const ACTIVE_ADDRESS = { retiredAt: null };
+
+// Addresses of the given datasets; a single key keeps the match an equality
+export const inDatasets = (datasets: string[]) => ({
+  dataset: datasets.length === 1 ? datasets[0] : { $in: datasets },
+});
+
 @Schema({ timestamps: true, collection: 'addresses' })
 export class MapAddress {
+  // Key of the dataset the address belongs to; see MapDataset
+  @Prop({ type: String, required: true })
+  dataset: string;
+
   @Prop({ required: true })
   type: string;
 
@@ -50,6 +65,48 @@ export class MapAddress {
     postcode: string;
     id: string;
   };
+
+  // Set when an editor retires the address; retired addresses stay for
+  // history but no longer match any query
+  @Prop({ type: Date, default: undefined })
+  retiredAt?: Date;
+
+  @Prop({ type: String, default: undefined })
+  retiredBy?: string;
+
+  // properties.id of the record a duplicate was merged into (same
+  // dataset); lookups of the retired id are redirected there
+  @Prop({ type: String, default: undefined })
+  mergedInto?: string;
+
+  // Edge n-grams for typeahead, derived from properties on write
+  @Prop({ type: [String], default: undefined })
+  autocomplete?: string[];
+
+  // Normalized text, whole-word tokens and per-field values used to
+  // match and rank search candidates
+  @Prop({
+    type: {
+      text: String,
+      tokens: [String],
+      street: String,
+      number: String,
+      unit: String,
+      postcode: String,
+      city: String,
+    },
+    default: undefined,
+    _id: false,
+  })
+  search?: {
+    text: string;
+    tokens: string[];
+    street: string;
+    number: string;
+    unit: string;
+    postcode: string;
+    city: string;
+  };
 }
 
 export const MapAddressSchema = SchemaFactory.createForClass(MapAddress);
@@ -57,14 +114,45 @@ export const MapAddressSchema = SchemaFactory.createForClass(MapAddress);
 // Create 2dsphere index for efficient spatial queries
 MapAddressSchema.index({ geometry: '2dsphere' });
 
-// Create unique index on properties.id to prevent duplicates
-MapAddressSchema.index({ 'properties.id': 1 }, { unique: true });
-
-// Create unique index on properties.hash as secondary unique identifier
-MapAddressSchema.index({ 'properties.hash': 1 }, { unique: true });
+// properties.id and properties.hash identify an address within its
+// dataset; two datasets may carry the same id or hash
+MapAddressSchema.index({ dataset: 1, 'properties.id': 1 }, { unique: true });
+MapAddressSchema.index({ dataset: 1, 'properties.hash': 1 }, { unique: true });
 
 // Create compound indexes for common query patterns
 MapAddressSchema.index({ 'properties.street': 1 });
 MapAddressSchema.index({ 'properties.number': 1 });
 MapAddressSchema.index({ 'properties.postcode': 1 });
 MapAddressSchema.index({ 'properties.city': 1 });
+
+// Multikey index backing the autocomplete endpoint
+MapAddressSchema.index({ autocomplete: 1 });
+
+// Candidate lookups of the verify endpoint
+MapAddressSchema.index({ 'search.postcode': 1, 'search.number': 1 });
+MapAddressSchema.index({ 'search.street': 1, 'search.number': 1 });
+
+// Latest change, the data version result-cache keys are built from
+MapAddressSchema.index({ updatedAt: -1 });
+
+// Keep derived search keys in sync for document saves, normalized for the
+// locales of the address' dataset; bulk writers (importer, backfill,
+// release diff) compute them explicitly
+MapAddressSchema.pre('save', async function () {
+  if (this.isNew || this.isModified('properties')) {
+    const datasets = this.db.models[MapDataset.name];
+    const dataset = datasets
+      ? await datasets
+          .findOne({ key: this.dataset })
+          .select('locales')
+          .lean<Pick<MapDataset, 'locales'>>()
+          .exec()
+      : null;
+    this.set(
+      buildDerivedFields(
+        this.properties,
+        getNormalizationProfile(dataset?.locales),
+      ),
+    );
+  }
+});
@@ -0,0 +1,103 @@
+import { MapAddress } from '../schemas/map-address.schema';
+import { getDefaultNormalizationProfile } from './default-profile';
+import {
+  foldText,
+  foldTokens,
+  NormalizationProfile,
+  normalizeText,
+} from './normalization';
+
+// Longer query tokens are truncated to this length before lookup
+export const AUTOCOMPLETE_MAX_GRAM = 20;
+
+export function tokenize(
+  value: string,
+  profile: NormalizationProfile = getDefaultNormalizationProfile(),
+): string[] {
+  return normalizeText(value, profile).split(' ').filter(Boolean);
+}
+
+function edgeGrams(token: string): string[] {
+  const grams: string[] = [];
+  const max = Math.min(token.length, AUTOCOMPLETE_MAX_GRAM);
+  for (let length = 1; length <= max; length++) {
+    grams.push(token.slice(0, length));
+  }
+  return grams;
+}
+
+/**
+ * Edge n-grams of every street, number, postcode and city token, stored on
+ * each address so typeahead lookups are a multikey index hit instead of a
+ * regex scan. Postcodes and numbers also get their compacted form
+ * ("9901ck").
+ */
+export function buildAutocompleteKeys(
+  properties: Partial<MapAddress['properties']>,
+  profile: NormalizationProfile = getDefaultNormalizationProfile(),
+): string[] {
+  const keys = new Set<string>();
+  const tokens = [
+    ...tokenize(properties.street ?? '', profile),
+    // Codes are keyed both folded and expanded: the query parser reads
+    // "9901 LN" as a postcode, free-text lookups expand "ln" to "laan"
+    ...foldTokens(properties.number ?? ''),
+    ...tokenize(properties.number ?? '', profile),
+    ...foldTokens(properties.postcode ?? ''),
+    ...tokenize(properties.postcode ?? '', profile),
+    ...tokenize(properties.city ?? '', profile),
+    // Compacted forms so "9901ck" and "12a" match "9901 CK" and "12 A"
+    foldTokens(properties.postcode ?? '').join(''),
+    foldTokens(properties.number ?? '').join(''),
+  ];
+
+  for (const token of tokens) {
+    edgeGrams(token).forEach((gram) => keys.add(gram));
+  }
+
+  return [...keys];
+}
+
+export function toAutocompleteTokens(
+  query: string,
+  profile: NormalizationProfile = getDefaultNormalizationProfile(),
+): string[] {
+  return [
+    ...new Set(
+      tokenize(query, profile).map((token) =>
+        token.slice(0, AUTOCOMPLETE_MAX_GRAM),
+      ),
+    ),
+  ];
+}
+
+// Spans of label words that start with one of the typed tokens
+export function highlightSpans(
+  label: string,
+  tokens: string[],
+): { start: number; end: number }[] {
+  const spans: { start: number; end: number }[] = [];
+  const words = [...label.matchAll(/[\p{L}\p{N}]+/gu)];
+
+  for (const token of tokens) {
+    const word = words.find((w) => foldText(w[0]).startsWith(token));
+    if (word && word.index !== undefined) {
+      // Folding can change lengths ("ß" → "ss"), so stay inside the word
+      spans.push({
+        start: word.index,
+        end: word.index + Math.min(token.length, word[0].length),
+      });
+    }
+  }
+
+  spans.sort((a, b) => a.start - b.start);
+  return spans.reduce<{ start: number; end: number }[]>((merged, span) => {
+    const previous = merged[merged.length - 1];
+    if (previous && span.start <= previous.end) {
+      previous.end = Math.max(previous.end, span.end);
+    } else {
+      merged.push(span);
+    }
+    return merged;
+  }, []);
+}
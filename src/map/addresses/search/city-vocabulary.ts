@@ -0,0 +1,50 @@
+import { getDefaultNormalizationProfile } from './default-profile';
+import { NormalizationProfile, normalizeText } from './normalization';
+
+/**
+ * Normalized city names known to the dataset, used by the query parser to
+ * recognise multi-word cities ("Den Haag", "San Giuliano Terme") and, for
+ * the last word of a query, city prefixes.
+ */
+export class CityVocabulary {
+  private readonly names: string[];
+  private readonly lookup: Set<string>;
+  readonly maxWords: number;
+
+  constructor(
+    cities: string[],
+    profile: NormalizationProfile = getDefaultNormalizationProfile(),
+  ) {
+    this.lookup = new Set(
+      cities.map((city) => normalizeText(city, profile)).filter(Boolean),
+    );
+    this.names = [...this.lookup].sort();
+    this.maxWords = Math.max(
+      1,
+      ...this.names.map((name) => name.split(' ').length),
+    );
+  }
+
+  get size(): number {
+    return this.names.length;
+  }
+
+  has(name: string): boolean {
+    return this.lookup.has(name);
+  }
+
+  // Binary search for the first name at or after the prefix
+  hasPrefix(prefix: string): boolean {
+    let low = 0;
+    let high = this.names.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.names[mid] < prefix) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low < this.names.length && this.names[low].startsWith(prefix);
+  }
+}
@@ -0,0 +1,36 @@
+import searchConfig from '../../config/search.config';
+import { SearchConfig } from '../../config/search-config.type';
+import {
+  buildNormalizationProfile,
+  NormalizationProfile,
+} from './normalization';
+
+// Compiled profiles by locale list; a process only ever sees a handful
+const profiles = new Map<string, NormalizationProfile>();
+
+let config: SearchConfig | undefined;
+
+const getSearchConfig = (): SearchConfig =>
+  (config ??= searchConfig() as SearchConfig);
+
+// Profile for the configured SEARCH_LOCALES, compiled once per process
+export function getDefaultNormalizationProfile(): NormalizationProfile {
+  return getNormalizationProfile(getSearchConfig().locales);
+}
+
+/**
+ * Profile for the locales of a dataset, with the SEARCH_ABBREVIATIONS_FILE
+ * overrides applied; no locales means the SEARCH_LOCALES default.
+ */
+export function getNormalizationProfile(
+  locales?: string[] | null,
+): NormalizationProfile {
+  const list = locales?.length ? locales : getSearchConfig().locales;
+  const key = list.join(',');
+  let profile = profiles.get(key);
+  if (!profile) {
+    profile = buildNormalizationProfile(list, getSearchConfig().abbreviations);
+    profiles.set(key, profile);
+  }
+  return profile;
+}
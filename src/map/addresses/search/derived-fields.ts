@@ -0,0 +1,21 @@
+import { MapAddress } from '../schemas/map-address.schema';
+import { buildAutocompleteKeys } from './autocomplete';
+import { buildSearchFields } from './search-pipeline';
+import { getDefaultNormalizationProfile } from './default-profile';
+import { NormalizationProfile } from './normalization';
+
+export type DerivedFields = Pick<MapAddress, 'autocomplete' | 'search'>;
+
+/**
+ * Search fields computed from an address' properties. Every writer (schema
+ * save hook, importer, backfill) goes through here so they stay in sync.
+ */
+export function buildDerivedFields(
+  properties: Partial<MapAddress['properties']>,
+  profile: NormalizationProfile = getDefaultNormalizationProfile(),
+): DerivedFields {
+  return {
+    autocomplete: buildAutocompleteKeys(properties, profile),
+    search: buildSearchFields(properties, profile),
+  };
+}
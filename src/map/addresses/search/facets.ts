@@ -0,0 +1,52 @@
+import { FilterQuery, PipelineStage } from 'mongoose';
+import { MapAddress } from '../schemas/map-address.schema';
+
+export const FACET_FIELDS = [
+  'city',
+  'street',
+  'postcode',
+  'district',
+  'region',
+] as const;
+
+export type FacetField = (typeof FACET_FIELDS)[number];
+
+export type FacetCounts = Partial<
+  Record<FacetField, { value: string; count: number }[]>
+>;
+
+// Values per facet, most frequent first
+export const FACET_VALUE_LIMIT = 50;
+
+/**
+ * Counts values per facet field in a single `$facet`, alongside the
+ * `results` stages when given. Results see every filter; each facet ignores
+ * the filter on its own field so its counts show what picking another
+ * value would give.
+ */
+export function buildFacetPipeline(
+  baseMatch: FilterQuery<MapAddress>,
+  filterQuery: FilterQuery<MapAddress>,
+  fields: FacetField[],
+  results?: PipelineStage.FacetPipelineStage[],
+): PipelineStage[] {
+  const facets: Record<string, PipelineStage.FacetPipelineStage[]> = {};
+  if (results) {
+    facets.results = [{ $match: filterQuery }, ...results];
+  }
+
+  for (const field of fields) {
+    const otherFilters = { ...filterQuery };
+    delete otherFilters[`properties.${field}`];
+    facets[field] = [
+      { $match: otherFilters },
+      { $group: { _id: `$properties.${field}`, count: { $sum: 1 } } },
+      { $match: { _id: { $nin: [null, ''] } } },
+      { $sort: { count: -1, _id: 1 } },
+      { $limit: FACET_VALUE_LIMIT },
+      { $project: { _id: 0, value: '$_id', count: 1 } },
+    ];
+  }
+
+  return [{ $match: baseMatch }, { $facet: facets }];
+}
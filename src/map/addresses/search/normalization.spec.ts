@@ -0,0 +1,115 @@
+import {
+  buildNormalizationProfile,
+  foldText,
+  foldTokens,
+  normalizeText,
+  normalizeTokens,
+} from './normalization';
+
+describe('foldText', () => {
+  it('should lowercase and strip diacritics', () => {
+    expect(foldText('Città di Castello')).toBe('citta di castello');
+    expect(foldText('Émile Zolastraße')).toBe('emile zolastrasse');
+  });
+
+  it('should spell out letters without a decomposition', () => {
+    expect(foldText('Ærø Øster Łódź')).toBe('aero oster lodz');
+  });
+
+  it('should split the ĳ ligature', () => {
+    expect(foldText('Ĳsselmeer')).toBe('ijsselmeer');
+  });
+
+  it('should treat null and undefined as empty', () => {
+    expect(foldText(undefined as unknown as string)).toBe('');
+    expect(foldText(null as unknown as string)).toBe('');
+  });
+});
+
+describe('normalizeTokens', () => {
+  it('should split on anything but letters and digits', () => {
+    expect(normalizeTokens('prins-hendrik  12/a')).toEqual([
+      'prins',
+      'hendrik',
+      '12',
+      'a',
+    ]);
+  });
+});
+
+describe('foldTokens', () => {
+  it('should fold without expanding abbreviations', () => {
+    expect(foldTokens('9901 LN')).toEqual(['9901', 'ln']);
+  });
+});
+
+describe('normalizeText', () => {
+  const dutch = buildNormalizationProfile(['nl']);
+  const italian = buildNormalizationProfile(['it']);
+  const english = buildNormalizationProfile(['en']);
+
+  it('should expand whole-word abbreviations with or without a dot', () => {
+    expect(normalizeText('Burg. de Withstr', dutch)).toBe(
+      'burgemeester de withstraat',
+    );
+    expect(normalizeText('Pr Hendrikln', dutch)).toBe('prins hendriklaan');
+  });
+
+  it('should expand compound abbreviations at the end of a word only', () => {
+    expect(normalizeText('Hoofdstr. 1', dutch)).toBe('hoofdstraat 1');
+    expect(normalizeText('Strandweg', dutch)).toBe('strandweg');
+  });
+
+  it('should not expand whole-word abbreviations inside a word', () => {
+    expect(normalizeText('Stationsweg', dutch)).toBe('stationsweg');
+    expect(normalizeText('Burgwal', dutch)).toBe('burgwal');
+  });
+
+  it('should apply abbreviations ending with a dot', () => {
+    expect(normalizeText('V. Roma', italian)).toBe('via roma');
+    expect(normalizeText('P.zza Garibaldi', italian)).toBe('piazza garibaldi');
+  });
+
+  it('should read the same abbreviation by the locales of the profile', () => {
+    expect(normalizeText('Main St', english)).toBe('main street');
+    expect(normalizeText('Main St', dutch)).toBe('main sint');
+  });
+
+  it('should only fold for locales without rules', () => {
+    expect(normalizeText('Hoofdstr.', buildNormalizationProfile(['fr']))).toBe(
+      'hoofdstr',
+    );
+  });
+
+  it('should give indexing and querying the same tokens', () => {
+    expect(normalizeText('HOOFDSTRAAT', dutch)).toBe(
+      normalizeText('hoofdstr', dutch),
+    );
+  });
+});
+
+describe('buildNormalizationProfile', () => {
+  it('should keep the locales it was built for', () => {
+    expect(buildNormalizationProfile(['nl', 'it']).locales).toEqual([
+      'nl',
+      'it',
+    ]);
+  });
+
+  it('should replace the built-in rules of a locale with its overrides', () => {
+    const profile = buildNormalizationProfile(['nl'], {
+      nl: [{ abbreviation: 'wg', expansion: 'weg', compound: true }],
+    });
+
+    expect(normalizeText('Kerkwg', profile)).toBe('kerkweg');
+    expect(normalizeText('Hoofdstr', profile)).toBe('hoofdstr');
+  });
+
+  it('should fold the abbreviations and expansions of overrides', () => {
+    const profile = buildNormalizationProfile(['de'], {
+      de: [{ abbreviation: 'Str', expansion: 'Straße', compound: true }],
+    });
+
+    expect(normalizeText('Hauptstr.', profile)).toBe('hauptstrasse');
+  });
+});
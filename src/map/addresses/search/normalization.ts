@@ -0,0 +1,131 @@
+export type AbbreviationRule = {
+  abbreviation: string;
+  expansion: string;
+  // Also match at the end of a compound word ("Hoofdstr." → "hoofdstraat")
+  compound?: boolean;
+};
+
+// Abbreviations are written in folded form (lowercase, no diacritics)
+export const LOCALE_ABBREVIATIONS: Record<string, AbbreviationRule[]> = {
+  nl: [
+    { abbreviation: 'str', expansion: 'straat', compound: true },
+    { abbreviation: 'ln', expansion: 'laan', compound: true },
+    { abbreviation: 'pln', expansion: 'plein', compound: true },
+    { abbreviation: 'gr', expansion: 'gracht', compound: true },
+    { abbreviation: 'sngl', expansion: 'singel', compound: true },
+    { abbreviation: 'pr', expansion: 'prins' },
+    { abbreviation: 'burg', expansion: 'burgemeester' },
+    { abbreviation: 'st', expansion: 'sint' },
+  ],
+  it: [
+    { abbreviation: 'v.le', expansion: 'viale' },
+    { abbreviation: 'p.za', expansion: 'piazza' },
+    { abbreviation: 'p.zza', expansion: 'piazza' },
+    { abbreviation: 'p.le', expansion: 'piazzale' },
+    { abbreviation: 'c.so', expansion: 'corso' },
+    { abbreviation: 'l.go', expansion: 'largo' },
+    { abbreviation: 'v.lo', expansion: 'vicolo' },
+    { abbreviation: 'v.', expansion: 'via' },
+    { abbreviation: 's.', expansion: 'san' },
+  ],
+  de: [
+    { abbreviation: 'str', expansion: 'strasse', compound: true },
+    { abbreviation: 'pl', expansion: 'platz', compound: true },
+  ],
+  en: [
+    { abbreviation: 'st', expansion: 'street' },
+    { abbreviation: 'rd', expansion: 'road' },
+    { abbreviation: 'ave', expansion: 'avenue' },
+    { abbreviation: 'blvd', expansion: 'boulevard' },
+  ],
+};
+
+// Letters NFKD does not decompose into a base letter plus marks
+const SPECIAL_LETTERS: Record<string, string> = {
+  ß: 'ss',
+  æ: 'ae',
+  œ: 'oe',
+  ø: 'o',
+  ł: 'l',
+  đ: 'd',
+  ð: 'd',
+  þ: 'th',
+  ı: 'i',
+};
+
+export type NormalizationProfile = {
+  locales: string[];
+  replacements: { pattern: RegExp; expansion: string }[];
+};
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Compiles the abbreviation rules of the given locales, with `overrides`
+ * replacing the built-in rules of a locale when present.
+ */
+export function buildNormalizationProfile(
+  locales: string[],
+  overrides: Record<string, AbbreviationRule[]> = {},
+): NormalizationProfile {
+  const replacements = locales.flatMap((locale) =>
+    (overrides[locale] ?? LOCALE_ABBREVIATIONS[locale] ?? []).map((rule) => {
+      const abbreviation = foldText(rule.abbreviation);
+      // A trailing dot is optional unless the abbreviation ends with one
+      const dot = abbreviation.endsWith('.') ? '' : '\\.?';
+      const start = rule.compound ? '' : '(?<![\\p{L}\\p{N}])';
+      return {
+        pattern: new RegExp(
+          `${start}${escapeRegExp(abbreviation)}${dot}(?![\\p{L}\\p{N}])`,
+          'gu',
+        ),
+        expansion: foldText(rule.expansion),
+      };
+    }),
+  );
+
+  return { locales, replacements };
+}
+
+/**
+ * Lowercases, applies NFKD compatibility folding (which also splits the
+ * "ĳ" ligature into "ij") and strips diacritics: "Città" → "citta",
+ * "Hauptstraße" → "hauptstrasse".
+ */
+export function foldText(value: string): string {
+  return String(value ?? '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/\p{M}+/gu, '')
+    .replace(/[ßæœøłđðþı]/g, (letter) => SPECIAL_LETTERS[letter]);
+}
+
+/**
+ * Folds and expands locale abbreviations, returning space-separated
+ * tokens. Used for both indexing and querying so the two always agree.
+ */
+export function normalizeText(
+  value: string,
+  profile: NormalizationProfile,
+): string {
+  let text = foldText(value);
+  for (const { pattern, expansion } of profile.replacements) {
+    text = text.replace(pattern, (match, offset: number, input: string) =>
+      // Compound matches stay glued to the word they end
+      offset > 0 && /[\p{L}\p{N}]/u.test(input[offset - 1])
+        ? `${expansion} `
+        : ` ${expansion} `,
+    );
+  }
+  return normalizeTokens(text).join(' ');
+}
+
+export function normalizeTokens(folded: string): string[] {
+  return folded.split(/[^\p{L}\p{N}]+/u).filter((token) => token.length > 0);
+}
+
+// Folding without abbreviation expansion, for codes such as postcodes and
+// house numbers where "LN" or "ST" are letters, not abbreviations
+export function foldTokens(value: string): string[] {
+  return normalizeTokens(foldText(value));
+}
@@ -0,0 +1,165 @@
+import { AUTOCOMPLETE_MAX_GRAM } from './autocomplete';
+import { CityVocabulary } from './city-vocabulary';
+import { buildNormalizationProfile } from './normalization';
+import {
+  buildFieldMatch,
+  parseAddressQuery,
+  toParsedSearchTokens,
+} from './query-parser';
+
+const profile = buildNormalizationProfile(['nl', 'it']);
+const cities = new CityVocabulary(
+  ['Appingedam', 'Den Haag', 'San Giuliano Terme', 'Pisa'],
+  profile,
+);
+
+const parse = (query: string) => parseAddressQuery(query, { profile, cities });
+
+describe('parseAddressQuery', () => {
+  it('should split street, number and city', () => {
+    expect(parse('Hoofdstraat 12 Appingedam')).toEqual({
+      street: 'hoofdstraat',
+      number: '12',
+      city: 'appingedam',
+      cityMatch: 'exact',
+      unclassified: [],
+    });
+  });
+
+  it('should find a Dutch postcode with or without its space', () => {
+    expect(parse('9901 LN 12').postcode).toBe('9901ln');
+    expect(parse('9901LN').postcode).toBe('9901ln');
+  });
+
+  it('should not read postcode letters as an abbreviation', () => {
+    const parsed = parse('Kerkweg 4 9901 LN');
+
+    expect(parsed.postcode).toBe('9901ln');
+    expect(parsed.street).toBe('kerkweg');
+  });
+
+  it('should try the postcode patterns of the profile locales only', () => {
+    expect(parse('Via Roma 3 56017').postcode).toBe('56017');
+    expect(
+      parseAddressQuery('Via Roma 3 56017', {
+        profile: buildNormalizationProfile(['nl']),
+      }).postcode,
+    ).toBeUndefined();
+  });
+
+  it('should take the rightmost, longest city name', () => {
+    expect(parse('Via Pisa 3 San Giuliano Terme')).toMatchObject({
+      street: 'via pisa',
+      number: '3',
+      city: 'san giuliano terme',
+    });
+  });
+
+  it('should keep a city name followed by a number in the street', () => {
+    expect(parse('Via Pisa 3')).toMatchObject({
+      street: 'via pisa',
+      number: '3',
+    });
+    expect(parse('Via Pisa 3').city).toBeUndefined();
+  });
+
+  it('should read the last word after the number as a city being typed', () => {
+    expect(parse('Hoofdstraat 12 Appin')).toMatchObject({
+      city: 'appin',
+      cityMatch: 'prefix',
+    });
+  });
+
+  it('should join a detached letter suffix to the number', () => {
+    expect(parse('Hoofdstraat 12 a').number).toBe('12a');
+  });
+
+  it('should read a unit after a keyword or a second number', () => {
+    expect(parse('Kerkweg 4 bus 2')).toMatchObject({
+      number: '4',
+      unit: '2',
+    });
+    expect(parse('Kerkweg 4 2')).toMatchObject({ number: '4', unit: '2' });
+  });
+
+  it('should expand abbreviations in the street', () => {
+    expect(parse('Burg. de Withstr. 7').street).toBe(
+      'burgemeester de withstraat',
+    );
+  });
+
+  it('should leave words unclassified when nothing anchors them', () => {
+    expect(parse('hoofdstraat')).toEqual({ unclassified: ['hoofdstraat'] });
+  });
+
+  it('should not take a number without a street word as the house number', () => {
+    expect(parse('9901')).toEqual({ unclassified: ['9901'] });
+  });
+});
+
+describe('buildFieldMatch', () => {
+  it('should match street words as word prefixes and the city exactly', () => {
+    expect(buildFieldMatch(parse('Prins Hendrik 12 Den Haag'))).toEqual({
+      $and: [
+        { 'search.street': /(^| )prins/ },
+        { 'search.street': /(^| )hendrik/ },
+        { 'search.number': /^12[a-z]*$/ },
+        { 'search.city': 'den haag' },
+      ],
+    });
+  });
+
+  it('should match a number with a suffix exactly', () => {
+    expect(buildFieldMatch(parse('Kerkweg 12a Pisa'))).toMatchObject({
+      $and: expect.arrayContaining([{ 'search.number': '12a' }]),
+    });
+  });
+
+  it('should match a city being typed by prefix', () => {
+    expect(buildFieldMatch(parse('Kerkweg 12 Appin'))).toMatchObject({
+      $and: expect.arrayContaining([{ 'search.city': /^appin/ }]),
+    });
+  });
+
+  it('should match the unit and postcode', () => {
+    expect(buildFieldMatch(parse('9901 LN 4 bus 2'))).toMatchObject({
+      $and: expect.arrayContaining([
+        { 'search.unit': /^2/ },
+        { 'search.postcode': '9901ln' },
+      ]),
+    });
+  });
+
+  it('should escape regular expression characters', () => {
+    expect(
+      buildFieldMatch({ street: 'a+b', number: '1', unclassified: [] }),
+    ).toMatchObject({
+      $and: expect.arrayContaining([{ 'search.street': /(^| )a\+b/ }]),
+    });
+  });
+
+  it('should return an empty filter without classified fields', () => {
+    expect(buildFieldMatch({ unclassified: ['x'] })).toEqual({});
+  });
+});
+
+describe('toParsedSearchTokens', () => {
+  it('should list the distinct words of every field except the unit', () => {
+    expect(toParsedSearchTokens(parse('Kerkweg 4 bus 2 Den Haag'))).toEqual([
+      'kerkweg',
+      '4',
+      'den',
+      'haag',
+    ]);
+  });
+
+  it('should cut words to the longest autocomplete key', () => {
+    const [token] = toParsedSearchTokens({
+      unclassified: ['burgemeesterswoningstraat'],
+    });
+
+    expect(token).toBe(
+      'burgemeesterswoningstraat'.slice(0, AUTOCOMPLETE_MAX_GRAM),
+    );
+  });
+});
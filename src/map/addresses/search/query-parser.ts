@@ -0,0 +1,232 @@
+import { FilterQuery } from 'mongoose';
+import { MapAddress } from '../schemas/map-address.schema';
+import { AUTOCOMPLETE_MAX_GRAM } from './autocomplete';
+import { CityVocabulary } from './city-vocabulary';
+import { getDefaultNormalizationProfile } from './default-profile';
+import { foldText, NormalizationProfile, normalizeText } from './normalization';
+
+export type ParsedAddressQuery = {
+  street?: string;
+  number?: string;
+  unit?: string;
+  postcode?: string;
+  city?: string;
+  // "prefix" when the last word only starts a known city name
+  cityMatch?: 'exact' | 'prefix';
+  // Words the parser could not place; they may match any field
+  unclassified: string[];
+};
+
+export type AddressQueryParserOptions = {
+  profile?: NormalizationProfile;
+  cities?: CityVocabulary;
+};
+
+// Postcode shapes per locale, matched on folded text before abbreviation
+// expansion so the letters of "9901 LN" are not read as "laan"
+export const POSTCODE_PATTERNS: Record<string, string> = {
+  nl: '[1-9]\\d{3} ?[a-z]{2}',
+  it: '\\d{5}',
+  de: '\\d{5}',
+  en: '[a-z]{1,2}\\d[a-z\\d]? ?\\d[a-z]{2}',
+};
+
+// House number with an optional letter suffix: "4", "12a", "7bis"
+const HOUSE_NUMBER = /^\d{1,5}[a-z]{0,3}$/;
+
+// Words announcing the unit that follows: "bus 2", "int. 5", "apt 3b"
+const UNIT_KEYWORDS = new Set([
+  'apt',
+  'app',
+  'appartamento',
+  'unit',
+  'bus',
+  'int',
+  'interno',
+  'hs',
+  'scala',
+  'suite',
+  'flat',
+]);
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const hasLetter = (token: string) => /\p{L}/u.test(token);
+
+/**
+ * Splits a free-text query into address fields. The postcode is matched
+ * first with the patterns of the configured locales, the city against the
+ * vocabulary of the dataset, then the house number (plus suffix and unit).
+ * Remaining words form the street, but only when one of the other fields
+ * anchors the interpretation; otherwise they stay unclassified.
+ */
+export function parseAddressQuery(
+  query: string,
+  options: AddressQueryParserOptions = {},
+): ParsedAddressQuery {
+  const profile = options.profile ?? getDefaultNormalizationProfile();
+  const parsed: ParsedAddressQuery = { unclassified: [] };
+
+  let folded = foldText(query);
+  for (const locale of profile.locales) {
+    const pattern = POSTCODE_PATTERNS[locale];
+    const match = pattern
+      ? new RegExp(`(?<![\\p{L}\\p{N}])${pattern}(?![\\p{L}\\p{N}])`, 'u').exec(
+          folded,
+        )
+      : null;
+    if (match) {
+      parsed.postcode = match[0].replace(/ /g, '');
+      folded = `${folded.slice(0, match.index)} ${folded.slice(match.index + match[0].length)}`;
+      break;
+    }
+  }
+
+  const tokens = normalizeText(folded, profile).split(' ').filter(Boolean);
+  const used = tokens.map(() => false);
+  const isFree = (i: number) => i >= 0 && i < tokens.length && !used[i];
+  const take = (from: number, to: number) => {
+    for (let i = from; i < to; i++) {
+      used[i] = true;
+    }
+    return tokens.slice(from, to).join(' ');
+  };
+
+  // Rightmost, longest city name; a name directly followed by a house
+  // number is part of the street instead ("Via Pisa 3")
+  const cities = options.cities;
+  if (cities?.size) {
+    search: for (let end = tokens.length; end > 0; end--) {
+      for (let words = Math.min(cities.maxWords, end); words > 0; words--) {
+        const name = tokens.slice(end - words, end).join(' ');
+        if (cities.has(name) && !HOUSE_NUMBER.test(tokens[end] ?? '')) {
+          parsed.city = take(end - words, end);
+          parsed.cityMatch = 'exact';
+          break search;
+        }
+      }
+    }
+  }
+
+  tokens.forEach((token, i) => {
+    if (!parsed.unit && UNIT_KEYWORDS.has(token) && isFree(i + 1)) {
+      take(i, i + 1);
+      parsed.unit = take(i + 1, i + 2);
+    }
+  });
+
+  // A number needs a street word next to it; "9901" alone is more likely
+  // part of a postcode than a house number
+  const hasStreetWord = tokens.some((token, i) => !used[i] && hasLetter(token));
+  const numberAt = hasStreetWord
+    ? tokens.findIndex((token, i) => !used[i] && HOUSE_NUMBER.test(token))
+    : -1;
+
+  if (numberAt >= 0) {
+    parsed.number = take(numberAt, numberAt + 1);
+    let next = numberAt + 1;
+    // Detached suffix: "12 a"
+    if (isFree(next) && /^\p{L}$/u.test(tokens[next])) {
+      parsed.number += take(next, next + 1);
+      next++;
+    }
+    // Second number right after the house number: "4 2" for 4-2
+    if (!parsed.unit && isFree(next) && /^\d+\p{L}?$/u.test(tokens[next])) {
+      parsed.unit = take(next, next + 1);
+    }
+  }
+
+  // Last word after the number may be a city still being typed
+  const last = tokens.length - 1;
+  if (
+    !parsed.city &&
+    cities?.size &&
+    numberAt >= 0 &&
+    last > numberAt &&
+    isFree(last) &&
+    hasLetter(tokens[last]) &&
+    cities.hasPrefix(tokens[last])
+  ) {
+    parsed.city = take(last, last + 1);
+    parsed.cityMatch = 'prefix';
+  }
+
+  const anchored = !!(parsed.number || parsed.postcode || parsed.city);
+  const street: string[] = [];
+  tokens.forEach((token, i) => {
+    if (used[i]) {
+      return;
+    }
+    if (anchored && hasLetter(token)) {
+      street.push(token);
+    } else {
+      parsed.unclassified.push(token);
+    }
+  });
+  if (street.length) {
+    parsed.street = street.join(' ');
+  }
+
+  return parsed;
+}
+
+/**
+ * Whole-field constraints for the classified parts of a query, matched
+ * against the per-field `search` values: street words as word prefixes,
+ * the number exactly (a bare "4" also matches "4a"), postcode exactly and
+ * the city exactly or by prefix.
+ */
+export function buildFieldMatch(
+  parsed: ParsedAddressQuery,
+): FilterQuery<MapAddress> {
+  const clauses: FilterQuery<MapAddress>[] = [];
+
+  for (const word of parsed.street?.split(' ') ?? []) {
+    clauses.push({
+      'search.street': new RegExp(`(^| )${escapeRegExp(word)}`),
+    });
+  }
+  if (parsed.number) {
+    clauses.push({
+      'search.number': /\d$/.test(parsed.number)
+        ? new RegExp(`^${escapeRegExp(parsed.number)}[a-z]*$`)
+        : parsed.number,
+    });
+  }
+  if (parsed.unit) {
+    clauses.push({
+      'search.unit': new RegExp(`^${escapeRegExp(parsed.unit)}`),
+    });
+  }
+  if (parsed.postcode) {
+    clauses.push({ 'search.postcode': parsed.postcode });
+  }
+  if (parsed.city) {
+    clauses.push({
+      'search.city':
+        parsed.cityMatch === 'prefix'
+          ? new RegExp(`^${escapeRegExp(parsed.city)}`)
+          : parsed.city,
+    });
+  }
+
+  return clauses.length ? { $and: clauses } : {};
+}
+
+// Autocomplete keys every match must carry; units are not indexed there
+export function toParsedSearchTokens(parsed: ParsedAddressQuery): string[] {
+  const words = [
+    ...(parsed.street?.split(' ') ?? []),
+    parsed.number,
+    parsed.postcode,
+    ...(parsed.city?.split(' ') ?? []),
+    ...parsed.unclassified,
+  ];
+
+  return [
+    ...new Set(
+      words
+        .filter((word): word is string => !!word)
+        .map((word) => word.slice(0, AUTOCOMPLETE_MAX_GRAM)),
+    ),
+  ];
+}
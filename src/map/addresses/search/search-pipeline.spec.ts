@@ -0,0 +1,220 @@
+import { MapAddress } from '../schemas/map-address.schema';
+import { CityVocabulary } from './city-vocabulary';
+import { buildDerivedFields } from './derived-fields';
+import { buildNormalizationProfile } from './normalization';
+import { parseAddressQuery } from './query-parser';
+import { buildSearchAttempts, SearchMatchKind } from './search-pipeline';
+import { rankCandidates } from './search-ranking';
+
+type Doc = Pick<MapAddress, 'properties' | 'autocomplete' | 'search'>;
+
+const profile = buildNormalizationProfile(['nl', 'it']);
+
+const STEMS = ['Hoofd', 'Kerk', 'Molen', 'Dorps', 'Beuken', 'Prins Hendrik'];
+const SUFFIXES = ['straat', 'weg', 'laan', 'kade'];
+const CITIES = ['Appingedam', 'Groningen', 'Delfzijl', 'Den Haag'];
+
+// Every stem and suffix in every city, a few numbers each, with postcodes
+// that repeat across streets so postcode queries have several hits
+const addresses: Doc[] = [];
+STEMS.forEach((stem, s) =>
+  SUFFIXES.forEach((suffix, f) =>
+    CITIES.forEach((city, c) =>
+      ['1', '4', '12', '12a', '120'].forEach((number, n) => {
+        const properties = {
+          hash: `h${addresses.length}`,
+          id: `a${addresses.length}`,
+          street: `${stem}${suffix}`,
+          number,
+          unit: '',
+          city,
+          district: '',
+          region: '',
+          postcode: `${9900 + c * 10 + s} ${'ABCD'[f]}${'KLMNP'[n]}`,
+        };
+        addresses.push({
+          properties,
+          ...buildDerivedFields(properties, profile),
+        } as Doc);
+      }),
+    ),
+  ),
+);
+
+const cities = new CityVocabulary(CITIES, profile);
+
+// The substring search the index replaced: every word of the query inside
+// street, number, postcode or city, ignoring case
+function baselineMatches(query: string): Doc[] {
+  const tokens = query
+    .trim()
+    .toLowerCase()
+    .split(/[^a-z0-9]+/i)
+    .filter(Boolean);
+  return addresses.filter((doc) =>
+    tokens.every((token) =>
+      ['street', 'number', 'postcode', 'city'].some((field) =>
+        String(doc.properties[field]).toLowerCase().includes(token),
+      ),
+    ),
+  );
+}
+
+const valueAt = (doc: object, path: string): unknown =>
+  path.split('.').reduce((value, key) => value?.[key], doc);
+
+// Just enough of MongoDB's query language for the search matches
+function matchesFilter(doc: object, filter: Record<string, any>): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === '$and') {
+      return condition.every((clause) => matchesFilter(doc, clause));
+    }
+    const value = valueAt(doc, key);
+    if (condition instanceof RegExp) {
+      return typeof value === 'string' && condition.test(value);
+    }
+    if (condition?.$all) {
+      return condition.$all.every((item) => (value as string[]).includes(item));
+    }
+    return value === condition;
+  });
+}
+
+// The search as the service runs it: the first attempt finding anything
+function indexedMatches(query: string): {
+  matchedBy?: SearchMatchKind;
+  docs: Doc[];
+} {
+  const parsed = parseAddressQuery(query, { profile, cities });
+  for (const attempt of buildSearchAttempts(query, parsed, profile)) {
+    const docs = addresses.filter((doc) => matchesFilter(doc, attempt.match));
+    if (docs.length) {
+      return { matchedBy: attempt.matchedBy, docs };
+    }
+  }
+  return { docs: [] };
+}
+
+// Share of the baseline candidates the index path finds as well, of those
+// `relevant` keeps (the substring search also hit "an" inside "laan")
+function recall(
+  query: string,
+  relevant: (doc: Doc) => boolean = () => true,
+): number {
+  const baseline = baselineMatches(query).filter(relevant);
+  const found = new Set(
+    indexedMatches(query).docs.map((doc) => doc.properties.id),
+  );
+  return baseline.length
+    ? baseline.filter((doc) => found.has(doc.properties.id)).length /
+        baseline.length
+    : 1;
+}
+
+describe('buildSearchAttempts', () => {
+  describe('infix queries', () => {
+    const queries = ['straat', 'aat', 'dstraat', 'olenw', 'kade delfzijl'];
+
+    it('should find everything the substring search found', () => {
+      queries.forEach((query) => expect(recall(query)).toBe(1));
+    });
+
+    it('should fall back to the substring match only when no word prefix matches', () => {
+      expect(indexedMatches('straat').matchedBy).toBe('infix');
+      expect(indexedMatches('hoofdstraat').matchedBy).not.toBe('infix');
+    });
+
+    it('should find "Hoofdstraat" for "straat"', () => {
+      const streets = new Set(
+        indexedMatches('straat').docs.map((doc) => doc.properties.street),
+      );
+      expect(streets).toContain('Hoofdstraat');
+      expect(streets).toContain('Prins Hendrikstraat');
+    });
+  });
+
+  describe('prefix queries', () => {
+    const samples = addresses.filter((_, i) => i % 37 === 0);
+
+    it('should find everything the substring search found by street and city', () => {
+      samples.forEach(({ properties: p }) => {
+        expect(recall(p.street.slice(0, 5))).toBe(1);
+        expect(recall(p.street)).toBe(1);
+        expect(recall(`${p.street} ${p.city}`)).toBe(1);
+      });
+    });
+
+    it('should find the typed house number, with or without a letter suffix', () => {
+      samples.forEach(({ properties: p }) => {
+        const sameNumber = (doc: Doc) =>
+          /^\d+[a-z]*$/.test(doc.properties.number) &&
+          doc.properties.number.replace(/[a-z]+$/, '') ===
+            p.number.replace(/[a-z]+$/, '');
+        expect(recall(`${p.street} ${p.number}`, sameNumber)).toBe(1);
+        expect(recall(`${p.street} ${p.number} ${p.city}`, sameNumber)).toBe(1);
+      });
+    });
+
+    it('should no longer read "12" as part of "120"', () => {
+      const numbers = indexedMatches('Kerkweg 12 Groningen').docs.map(
+        (doc) => doc.properties.number,
+      );
+      expect(numbers.sort()).toEqual(['12', '12a']);
+      expect(
+        baselineMatches('Kerkweg 12 Groningen').map(
+          (doc) => doc.properties.number,
+        ),
+      ).toContain('120');
+    });
+
+    it('should rank the address typed in full among the close matches', () => {
+      samples.forEach(({ properties: p }) => {
+        const query = `${p.street} ${p.number} ${p.city}`;
+        const ranked = rankCandidates(
+          query,
+          indexedMatches(query).docs,
+          10,
+          profile,
+        );
+        expect(ranked.map((doc) => doc.properties.id)).toContain(p.id);
+      });
+    });
+  });
+
+  describe('postcode queries', () => {
+    const samples = addresses.filter((_, i) => i % 23 === 0);
+
+    it('should find every address with the postcode the substring search found', () => {
+      samples.forEach(({ properties: p }) => {
+        const samePostcode = (doc: Doc) =>
+          doc.properties.postcode === p.postcode;
+        expect(recall(p.postcode, samePostcode)).toBe(1);
+        expect(recall(`${p.postcode} ${p.number}`, samePostcode)).toBe(1);
+      });
+    });
+
+    it('should return only addresses with the postcode', () => {
+      samples.forEach(({ properties: p }) => {
+        const postcodes = indexedMatches(p.postcode).docs.map(
+          (doc) => doc.properties.postcode,
+        );
+        expect(new Set(postcodes)).toEqual(new Set([p.postcode]));
+      });
+    });
+
+    it('should also match the postcode without its space', () => {
+      samples.forEach(({ properties: p }) => {
+        const ids = indexedMatches(p.postcode.replace(' ', '')).docs.map(
+          (doc) => doc.properties.id,
+        );
+        expect(ids).toContain(p.id);
+      });
+    });
+  });
+
+  it('should return no attempts for a query without words', () => {
+    expect(
+      buildSearchAttempts('--', parseAddressQuery('--', { profile }), profile),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,183 @@
+import { FilterQuery, PipelineStage } from 'mongoose';
+import { MapAddress } from '../schemas/map-address.schema';
+import { AUTOCOMPLETE_MAX_GRAM, tokenize } from './autocomplete';
+import { getDefaultNormalizationProfile } from './default-profile';
+import { foldTokens, NormalizationProfile } from './normalization';
+import {
+  buildFieldMatch,
+  ParsedAddressQuery,
+  toParsedSearchTokens,
+} from './query-parser';
+
+// Upper bound on index hits scored in the database per search
+export const SEARCH_SCAN_LIMIT = 5000;
+
+// How the candidates of a search were found
+export type SearchMatchKind = 'fields' | 'tokens' | 'infix';
+
+export type SearchAttempt = {
+  matchedBy: SearchMatchKind;
+  // Tokens the database pre-ranking scores candidates by
+  tokens: string[];
+  match: FilterQuery<MapAddress>;
+};
+
+export type SearchFields = {
+  text: string;
+  tokens: string[];
+  street: string;
+  number: string;
+  unit: string;
+  postcode: string;
+  city: string;
+};
+
+/**
+ * Denormalized search field: the normalized "street number postcode city"
+ * text plus its whole-word tokens (and the compacted postcode), and each
+ * field normalized on its own for field-scoped matching. Numbers, units and
+ * postcodes are stored compacted ("12a", "9901ck").
+ */
+export function buildSearchFields(
+  properties: Partial<MapAddress['properties']>,
+  profile: NormalizationProfile = getDefaultNormalizationProfile(),
+): SearchFields {
+  const street = tokenize(properties.street ?? '', profile);
+  const number = foldTokens(properties.number ?? '');
+  const postcode = foldTokens(properties.postcode ?? '');
+  const city = tokenize(properties.city ?? '', profile);
+  const text = [...street, ...number, ...postcode, ...city].join(' ');
+
+  const tokens = new Set(text.split(' ').filter(Boolean));
+  if (postcode.length) {
+    tokens.add(postcode.join(''));
+  }
+
+  return {
+    text,
+    tokens: [...tokens],
+    street: street.join(' '),
+    number: number.join(''),
+    unit: foldTokens(properties.unit ?? '').join(''),
+    postcode: postcode.join(''),
+    city: city.join(' '),
+  };
+}
+
+export function toSearchTokens(
+  query: string,
+  profile: NormalizationProfile = getDefaultNormalizationProfile(),
+): string[] {
+  return [
+    ...new Set(
+      tokenize(query, profile).map((token) =>
+        token.slice(0, AUTOCOMPLETE_MAX_GRAM),
+      ),
+    ),
+  ];
+}
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Index-backed candidate retrieval: every query token must prefix a word of
+ * the address (autocomplete multikey index). The ranking stages then
+ * pre-rank candidates in the database by whole-word hits and a
+ * leading-prefix bonus so the similarity scoring in JS only sees the most
+ * promising rows.
+ */
+export function buildSearchMatch(tokens: string[]): FilterQuery<MapAddress> {
+  // $all walks the index on its first element, so lead with the longest
+  const ordered = [...tokens].sort((a, b) => b.length - a.length);
+  return { autocomplete: { $all: ordered } };
+}
+
+// Every token somewhere inside the address text, also mid-word
+// ("straat" in "hoofdstraat"); not index-backed, so a last resort
+export function buildInfixMatch(tokens: string[]): FilterQuery<MapAddress> {
+  return {
+    $and: tokens.map((token) => ({
+      'search.text': new RegExp(escapeRegExp(token)),
+    })),
+  };
+}
+
+/**
+ * Candidate matches of a search, to try in order until one finds
+ * addresses: the parsed fields, then (when the parser classified
+ * anything) every word as a word prefix of any field, then every word as
+ * a substring of the address text, as the regex search before the
+ * autocomplete index matched.
+ */
+export function buildSearchAttempts(
+  query: string,
+  parsed: ParsedAddressQuery,
+  profile: NormalizationProfile = getDefaultNormalizationProfile(),
+): SearchAttempt[] {
+  const parsedTokens = toParsedSearchTokens(parsed);
+  if (!parsedTokens.length) {
+    return [];
+  }
+
+  const fieldMatch = buildFieldMatch(parsed);
+  const tokens = toSearchTokens(query, profile);
+  return [
+    {
+      matchedBy: 'fields',
+      tokens: parsedTokens,
+      match: { ...buildSearchMatch(parsedTokens), ...fieldMatch },
+    },
+    ...(Object.keys(fieldMatch).length
+      ? [
+          {
+            matchedBy: 'tokens' as const,
+            tokens,
+            match: buildSearchMatch(tokens),
+          },
+        ]
+      : []),
+    { matchedBy: 'infix', tokens, match: buildInfixMatch(tokens) },
+  ];
+}
+
+// Stages after the $match; also usable inside a $facet sub-pipeline
+export function buildSearchRankingStages(
+  tokens: string[],
+  poolSize: number,
+): PipelineStage.FacetPipelineStage[] {
+  const leadingText = `^${escapeRegExp(tokens.join(' '))}`;
+
+  return [
+    { $limit: SEARCH_SCAN_LIMIT },
+    {
+      $addFields: {
+        _score: {
+          $add: [
+            ...tokens.map((token) => ({
+              $cond: [
+                { $in: [token, { $ifNull: ['$search.tokens', []] }] },
+                1,
+                0,
+              ],
+            })),
+            {
+              $cond: [
+                {
+                  $regexMatch: {
+                    input: { $ifNull: ['$search.text', ''] },
+                    regex: leadingText,
+                  },
+                },
+                2,
+                0,
+              ],
+            },
+          ],
+        },
+      },
+    },
+    { $sort: { _score: -1, _id: 1 } },
+    { $limit: poolSize },
+    { $project: { _id: 1, dataset: 1, type: 1, geometry: 1, properties: 1 } },
+  ];
+}
@@ -0,0 +1,94 @@
+import stringSimilarity from 'string-similarity';
+import { MapAddress } from '../schemas/map-address.schema';
+import { getDefaultNormalizationProfile } from './default-profile';
+import { NormalizationProfile, normalizeText } from './normalization';
+
+// Field-level weights to emphasize street/city
+export const SEARCH_FIELD_WEIGHTS = {
+  street: 1.0,
+  city: 0.9,
+  postcode: 0.8,
+  number: 0.5,
+};
+
+// If any candidate is a "close match" (score >= threshold), only close
+// matches are returned
+export const CLOSE_MATCH_THRESHOLD = 0.75;
+
+type Candidate = Pick<MapAddress, 'properties'>;
+
+/**
+ * Similarity score of a candidate against the normalized query, blending
+ * whole-address and per-field similarity with a prefix boost. Fields are
+ * normalized with the same profile as the query.
+ */
+export function scoreCandidate(
+  normalizedSearch: string,
+  candidate: Candidate,
+  profile: NormalizationProfile = getDefaultNormalizationProfile(),
+): number {
+  const normalize = (value: string) => normalizeText(value || '', profile);
+  const street = normalize(candidate.properties.street);
+  const number = normalize(candidate.properties.number);
+  const postcode = normalize(candidate.properties.postcode);
+  const city = normalize(candidate.properties.city);
+
+  const combined = [street, number, postcode, city].filter(Boolean).join(' ');
+
+  const combinedScore = stringSimilarity.compareTwoStrings(
+    normalizedSearch,
+    combined,
+  );
+
+  const weights = SEARCH_FIELD_WEIGHTS;
+  const fieldScores = [
+    stringSimilarity.compareTwoStrings(normalizedSearch, street) *
+      weights.street,
+    stringSimilarity.compareTwoStrings(normalizedSearch, city) * weights.city,
+    stringSimilarity.compareTwoStrings(normalizedSearch, postcode) *
+      weights.postcode,
+    stringSimilarity.compareTwoStrings(normalizedSearch, number) *
+      weights.number,
+  ];
+  const maxFieldScore = Math.max(...fieldScores);
+
+  // Prefix boost when any field starts with the full query
+  const startsWith = [street, number, postcode, city].some((t) =>
+    t.startsWith(normalizedSearch),
+  );
+  const prefixBoost = startsWith ? 0.15 : 0;
+
+  return Math.min(1, Math.max(combinedScore, maxFieldScore) + prefixBoost);
+}
+
+/**
+ * Scores candidates against the raw query, sorts by similarity and keeps
+ * either the cluster of close matches or, failing that, the best `limit`
+ * fuzzy matches.
+ */
+export function rankCandidates<T extends Candidate>(
+  query: string,
+  candidates: T[],
+  limit: number,
+  profile: NormalizationProfile = getDefaultNormalizationProfile(),
+): (T & { score: number })[] {
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  const normalizedSearch = normalizeText(query, profile);
+  const scored = candidates.map((candidate) => ({
+    ...candidate,
+    score: scoreCandidate(normalizedSearch, candidate, profile),
+  }));
+
+  scored.sort((a, b) => b.score - a.score);
+
+  const bestScore = scored[0].score;
+
+  return bestScore >= CLOSE_MATCH_THRESHOLD
+    ? scored
+        .filter((s) => s.score >= Math.max(0.7, bestScore - 0.08))
+        .slice(0, limit)
+    : scored.slice(0, limit); // fallback to broader substring/fuzzy matches
+}
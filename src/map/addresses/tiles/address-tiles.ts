@@ -0,0 +1,48 @@
+import { createHash } from 'crypto';
+import { TileCoordinates } from './tile-math';
+
+export const TILE_LAYER_NAME = 'addresses';
+
+// Tile pixels fetched beyond each edge so labels are not clipped
+export const TILE_BUFFER = 64;
+
+export const TILE_ATTRIBUTE_FIELDS = [
+  'id',
+  'hash',
+  'street',
+  'number',
+  'unit',
+  'postcode',
+  'city',
+  'district',
+  'region',
+];
+
+/**
+ * Strong validator for a tile built from the given data summary: any
+ * insert, update or delete in the tile changes the count or the latest
+ * `updatedAt`, and so the tag.
+ */
+export function tileEtag(
+  tile: TileCoordinates,
+  fields: string[],
+  datasets: string[],
+  summary: { count: number; updatedAt?: Date | null },
+  maxFeatures: number,
+): string {
+  const digest = createHash('sha1')
+    .update(
+      JSON.stringify([
+        tile.z,
+        tile.x,
+        tile.y,
+        fields,
+        datasets,
+        summary.count,
+        summary.updatedAt?.getTime() ?? null,
+        maxFeatures,
+      ]),
+    )
+    .digest('base64url');
+  return `"${digest}"`;
+}
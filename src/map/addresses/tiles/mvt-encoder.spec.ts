@@ -0,0 +1,169 @@
+import { encodePointLayer, MVT_EXTENT, MvtPoint } from './mvt-encoder';
+
+type Field = { field: number; value: number | Buffer };
+
+// Varint reader over a buffer, advancing its own position
+function reader(buffer: Buffer) {
+  let pos = 0;
+  return {
+    done: () => pos >= buffer.length,
+    varint: () => {
+      let value = 0;
+      let shift = 1;
+      let byte: number;
+      do {
+        byte = buffer[pos++];
+        value += (byte & 0x7f) * shift;
+        shift *= 128;
+      } while (byte & 0x80);
+      return value;
+    },
+    bytes: (length: number) => buffer.subarray(pos, (pos += length)),
+  };
+}
+
+// Reads one protobuf message into its fields, in order
+function readFields(buffer: Buffer): Field[] {
+  const input = reader(buffer);
+  const fields: Field[] = [];
+  while (!input.done()) {
+    const tag = input.varint();
+    fields.push({
+      field: tag >> 3,
+      value: (tag & 0x7) === 0 ? input.varint() : input.bytes(input.varint()),
+    });
+  }
+  return fields;
+}
+
+function readPacked(buffer: Buffer): number[] {
+  const input = reader(buffer);
+  const values: number[] = [];
+  while (!input.done()) {
+    values.push(input.varint());
+  }
+  return values;
+}
+
+const unzigzag = (n: number) => (n >>> 1) ^ -(n & 1);
+
+const all = (fields: Field[], field: number) =>
+  fields.filter((f) => f.field === field).map((f) => f.value);
+const one = (fields: Field[], field: number) => all(fields, field)[0];
+
+// Decodes a single-layer tile the way a map client would
+function decodeTile(tile: Buffer) {
+  const [layerBytes] = all(readFields(tile), 3) as Buffer[];
+  const layer = readFields(layerBytes);
+  const keys = (all(layer, 3) as Buffer[]).map((key) => key.toString('utf8'));
+  const values = (all(layer, 4) as Buffer[]).map((value) =>
+    (one(readFields(value), 1) as Buffer).toString('utf8'),
+  );
+
+  return {
+    version: one(layer, 15),
+    name: (one(layer, 1) as Buffer).toString('utf8'),
+    extent: one(layer, 5),
+    keys,
+    values,
+    features: (all(layer, 2) as Buffer[]).map((featureBytes) => {
+      const feature = readFields(featureBytes);
+      const tags = feature.some((f) => f.field === 2)
+        ? readPacked(one(feature, 2) as Buffer)
+        : [];
+      const [command, x, y] = readPacked(one(feature, 4) as Buffer);
+      const attributes: Record<string, string> = {};
+      for (let i = 0; i < tags.length; i += 2) {
+        attributes[keys[tags[i]]] = values[tags[i + 1]];
+      }
+      return {
+        type: one(feature, 3),
+        command,
+        x: unzigzag(x),
+        y: unzigzag(y),
+        attributes,
+      };
+    }),
+  };
+}
+
+describe('encodePointLayer', () => {
+  const points: MvtPoint[] = [
+    { x: 10, y: 20, attributes: { id: 'a1', city: 'Appingedam' } },
+    { x: 4000.4, y: 95.6, attributes: { id: 'a2', city: 'Appingedam' } },
+  ];
+
+  it('should return an empty buffer without points', () => {
+    expect(encodePointLayer('addresses', [])).toHaveLength(0);
+  });
+
+  it('should write a version 2 layer with its name and extent', () => {
+    const tile = decodeTile(encodePointLayer('addresses', points));
+
+    expect(tile).toMatchObject({
+      version: 2,
+      name: 'addresses',
+      extent: MVT_EXTENT,
+    });
+    expect(decodeTile(encodePointLayer('addresses', points, 512)).extent).toBe(
+      512,
+    );
+  });
+
+  it('should write each point as a single MoveTo, rounded to whole pixels', () => {
+    const { features } = decodeTile(encodePointLayer('addresses', points));
+
+    expect(features).toEqual([
+      expect.objectContaining({ type: 1, command: 9, x: 10, y: 20 }),
+      expect.objectContaining({ type: 1, command: 9, x: 4000, y: 96 }),
+    ]);
+  });
+
+  it('should keep negative coordinates of points in the buffer', () => {
+    const { features } = decodeTile(
+      encodePointLayer('addresses', [{ x: -12, y: -3, attributes: {} }]),
+    );
+
+    expect(features[0]).toMatchObject({ x: -12, y: -3 });
+  });
+
+  it('should share repeated keys and values through the layer tables', () => {
+    const tile = decodeTile(encodePointLayer('addresses', points));
+
+    expect(tile.keys).toEqual(['id', 'city']);
+    expect(tile.values).toEqual(['a1', 'Appingedam', 'a2']);
+    expect(tile.features.map((feature) => feature.attributes)).toEqual(
+      points.map((point) => point.attributes),
+    );
+  });
+
+  it('should leave out empty attribute values', () => {
+    const tile = decodeTile(
+      encodePointLayer('addresses', [
+        { x: 1, y: 1, attributes: { id: 'a1', unit: '' } },
+      ]),
+    );
+
+    expect(tile.keys).toEqual(['id']);
+    expect(tile.features[0].attributes).toEqual({ id: 'a1' });
+  });
+
+  it('should encode strings as UTF-8', () => {
+    const tile = decodeTile(
+      encodePointLayer('adressen', [
+        { x: 1, y: 1, attributes: { city: 'Città di Castello' } },
+      ]),
+    );
+
+    expect(tile.features[0].attributes.city).toBe('Città di Castello');
+  });
+
+  it('should encode strings longer than one length byte', () => {
+    const city = 'x'.repeat(300);
+    const tile = decodeTile(
+      encodePointLayer('addresses', [{ x: 1, y: 1, attributes: { city } }]),
+    );
+
+    expect(tile.values).toEqual([city]);
+  });
+});
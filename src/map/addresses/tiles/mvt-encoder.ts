@@ -0,0 +1,122 @@
+// Minimal Mapbox Vector Tile 2.1 encoder for point layers. Only the parts
+// of the protobuf wire format the tile schema needs are implemented:
+// varints, length-delimited fields and packed uint32 arrays.
+
+export const MVT_EXTENT = 4096;
+
+const WIRE_VARINT = 0;
+const WIRE_LENGTH_DELIMITED = 2;
+
+const GEOM_TYPE_POINT = 1;
+const COMMAND_MOVE_TO = 1;
+
+export type MvtPoint = {
+  // Tile pixel coordinates in 0..extent; points in the buffer may fall
+  // slightly outside
+  x: number;
+  y: number;
+  attributes: Record<string, string>;
+};
+
+class ProtobufWriter {
+  private bytes: number[] = [];
+
+  varint(value: number): this {
+    let remaining = value;
+    while (remaining > 0x7f) {
+      this.bytes.push((remaining & 0x7f) | 0x80);
+      remaining = Math.floor(remaining / 128);
+    }
+    this.bytes.push(remaining);
+    return this;
+  }
+
+  tag(field: number, wireType: number): this {
+    return this.varint((field << 3) | wireType);
+  }
+
+  uint32Field(field: number, value: number): this {
+    return this.tag(field, WIRE_VARINT).varint(value);
+  }
+
+  bytesField(field: number, value: Uint8Array | number[]): this {
+    this.tag(field, WIRE_LENGTH_DELIMITED).varint(value.length);
+    for (const byte of value) {
+      this.bytes.push(byte);
+    }
+    return this;
+  }
+
+  stringField(field: number, value: string): this {
+    return this.bytesField(field, Buffer.from(value, 'utf8'));
+  }
+
+  packedField(field: number, values: number[]): this {
+    const packed = new ProtobufWriter();
+    values.forEach((value) => packed.varint(value));
+    return this.bytesField(field, packed.finish());
+  }
+
+  finish(): Buffer {
+    return Buffer.from(this.bytes);
+  }
+}
+
+const zigzag = (n: number) => (n << 1) ^ (n >> 31);
+
+/**
+ * Encodes one layer of point features. Attribute keys and string values
+ * are de-duplicated into the layer tables as the spec requires; empty
+ * values are left out.
+ */
+export function encodePointLayer(
+  name: string,
+  points: MvtPoint[],
+  extent = MVT_EXTENT,
+): Buffer {
+  if (!points.length) {
+    return Buffer.alloc(0);
+  }
+
+  const keys = new Map<string, number>();
+  const values = new Map<string, number>();
+  const indexOf = (table: Map<string, number>, item: string) => {
+    let index = table.get(item);
+    if (index === undefined) {
+      index = table.size;
+      table.set(item, index);
+    }
+    return index;
+  };
+
+  const features = points.map((point) => {
+    const tags: number[] = [];
+    for (const [key, value] of Object.entries(point.attributes)) {
+      if (value) {
+        tags.push(indexOf(keys, key), indexOf(values, value));
+      }
+    }
+
+    const feature = new ProtobufWriter();
+    if (tags.length) {
+      feature.packedField(2, tags);
+    }
+    feature.uint32Field(3, GEOM_TYPE_POINT);
+    feature.packedField(4, [
+      (COMMAND_MOVE_TO & 0x7) | (1 << 3),
+      zigzag(Math.round(point.x)),
+      zigzag(Math.round(point.y)),
+    ]);
+    return feature.finish();
+  });
+
+  const layer = new ProtobufWriter().uint32Field(15, 2).stringField(1, name);
+  features.forEach((feature) => layer.bytesField(2, feature));
+  keys.forEach((_, key) => layer.stringField(3, key));
+  values.forEach((_, value) =>
+    layer.bytesField(4, new ProtobufWriter().stringField(1, value).finish()),
+  );
+  layer.uint32Field(5, extent);
+
+  return new ProtobufWriter().bytesField(3, layer.finish()).finish();
+}
@@ -0,0 +1,67 @@
+import { Bbox } from '../viewport/viewport-grid';
+import { InvalidInputError } from '../../../errors/domain-errors';
+
+export type TileCoordinates = { z: number; x: number; y: number };
+
+export function parseTileCoordinates(
+  z: unknown,
+  x: unknown,
+  y: unknown,
+): TileCoordinates {
+  const tile = { z: Number(z), x: Number(x), y: Number(y) };
+  if (
+    !Object.values(tile).every(Number.isInteger) ||
+    tile.z < 0 ||
+    tile.z > 24
+  ) {
+    throw new InvalidInputError('Tile z, x and y must be integers, z 0-24');
+  }
+
+  const size = 2 ** tile.z;
+  if (tile.x < 0 || tile.x >= size || tile.y < 0 || tile.y >= size) {
+    throw new InvalidInputError(
+      `Tile x and y must be between 0 and ${size - 1} at zoom ${tile.z}`,
+    );
+  }
+  return tile;
+}
+
+const tileLon = (x: number, z: number) => (x / 2 ** z) * 360 - 180;
+const tileLat = (y: number, z: number) =>
+  (Math.atan(Math.sinh(Math.PI * (1 - (2 * y) / 2 ** z))) * 180) / Math.PI;
+
+/**
+ * Envelope of an XYZ (slippy map) tile, grown by `buffer` tile pixels out of
+ * `extent` on every side so symbols near the edge are drawn in both tiles.
+ */
+export function tileBbox(
+  { z, x, y }: TileCoordinates,
+  buffer = 0,
+  extent = 4096,
+): Bbox {
+  const margin = buffer / extent;
+  const size = 2 ** z;
+  return [
+    Math.max(-180, tileLon(x - margin, z)),
+    Math.max(-85.0511287798, tileLat(Math.min(size, y + 1 + margin), z)),
+    Math.min(180, tileLon(x + 1 + margin, z)),
+    Math.min(85.0511287798, tileLat(Math.max(0, y - margin), z)),
+  ];
+}
+
+// Position of a coordinate in tile pixels, Web Mercator
+export function toTilePixel(
+  [lon, lat]: number[],
+  { z, x, y }: TileCoordinates,
+  extent = 4096,
+): { x: number; y: number } {
+  const size = 2 ** z;
+  const rad = (lat * Math.PI) / 180;
+  const worldX = (lon + 180) / 360;
+  const worldY =
+    (1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2;
+  return {
+    x: (worldX * size - x) * extent,
+    y: (worldY * size - y) * extent,
+  };
+}
@@ -0,0 +1,220 @@
+import stringSimilarity from 'string-similarity';
+import { FilterQuery } from 'mongoose';
+import { MapAddress } from '../schemas/map-address.schema';
+import { buildSearchFields, SearchFields } from '../search/search-pipeline';
+import { SEARCH_FIELD_WEIGHTS } from '../search/search-ranking';
+import { NormalizationProfile } from '../search/normalization';
+
+export const VERIFY_FIELDS = [
+  'street',
+  'number',
+  'unit',
+  'postcode',
+  'city',
+] as const;
+
+export type VerifyField = (typeof VERIFY_FIELDS)[number];
+
+export type VerifyInput = Partial<Record<VerifyField, string>>;
+
+export type VerifyStatus = 'exact' | 'corrected' | 'ambiguous' | 'not_found';
+
+export type FieldCorrection = {
+  field: VerifyField;
+  input: string | null;
+  value: string;
+};
+
+type Candidate = Pick<MapAddress, 'properties'>;
+
+export type ScoredCandidate<T extends Candidate> = T & { score: number };
+
+export type VerificationOutcome<T extends Candidate> = {
+  status: VerifyStatus;
+  confidence: number;
+  match?: ScoredCandidate<T>;
+  corrections?: FieldCorrection[];
+  candidates?: ScoredCandidate<T>[];
+};
+
+// Lowest weighted field similarity accepted as a correction
+export const VERIFY_CORRECTION_THRESHOLD = 0.75;
+
+// Runners-up closer than this to the best candidate make the answer
+// ambiguous rather than a correction
+export const VERIFY_AMBIGUITY_MARGIN = 0.03;
+
+export const VERIFY_MAX_CANDIDATES = 5;
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The verified fields as stored in `search`, so comparisons ignore case,
+// diacritics, abbreviations and postcode spacing; `profile` should be the
+// one the dataset was indexed with
+export function toVerifyFields(
+  input: VerifyInput,
+  profile?: NormalizationProfile,
+): Pick<SearchFields, VerifyField> {
+  const { street, number, unit, postcode, city } = buildSearchFields(
+    {
+      street: input.street ?? '',
+      number: input.number ?? '',
+      unit: input.unit ?? '',
+      postcode: input.postcode ?? '',
+      city: input.city ?? '',
+    },
+    profile,
+  );
+  return { street, number, unit, postcode, city };
+}
+
+/**
+ * Candidate query tolerant of a mistake in any one field: the house number
+ * with the postcode, with the exact street, or with the city and the start
+ * of the street, plus the postcode with the street for a mistyped number.
+ */
+export function buildVerifyCandidateMatch(
+  fields: Pick<SearchFields, VerifyField>,
+): FilterQuery<MapAddress> {
+  const number = fields.number ? { 'search.number': fields.number } : {};
+  const clauses: FilterQuery<MapAddress>[] = [];
+
+  if (fields.postcode) {
+    clauses.push({ 'search.postcode': fields.postcode, ...number });
+    if (fields.street) {
+      clauses.push({
+        'search.postcode': fields.postcode,
+        'search.street': fields.street,
+      });
+    }
+  }
+  if (fields.street) {
+    clauses.push({ 'search.street': fields.street, ...number });
+  }
+  if (fields.city && fields.street) {
+    clauses.push({
+      'search.street': new RegExp(
+        `^${escapeRegExp(fields.street.slice(0, 3))}`,
+      ),
+      'search.city': fields.city,
+      ...number,
+    });
+  }
+
+  return clauses.length ? { $or: clauses } : { _id: null };
+}
+
+// Weighted similarity over the fields the caller filled in, using the
+// same per-field weights as search ranking
+function scoreFields(
+  input: Pick<SearchFields, VerifyField>,
+  candidate: Pick<SearchFields, VerifyField>,
+): number {
+  let total = 0;
+  let weights = 0;
+  for (const [field, weight] of Object.entries(SEARCH_FIELD_WEIGHTS)) {
+    const typed = input[field as keyof typeof SEARCH_FIELD_WEIGHTS];
+    if (!typed) {
+      continue;
+    }
+    const stored = candidate[field as keyof typeof SEARCH_FIELD_WEIGHTS];
+    total +=
+      weight *
+      (typed === stored
+        ? 1
+        : stringSimilarity.compareTwoStrings(typed, stored));
+    weights += weight;
+  }
+  return weights ? total / weights : 0;
+}
+
+/**
+ * Decides whether the typed address exists. An exact match agrees on every
+ * filled-in field and on the unit; otherwise the best scoring candidate is
+ * offered as a correction when it clearly beats the rest, and the close
+ * ones are returned when it does not.
+ */
+export function resolveVerification<T extends Candidate>(
+  input: VerifyInput,
+  candidates: T[],
+  profile?: NormalizationProfile,
+): VerificationOutcome<T> {
+  const typed = toVerifyFields(input, profile);
+  const scored = candidates
+    .map((candidate) => {
+      const fields = toVerifyFields(candidate.properties, profile);
+      return { candidate, fields, score: scoreFields(typed, fields) };
+    })
+    .sort((a, b) => b.score - a.score);
+  type Scored = (typeof scored)[number];
+
+  const withScore = ({ candidate, score }: Scored) => ({
+    ...candidate,
+    score: Math.round(score * 1000) / 1000,
+  });
+
+  // Several units can share a house number; prefer the typed one, or the
+  // address without a unit when none was typed
+  const preferUnit = (list: Scored[]) => {
+    const sameUnit = list.filter(({ fields }) => fields.unit === typed.unit);
+    return sameUnit.length ? sameUnit : list;
+  };
+
+  const resolve = (list: Scored[], confidence: number) => {
+    if (list.length > 1) {
+      return {
+        status: 'ambiguous' as const,
+        confidence,
+        candidates: list.slice(0, VERIFY_MAX_CANDIDATES).map(withScore),
+      };
+    }
+
+    // Typed fields that differ, plus a unit the caller left out
+    const [best] = list;
+    const corrections = VERIFY_FIELDS.filter((field) =>
+      typed[field]
+        ? typed[field] !== best.fields[field]
+        : field === 'unit' && !!best.fields.unit,
+    ).map((field) => ({
+      field,
+      input: input[field]?.trim() || null,
+      value: best.candidate.properties[field] ?? '',
+    }));
+
+    return corrections.length
+      ? {
+          status: 'corrected' as const,
+          confidence,
+          match: withScore(best),
+          corrections,
+        }
+      : { status: 'exact' as const, confidence: 1, match: withScore(best) };
+  };
+
+  const exact = scored.filter(({ fields }) =>
+    VERIFY_FIELDS.every(
+      (field) =>
+        field === 'unit' || !typed[field] || typed[field] === fields[field],
+    ),
+  );
+  if (exact.length) {
+    return resolve(preferUnit(exact), 1);
+  }
+
+  const [best] = scored;
+  if (!best || best.score < VERIFY_CORRECTION_THRESHOLD) {
+    return {
+      status: 'not_found',
+      confidence: best ? withScore(best).score : 0,
+    };
+  }
+
+  return resolve(
+    preferUnit(
+      scored.filter(
+        ({ score }) => best.score - score < VERIFY_AMBIGUITY_MARGIN,
+      ),
+    ),
+    withScore(best).score,
+  );
+}
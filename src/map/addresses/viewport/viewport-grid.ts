@@ -0,0 +1,203 @@
+import { FilterQuery, PipelineStage } from 'mongoose';
+import { MapAddress } from '../schemas/map-address.schema';
+import { InvalidInputError } from '../../../errors/domain-errors';
+
+// [minLon, minLat, maxLon, maxLat]
+export type Bbox = [number, number, number, number];
+
+// Web Mercator cannot project beyond these latitudes
+const MERCATOR_MAX_LAT = 85.0511287798;
+
+// Keeps the densified parallels' geodesic bulge inside the query polygon
+const BBOX_PADDING_DEGREES = 0.01;
+
+// MongoDB only accepts polygons larger than a hemisphere with this CRS
+const STRICT_WINDING_CRS = {
+  type: 'name',
+  properties: { name: 'urn:x-mongodb:crs:strictwinding:EPSG:4326' },
+};
+
+export function parseBbox(value: unknown): Bbox {
+  const parts = Array.isArray(value) ? value : String(value ?? '').split(',');
+  const bbox = parts.map((part) => Number(String(part).trim()));
+
+  if (bbox.length !== 4 || bbox.some((n) => !Number.isFinite(n))) {
+    throw new InvalidInputError(
+      'bbox must be four numbers: minLon,minLat,maxLon,maxLat',
+    );
+  }
+
+  const [minLon, minLat, maxLon, maxLat] = bbox;
+  if (
+    Math.abs(minLon) > 180 ||
+    Math.abs(maxLon) > 180 ||
+    Math.abs(minLat) > 90 ||
+    Math.abs(maxLat) > 90
+  ) {
+    throw new InvalidInputError(
+      'bbox is outside longitude -180..180 / latitude -90..90',
+    );
+  }
+  if (minLon >= maxLon || minLat >= maxLat) {
+    throw new InvalidInputError(
+      'bbox min values must be lower than max values (split viewports crossing the antimeridian in two)',
+    );
+  }
+
+  return bbox as Bbox;
+}
+
+/**
+ * Matches points inside the box. The 2dsphere index is used through a
+ * polygon whose parallels are densified to 1° steps (geodesic edges would
+ * otherwise cut into the box), padded, and then trimmed exactly by a
+ * planar range on the raw coordinates.
+ */
+export function buildBboxMatch(bbox: Bbox): FilterQuery<MapAddress> {
+  const [minLon, minLat, maxLon, maxLat] = bbox;
+  const south = Math.max(-89.99, minLat - BBOX_PADDING_DEGREES);
+  const north = Math.min(89.99, maxLat + BBOX_PADDING_DEGREES);
+  const steps = Math.max(1, Math.ceil(maxLon - minLon));
+  const lonAt = (i: number) => minLon + ((maxLon - minLon) * i) / steps;
+
+  // Counter-clockwise, as strict winding requires
+  const ring: number[][] = [];
+  for (let i = 0; i <= steps; i++) {
+    ring.push([lonAt(i), south]);
+  }
+  for (let i = steps; i >= 0; i--) {
+    ring.push([lonAt(i), north]);
+  }
+  ring.push([minLon, south]);
+
+  return {
+    geometry: {
+      $geoWithin: {
+        $geometry: {
+          type: 'Polygon',
+          coordinates: [ring],
+          crs: STRICT_WINDING_CRS,
+        },
+      },
+    },
+    'geometry.coordinates.0': { $gte: minLon, $lte: maxLon },
+    'geometry.coordinates.1': { $gte: minLat, $lte: maxLat },
+  };
+}
+
+// Fractional Web Mercator world coordinates in 0..1
+const mercatorX = (lon: number) => (lon + 180) / 360;
+const mercatorY = (lat: number) => {
+  const rad =
+    (Math.max(-MERCATOR_MAX_LAT, Math.min(MERCATOR_MAX_LAT, lat)) * Math.PI) /
+    180;
+  return (1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2;
+};
+
+/**
+ * Grid resolution in cells across the world: one cell per `cellPixels` of
+ * a 256 px tile at `zoom`, coarsened until the viewport spans at most
+ * `budget` cells so a response never exceeds the point budget.
+ */
+export function gridCellsFor(
+  bbox: Bbox,
+  zoom: number,
+  cellPixels: number,
+  budget: number,
+): number {
+  const [minLon, minLat, maxLon, maxLat] = bbox;
+  const spanX = mercatorX(maxLon) - mercatorX(minLon);
+  const spanY = mercatorY(minLat) - mercatorY(maxLat);
+
+  let cells = 2 ** zoom * (256 / cellPixels);
+  while (
+    cells > 1 &&
+    (Math.ceil(spanX * cells) + 1) * (Math.ceil(spanY * cells) + 1) > budget
+  ) {
+    cells /= 2;
+  }
+  return cells;
+}
+
+/**
+ * Groups matching addresses into Web Mercator grid cells of `cells` per
+ * world axis, keeping per cell the count, mean position, extent and one
+ * member (returned as-is when the cell holds a single address).
+ */
+export function buildClusterPipeline(
+  match: FilterQuery<MapAddress>,
+  cells: number,
+  limit: number,
+): PipelineStage[] {
+  const lon = { $arrayElemAt: ['$geometry.coordinates', 0] };
+  const lat = { $arrayElemAt: ['$geometry.coordinates', 1] };
+  const latRad = {
+    $degreesToRadians: {
+      $max: [-MERCATOR_MAX_LAT, { $min: [MERCATOR_MAX_LAT, '$lat'] }],
+    },
+  };
+
+  return [
+    { $match: match },
+    { $project: { dataset: 1, type: 1, geometry: 1, properties: 1, lon, lat } },
+    {
+      $group: {
+        _id: {
+          x: {
+            $floor: {
+              $multiply: [{ $divide: [{ $add: ['$lon', 180] }, 360] }, cells],
+            },
+          },
+          y: {
+            $floor: {
+              $multiply: [
+                {
+                  $divide: [
+                    {
+                      $subtract: [
+                        1,
+                        {
+                          $divide: [
+                            {
+                              $ln: {
+                                $add: [
+                                  { $tan: latRad },
+                                  { $divide: [1, { $cos: latRad }] },
+                                ],
+                              },
+                            },
+                            Math.PI,
+                          ],
+                        },
+                      ],
+                    },
+                    2,
+                  ],
+                },
+                cells,
+              ],
+            },
+          },
+        },
+        count: { $sum: 1 },
+        lon: { $avg: '$lon' },
+        lat: { $avg: '$lat' },
+        minLon: { $min: '$lon' },
+        minLat: { $min: '$lat' },
+        maxLon: { $max: '$lon' },
+        maxLat: { $max: '$lat' },
+        member: {
+          $first: {
+            _id: '$_id',
+            dataset: '$dataset',
+            type: '$type',
+            geometry: '$geometry',
+            properties: '$properties',
+          },
+        },
+      },
+    },
+    { $sort: { count: -1, _id: 1 } },
+    { $limit: limit },
+  ];
+}
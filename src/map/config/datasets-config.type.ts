@@ -0,0 +1,3 @@
+export type DatasetsConfig = {
+  defaultDataset: string;
+};
@@ -0,0 +1,21 @@
+import { registerAs } from '@nestjs/config';
+import { IsOptional, Matches } from 'class-validator';
+import validateConfig from '../../utils/validate-config';
+import { DatasetsConfig } from './datasets-config.type';
+import { DATASET_KEY_PATTERN } from '../datasets/dataset-key';
+
+class EnvironmentVariablesValidator {
+  @Matches(DATASET_KEY_PATTERN)
+  @IsOptional()
+  MAP_DEFAULT_DATASET: string;
+}
+
+export default registerAs<DatasetsConfig>('datasets', () => {
+  validateConfig(process.env, EnvironmentVariablesValidator);
+
+  return {
+    // Queried when a request names no dataset, written to when an import
+    // or edit names none, and assigned to addresses stored before datasets
+    defaultDataset: process.env.MAP_DEFAULT_DATASET || 'default',
+  };
+});
@@ -0,0 +1,4 @@
+export type DedupConfig = {
+  maxDistanceMeters: number;
+  minStreetSimilarity: number;
+};
@@ -0,0 +1,32 @@
+import { registerAs } from '@nestjs/config';
+import { IsInt, IsNumber, IsOptional, Max, Min } from 'class-validator';
+import validateConfig from '../../utils/validate-config';
+import { DedupConfig } from './dedup-config.type';
+
+class EnvironmentVariablesValidator {
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  DEDUP_MAX_DISTANCE_METERS: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  @IsOptional()
+  DEDUP_MIN_STREET_SIMILARITY: number;
+}
+
+export default registerAs<DedupConfig>('dedup', () => {
+  validateConfig(process.env, EnvironmentVariablesValidator);
+
+  return {
+    // Farthest two records of one address may lie apart
+    maxDistanceMeters: process.env.DEDUP_MAX_DISTANCE_METERS
+      ? parseInt(process.env.DEDUP_MAX_DISTANCE_METERS, 10)
+      : 25,
+    // Normalized street names at least this similar count as one street
+    minStreetSimilarity: process.env.DEDUP_MIN_STREET_SIMILARITY
+      ? parseFloat(process.env.DEDUP_MIN_STREET_SIMILARITY)
+      : 0.85,
+  };
+});
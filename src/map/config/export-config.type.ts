@@ -0,0 +1,3 @@
+export type ExportConfig = {
+  maxRows: number;
+};
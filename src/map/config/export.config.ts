@@ -0,0 +1,22 @@
+import { registerAs } from '@nestjs/config';
+import { IsInt, IsOptional, Min } from 'class-validator';
+import validateConfig from '../../utils/validate-config';
+import { ExportConfig } from './export-config.type';
+
+class EnvironmentVariablesValidator {
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  EXPORT_MAX_ROWS: number;
+}
+
+export default registerAs<ExportConfig>('export', () => {
+  validateConfig(process.env, EnvironmentVariablesValidator);
+
+  return {
+    // Hard cap on rows per export, whatever the request asks for
+    maxRows: process.env.EXPORT_MAX_ROWS
+      ? parseInt(process.env.EXPORT_MAX_ROWS, 10)
+      : 1000000,
+  };
+});
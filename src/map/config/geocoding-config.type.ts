@@ -0,0 +1,4 @@
+export type GeocodingConfig = {
+  batchMaxRows: number;
+  jobMaxRows: number;
+};
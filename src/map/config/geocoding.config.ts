@@ -0,0 +1,31 @@
+import { registerAs } from '@nestjs/config';
+import { IsInt, IsOptional, Min } from 'class-validator';
+import validateConfig from '../../utils/validate-config';
+import { GeocodingConfig } from './geocoding-config.type';
+
+class EnvironmentVariablesValidator {
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  GEOCODE_BATCH_MAX_ROWS: number;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  GEOCODE_JOB_MAX_ROWS: number;
+}
+
+export default registerAs<GeocodingConfig>('geocoding', () => {
+  validateConfig(process.env, EnvironmentVariablesValidator);
+
+  return {
+    // Rows resolved within one synchronous request
+    batchMaxRows: process.env.GEOCODE_BATCH_MAX_ROWS
+      ? parseInt(process.env.GEOCODE_BATCH_MAX_ROWS, 10)
+      : 100,
+    // Rows accepted in one uploaded CSV
+    jobMaxRows: process.env.GEOCODE_JOB_MAX_ROWS
+      ? parseInt(process.env.GEOCODE_JOB_MAX_ROWS, 10)
+      : 100000,
+  };
+});
@@ -0,0 +1,4 @@
+export type PaginationConfig = {
+  cursorSecret: string;
+  cursorTtlSeconds: number;
+};
@@ -0,0 +1,30 @@
+import { registerAs } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import { IsInt, IsOptional, IsString, Min } from 'class-validator';
+import validateConfig from '../../utils/validate-config';
+import { PaginationConfig } from './pagination-config.type';
+
+class EnvironmentVariablesValidator {
+  @IsString()
+  @IsOptional()
+  PAGINATION_CURSOR_SECRET: string;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  PAGINATION_CURSOR_TTL_SECONDS: number;
+}
+
+export default registerAs<PaginationConfig>('pagination', () => {
+  validateConfig(process.env, EnvironmentVariablesValidator);
+
+  return {
+    // HMAC key for page cursors. Without one, cursors only work against the
+    // process that issued them.
+    cursorSecret:
+      process.env.PAGINATION_CURSOR_SECRET || randomBytes(32).toString('hex'),
+    cursorTtlSeconds: process.env.PAGINATION_CURSOR_TTL_SECONDS
+      ? parseInt(process.env.PAGINATION_CURSOR_TTL_SECONDS, 10)
+      : 86400,
+  };
+});
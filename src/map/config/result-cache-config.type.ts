@@ -0,0 +1,5 @@
+export type ResultCacheConfig = {
+  maxEntries: number;
+  ttlSeconds: number;
+  maxAgeSeconds: number;
+};
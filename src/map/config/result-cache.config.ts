@@ -0,0 +1,39 @@
+import { registerAs } from '@nestjs/config';
+import { IsInt, IsOptional, Min } from 'class-validator';
+import validateConfig from '../../utils/validate-config';
+import { ResultCacheConfig } from './result-cache-config.type';
+
+class EnvironmentVariablesValidator {
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  RESULT_CACHE_MAX_ENTRIES: number;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  RESULT_CACHE_TTL_SECONDS: number;
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  RESULT_CACHE_MAX_AGE_SECONDS: number;
+}
+
+export default registerAs<ResultCacheConfig>('resultCache', () => {
+  validateConfig(process.env, EnvironmentVariablesValidator);
+
+  return {
+    // Responses kept by the in-memory cache; 0 turns it off
+    maxEntries: process.env.RESULT_CACHE_MAX_ENTRIES
+      ? parseInt(process.env.RESULT_CACHE_MAX_ENTRIES, 10)
+      : 1000,
+    ttlSeconds: process.env.RESULT_CACHE_TTL_SECONDS
+      ? parseInt(process.env.RESULT_CACHE_TTL_SECONDS, 10)
+      : 300,
+    // Cache-Control max-age for clients; they revalidate with the ETag after
+    maxAgeSeconds: process.env.RESULT_CACHE_MAX_AGE_SECONDS
+      ? parseInt(process.env.RESULT_CACHE_MAX_AGE_SECONDS, 10)
+      : 60,
+  };
+});
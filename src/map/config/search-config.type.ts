@@ -0,0 +1,6 @@
+import { AbbreviationRule } from '../addresses/search/normalization';
+
+export type SearchConfig = {
+  locales: string[];
+  abbreviations: Record<string, AbbreviationRule[]>;
+};
@@ -0,0 +1,33 @@
+import { registerAs } from '@nestjs/config';
+import { readFileSync } from 'fs';
+import { IsOptional, IsString } from 'class-validator';
+import validateConfig from '../../utils/validate-config';
+import { SearchConfig } from './search-config.type';
+
+class EnvironmentVariablesValidator {
+  @IsString()
+  @IsOptional()
+  SEARCH_LOCALES: string;
+
+  @IsString()
+  @IsOptional()
+  SEARCH_ABBREVIATIONS_FILE: string;
+}
+
+export default registerAs<SearchConfig>('search', () => {
+  validateConfig(process.env, EnvironmentVariablesValidator);
+
+  // Extra or overriding abbreviation rules per locale, e.g.
+  // { "nl": [{ "abbreviation": "burg", "expansion": "burgemeester" }] }
+  const abbreviations = process.env.SEARCH_ABBREVIATIONS_FILE
+    ? JSON.parse(readFileSync(process.env.SEARCH_ABBREVIATIONS_FILE, 'utf8'))
+    : {};
+
+  return {
+    locales: (process.env.SEARCH_LOCALES || 'nl,it')
+      .split(',')
+      .map((locale) => locale.trim().toLowerCase())
+      .filter(Boolean),
+    abbreviations,
+  };
+});
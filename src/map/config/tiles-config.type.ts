@@ -0,0 +1,6 @@
+export type TilesConfig = {
+  minZoom: number;
+  maxZoom: number;
+  maxFeatures: number;
+  defaultFields: string[];
+};
@@ -0,0 +1,51 @@
+import { registerAs } from '@nestjs/config';
+import { IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import validateConfig from '../../utils/validate-config';
+import { TilesConfig } from './tiles-config.type';
+
+class EnvironmentVariablesValidator {
+  @IsInt()
+  @Min(0)
+  @Max(24)
+  @IsOptional()
+  TILES_MIN_ZOOM: number;
+
+  @IsInt()
+  @Min(0)
+  @Max(24)
+  @IsOptional()
+  TILES_MAX_ZOOM: number;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  TILES_MAX_FEATURES: number;
+
+  @IsString()
+  @IsOptional()
+  TILES_DEFAULT_FIELDS: string;
+}
+
+export default registerAs<TilesConfig>('tiles', () => {
+  validateConfig(process.env, EnvironmentVariablesValidator);
+
+  return {
+    // Below this zoom a tile would hold too many addresses to be useful
+    minZoom: process.env.TILES_MIN_ZOOM
+      ? parseInt(process.env.TILES_MIN_ZOOM, 10)
+      : 12,
+    maxZoom: process.env.TILES_MAX_ZOOM
+      ? parseInt(process.env.TILES_MAX_ZOOM, 10)
+      : 20,
+    maxFeatures: process.env.TILES_MAX_FEATURES
+      ? parseInt(process.env.TILES_MAX_FEATURES, 10)
+      : 50000,
+    // Properties encoded as feature attributes unless `fields` is given
+    defaultFields: (
+      process.env.TILES_DEFAULT_FIELDS || 'id,street,number,postcode,city'
+    )
+      .split(',')
+      .map((field) => field.trim())
+      .filter(Boolean),
+  };
+});
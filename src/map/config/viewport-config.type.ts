@@ -0,0 +1,5 @@
+export type ViewportConfig = {
+  pointBudget: number;
+  clusterMaxZoom: number;
+  clusterCellPixels: number;
+};
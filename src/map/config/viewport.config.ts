@@ -0,0 +1,42 @@
+import { registerAs } from '@nestjs/config';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import validateConfig from '../../utils/validate-config';
+import { ViewportConfig } from './viewport-config.type';
+
+class EnvironmentVariablesValidator {
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  VIEWPORT_POINT_BUDGET: number;
+
+  @IsInt()
+  @Min(0)
+  @Max(24)
+  @IsOptional()
+  VIEWPORT_CLUSTER_MAX_ZOOM: number;
+
+  @IsInt()
+  @Min(8)
+  @Max(256)
+  @IsOptional()
+  VIEWPORT_CLUSTER_CELL_PIXELS: number;
+}
+
+export default registerAs<ViewportConfig>('viewport', () => {
+  validateConfig(process.env, EnvironmentVariablesValidator);
+
+  return {
+    // Most features (clusters or points) a single viewport response holds
+    pointBudget: process.env.VIEWPORT_POINT_BUDGET
+      ? parseInt(process.env.VIEWPORT_POINT_BUDGET, 10)
+      : 2000,
+    // From this zoom on, individual addresses are returned
+    clusterMaxZoom: process.env.VIEWPORT_CLUSTER_MAX_ZOOM
+      ? parseInt(process.env.VIEWPORT_CLUSTER_MAX_ZOOM, 10)
+      : 17,
+    // Grid cell size on screen at the requested zoom (256 px tiles)
+    clusterCellPixels: process.env.VIEWPORT_CLUSTER_CELL_PIXELS
+      ? parseInt(process.env.VIEWPORT_CLUSTER_CELL_PIXELS, 10)
+      : 64,
+  };
+});
@@ -0,0 +1,11 @@
+// Dataset keys appear in URLs and cache keys: lowercase slugs only
+export const DATASET_KEY_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+// Requested dataset keys, from an array or a comma-separated string
+export function toDatasetKeys(value?: string | string[]): string[] {
+  if (!value) {
+    return [];
+  }
+  const items = Array.isArray(value) ? value : String(value).split(',');
+  return [...new Set(items.map((item) => String(item).trim()).filter(Boolean))];
+}
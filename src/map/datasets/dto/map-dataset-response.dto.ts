@@ -0,0 +1,44 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class MapDatasetResponseDto {
+  @ApiProperty({
+    description: 'Value to pass as `dataset` on search and spatial routes',
+    example: 'nl-bag',
+  })
+  key: string;
+
+  @ApiProperty({ example: 'Basisregistratie Adressen en Gebouwen' })
+  name: string;
+
+  @ApiProperty({ example: 'Kadaster BAG extract' })
+  source: string;
+
+  @ApiProperty({ example: 'CC0-1.0' })
+  license: string;
+
+  @ApiProperty({ example: '' })
+  description: string;
+
+  @ApiProperty({
+    description:
+      'Locales whose abbreviations and postcode formats search applies to this dataset',
+    type: [String],
+    example: ['nl'],
+  })
+  locales: string[];
+
+  @ApiProperty({
+    description: 'When the last import finished',
+    nullable: true,
+    type: Date,
+  })
+  importedAt: Date | null;
+
+  @ApiProperty({ description: 'Active addresses', example: 9876543 })
+  recordCount: number;
+
+  @ApiProperty({
+    description: 'Whether requests without `dataset` query this one',
+  })
+  isDefault: boolean;
+}
@@ -0,0 +1,46 @@
+import { Controller, Get, Param, UseGuards } from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from '@nestjs/swagger';
+import { MapDatasetsService } from './map-datasets.service';
+import { MapDatasetResponseDto } from './dto/map-dataset-response.dto';
+import {
+  ApiCommonProblemResponses,
+  ApiProblemResponse,
+} from '../../errors/api-problem-response.decorator';
+import { ApiKeyGuard } from '../../api-keys/guards/api-key.guard';
+
+@ApiTags('Map')
+@ApiSecurity('api-key')
+@ApiCommonProblemResponses()
+@ApiProblemResponse(401, 'Missing, unknown or revoked API key')
+@ApiProblemResponse(
+  429,
+  'Rate limit or monthly quota exceeded; retry after Retry-After',
+)
+@UseGuards(ApiKeyGuard)
+@Controller({
+  path: 'map/datasets',
+  version: '1',
+})
+export class MapDatasetsController {
+  constructor(private readonly datasetsService: MapDatasetsService) {}
+
+  @ApiOperation({ summary: 'List the address datasets that can be queried' })
+  @ApiResponse({ status: 200, type: [MapDatasetResponseDto] })
+  @Get()
+  async list(): Promise<MapDatasetResponseDto[]> {
+    return await this.datasetsService.list();
+  }
+
+  @ApiOperation({ summary: 'Source, license and size of one dataset' })
+  @ApiResponse({ status: 200, type: MapDatasetResponseDto })
+  @ApiProblemResponse(404, 'No dataset with this key')
+  @Get(':key')
+  async get(@Param('key') key: string): Promise<MapDatasetResponseDto> {
+    return await this.datasetsService.get(key);
+  }
+}
@@ -0,0 +1,158 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { ClientSession, Model } from 'mongoose';
+import { MapDataset, MapDatasetDocument } from './schemas/map-dataset.schema';
+import { MapDatasetResponseDto } from './dto/map-dataset-response.dto';
+import { toDatasetKeys } from './dataset-key';
+import { AllConfigType } from '../../config/config.type';
+import {
+  InvalidInputError,
+  ResourceNotFoundError,
+} from '../../errors/domain-errors';
+import { toServiceError } from '../../errors/service-errors';
+import { NormalizationProfile } from '../addresses/search/normalization';
+import { getNormalizationProfile } from '../addresses/search/default-profile';
+
+// Datasets only appear on import; a key not seen yet triggers a reload.
+// Locale changes reach queries within the same time
+const KNOWN_KEYS_TTL_MS = 60 * 1000;
+
+@Injectable()
+export class MapDatasetsService {
+  // Locales of every known dataset, by key; empty for SEARCH_LOCALES
+  private known?: { keys: Map<string, string[]>; expiresAt: number };
+
+  constructor(
+    @InjectModel(MapDataset.name)
+    private datasetModel: Model<MapDatasetDocument>,
+    private configService: ConfigService<AllConfigType>,
+  ) {}
+
+  get defaultDataset(): string {
+    return this.configService.getOrThrow('datasets.defaultDataset', {
+      infer: true,
+    });
+  }
+
+  async list(): Promise<MapDatasetResponseDto[]> {
+    try {
+      const docs = await this.datasetModel.find().sort({ key: 1 }).exec();
+      return docs.map((doc) => this.toResponse(doc));
+    } catch (error) {
+      throw toServiceError(error, 'Failed to list datasets');
+    }
+  }
+
+  async get(key: string): Promise<MapDatasetResponseDto> {
+    try {
+      const doc = await this.datasetModel.findOne({ key }).exec();
+      if (!doc) {
+        throw new ResourceNotFoundError(`Dataset ${key} not found`);
+      }
+      return this.toResponse(doc);
+    } catch (error) {
+      throw toServiceError(error, 'Failed to fetch dataset');
+    }
+  }
+
+  /**
+   * Datasets a read covers: the requested keys, or the default dataset
+   * when none is named. Unknown keys are rejected rather than matching
+   * nothing, so a typo does not look like an empty result.
+   */
+  async resolve(value?: string | string[]): Promise<string[]> {
+    const requested = toDatasetKeys(value);
+    if (!requested.length) {
+      return [this.defaultDataset];
+    }
+
+    let known = await this.knownKeys();
+    const isKnown = (key: string) =>
+      key === this.defaultDataset || known.has(key);
+    if (!requested.every(isKnown)) {
+      known = await this.knownKeys(true);
+    }
+
+    const unknown = requested.filter((key) => !isKnown(key));
+    if (unknown.length) {
+      throw new InvalidInputError(
+        `Unknown dataset(s): ${unknown.join(', ')}. GET /map/datasets lists the available ones.`,
+      );
+    }
+    return requested.sort();
+  }
+
+  // The one dataset a write goes to
+  async resolveOne(value?: string): Promise<string> {
+    const datasets = await this.resolve(value);
+    if (datasets.length > 1) {
+      throw new InvalidInputError('Name a single dataset to write to');
+    }
+    return datasets[0];
+  }
+
+  /**
+   * Normalization profile for queries over the datasets: their own locales,
+   * or SEARCH_LOCALES for those without. A query over datasets of several
+   * locales is normalized with all of them, the first dataset's rules
+   * winning where they overlap.
+   */
+  async profileFor(keys: string[]): Promise<NormalizationProfile> {
+    const known = await this.knownKeys();
+    const defaults = this.configService.getOrThrow('search.locales', {
+      infer: true,
+    });
+    const locales = keys.flatMap((key) => {
+      const own = known.get(key);
+      return own?.length ? own : defaults;
+    });
+    return getNormalizationProfile([...new Set(locales)]);
+  }
+
+  // Keeps recordCount in step with single-address edits between imports,
+  // in the session of the edit so both commit together
+  async adjustCount(
+    key: string,
+    delta: number,
+    session?: ClientSession,
+  ): Promise<void> {
+    await this.datasetModel
+      .updateOne({ key }, { $inc: { recordCount: delta } })
+      .session(session ?? null)
+      .exec();
+  }
+
+  private async knownKeys(refresh = false): Promise<Map<string, string[]>> {
+    if (refresh || !this.known || this.known.expiresAt <= Date.now()) {
+      const datasets = await this.datasetModel
+        .find()
+        .select('key locales')
+        .lean()
+        .exec();
+      this.known = {
+        keys: new Map(
+          datasets.map((dataset) => [dataset.key, dataset.locales ?? []]),
+        ),
+        expiresAt: Date.now() + KNOWN_KEYS_TTL_MS,
+      };
+    }
+    return this.known.keys;
+  }
+
+  private toResponse(doc: MapDatasetDocument): MapDatasetResponseDto {
+    return {
+      key: doc.key,
+      name: doc.name,
+      source: doc.source,
+      license: doc.license,
+      description: doc.description,
+      locales: doc.locales?.length
+        ? doc.locales
+        : this.configService.getOrThrow('search.locales', { infer: true }),
+      importedAt: doc.importedAt ?? null,
+      recordCount: doc.recordCount,
+      isDefault: doc.key === this.defaultDataset,
+    };
+  }
+}
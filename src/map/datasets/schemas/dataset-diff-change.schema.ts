@@ -0,0 +1,59 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type DatasetDiffChangeDocument = DatasetDiffChange & Document;
+
+export type DatasetDiffChangeKind = 'added' | 'removed' | 'moved' | 'changed';
+
+// Address as stored, or as the release has it
+export type DatasetDiffRecord = {
+  coordinates: [number, number];
+  properties: Record<string, string>;
+};
+
+// One record of a diff; `before` and `after` are what apply and rollback
+// write and what they expect to find
+@Schema({ collection: 'dataset_diff_changes', versionKey: false })
+export class DatasetDiffChange {
+  @Prop({ type: Types.ObjectId, required: true })
+  diff: Types.ObjectId;
+
+  // The stored address; allocated up front for additions so a rollback
+  // can find the inserted document
+  @Prop({ type: Types.ObjectId, required: true })
+  address: Types.ObjectId;
+
+  @Prop({ type: String, required: true })
+  addressId: string;
+
+  @Prop({
+    type: String,
+    enum: ['added', 'removed', 'moved', 'changed'],
+    required: true,
+  })
+  kind: DatasetDiffChangeKind;
+
+  // Properties that differ, hash excluded
+  @Prop({ type: [String], default: [] })
+  fields: string[];
+
+  // Coordinate shift in meters
+  @Prop({ type: Number, default: 0 })
+  distance: number;
+
+  @Prop({ type: Object, default: null })
+  before: DatasetDiffRecord | null;
+
+  @Prop({ type: Object, default: null })
+  after: DatasetDiffRecord | null;
+
+  // Set once the change is written; cleared again by a rollback
+  @Prop({ type: Date, default: null })
+  appliedAt: Date | null;
+}
+
+export const DatasetDiffChangeSchema =
+  SchemaFactory.createForClass(DatasetDiffChange);
+
+DatasetDiffChangeSchema.index({ diff: 1, appliedAt: 1, _id: 1 });
+DatasetDiffChangeSchema.index({ diff: 1, kind: 1 });
@@ -0,0 +1,21 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type DatasetDiffSeenDocument = DatasetDiffSeen & Document;
+
+// An id of the release file while a diff is computed, so ids repeated in
+// the file and stored addresses the release dropped are found without
+// holding every id in memory; a diff removes its entries when it is done
+@Schema({ collection: 'dataset_diff_seen', versionKey: false })
+export class DatasetDiffSeen {
+  @Prop({ type: Types.ObjectId, required: true })
+  diff: Types.ObjectId;
+
+  @Prop({ type: String, required: true })
+  addressId: string;
+}
+
+export const DatasetDiffSeenSchema =
+  SchemaFactory.createForClass(DatasetDiffSeen);
+
+DatasetDiffSeenSchema.index({ diff: 1, addressId: 1 }, { unique: true });
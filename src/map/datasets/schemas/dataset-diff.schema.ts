@@ -0,0 +1,62 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type DatasetDiffDocument = DatasetDiff & Document;
+
+// pending: computed, nothing written; applying / rolling_back: interrupted
+// while writing and safe to run again
+export type DatasetDiffStatus =
+  | 'pending'
+  | 'applying'
+  | 'applied'
+  | 'rolling_back'
+  | 'rolled_back';
+
+export type DatasetDiffSummary = {
+  added: number;
+  removed: number;
+  moved: number;
+  changed: number;
+  unchanged: number;
+  // Ids retired locally (edited away or merged as duplicates); a release
+  // does not bring them back
+  retired: number;
+  rejected: number;
+};
+
+// Comparison of an incoming release file with the stored dataset; the
+// individual changes live in dataset_diff_changes
+@Schema({ timestamps: true, collection: 'dataset_diffs', versionKey: false })
+export class DatasetDiff {
+  @Prop({ type: String, required: true })
+  dataset: string;
+
+  @Prop({ type: String, required: true })
+  file: string;
+
+  // Coordinate shifts beyond this many meters count as moves
+  @Prop({ type: Number, required: true })
+  moveThreshold: number;
+
+  @Prop({
+    type: String,
+    enum: ['pending', 'applying', 'applied', 'rolling_back', 'rolled_back'],
+    default: 'pending',
+  })
+  status: DatasetDiffStatus;
+
+  @Prop({ type: Object, required: true })
+  summary: DatasetDiffSummary;
+
+  @Prop({ type: Date, default: undefined })
+  appliedAt?: Date;
+
+  @Prop({ type: Date, default: undefined })
+  rolledBackAt?: Date;
+
+  createdAt?: Date;
+}
+
+export const DatasetDiffSchema = SchemaFactory.createForClass(DatasetDiff);
+
+DatasetDiffSchema.index({ dataset: 1, createdAt: -1 });
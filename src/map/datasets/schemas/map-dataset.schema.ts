@@ -0,0 +1,45 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type MapDatasetDocument = MapDataset & Document;
+
+// One source of addresses, e.g. a national register or a customer's own
+// list. Addresses carry the key of the dataset they were imported into.
+@Schema({ timestamps: true, collection: 'datasets', versionKey: false })
+export class MapDataset {
+  @Prop({ type: String, required: true, unique: true })
+  key: string;
+
+  @Prop({ type: String, required: true })
+  name: string;
+
+  // Where the data comes from: publisher, URL or file name
+  @Prop({ type: String, default: '' })
+  source: string;
+
+  @Prop({ type: String, default: '' })
+  license: string;
+
+  @Prop({ type: String, default: '' })
+  description: string;
+
+  // Locales whose abbreviations and postcode patterns apply to the
+  // addresses, e.g. ["nl"]; unset means SEARCH_LOCALES. Changing them
+  // takes a backfill (--all) to reindex the addresses
+  @Prop({ type: [String], default: undefined })
+  locales?: string[];
+
+  // End of the last completed import
+  @Prop({ type: Date, default: null })
+  importedAt: Date | null;
+
+  // Active addresses; recounted after each import and kept up to date by
+  // edits in between
+  @Prop({ type: Number, default: 0 })
+  recordCount: number;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const MapDatasetSchema = SchemaFactory.createForClass(MapDataset);
@@ -1,4 +1,5 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { MongooseModule } from '@nestjs/mongoose';
 import { MapAddressesController } from './addresses/map-addresses.controller';
 import { MapAddressesService } from './addresses/map-addresses.service';
@@ -6,15 +7,95 @@ import {
   MapAddress,
   MapAddressSchema,
 } from './addresses/schemas/map-address.schema';
+import {
+  MapAddressAudit,
+  MapAddressAuditSchema,
+} from './addresses/schemas/map-address-audit.schema';
+import { MapAddressesWriteController } from './addresses/map-addresses-write.controller';
+import { MapAddressesWriteService } from './addresses/map-addresses-write.service';
+import {
+  GeocodeJob,
+  GeocodeJobSchema,
+} from './addresses/schemas/geocode-job.schema';
+import {
+  GeocodeJobRow,
+  GeocodeJobRowSchema,
+} from './addresses/schemas/geocode-job-row.schema';
+import { MapAddressesGeocodeController } from './addresses/map-addresses-geocode.controller';
+import { MapAddressesGeocodeService } from './addresses/map-addresses-geocode.service';
+import { DedupRun, DedupRunSchema } from './addresses/schemas/dedup-run.schema';
+import {
+  DuplicateGroup,
+  DuplicateGroupSchema,
+} from './addresses/schemas/duplicate-group.schema';
+import { MapAddressesDedupController } from './addresses/map-addresses-dedup.controller';
+import { MapAddressesDedupService } from './addresses/map-addresses-dedup.service';
+import { AuthModule } from '../auth/auth.module';
+import { ApiKeysModule } from '../api-keys/api-keys.module';
+import { MetricsModule } from '../metrics/metrics.module';
+import { MapAddressesCacheService } from './addresses/map-addresses-cache.service';
+import { ResultCache } from './addresses/cache/result-cache';
+import { LruResultCache } from './addresses/cache/lru-result-cache';
+import { ResultCacheInterceptor } from './addresses/cache/result-cache.interceptor';
+import { AllConfigType } from '../config/config.type';
+import {
+  MapDataset,
+  MapDatasetSchema,
+} from './datasets/schemas/map-dataset.schema';
+import { MapDatasetsController } from './datasets/map-datasets.controller';
+import { MapDatasetsService } from './datasets/map-datasets.service';
+import {
+  SavedRegion,
+  SavedRegionSchema,
+} from './regions/schemas/saved-region.schema';
+import { MapRegionsController } from './regions/map-regions.controller';
+import { MapRegionsWriteController } from './regions/map-regions-write.controller';
+import { MapRegionsService } from './regions/map-regions.service';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: MapAddress.name, schema: MapAddressSchema },
+      { name: MapAddressAudit.name, schema: MapAddressAuditSchema },
+      { name: GeocodeJob.name, schema: GeocodeJobSchema },
+      { name: GeocodeJobRow.name, schema: GeocodeJobRowSchema },
+      { name: MapDataset.name, schema: MapDatasetSchema },
+      { name: DedupRun.name, schema: DedupRunSchema },
+      { name: DuplicateGroup.name, schema: DuplicateGroupSchema },
+      { name: SavedRegion.name, schema: SavedRegionSchema },
     ]),
+    AuthModule,
+    ApiKeysModule,
+    MetricsModule,
+  ],
+  controllers: [
+    MapAddressesController,
+    MapAddressesWriteController,
+    MapAddressesGeocodeController,
+    MapAddressesDedupController,
+    MapDatasetsController,
+    MapRegionsController,
+    MapRegionsWriteController,
+  ],
+  providers: [
+    MapAddressesService,
+    MapAddressesWriteService,
+    MapAddressesGeocodeService,
+    MapAddressesDedupService,
+    MapAddressesCacheService,
+    MapDatasetsService,
+    MapRegionsService,
+    ResultCacheInterceptor,
+    // Swap for a shared store to cache across instances
+    {
+      provide: ResultCache,
+      useFactory: (configService: ConfigService<AllConfigType>) =>
+        new LruResultCache(
+          configService.getOrThrow('resultCache.maxEntries', { infer: true }),
+        ),
+      inject: [ConfigService],
+    },
   ],
-  controllers: [MapAddressesController],
-  providers: [MapAddressesService],
   exports: [MapAddressesService],
 })
 export class MapModule {}
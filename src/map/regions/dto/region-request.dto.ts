@@ -0,0 +1,159 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsDefined,
+  IsMongoId,
+  IsNotEmpty,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { DATASET_KEY_PATTERN } from '../../datasets/dataset-key';
+
+export class CreateRegionDto {
+  @ApiProperty({ example: 'Delivery area north' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name: string;
+
+  @ApiPropertyOptional({ example: 'Served from the Appingedam depot' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  description?: string;
+
+  @ApiPropertyOptional({
+    description: 'Labels to find the region by, e.g. its kind or team',
+    type: [String],
+    example: ['service-area', 'groningen'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @MaxLength(100, { each: true })
+  tags?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Token subject of the user who may edit and delete the region; defaults to you, and only admins may name someone else',
+    example: 'user-42',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  owner?: string;
+
+  @ApiProperty({
+    description:
+      'WKT (POLYGON, MULTIPOLYGON, ENVELOPE or BBOX) or a GeoJSON Polygon or MultiPolygon (bare, wrapped in a Feature, or as a JSON string); validated like within-polygon regions',
+    oneOf: [{ type: 'string' }, { type: 'object', additionalProperties: true }],
+    example:
+      'POLYGON((6.85 53.31, 6.88 53.31, 6.88 53.33, 6.85 53.33, 6.85 53.31))',
+  })
+  @IsDefined()
+  @ValidateIf((body) => typeof body.geometry !== 'string')
+  @IsObject({
+    message: 'geometry must be WKT, a GeoJSON object or a JSON string',
+  })
+  geometry: string | Record<string, unknown>;
+}
+
+export class UpdateRegionDto extends PartialType(CreateRegionDto) {}
+
+export class RegionListQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only regions carrying this tag',
+    example: 'service-area',
+  })
+  @IsOptional()
+  @IsString()
+  tag?: string;
+
+  @ApiPropertyOptional({ description: 'Only regions of this owner' })
+  @IsOptional()
+  @IsString()
+  owner?: string;
+
+  @ApiPropertyOptional({
+    description: 'Maximum number of regions',
+    default: 50,
+    maximum: 500,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+
+  @ApiPropertyOptional({
+    description: 'Continue after this region id (the `next` of a page)',
+  })
+  @IsOptional()
+  @IsMongoId()
+  after?: string;
+}
+
+// A point, or a stored address whose location is used
+export class RegionsContainingQueryDto {
+  @ApiPropertyOptional({
+    description: 'Longitude of the point; required without address',
+    example: 6.8636568,
+  })
+  @ValidateIf((query) => query.address === undefined)
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  lon?: number;
+
+  @ApiPropertyOptional({
+    description: 'Latitude of the point; required without address',
+    example: 53.3246772,
+  })
+  @ValidateIf((query) => query.address === undefined)
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  lat?: number;
+
+  @ApiPropertyOptional({
+    description: 'properties.id of an address to locate instead of lon/lat',
+    example: '0003010000126739',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  address?: string;
+
+  @ApiPropertyOptional({
+    description: 'Dataset of the address; defaults to MAP_DEFAULT_DATASET',
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(DATASET_KEY_PATTERN)
+  dataset?: string;
+
+  @ApiPropertyOptional({ description: 'Only regions carrying this tag' })
+  @IsOptional()
+  @IsString()
+  tag?: string;
+
+  @ApiPropertyOptional({ description: 'Only regions of this owner' })
+  @IsOptional()
+  @IsString()
+  owner?: string;
+}
@@ -0,0 +1,74 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class RegionSummaryDto {
+  @ApiProperty({
+    description: 'Value to pass as `regionId` on region routes',
+    example: '6671b0c2f1a4e3d9c8b7a601',
+  })
+  id: string;
+
+  @ApiProperty({ example: 'Delivery area north' })
+  name: string;
+
+  @ApiProperty({ example: 'Served from the Appingedam depot' })
+  description: string;
+
+  @ApiProperty({ type: [String], example: ['service-area', 'groningen'] })
+  tags: string[];
+
+  @ApiProperty({
+    description: 'Token subject of the user who may change the region',
+    example: 'user-42',
+  })
+  owner: string;
+
+  @ApiProperty({
+    description: 'Bounding box as [minLon, minLat, maxLon, maxLat]',
+    type: [Number],
+    example: [6.85, 53.31, 6.88, 53.33],
+  })
+  bbox: [number, number, number, number];
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
+
+export class RegionResponseDto extends RegionSummaryDto {
+  @ApiProperty({
+    description: 'GeoJSON Polygon or MultiPolygon, as stored',
+    type: 'object',
+    additionalProperties: true,
+  })
+  geometry: Record<string, unknown>;
+
+  @ApiProperty({ description: 'Subject of the token that created it' })
+  createdBy: string;
+}
+
+export class RegionListResponseDto {
+  @ApiProperty({ type: [RegionSummaryDto] })
+  regions: RegionSummaryDto[];
+
+  @ApiPropertyOptional({
+    description: 'Pass as `after` for the next page; absent on the last one',
+  })
+  next?: string;
+}
+
+export class RegionsContainingResponseDto {
+  @ApiProperty({
+    description: 'The point looked up, as [longitude, latitude]',
+    type: [Number],
+    example: [6.8636568, 53.3246772],
+  })
+  point: [number, number];
+
+  @ApiProperty({
+    type: [RegionSummaryDto],
+    description: 'Saved regions containing the point, by name',
+  })
+  regions: RegionSummaryDto[];
+}
@@ -0,0 +1,86 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { MapRegionsService } from './map-regions.service';
+import { CreateRegionDto, UpdateRegionDto } from './dto/region-request.dto';
+import { RegionResponseDto } from './dto/region-response.dto';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { AuthUser } from '../../auth/auth-user.type';
+import {
+  ApiCommonProblemResponses,
+  ApiProblemResponse,
+} from '../../errors/api-problem-response.decorator';
+
+@ApiTags('Map')
+@ApiBearerAuth()
+@ApiCommonProblemResponses()
+@ApiProblemResponse(401, 'Missing or invalid bearer token')
+@UseGuards(AuthGuard('jwt'))
+@Controller({
+  path: 'map/regions',
+  version: '1',
+})
+export class MapRegionsWriteController {
+  constructor(private readonly regionsService: MapRegionsService) {}
+
+  @ApiOperation({ summary: 'Save a named region' })
+  @ApiResponse({
+    status: 201,
+    description: 'Returns the region with its normalized geometry',
+    type: RegionResponseDto,
+  })
+  @ApiProblemResponse(403, 'Only admins may set another owner')
+  @Post()
+  async create(
+    @Body() body: CreateRegionDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<RegionResponseDto> {
+    return await this.regionsService.create(body, user);
+  }
+
+  @ApiOperation({
+    summary: 'Change the name, tags, owner or geometry',
+    description:
+      'Open to the owner of the region and to admins; changing the owner hands the region over',
+  })
+  @ApiResponse({ status: 200, type: RegionResponseDto })
+  @ApiProblemResponse(403, 'The region belongs to someone else')
+  @ApiProblemResponse(404, 'No region with this id')
+  @Patch(':id')
+  async update(
+    @Param('id') id: string,
+    @Body() body: UpdateRegionDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<RegionResponseDto> {
+    return await this.regionsService.update(id, body, user);
+  }
+
+  @ApiOperation({ summary: 'Delete a saved region' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the deleted region',
+    type: RegionResponseDto,
+  })
+  @ApiProblemResponse(403, 'The region belongs to someone else')
+  @ApiProblemResponse(404, 'No region with this id')
+  @Delete(':id')
+  async remove(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<RegionResponseDto> {
+    return await this.regionsService.remove(id, user);
+  }
+}
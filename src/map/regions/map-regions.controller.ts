@@ -0,0 +1,73 @@
+import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from '@nestjs/swagger';
+import { MapRegionsService } from './map-regions.service';
+import {
+  RegionListQueryDto,
+  RegionsContainingQueryDto,
+} from './dto/region-request.dto';
+import {
+  RegionListResponseDto,
+  RegionResponseDto,
+  RegionsContainingResponseDto,
+} from './dto/region-response.dto';
+import {
+  ApiCommonProblemResponses,
+  ApiProblemResponse,
+} from '../../errors/api-problem-response.decorator';
+import { ApiKeyGuard } from '../../api-keys/guards/api-key.guard';
+
+@ApiTags('Map')
+@ApiSecurity('api-key')
+@ApiCommonProblemResponses()
+@ApiProblemResponse(401, 'Missing, unknown or revoked API key')
+@ApiProblemResponse(
+  429,
+  'Rate limit or monthly quota exceeded; retry after Retry-After',
+)
+@UseGuards(ApiKeyGuard)
+@Controller({
+  path: 'map/regions',
+  version: '1',
+})
+export class MapRegionsController {
+  constructor(private readonly regionsService: MapRegionsService) {}
+
+  @ApiOperation({ summary: 'List saved regions, optionally by tag or owner' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the regions without their geometry, oldest first',
+    type: RegionListResponseDto,
+  })
+  @Get()
+  async list(
+    @Query() query: RegionListQueryDto,
+  ): Promise<RegionListResponseDto> {
+    return await this.regionsService.list(query);
+  }
+
+  @ApiOperation({
+    summary: 'Saved regions that contain a point or an address',
+  })
+  @ApiResponse({ status: 200, type: RegionsContainingResponseDto })
+  @ApiProblemResponse(404, 'No address with this id')
+  @ApiProblemResponse(410, 'The address is retired')
+  @Get('containing')
+  async containing(
+    @Query() query: RegionsContainingQueryDto,
+  ): Promise<RegionsContainingResponseDto> {
+    return await this.regionsService.containing(query);
+  }
+
+  @ApiOperation({ summary: 'One saved region with its geometry' })
+  @ApiResponse({ status: 200, type: RegionResponseDto })
+  @ApiProblemResponse(404, 'No region with this id')
+  @Get(':id')
+  async get(@Param('id') id: string): Promise<RegionResponseDto> {
+    return await this.regionsService.get(id);
+  }
+}
@@ -0,0 +1,314 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, Types } from 'mongoose';
+import {
+  SavedRegion,
+  SavedRegionDocument,
+} from './schemas/saved-region.schema';
+import {
+  CreateRegionDto,
+  RegionListQueryDto,
+  RegionsContainingQueryDto,
+  UpdateRegionDto,
+} from './dto/region-request.dto';
+import {
+  RegionListResponseDto,
+  RegionResponseDto,
+  RegionsContainingResponseDto,
+  RegionSummaryDto,
+} from './dto/region-response.dto';
+import {
+  MapAddress,
+  MapAddressDocument,
+} from '../addresses/schemas/map-address.schema';
+import { parseRegion } from '../addresses/geometry/region-geometry';
+import { RegionGeometry } from '../addresses/geometry/region-geometry.type';
+import { MapAddressesCacheService } from '../addresses/map-addresses-cache.service';
+import { MapDatasetsService } from '../datasets/map-datasets.service';
+import { AuthUser } from '../../auth/auth-user.type';
+import {
+  ForbiddenError,
+  GoneError,
+  ResourceNotFoundError,
+} from '../../errors/domain-errors';
+import { toGeoServiceError, toServiceError } from '../../errors/service-errors';
+
+const DEFAULT_REGION_LIMIT = 50;
+
+// Regions a point lookup returns at most
+const CONTAINING_MAX_REGIONS = 500;
+
+// Everything but the geometry, for listings
+const SUMMARY_FIELDS = '-geometry';
+
+@Injectable()
+export class MapRegionsService {
+  constructor(
+    @InjectModel(SavedRegion.name)
+    private regionModel: Model<SavedRegionDocument>,
+    @InjectModel(MapAddress.name)
+    private mapAddressModel: Model<MapAddressDocument>,
+    private datasetsService: MapDatasetsService,
+    private cacheService: MapAddressesCacheService,
+  ) {}
+
+  async create(
+    body: CreateRegionDto,
+    author: AuthUser,
+  ): Promise<RegionResponseDto> {
+    try {
+      if (body.owner !== undefined) {
+        this.assertCanAssign(body.owner, author);
+      }
+      const geometry = parseRegion(body.geometry);
+      const doc = await this.regionModel.create({
+        name: body.name.trim(),
+        description: body.description ?? '',
+        tags: this.toTags(body.tags),
+        owner: body.owner ?? author.id,
+        geometry,
+        bbox: boundingBox(geometry),
+        createdBy: author.id,
+      });
+      await this.cacheService.invalidate();
+      return this.toResponse(doc);
+    } catch (error) {
+      throw toGeoServiceError(error, 'Failed to create region');
+    }
+  }
+
+  async update(
+    id: string,
+    body: UpdateRegionDto,
+    author: AuthUser,
+  ): Promise<RegionResponseDto> {
+    try {
+      const doc = await this.findRegion(id);
+      this.assertCanChange(doc, author);
+      if (body.name !== undefined) {
+        doc.name = body.name.trim();
+      }
+      if (body.description !== undefined) {
+        doc.description = body.description;
+      }
+      if (body.tags !== undefined) {
+        doc.tags = this.toTags(body.tags);
+      }
+      if (body.owner !== undefined) {
+        doc.owner = body.owner;
+      }
+      if (body.geometry !== undefined) {
+        doc.geometry = parseRegion(body.geometry);
+        doc.bbox = boundingBox(doc.geometry);
+      }
+      await doc.save();
+      // Queries by regionId now cover the new geometry
+      await this.cacheService.invalidate();
+      return this.toResponse(doc);
+    } catch (error) {
+      throw toGeoServiceError(error, 'Failed to update region');
+    }
+  }
+
+  async remove(id: string, author: AuthUser): Promise<RegionResponseDto> {
+    try {
+      const doc = await this.findRegion(id);
+      this.assertCanChange(doc, author);
+      await doc.deleteOne();
+      await this.cacheService.invalidate();
+      return this.toResponse(doc);
+    } catch (error) {
+      throw toServiceError(error, 'Failed to delete region');
+    }
+  }
+
+  // Regions in the order they were created, without their geometry
+  async list(query: RegionListQueryDto): Promise<RegionListResponseDto> {
+    try {
+      const limit = query.limit ?? DEFAULT_REGION_LIMIT;
+      const regions = await this.regionModel
+        .find({
+          ...this.toFilter(query),
+          ...(query.after
+            ? { _id: { $gt: new Types.ObjectId(query.after) } }
+            : {}),
+        })
+        .select(SUMMARY_FIELDS)
+        .sort({ _id: 1 })
+        .limit(limit + 1)
+        .exec();
+
+      const page = regions.slice(0, limit);
+      return {
+        regions: page.map((doc) => this.toSummary(doc)),
+        ...(regions.length > limit
+          ? { next: String(page[page.length - 1]._id) }
+          : {}),
+      };
+    } catch (error) {
+      throw toServiceError(error, 'Failed to list regions');
+    }
+  }
+
+  async get(id: string): Promise<RegionResponseDto> {
+    try {
+      return this.toResponse(await this.findRegion(id));
+    } catch (error) {
+      throw toServiceError(error, 'Failed to fetch region');
+    }
+  }
+
+  // Geometry of a saved region, for queries that take a regionId
+  async getGeometry(id: string): Promise<RegionGeometry> {
+    const region = Types.ObjectId.isValid(id)
+      ? await this.regionModel
+          .findById(id)
+          .select('geometry')
+          .lean<{ geometry: RegionGeometry }>()
+          .exec()
+      : null;
+    if (!region) {
+      throw new ResourceNotFoundError(`Region ${id} not found`);
+    }
+    return region.geometry;
+  }
+
+  /**
+   * Saved regions containing a point, or the location of a stored address.
+   * Points on a region's boundary count as inside.
+   */
+  async containing(
+    query: RegionsContainingQueryDto,
+  ): Promise<RegionsContainingResponseDto> {
+    try {
+      const point =
+        query.address !== undefined
+          ? await this.locateAddress(query.address, query.dataset)
+          : ([Number(query.lon), Number(query.lat)] as [number, number]);
+
+      const regions = await this.regionModel
+        .find({
+          ...this.toFilter(query),
+          geometry: {
+            $geoIntersects: {
+              $geometry: { type: 'Point', coordinates: point },
+            },
+          },
+        })
+        .select(SUMMARY_FIELDS)
+        .sort({ name: 1, _id: 1 })
+        .limit(CONTAINING_MAX_REGIONS)
+        .exec();
+
+      return { point, regions: regions.map((doc) => this.toSummary(doc)) };
+    } catch (error) {
+      throw toServiceError(error, 'Failed to look up regions');
+    }
+  }
+
+  private async findRegion(id: string): Promise<SavedRegionDocument> {
+    const region = Types.ObjectId.isValid(id)
+      ? await this.regionModel.findById(id).exec()
+      : null;
+    if (!region) {
+      throw new ResourceNotFoundError(`Region ${id} not found`);
+    }
+    return region;
+  }
+
+  // Only the owner of a region or an admin may edit or delete it
+  private assertCanChange(doc: SavedRegionDocument, author: AuthUser): void {
+    if (doc.owner !== author.id && !author.roles.includes('admin')) {
+      throw new ForbiddenError(
+        `Region ${String(doc._id)} belongs to ${doc.owner}; only its owner or an admin may change it`,
+      );
+    }
+  }
+
+  // Handing a region to someone else at creation takes an admin
+  private assertCanAssign(owner: string, author: AuthUser): void {
+    if (owner !== author.id && !author.roles.includes('admin')) {
+      throw new ForbiddenError(
+        'Only admins may create regions owned by someone else',
+      );
+    }
+  }
+
+  // Location of an active address; a merged one resolves to the record kept
+  private async locateAddress(
+    id: string,
+    dataset?: string,
+  ): Promise<[number, number]> {
+    const key = await this.datasetsService.resolveOne(dataset);
+    const doc = await this.mapAddressModel
+      .findOne({ dataset: key, 'properties.id': id })
+      .select('geometry retiredAt mergedInto')
+      .lean()
+      .exec();
+    if (!doc) {
+      throw new ResourceNotFoundError(`Address ${id} not found`);
+    }
+    if (doc.retiredAt) {
+      if (doc.mergedInto) {
+        return await this.locateAddress(doc.mergedInto, key);
+      }
+      throw new GoneError(`Address ${id} was retired`);
+    }
+    return doc.geometry.coordinates;
+  }
+
+  private toFilter(query: {
+    tag?: string;
+    owner?: string;
+  }): FilterQuery<SavedRegionDocument> {
+    return {
+      ...(query.tag ? { tags: query.tag.trim() } : {}),
+      ...(query.owner ? { owner: query.owner } : {}),
+    };
+  }
+
+  private toTags(tags?: string[]): string[] {
+    return [...new Set((tags ?? []).map((tag) => tag.trim()))];
+  }
+
+  private toSummary(doc: SavedRegionDocument): RegionSummaryDto {
+    return {
+      id: String(doc._id),
+      name: doc.name,
+      description: doc.description,
+      tags: doc.tags,
+      owner: doc.owner,
+      bbox: doc.bbox,
+      createdAt: doc.createdAt as Date,
+      updatedAt: doc.updatedAt as Date,
+    };
+  }
+
+  private toResponse(doc: SavedRegionDocument): RegionResponseDto {
+    return {
+      ...this.toSummary(doc),
+      geometry: doc.geometry,
+      createdBy: doc.createdBy,
+    };
+  }
+}
+
+function boundingBox(
+  geometry: RegionGeometry,
+): [number, number, number, number] {
+  const polygons =
+    geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  const box: [number, number, number, number] = [
+    Infinity,
+    Infinity,
+    -Infinity,
+    -Infinity,
+  ];
+  for (const [lon, lat] of polygons.flat(2)) {
+    box[0] = Math.min(box[0], lon);
+    box[1] = Math.min(box[1], lat);
+    box[2] = Math.max(box[2], lon);
+    box[3] = Math.max(box[3], lat);
+  }
+  return box;
+}
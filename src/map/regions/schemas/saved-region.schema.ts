@@ -0,0 +1,47 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { RegionGeometry } from '../../addresses/geometry/region-geometry.type';
+
+export type SavedRegionDocument = SavedRegion & Document;
+
+// A named polygon kept server-side, e.g. a service area or sales territory,
+// that region queries refer to by id instead of sending it inline
+@Schema({ timestamps: true, collection: 'regions', versionKey: false })
+export class SavedRegion {
+  @Prop({ type: String, required: true })
+  name: string;
+
+  @Prop({ type: String, default: '' })
+  description: string;
+
+  @Prop({ type: [String], default: [] })
+  tags: string[];
+
+  // Token subject of the user who, besides admins, may change the region;
+  // the creator unless an admin assigned it
+  @Prop({ type: String, required: true })
+  owner: string;
+
+  // Validated and RFC 7946-wound by parseRegion before it is stored
+  @Prop({ type: Object, required: true })
+  geometry: RegionGeometry;
+
+  // [minLon, minLat, maxLon, maxLat] of the geometry, so listings can
+  // leave the geometry out
+  @Prop({ type: [Number], required: true })
+  bbox: [number, number, number, number];
+
+  // Subject of the token that created the region
+  @Prop({ type: String, required: true })
+  createdBy: string;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const SavedRegionSchema = SchemaFactory.createForClass(SavedRegion);
+
+SavedRegionSchema.index({ geometry: '2dsphere' });
+SavedRegionSchema.index({ tags: 1 });
+SavedRegionSchema.index({ owner: 1 });
+SavedRegionSchema.index({ updatedAt: -1 });
@@ -0,0 +1,26 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { NextFunction, Request, Response } from 'express';
+import { MetricsService } from './metrics.service';
+
+// Records every response under its route pattern, not the raw URL, so
+// ids and tile coordinates do not create a series each
+@Injectable()
+export class HttpMetricsMiddleware implements NestMiddleware {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  use(request: Request, response: Response, next: NextFunction): void {
+    const start = process.hrtime.bigint();
+    response.on('finish', () => {
+      const route = request.route?.path
+        ? `${request.baseUrl}${String(request.route.path)}`
+        : 'unmatched';
+      this.metricsService.observeRequest(
+        request.method,
+        route,
+        response.statusCode,
+        Number(process.hrtime.bigint() - start) / 1e9,
+      );
+    });
+    next();
+  }
+}
@@ -0,0 +1,143 @@
+// Minimal Prometheus instruments rendered in the text exposition format
+// (version 0.0.4). Only counters, histograms and gauges read on scrape
+// are implemented; labels are kept in first-seen order.
+
+type Labels = Record<string, string>;
+
+const escapeLabel = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (labels: Labels) => {
+  const entries = Object.entries(labels);
+  return entries.length
+    ? `{${entries.map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(',')}}`
+    : '';
+};
+
+const formatValue = (value: number) =>
+  Number.isFinite(value) ? String(value) : value > 0 ? '+Inf' : '-Inf';
+
+interface Metric {
+  render(): string;
+}
+
+abstract class LabelledMetric<T> implements Metric {
+  protected readonly series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly type: string,
+    private readonly labelNames: readonly string[],
+  ) {}
+
+  protected seriesFor(values: Labels, create: () => T): T {
+    const labels = Object.fromEntries(
+      this.labelNames.map((name) => [name, values[name] ?? '']),
+    );
+    const key = JSON.stringify(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, value: create() };
+      this.series.set(key, entry);
+    }
+    return entry.value;
+  }
+
+  render(): string {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+    ];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, value));
+    }
+    return lines.join('\n');
+  }
+
+  protected abstract renderSeries(labels: Labels, value: T): string[];
+}
+
+export class Counter extends LabelledMetric<{ value: number }> {
+  constructor(name: string, help: string, labelNames: readonly string[] = []) {
+    super(name, help, 'counter', labelNames);
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    this.seriesFor(labels, () => ({ value: 0 })).value += amount;
+  }
+
+  protected renderSeries(labels: Labels, { value }: { value: number }) {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+type HistogramSeries = { counts: number[]; sum: number; count: number };
+
+export class Histogram extends LabelledMetric<HistogramSeries> {
+  constructor(
+    name: string,
+    help: string,
+    labelNames: readonly string[],
+    private readonly buckets: readonly number[],
+  ) {
+    super(name, help, 'histogram', labelNames);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const series = this.seriesFor(labels, () => ({
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    }));
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) {
+        series.counts[i]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  protected renderSeries(labels: Labels, series: HistogramSeries) {
+    return [
+      ...this.buckets.map(
+        (bound, i) =>
+          `${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${series.counts[i]}`,
+      ),
+      `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${series.count}`,
+      `${this.name}_sum${formatLabels(labels)} ${formatValue(series.sum)}`,
+      `${this.name}_count${formatLabels(labels)} ${series.count}`,
+    ];
+  }
+}
+
+// Value read when the registry is scraped, e.g. process memory
+export class Gauge implements Metric {
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly read: () => number,
+  ) {}
+
+  render(): string {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} gauge`,
+      `${this.name} ${formatValue(this.read())}`,
+    ].join('\n');
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics: Metric[] = [];
+
+  register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  render(): string {
+    return `${this.metrics.map((metric) => metric.render()).join('\n')}\n`;
+  }
+}
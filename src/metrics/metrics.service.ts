@@ -0,0 +1,117 @@
+import { Injectable } from '@nestjs/common';
+import { Counter, Gauge, Histogram, MetricsRegistry } from './metrics-registry';
+
+const LATENCY_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+const SIZE_BUCKETS = [0, 1, 5, 10, 25, 50, 100, 250, 500, 1000, 5000, 50000];
+
+/**
+ * Process-wide instruments. Operations are short, fixed names chosen by
+ * the caller ("search", "reverse", ...) so the label sets stay small.
+ */
+@Injectable()
+export class MetricsService {
+  private readonly registry = new MetricsRegistry();
+
+  private readonly requestDuration = this.registry.register(
+    new Histogram(
+      'http_request_duration_seconds',
+      'HTTP request latency by route',
+      ['method', 'route', 'status'],
+      LATENCY_BUCKETS,
+    ),
+  );
+
+  private readonly resultSize = this.registry.register(
+    new Histogram(
+      'map_result_size',
+      'Features or suggestions returned per response',
+      ['operation'],
+      SIZE_BUCKETS,
+    ),
+  );
+
+  private readonly candidatePoolSize = this.registry.register(
+    new Histogram(
+      'map_search_candidate_pool_size',
+      'Candidates fetched from MongoDB before scoring',
+      ['operation'],
+      SIZE_BUCKETS,
+    ),
+  );
+
+  private readonly queryDuration = this.registry.register(
+    new Histogram(
+      'map_mongo_query_duration_seconds',
+      'MongoDB query duration by operation',
+      ['operation'],
+      LATENCY_BUCKETS,
+    ),
+  );
+
+  private readonly queryErrors = this.registry.register(
+    new Counter(
+      'map_mongo_query_errors_total',
+      'MongoDB queries that failed, by operation',
+      ['operation'],
+    ),
+  );
+
+  constructor() {
+    this.registry.register(
+      new Gauge(
+        'process_resident_memory_bytes',
+        'Resident memory size in bytes',
+        () => process.memoryUsage().rss,
+      ),
+    );
+    this.registry.register(
+      new Gauge(
+        'process_uptime_seconds',
+        'Seconds since the process started',
+        () => Math.round(process.uptime()),
+      ),
+    );
+  }
+
+  observeRequest(
+    method: string,
+    route: string,
+    status: number,
+    seconds: number,
+  ): void {
+    this.requestDuration.observe(
+      { method, route, status: String(status) },
+      seconds,
+    );
+  }
+
+  observeResultSize(operation: string, size: number): void {
+    this.resultSize.observe({ operation }, size);
+  }
+
+  observeCandidatePool(operation: string, size: number): void {
+    this.candidatePoolSize.observe({ operation }, size);
+  }
+
+  // Times a query from the moment it was sent until it settles
+  async timeQuery<T>(operation: string, query: Promise<T>): Promise<T> {
+    const start = process.hrtime.bigint();
+    try {
+      return await query;
+    } catch (error) {
+      this.queryErrors.inc({ operation });
+      throw error;
+    } finally {
+      this.queryDuration.observe(
+        { operation },
+        Number(process.hrtime.bigint() - start) / 1e9,
+      );
+    }
+  }
+
+  render(): string {
+    return this.registry.render();
+  }
+}
@@ -0,0 +1,33 @@
+import { ValidationError, ValidationPipeOptions } from '@nestjs/common';
+import { InvalidInputError, ValidationProblem } from '../errors/domain-errors';
+
+// One entry per invalid field, nested DTOs flattened to dotted paths
+function toValidationProblems(
+  errors: ValidationError[],
+  parent = '',
+): ValidationProblem[] {
+  return errors.flatMap((error) => {
+    const field = parent ? `${parent}.${error.property}` : error.property;
+    const own = error.constraints
+      ? [{ field, messages: Object.values(error.constraints) }]
+      : [];
+    return [...own, ...toValidationProblems(error.children ?? [], field)];
+  });
+}
+
+const validationOptions: ValidationPipeOptions = {
+  transform: true,
+  // Properties without validation decorators are dropped
+  whitelist: true,
+  exceptionFactory: (errors: ValidationError[]) => {
+    const problems = toValidationProblems(errors);
+    return new InvalidInputError(
+      problems
+        .map(({ field, messages }) => `${field}: ${messages.join(', ')}`)
+        .join('; '),
+      problems,
+    );
+  },
+};
+
+export default validationOptions;